@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { getAnalysisFaces } from "@/lib/api";
+
+// Photo with numbered face boxes, and each person's face crop next to their profile summary.
+// Renders nothing for analyses without faces, or when the server can't render the images.
+export function AnalysisFaces({ analysisId }: { analysisId: number }) {
+  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+  const { data } = useQuery({
+    queryKey: ["/api/analysis", analysisId, "faces"],
+    queryFn: () => getAnalysisFaces(analysisId),
+  });
+
+  if (!data || data.people.length === 0) {
+    return null;
+  }
+
+  const handleImageError = (url: string) => setFailedImages(prev => new Set(prev).add(url));
+  const showAnnotated = data.annotatedUrl && !failedImages.has(data.annotatedUrl);
+
+  return (
+    <div className="p-4 rounded-lg bg-white border border-gray-200 shadow-sm space-y-4">
+      <h3 className="font-bold text-lg">People in the Photo</h3>
+
+      {showAnnotated && (
+        <img
+          src={data.annotatedUrl!}
+          alt="Photo with a numbered box around each face"
+          className="w-full rounded-md"
+          onError={() => handleImageError(data.annotatedUrl!)}
+        />
+      )}
+
+      <div className="space-y-3">
+        {data.people.map(person => (
+          <div key={person.personIndex} className="flex items-start gap-3">
+            {failedImages.has(person.cropUrl) ? (
+              <div className="w-20 h-20 flex-shrink-0 rounded-md bg-gray-100 flex items-center justify-center text-2xl font-bold text-gray-500">
+                {person.personIndex}
+              </div>
+            ) : (
+              <img
+                src={person.cropUrl}
+                alt={person.personLabel}
+                className="w-20 h-20 flex-shrink-0 rounded-md object-cover"
+                onError={() => handleImageError(person.cropUrl)}
+              />
+            )}
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{person.personLabel}</span>
+                {person.status !== "analyzed" && (
+                  <Badge variant="secondary">Not analyzed</Badge>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground line-clamp-3">
+                {person.status === "poor_quality"
+                  ? "Skipped because the face was not clear enough to analyze."
+                  : person.status === "not_selected"
+                    ? "Not selected for analysis."
+                    : person.summary || "No summary available"}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { getEmotionTimeline, type EmotionTimelineTrack } from "@/lib/api";
+import { EMOTION_COLORS, MAX_CHARTED_EMOTIONS, OTHER_EMOTION_COLOR, SENTIMENT_COLOR } from "@shared/emotions";
+
+type ChartRow = { time: number } & Record<string, number>;
+
+function formatTime(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// One row per point in time. Face emotions are read at single frames; Video Indexer emotions
+// and utterance sentiment last a while, so they rise at their start and drop back to 0 at their end.
+function chartRows(track: EmotionTimelineTrack, emotions: string[]): ChartRow[] {
+  const rows: ChartRow[] = [];
+  track.faceEmotions.forEach(sample => {
+    const row: ChartRow = { time: sample.timestamp };
+    emotions.forEach(emotion => {
+      if (sample.emotions[emotion] !== undefined) row[emotion] = sample.emotions[emotion];
+    });
+    rows.push(row);
+  });
+  track.emotionSpans.filter(span => emotions.includes(span.emotion)).forEach(span => {
+    rows.push({ time: span.start, [span.emotion]: span.confidence } as ChartRow);
+    rows.push({ time: span.end, [span.emotion]: 0 } as ChartRow);
+  });
+  track.sentiment.forEach(span => {
+    rows.push({ time: span.start, sentiment: span.score } as ChartRow);
+    rows.push({ time: span.end, sentiment: 0 } as ChartRow);
+  });
+  return rows.sort((a, b) => a.time - b.time);
+}
+
+// Per-person emotion and sentiment over a video or recording, one chart per person.
+// Renders nothing for analyses without a timeline.
+export function AnalysisEmotionTimeline({ analysisId }: { analysisId: number }) {
+  const { data: timeline } = useQuery({
+    queryKey: ["/api/analysis", analysisId, "emotion-timeline"],
+    queryFn: () => getEmotionTimeline(analysisId),
+  });
+
+  if (!timeline || timeline.tracks.length === 0) {
+    return null;
+  }
+
+  const emotions = timeline.emotions.slice(0, MAX_CHARTED_EMOTIONS);
+  const config: ChartConfig = {
+    ...Object.fromEntries(emotions.map(emotion => [emotion, {
+      label: emotion.charAt(0).toUpperCase() + emotion.slice(1),
+      color: EMOTION_COLORS[emotion] || OTHER_EMOTION_COLOR,
+    }])),
+    sentiment: { label: "Sentiment", color: SENTIMENT_COLOR },
+  };
+
+  return (
+    <div className="p-4 rounded-lg bg-white border border-gray-200 shadow-sm space-y-4">
+      <div>
+        <h3 className="font-bold text-lg">Emotion Timeline</h3>
+        <p className="text-sm text-muted-foreground">
+          Emotion scores from 0 to 1, and the sentiment of what was said from -1 (negative) to 1 (positive).
+        </p>
+      </div>
+
+      {timeline.tracks.map(track => {
+        const rows = chartRows(track, emotions);
+        const lineType = track.emotionSpans.length > 0 ? "stepAfter" : "monotone";
+        const shownEmotions = emotions.filter(emotion => rows.some(row => row[emotion] !== undefined));
+        return (
+          <div key={track.personLabel} className="space-y-1">
+            <div className="font-semibold text-sm">
+              {track.personName ? `${track.personName} (${track.personLabel})` : track.personLabel}
+            </div>
+            <ChartContainer config={config} className="aspect-auto h-48 w-full">
+              <LineChart data={rows} margin={{ top: 5, right: 10, bottom: 0, left: -20 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={[timeline.start, timeline.end]}
+                  tickFormatter={formatTime}
+                  tickLine={false}
+                />
+                <YAxis domain={[-1, 1]} ticks={[-1, 0, 1]} tickLine={false} />
+                <ReferenceLine y={0} stroke="#d1d5db" />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload?.[0]?.payload?.time ?? 0)} />}
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {shownEmotions.map(emotion => (
+                  <Line
+                    key={emotion}
+                    dataKey={emotion}
+                    type={lineType}
+                    stroke={`var(--color-${emotion})`}
+                    strokeWidth={2}
+                    dot={track.faceEmotions.length > 0 ? { r: 2 } : false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                ))}
+                {track.sentiment.length > 0 && (
+                  <Line
+                    dataKey="sentiment"
+                    type="stepAfter"
+                    stroke="var(--color-sentiment)"
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                )}
+              </LineChart>
+            </ChartContainer>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
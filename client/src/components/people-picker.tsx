@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { FaceDetection, PersonSelection } from "@/lib/api";
+
+interface PeoplePickerProps {
+  detection: FaceDetection | null;
+  onConfirm: (people: PersonSelection[]) => void;
+  onCancel: () => void;
+}
+
+// Second step of a photo analysis: choose which of the detected people to analyze,
+// and optionally give them names or roles that the analysis will use
+export function PeoplePicker({ detection, onConfirm, onCancel }: PeoplePickerProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [names, setNames] = useState<Record<number, string>>({});
+
+  // Start with every face that is clear enough to analyze
+  useEffect(() => {
+    if (!detection) return;
+    setSelected(new Set(detection.people
+      .filter(person => person.qualityAssessment.verdict !== "unusable")
+      .map(person => person.personIndex)));
+    setNames({});
+  }, [detection]);
+
+  const toggle = (personIndex: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(personIndex);
+      else next.delete(personIndex);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    onConfirm(Array.from(selected).map(personIndex => ({
+      personIndex,
+      ...(names[personIndex]?.trim() && { name: names[personIndex].trim() })
+    })));
+  };
+
+  return (
+    <Dialog open={!!detection} onOpenChange={open => { if (!open) onCancel(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Who should be analyzed?</DialogTitle>
+          <DialogDescription>
+            Choose the people to analyze and, if you like, give them a name or role such as "Interviewer" or "Candidate".
+          </DialogDescription>
+        </DialogHeader>
+
+        {detection?.annotatedImage && (
+          <img src={detection.annotatedImage} alt="Photo with a numbered box around each face" className="w-full rounded-md" />
+        )}
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {detection?.people.map(person => {
+            const unusable = person.qualityAssessment.verdict === "unusable";
+            const issues = person.qualityAssessment.issues.map(issue => issue.message).join("; ");
+            return (
+              <div key={person.personIndex} className="flex items-center gap-3">
+                <Checkbox
+                  checked={selected.has(person.personIndex)}
+                  disabled={unusable}
+                  onCheckedChange={checked => toggle(person.personIndex, checked === true)}
+                  aria-label={`Analyze ${person.personLabel}`}
+                />
+                {person.cropImage ? (
+                  <img src={person.cropImage} alt={person.personLabel} className="w-14 h-14 flex-shrink-0 rounded-md object-cover" />
+                ) : (
+                  <div className="w-14 h-14 flex-shrink-0 rounded-md bg-gray-100 flex items-center justify-center text-xl font-bold text-gray-500">
+                    {person.personIndex}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0 space-y-1">
+                  <Input
+                    placeholder={person.personLabel}
+                    value={names[person.personIndex] || ""}
+                    disabled={unusable || !selected.has(person.personIndex)}
+                    maxLength={60}
+                    onChange={e => setNames(prev => ({ ...prev, [person.personIndex]: e.target.value }))}
+                  />
+                  {issues && (
+                    <p className={`text-xs ${unusable ? "text-destructive" : "text-amber-600"}`}>
+                      {unusable ? "Can't be analyzed: " : "Lower confidence: "}{issues}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={selected.size === 0}>
+            Analyze {selected.size} {selected.size === 1 ? "person" : "people"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
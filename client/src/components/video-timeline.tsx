@@ -0,0 +1,197 @@
+import { useRef, useState } from "react";
+import { X } from "lucide-react";
+import type { VideoTimeline as VideoTimelineData } from "@/lib/api";
+
+// A part of the video to analyze, in seconds
+export interface VideoSegment {
+  start: number;
+  duration: number;
+}
+
+interface VideoTimelineProps {
+  duration: number;
+  timeline: VideoTimelineData | null; // Null until the thumbnails and waveform are built, or if they couldn't be
+  loading: boolean;
+  segments: VideoSegment[];
+  analyzedSegments: VideoSegment[];
+  minSegmentDuration: number;
+  maxSegmentDuration: number;
+  maxSegments: number;
+  disabled?: boolean;
+  onSegmentsChange: (segments: VideoSegment[]) => void;
+  onSeek?: (time: number) => void;
+}
+
+// Drags shorter than this count as a click, which selects a full-length segment from that point
+const CLICK_SECONDS = 0.3;
+
+const round = (seconds: number) => Math.round(seconds * 10) / 10;
+
+function formatTime(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+function overlaps(a: VideoSegment, b: VideoSegment): boolean {
+  return a.start < b.start + b.duration && b.start < a.start + a.duration;
+}
+
+// Thumbnail strip and audio waveform of a video, for drag-selecting the segments to analyze.
+// Segments that have already been analyzed are marked in green.
+export function VideoTimeline({
+  duration,
+  timeline,
+  loading,
+  segments,
+  analyzedSegments,
+  minSegmentDuration,
+  maxSegmentDuration,
+  maxSegments,
+  disabled,
+  onSegmentsChange,
+  onSeek
+}: VideoTimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [dragAnchor, setDragAnchor] = useState<number | null>(null);
+  const [draft, setDraft] = useState<VideoSegment | null>(null);
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(duration, Math.max(0, (clientX - rect.left) / rect.width * duration));
+  };
+
+  // A segment dragged from the anchor towards the pointer, no longer than the analysis allows
+  const segmentFrom = (anchor: number, time: number): VideoSegment => {
+    const length = Math.min(maxSegmentDuration, Math.abs(time - anchor));
+    const start = time < anchor ? anchor - length : anchor;
+    return { start: round(start), duration: round(length) };
+  };
+
+  // Clicks and very short drags select as much as a segment can hold, kept inside the video
+  const finalize = (segment: VideoSegment): VideoSegment | null => {
+    let { start, duration: length } = segment;
+    if (length < CLICK_SECONDS) {
+      length = Math.min(maxSegmentDuration, duration);
+      start = Math.min(start, duration - length);
+    }
+    if (length < Math.min(minSegmentDuration, duration)) {
+      length = Math.min(minSegmentDuration, duration);
+      start = Math.min(start, duration - length);
+    }
+    return length > 0 ? { start: round(Math.max(0, start)), duration: round(length) } : null;
+  };
+
+  const left = (seconds: number) => `${duration > 0 ? seconds / duration * 100 : 0}%`;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || duration <= 0 || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e.clientX);
+    setDragAnchor(time);
+    setDraft({ start: round(time), duration: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragAnchor === null) return;
+    setDraft(segmentFrom(dragAnchor, timeAt(e.clientX)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragAnchor === null) return;
+    const segment = finalize(segmentFrom(dragAnchor, timeAt(e.clientX)));
+    setDragAnchor(null);
+    setDraft(null);
+    if (!segment) return;
+
+    onSeek?.(segment.start);
+    // A new segment replaces any it overlaps; past the limit, the oldest selection gives way
+    const kept = segments.filter(existing => !overlaps(existing, segment));
+    onSegmentsChange([...kept, segment].slice(-maxSegments).sort((a, b) => a.start - b.start));
+  };
+
+  const removeSegment = (index: number) => {
+    onSegmentsChange(segments.filter((_, i) => i !== index));
+  };
+
+  const waveform = timeline?.waveform;
+
+  return (
+    <div className="space-y-1">
+      <div
+        ref={trackRef}
+        className={`relative select-none touch-none rounded-md overflow-hidden bg-gray-800 ${disabled ? "opacity-60" : "cursor-crosshair"}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { setDragAnchor(null); setDraft(null); }}
+      >
+        <div className="flex h-14">
+          {timeline && timeline.thumbnails.length > 0 ? (
+            timeline.thumbnails.map(thumbnail => (
+              <img
+                key={thumbnail.timestamp}
+                src={thumbnail.image}
+                alt={`Frame at ${formatTime(thumbnail.timestamp)}`}
+                className="flex-1 min-w-0 h-full object-cover pointer-events-none"
+                draggable={false}
+              />
+            ))
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-xs text-gray-300">
+              {loading ? "Building timeline..." : "No thumbnails available"}
+            </div>
+          )}
+        </div>
+
+        <svg className="block w-full h-8 bg-gray-900" viewBox={`0 0 ${waveform?.length || 1} 1`} preserveAspectRatio="none">
+          {waveform?.map((energy, i) => (
+            <rect key={i} x={i + 0.1} width={0.8} y={(1 - energy) / 2} height={Math.max(0.02, energy)} className="fill-sky-400" />
+          ))}
+        </svg>
+
+        {analyzedSegments.map((segment, i) => (
+          <div
+            key={`analyzed-${i}`}
+            className="absolute inset-y-0 bg-green-500/25 border-x-2 border-green-500 pointer-events-none"
+            style={{ left: left(segment.start), width: left(segment.duration) }}
+            title={`Analyzed ${formatTime(segment.start)}-${formatTime(segment.start + segment.duration)}`}
+          />
+        ))}
+
+        {segments.map((segment, i) => (
+          <div
+            key={`selected-${segment.start}`}
+            className="absolute inset-y-0 bg-blue-500/30 border-2 border-blue-400 rounded-sm"
+            style={{ left: left(segment.start), width: left(segment.duration) }}
+          >
+            {!disabled && (
+              <button
+                type="button"
+                className="absolute top-0.5 right-0.5 rounded-full bg-white/90 p-0.5 text-blue-900 hover:bg-white"
+                onPointerDown={e => e.stopPropagation()}
+                onClick={() => removeSegment(i)}
+                aria-label={`Remove segment at ${formatTime(segment.start)}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        ))}
+
+        {draft && draft.duration > 0 && (
+          <div
+            className="absolute inset-y-0 bg-blue-300/30 border-2 border-dashed border-blue-300 pointer-events-none"
+            style={{ left: left(draft.start), width: left(draft.duration) }}
+          />
+        )}
+      </div>
+
+      <div className="flex justify-between text-xs text-blue-600">
+        <span>{formatTime(0)}</span>
+        {waveform === null && <span>No audio track</span>}
+        <span>{formatTime(duration)}</span>
+      </div>
+    </div>
+  );
+}
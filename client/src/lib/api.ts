@@ -2,10 +2,235 @@ import { apiRequest } from "./queryClient";
 
 // Type definitions for enhanced API functionality
 export type ModelType = "deepseek" | "openai" | "anthropic" | "perplexity";
-export type MediaType = "image" | "video" | "document" | "text";
+export type MediaType = "image" | "video" | "audio" | "document" | "text";
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
 
+// Progress of a server-side analysis job
+export interface JobProgress {
+  id: string;
+  type: string;
+  status: JobStatus;
+  stage: string;
+  progress: number;
+  message: string;
+  result?: any;
+  error?: string;
+}
+
+export type JobProgressHandler = (job: JobProgress) => void;
+
+export async function getJob(jobId: string): Promise<JobProgress> {
+  const res = await apiRequest("GET", `/api/jobs/${jobId}`, null);
+  return res.json();
+}
+
+export async function cancelJob(jobId: string) {
+  const res = await apiRequest("POST", `/api/jobs/${jobId}/cancel`, null);
+  return res.json();
+}
+
+// Follow an analysis job until it finishes and resolve with its result.
+// Uses server-sent events, falling back to polling if the stream can't be opened.
+export function waitForJob(jobId: string, onProgress?: JobProgressHandler): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let finished = false;
+    
+    const handleUpdate = (job: JobProgress) => {
+      if (finished) return;
+      onProgress?.(job);
+      
+      if (job.status === "completed") {
+        finished = true;
+        resolve(job.result);
+      } else if (job.status === "failed") {
+        finished = true;
+        reject(new Error(job.error || "Analysis failed"));
+      } else if (job.status === "cancelled") {
+        finished = true;
+        reject(new Error("Analysis cancelled"));
+      }
+    };
+    
+    const poll = async () => {
+      while (!finished) {
+        try {
+          handleUpdate(await getJob(jobId));
+        } catch (error) {
+          finished = true;
+          reject(error);
+          return;
+        }
+        await new Promise(r => setTimeout(r, 2000));
+      }
+    };
+    
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    const listener = (event: MessageEvent) => {
+      handleUpdate(JSON.parse(event.data));
+      if (finished) source.close();
+    };
+    
+    ["queued", "running", "completed", "failed", "cancelled"].forEach(status => {
+      source.addEventListener(status, listener as EventListener);
+    });
+    
+    source.onerror = () => {
+      // EventSource retries dropped connections itself; only fall back once it gives up
+      if (source.readyState === EventSource.CLOSED && !finished) {
+        poll();
+      }
+    };
+  });
+}
+
+// A file stored on the server, referenced by id when analyzing and re-analyzing it
+export interface UploadedMedia {
+  mediaId: string;
+  mediaType: "image" | "video" | "audio";
+  mimeType: string;
+  fileName: string;
+  size: number;
+}
+
+// Fraction of the file sent so far, from 0 to 1
+export type UploadProgressHandler = (fraction: number) => void;
+
+// Files above this go up in resumable chunks rather than in one multipart request
+const RESUMABLE_UPLOAD_BYTES = 8 * 1024 * 1024;
+const CHUNK_RETRIES = 3;
+
+async function uploadMultipart(file: Blob, fileName: string, sessionId: string): Promise<UploadedMedia> {
+  const form = new FormData();
+  form.append("sessionId", sessionId);
+  form.append("file", file, fileName);
+  const res = await fetch("/api/uploads", { method: "POST", body: form, credentials: "include" });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return res.json();
+}
+
+// Send the file chunk by chunk. A failed chunk is retried from wherever the server says
+// the upload got to, so a dropped connection only costs the chunk in flight.
+async function uploadResumable(
+  file: Blob,
+  fileName: string,
+  sessionId: string,
+  onProgress?: UploadProgressHandler
+): Promise<UploadedMedia> {
+  const startRes = await apiRequest("POST", "/api/uploads/resumable", {
+    sessionId,
+    fileName,
+    mimeType: file.type,
+    size: file.size
+  });
+  const { uploadId, chunkSize } = await startRes.json();
+
+  let received = 0;
+  let failures = 0;
+  while (true) {
+    const chunk = file.slice(received, received + chunkSize);
+    try {
+      const res = await fetch(`/api/uploads/resumable/${uploadId}?offset=${received}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: chunk,
+        credentials: "include"
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      const result = await res.json();
+      received = result.received;
+      failures = 0;
+      onProgress?.(received / file.size);
+      if (result.media) {
+        return result.media;
+      }
+    } catch (error) {
+      if (++failures > CHUNK_RETRIES) {
+        throw error;
+      }
+      console.warn(`Chunk at ${received} failed, resuming:`, error);
+      await new Promise(resolve => setTimeout(resolve, 1000 * failures));
+      const statusRes = await apiRequest("GET", `/api/uploads/resumable/${uploadId}?sessionId=${encodeURIComponent(sessionId)}`);
+      received = (await statusRes.json()).received;
+    }
+  }
+}
+
+// Upload a photo, video or recording once; analyses then refer to it by its media id
+export async function uploadFile(
+  file: Blob,
+  fileName: string,
+  sessionId: string,
+  onProgress?: UploadProgressHandler
+): Promise<UploadedMedia> {
+  if (file.size <= RESUMABLE_UPLOAD_BYTES) {
+    const media = await uploadMultipart(file, fileName, sessionId);
+    onProgress?.(1);
+    return media;
+  }
+  return uploadResumable(file, fileName, sessionId, onProgress);
+}
+
+// A face found in a photo before analysis, for the user to choose and name
+export interface DetectedPerson {
+  personIndex: number;
+  personLabel: string;
+  boundingBox: { left: number; top: number; width: number; height: number };
+  qualityAssessment: {
+    verdict: "good" | "degraded" | "unusable";
+    issues: { code: string; severity: "degraded" | "unusable"; message: string; suggestion: string }[];
+  };
+  cropImage: string | null; // Data URL, null if the server couldn't render crops
+}
+
+export interface FaceDetection {
+  detectionId: string;
+  annotatedImage: string | null;
+  people: DetectedPerson[];
+}
+
+// Who to analyze from a detection, with an optional name or role like "Interviewer"
+export interface PersonSelection {
+  personIndex: number;
+  name?: string;
+}
+
+// First step of a photo analysis: find the faces so the user can choose who to analyze
+export async function detectFaces(
+  mediaId: string,
+  sessionId: string,
+  maxPeople: number = 5,
+  onProgress?: JobProgressHandler
+): Promise<FaceDetection> {
+  const res = await apiRequest("POST", "/api/analyze/detect", { mediaId, sessionId, maxPeople });
+  const { jobId } = await res.json();
+  return waitForJob(jobId, onProgress);
+}
+
+// Thumbnails and audio loudness along an uploaded video, for choosing segments to analyze
+export interface VideoTimeline {
+  duration: number;
+  thumbnails: { timestamp: number; image: string }[]; // Data URLs
+  waveform: number[] | null; // 0-1 per bucket, null when the video has no audio
+  waveformBucketSeconds: number;
+}
+
+export async function getVideoTimeline(
+  mediaId: string,
+  sessionId: string,
+  onProgress?: JobProgressHandler
+): Promise<VideoTimeline> {
+  const res = await apiRequest("POST", "/api/analyze/timeline", { mediaId, sessionId });
+  const { jobId } = await res.json();
+  return waitForJob(jobId, onProgress);
+}
+
+// Analyze an uploaded file; see uploadFile
 export async function uploadMedia(
-  mediaData: string, 
+  mediaId: string, 
   mediaType: MediaType, 
   sessionId: string,
   options: {
@@ -15,6 +240,10 @@ export async function uploadMedia(
     documentType?: "pdf" | "docx" | "other";
     videoSegmentStart?: number;
     videoSegmentDuration?: number;
+    videoMode?: "segment" | "full";
+    detectionId?: string;
+    people?: PersonSelection[];
+    onProgress?: JobProgressHandler;
   } = {}
 ) {
   const { 
@@ -23,13 +252,17 @@ export async function uploadMedia(
     title,
     documentType,
     videoSegmentStart = 0,
-    videoSegmentDuration = 3
+    videoSegmentDuration = 3,
+    videoMode = "segment",
+    detectionId,
+    people,
+    onProgress
   } = options;
   
   console.log(`Uploading ${mediaType} for analysis with model: ${selectedModel}, sessionId: ${sessionId}`);
   
   const res = await apiRequest("POST", "/api/analyze", { 
-    mediaData, 
+    mediaId, 
     mediaType, 
     sessionId,
     maxPeople,
@@ -37,10 +270,14 @@ export async function uploadMedia(
     title,
     documentType,
     videoSegmentStart,
-    videoSegmentDuration
+    videoSegmentDuration,
+    videoMode,
+    detectionId,
+    people
   });
   
-  const data = await res.json();
+  const { jobId } = await res.json();
+  const data = await waitForJob(jobId, onProgress);
   console.log("Media analysis response:", data);
   
   // Extract the analysis text into a proper message format if missing
@@ -101,7 +338,8 @@ export async function analyzeText(
   content: string, 
   sessionId: string, 
   selectedModel: ModelType = "deepseek",
-  title?: string
+  title?: string,
+  onProgress?: JobProgressHandler
 ) {
   console.log(`Analyzing text with model: ${selectedModel}, sessionId: ${sessionId}`);
   
@@ -112,7 +350,8 @@ export async function analyzeText(
     title
   });
   
-  const data = await res.json();
+  const { jobId } = await res.json();
+  const data = await waitForJob(jobId, onProgress);
   console.log("Text analysis response:", data);
   
   // Extract the analysis text into a proper message format if missing
@@ -150,7 +389,8 @@ export async function analyzeDocument(
   fileType: "pdf" | "docx",
   sessionId: string,
   selectedModel: ModelType = "deepseek",
-  title?: string
+  title?: string,
+  onProgress?: JobProgressHandler
 ) {
   console.log(`Analyzing document "${fileName}" with model: ${selectedModel}, sessionId: ${sessionId}`);
   
@@ -163,7 +403,8 @@ export async function analyzeDocument(
     title
   });
   
-  const data = await res.json();
+  const { jobId } = await res.json();
+  const data = await waitForJob(jobId, onProgress);
   console.log("Document analysis response:", data);
   
   // Extract the analysis text into a proper message format if missing
@@ -226,19 +467,83 @@ export async function updateSessionName(sessionId: string, name: string) {
 }
 
 // Analysis functions
-export async function getAllAnalysesBySession(sessionId: string) {
-  const res = await apiRequest("GET", `/api/analyses?sessionId=${sessionId}`, null);
+export async function getAllAnalysesBySession(
+  sessionId: string,
+  options: {
+    page?: number;
+    pageSize?: number;
+    mediaType?: MediaType;
+    modelUsed?: ModelType;
+    from?: string;
+    to?: string;
+  } = {}
+) {
+  const params = new URLSearchParams({ sessionId });
+  Object.entries(options).forEach(([key, value]) => {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  });
+  
+  const res = await apiRequest("GET", `/api/analyses?${params.toString()}`, null);
   return res.json();
 }
 
-export async function downloadAnalysis(analysisId: number, format: "pdf" | "docx" | "txt" = "pdf") {
+export async function downloadAnalysis(analysisId: number, format: "pdf" | "docx" | "txt" | "srt" | "vtt" | "transcript" = "pdf") {
   // Direct download approach using window.open
   window.open(`/api/download/${analysisId}?format=${format}`, '_blank');
   return true;
 }
 
-export async function updateAnalysisTitle(analysisId: number, title: string) {
-  const res = await apiRequest("PATCH", `/api/analysis/${analysisId}/title`, { title });
+// A person with a face in a photo analysis, with their face crop and profile summary
+export interface AnalysisFace {
+  personIndex: number;
+  personLabel: string;
+  boundingBox: { left: number; top: number; width: number; height: number };
+  cropUrl: string;
+  status: "analyzed" | "poor_quality" | "not_selected";
+  summary: string | null;
+}
+
+export interface AnalysisFaces {
+  annotatedUrl: string | null;
+  people: AnalysisFace[];
+}
+
+export async function getAnalysisFaces(analysisId: number): Promise<AnalysisFaces> {
+  const res = await apiRequest("GET", `/api/analysis/${analysisId}/faces`, null);
+  return res.json();
+}
+
+// Per-person emotion and sentiment over a video or recording, in seconds from its start
+export interface EmotionTimelineTrack {
+  personLabel: string;
+  personName: string | null;
+  faceEmotions: { timestamp: number; primaryEmotion: string; emotions: Record<string, number> }[];
+  emotionSpans: { start: number; end: number; emotion: string; confidence: number }[]; // From Azure Video Indexer
+  sentiment: { start: number; end: number; sentiment: "positive" | "neutral" | "negative"; score: number; text: string }[];
+}
+
+export interface EmotionTimeline {
+  start: number;
+  end: number;
+  emotions: string[]; // Most prominent first
+  tracks: EmotionTimelineTrack[];
+}
+
+export async function getEmotionTimeline(analysisId: number): Promise<EmotionTimeline | null> {
+  const res = await apiRequest("GET", `/api/analysis/${analysisId}/emotion-timeline`, null);
+  const { timeline } = await res.json();
+  return timeline;
+}
+
+export async function updateAnalysisTitle(analysisId: number, sessionId: string, title: string) {
+  const res = await apiRequest("PATCH", `/api/analysis/${analysisId}/title`, { sessionId, title });
+  return res.json();
+}
+
+export async function deleteAnalysis(analysisId: number, sessionId: string) {
+  const res = await apiRequest("DELETE", `/api/analysis/${analysisId}?sessionId=${encodeURIComponent(sessionId)}`, null);
   return res.json();
 }
 
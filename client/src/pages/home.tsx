@@ -13,8 +13,12 @@ import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { uploadMedia, sendMessage, shareAnalysis, getSharedAnalysis, analyzeText, analyzeDocument, downloadAnalysis, clearSession, ModelType, MediaType } from "@/lib/api";
-import { Upload, Send, FileImage, Film, Share2, AlertCircle, FileText, File, Download } from "lucide-react";
+import { AnalysisFaces } from "@/components/analysis-faces";
+import { AnalysisEmotionTimeline } from "@/components/emotion-timeline";
+import { PeoplePicker } from "@/components/people-picker";
+import { VideoTimeline, type VideoSegment } from "@/components/video-timeline";
+import { uploadFile, uploadMedia, detectFaces, getVideoTimeline, sendMessage, shareAnalysis, getSharedAnalysis, analyzeText, analyzeDocument, downloadAnalysis, clearSession, deleteAnalysis, cancelJob, ModelType, MediaType, JobProgress, FaceDetection, PersonSelection, type VideoTimeline as VideoTimelineData } from "@/lib/api";
+import { Upload, Send, FileImage, Film, Mic, Share2, AlertCircle, FileText, File, Download } from "lucide-react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -25,6 +29,15 @@ const shareSchema = z.object({
   recipientEmail: z.string().email("Please enter a valid email"),
 });
 
+// Video segments are analyzed a few seconds at a time, a handful per run
+const MIN_SEGMENT_SECONDS = 1;
+const MAX_SEGMENT_SECONDS = 3;
+const MAX_VIDEO_SEGMENTS = 5;
+
+// Largest files accepted; big videos are uploaded in resumable chunks
+const MAX_VIDEO_BYTES = 500 * 1024 * 1024;
+const MAX_AUDIO_BYTES = 50 * 1024 * 1024;
+
 // Helper function to resize images
 async function resizeImage(file: File, maxWidth: number): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -105,23 +118,33 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
   // Media states
   const [uploadedMedia, setUploadedMedia] = useState<string | null>(null);
   const [mediaType, setMediaType] = useState<MediaType>("image");
-  const [mediaData, setMediaData] = useState<string | null>(null); // Store media data for re-analysis
+  const [mediaId, setMediaId] = useState<string | null>(null); // The uploaded file, referenced for re-analysis
   const [analysisId, setAnalysisId] = useState<number | null>(null);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
   const [emailServiceAvailable, setEmailServiceAvailable] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
+  const [analysisStage, setAnalysisStage] = useState("");
+  const [currentJobId, setCurrentJobId] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [selectedModel, setSelectedModel] = useState<ModelType>("anthropic");
   const [documentName, setDocumentName] = useState<string>("");
   
-  // Video segment states
-  const [videoSegmentStart, setVideoSegmentStart] = useState<number>(0);
-  const [videoSegmentDuration, setVideoSegmentDuration] = useState<number>(3);
+  // Video segment states: the segments chosen on the timeline, and the ones already analyzed
+  const [videoSegments, setVideoSegments] = useState<VideoSegment[]>([{ start: 0, duration: MAX_SEGMENT_SECONDS }]);
+  const [analyzedSegments, setAnalyzedSegments] = useState<VideoSegment[]>([]);
+  const [videoMode, setVideoMode] = useState<"segment" | "full">("segment");
   const [videoDuration, setVideoDuration] = useState<number>(0);
+  const [videoTimeline, setVideoTimeline] = useState<VideoTimelineData | null>(null);
+  const [videoTimelineFailed, setVideoTimelineFailed] = useState(false);
+  const videoTimelineRequestRef = useRef(0);
   
   // UI states
   const [showAdvancedServices, setShowAdvancedServices] = useState<boolean>(false);
   
+  // Photos are analyzed in two steps: the detected people wait here for the user's choice
+  const [pendingDetection, setPendingDetection] = useState<FaceDetection | null>(null);
+  const peopleChoiceRef = useRef<{ resolve: (people: PersonSelection[]) => void; reject: (error: Error) => void } | null>(null);
+  
   // References
   const videoRef = useRef<HTMLVideoElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -137,6 +160,7 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
     facepp: boolean;
     google_vision: boolean;
     aws_rekognition: boolean;
+    local_face: boolean;
     gladia: boolean;
     assemblyai: boolean;
     deepgram: boolean;
@@ -151,6 +175,7 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
     facepp: false,
     google_vision: false,
     aws_rekognition: false,
+    local_face: false,
     gladia: false,
     assemblyai: false,
     deepgram: false,
@@ -178,6 +203,7 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
           facepp: status.facepp || false,
           google_vision: status.google_vision || false,
           aws_rekognition: status.aws_rekognition || false,
+          local_face: status.local_face || false,
           gladia: status.gladia || false,
           assemblyai: status.assemblyai || false,
           deepgram: status.deepgram || false,
@@ -213,9 +239,12 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
             // Set the analysis data
             setAnalysisId(data.analysis.id);
             
-            // Set uploaded media preview if available
+            // Set uploaded media preview if available. Uploaded videos and recordings are
+            // only served to their own session, or through the share.
             if (data.analysis.mediaUrl) {
-              setUploadedMedia(data.analysis.mediaUrl);
+              setUploadedMedia(data.analysis.mediaUrl.startsWith("/api/uploads/")
+                ? `${data.analysis.mediaUrl}?shareId=${encodeURIComponent(shareId)}`
+                : data.analysis.mediaUrl);
               setMediaType(data.analysis.mediaType as MediaType);
             }
             
@@ -242,22 +271,124 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
     }
   }, [shareId, toast]);
   
+  // Video and audio previews play from the local file; let it go once it's replaced
+  useEffect(() => () => {
+    if (uploadedMedia?.startsWith("blob:")) URL.revokeObjectURL(uploadedMedia);
+  }, [uploadedMedia]);
+  
   // Scroll to bottom of messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
   
+  // Mirror the server-side job's progress in the progress bar
+  const handleJobProgress = useCallback((job: JobProgress) => {
+    const isActive = job.status === "queued" || job.status === "running";
+    setCurrentJobId(isActive ? job.id : null);
+    setAnalysisProgress(job.progress);
+    setAnalysisStage(isActive ? job.message : "");
+  }, []);
+  
+  // Show the people picker and wait until the user confirms or cancels
+  const choosePeople = (detection: FaceDetection) => new Promise<PersonSelection[]>((resolve, reject) => {
+    peopleChoiceRef.current = { resolve, reject };
+    setPendingDetection(detection);
+  });
+  
+  const finishChoosingPeople = (people: PersonSelection[] | null) => {
+    const choice = peopleChoiceRef.current;
+    peopleChoiceRef.current = null;
+    setPendingDetection(null);
+    if (people) {
+      choice?.resolve(people);
+    } else {
+      choice?.reject(new Error("Analysis cancelled before choosing who to analyze."));
+    }
+  };
+  
+  // Build the video's thumbnail strip and waveform in the background; segments can be chosen without them
+  const loadVideoTimeline = (videoId: string) => {
+    const request = ++videoTimelineRequestRef.current;
+    setVideoTimeline(null);
+    setVideoTimelineFailed(false);
+    getVideoTimeline(videoId, sessionId)
+      .then(timeline => {
+        if (request === videoTimelineRequestRef.current) setVideoTimeline(timeline);
+      })
+      .catch(error => {
+        console.warn("Could not build the video timeline:", error);
+        if (request === videoTimelineRequestRef.current) setVideoTimelineFailed(true);
+      });
+  };
+  
+  // Re-analyze the video: the whole clip, or each segment chosen on the timeline in turn
+  const reanalyzeVideo = async () => {
+    if (!mediaId) return;
+    
+    // Clear messages for new analysis
+    setMessages([]);
+    setIsAnalyzing(true);
+    setAnalysisProgress(0);
+    
+    const runs: (VideoSegment | null)[] = videoMode === "full" ? [null] : videoSegments;
+    try {
+      for (const segment of runs) {
+        const response = await uploadMedia(
+          mediaId, 
+          "video", 
+          sessionId, 
+          { 
+            selectedModel, 
+            maxPeople: 5,
+            ...(segment && { videoSegmentStart: segment.start, videoSegmentDuration: segment.duration }),
+            videoMode,
+            onProgress: handleJobProgress
+          }
+        );
+        setAnalysisProgress(100);
+        
+        if (response && response.analysisId) {
+          setAnalysisId(response.analysisId);
+          const analyzed = segment || { start: 0, duration: videoDuration };
+          setAnalyzedSegments(prev => [
+            ...prev.filter(existing => existing.start !== analyzed.start || existing.duration !== analyzed.duration),
+            analyzed
+          ]);
+        }
+        
+        // Each response carries the whole session's messages, earlier segments included
+        if (response && response.messages && Array.isArray(response.messages)) {
+          setMessages(response.messages);
+        }
+      }
+      
+      toast({
+        title: "Analysis Complete",
+        description: runs.length > 1
+          ? `${runs.length} video segments have been analyzed with ${getModelDisplayName(selectedModel)}`
+          : "Your video segment has been re-analyzed with " + getModelDisplayName(selectedModel),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to re-analyze video segment. Please try again.",
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+  
   // Text analysis
   const handleTextAnalysis = useMutation({
     mutationFn: async (text: string) => {
       try {
         setIsAnalyzing(true);
-        setAnalysisProgress(10);
+        setAnalysisProgress(0);
         setMessages([]);
         
-        const response = await analyzeText(text, sessionId, selectedModel, undefined);
+        const response = await analyzeText(text, sessionId, selectedModel, undefined, handleJobProgress);
         
-        setAnalysisProgress(80);
         setAnalysisId(response.analysisId);
         
         if (response.messages && response.messages.length > 0) {
@@ -307,11 +438,10 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
     mutationFn: async (file: File) => {
       try {
         setIsAnalyzing(true);
-        setAnalysisProgress(10);
+        setAnalysisProgress(0);
         setMessages([]);
         
         setDocumentName(file.name);
-        setAnalysisProgress(30);
         
         // Read the file as data URL
         const reader = new FileReader();
@@ -320,8 +450,6 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
           reader.readAsDataURL(file);
         });
         
-        setAnalysisProgress(50);
-        
         // Determine file type
         const fileExt = file.name.split('.').pop()?.toLowerCase();
         const fileType = fileExt === 'pdf' ? 'pdf' : 'docx';
@@ -332,10 +460,10 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
           fileType,
           sessionId,
           selectedModel,
-          undefined
+          undefined,
+          handleJobProgress
         );
         
-        setAnalysisProgress(80);
         setAnalysisId(response.analysisId);
         
         if (response.messages && response.messages.length > 0) {
@@ -390,12 +518,10 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
         // Determine media type and set it
         const fileType = file.type.split('/')[0];
         const isVideo = fileType === 'video';
-        const mediaFileType: MediaType = isVideo ? "video" : "image";
+        const isAudio = fileType === 'audio';
+        const mediaFileType: MediaType = isVideo ? "video" : isAudio ? "audio" : "image";
         setMediaType(mediaFileType);
         
-        // Update progress
-        setAnalysisProgress(20);
-        
         // Show appropriate progress message for video vs image
         if (isVideo) {
           toast({
@@ -404,64 +530,97 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
           });
         }
         
-        // For images, resize if needed to meet AWS limits
-        let mediaData: string;
+        if (isAudio && file.size > MAX_AUDIO_BYTES) {
+          throw new Error(`Audio file too large. Please use a recording under ${MAX_AUDIO_BYTES / 1024 / 1024}MB.`);
+        }
+        if (isVideo && file.size > MAX_VIDEO_BYTES) {
+          throw new Error(`Video file too large. Please use a video under ${MAX_VIDEO_BYTES / 1024 / 1024}MB.`);
+        }
+        
+        // For images, resize if needed to meet AWS limits; the preview is the image that gets analyzed
+        let preview: string;
+        let upload: Blob = file;
         if (mediaFileType === "image" && file.size > 4 * 1024 * 1024) {
-          mediaData = await resizeImage(file, 1600);
-        } else {
-          // For videos or smaller images, read as data URL
+          preview = await resizeImage(file, 1600);
+          upload = await (await fetch(preview)).blob();
+        } else if (mediaFileType === "image") {
           const reader = new FileReader();
-          mediaData = await new Promise<string>((resolve) => {
+          preview = await new Promise<string>((resolve) => {
             reader.onload = (e) => resolve(e.target?.result as string);
             reader.readAsDataURL(file);
           });
-          
-          // For videos, get duration for segment selection and enforce size limits
-          if (isVideo) {
-            // Check file size - limit to 50MB for better performance
-            if (file.size > 50 * 1024 * 1024) {
-              throw new Error("Video file too large. Please use a video under 50MB for better performance.");
-            }
-            
-            const videoElement = document.createElement('video');
-            await new Promise<void>((resolve) => {
-              videoElement.onloadedmetadata = () => {
-                setVideoDuration(videoElement.duration);
-                resolve();
-              };
-              videoElement.src = mediaData;
-            });
-          }
+        } else {
+          // Videos and recordings play straight from the local file
+          preview = URL.createObjectURL(file);
         }
+        setUploadedMedia(preview);
         
-        // Set preview and store media data for re-analysis
-        setUploadedMedia(mediaData);
-        setMediaData(mediaData);
-        setAnalysisProgress(50);
+        // Upload once; analyses and re-analyses refer to the file by its id
+        setAnalysisStage("Uploading file");
+        const uploaded = await uploadFile(upload, file.name, sessionId, fraction => {
+          setAnalysisProgress(Math.round(fraction * 100));
+        });
+        setAnalysisStage("");
+        setAnalysisProgress(0);
+        setMediaId(uploaded.mediaId);
+        
+        // For videos, get duration for segment selection
+        let firstSegment: VideoSegment = { start: 0, duration: MAX_SEGMENT_SECONDS };
+        let uploadedVideoDuration = 0;
+        if (isVideo) {
+          const videoElement = document.createElement('video');
+          await new Promise<void>((resolve) => {
+            videoElement.onloadedmetadata = () => {
+              setVideoDuration(videoElement.duration);
+              uploadedVideoDuration = videoElement.duration;
+              resolve();
+            };
+            videoElement.src = preview;
+          });
+          
+          // A new video starts with its opening seconds selected and nothing analyzed
+          firstSegment = { start: 0, duration: Math.max(MIN_SEGMENT_SECONDS, Math.min(MAX_SEGMENT_SECONDS, Math.floor(uploadedVideoDuration * 10) / 10)) };
+          setVideoSegments([firstSegment]);
+          setAnalyzedSegments([]);
+          loadVideoTimeline(uploaded.mediaId);
+        }
         
         // Maximum 5 people to analyze
         const maxPeople = 5;
         
+        // For photos, find the faces first so the user can choose and name who to analyze
+        let peopleSelection = {};
+        if (mediaFileType === "image") {
+          const detection = await detectFaces(uploaded.mediaId, sessionId, maxPeople, handleJobProgress);
+          if (detection.people.length > 0) {
+            const people = await choosePeople(detection);
+            peopleSelection = { detectionId: detection.detectionId, people };
+          }
+        }
+        
         // Upload for analysis
         const options = { 
           selectedModel, 
           maxPeople,
-          ...(isVideo && { videoSegmentStart, videoSegmentDuration })
+          onProgress: handleJobProgress,
+          ...peopleSelection,
+          ...(isVideo && { videoSegmentStart: firstSegment.start, videoSegmentDuration: firstSegment.duration, videoMode })
         };
         
-        console.log(`Starting ${isVideo ? 'video segment' : 'image'} analysis:`, options);
+        console.log(`Starting ${isVideo ? 'video segment' : isAudio ? 'audio' : 'image'} analysis:`, options);
         
         const response = await uploadMedia(
-          mediaData, 
+          uploaded.mediaId, 
           mediaFileType, 
           sessionId, 
           options
         );
         
-        setAnalysisProgress(90);
-        
         if (response && response.analysisId) {
           setAnalysisId(response.analysisId);
+          if (isVideo) {
+            setAnalyzedSegments([videoMode === "full" ? { start: 0, duration: uploadedVideoDuration } : firstSegment]);
+          }
         }
         
         console.log("Response from uploadMedia:", response);
@@ -578,16 +737,16 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
     const fileType = file.type.split('/')[0];
     
     // Check file size early for videos
-    if (fileType === 'video' && file.size > 50 * 1024 * 1024) {
+    if (fileType === 'video' && file.size > MAX_VIDEO_BYTES) {
       toast({
         title: "File Too Large",
-        description: "Video files must be under 50MB. Please compress your video or use a shorter clip.",
+        description: `Video files must be under ${MAX_VIDEO_BYTES / 1024 / 1024}MB. Please compress your video or use a shorter clip.`,
         variant: "destructive",
       });
       return;
     }
     
-    if (fileType === 'image' || fileType === 'video') {
+    if (fileType === 'image' || fileType === 'video' || fileType === 'audio') {
       handleUploadMedia.mutate(file);
     } else if (
       file.type === 'application/pdf' || 
@@ -600,7 +759,7 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
       toast({
         variant: "destructive",
         title: "Unsupported File Type",
-        description: "Please upload an image, video, PDF, DOC, DOCX, or TXT file."
+        description: "Please upload an image, video, audio, PDF, DOC, DOCX, or TXT file."
       });
     }
   };
@@ -647,7 +806,7 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
     noClick: true,
     noKeyboard: true,
     maxFiles: 1,
-    maxSize: 50 * 1024 * 1024, // 50MB limit
+    maxSize: MAX_VIDEO_BYTES,
   });
 
   // Click handlers for different upload types
@@ -669,13 +828,13 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
       const file = files[0];
       if (type === 'media') {
         const fileType = file.type.split('/')[0];
-        if (fileType === 'image' || fileType === 'video') {
+        if (fileType === 'image' || fileType === 'video' || fileType === 'audio') {
           handleUploadMedia.mutate(file);
         } else {
           toast({
             variant: "destructive",
             title: "Unsupported File Type",
-            description: "Please upload an image or video file."
+            description: "Please upload an image, video or audio file."
           });
         }
       } else {
@@ -771,6 +930,10 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                       <div className={`w-2 h-2 rounded-full mr-2 ${availableServices.aws_rekognition ? 'bg-green-500' : 'bg-red-500'}`}></div>
                       <span>AWS Rekognition</span>
                     </div>
+                    <div className="flex items-center">
+                      <div className={`w-2 h-2 rounded-full mr-2 ${availableServices.local_face ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                      <span>Local Detector (offline)</span>
+                    </div>
                     
                     <div className="h-px bg-gray-200 my-2"></div>
                     <h4 className="font-medium mb-1">Transcription</h4>
@@ -802,7 +965,7 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
           {/* Upload Options */}
           <Card className="p-6">
             <h2 className="text-xl font-semibold mb-4">Step 2: Choose Input Type</h2>
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-4 gap-4">
               <Button 
                 variant="outline" 
                 className="h-24 flex flex-col items-center justify-center" 
@@ -814,7 +977,7 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="image/*,video/*"
+                  accept="image/*,video/*,audio/mpeg,audio/wav,audio/x-wav,audio/mp4,audio/x-m4a,audio/ogg,.mp3,.wav,.m4a,.ogg"
                   style={{ display: 'none' }}
                   onChange={(e) => handleFileInputChange(e, 'media')}
                 />
@@ -846,15 +1009,39 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                 <Film className="h-8 w-8 mb-2" />
                 <span>Video</span>
               </Button>
+              
+              <Button 
+                variant="outline" 
+                className="h-24 flex flex-col items-center justify-center" 
+                onClick={handleImageVideoClick}
+                disabled={isAnalyzing}
+              >
+                <Mic className="h-8 w-8 mb-2" />
+                <span>Audio</span>
+              </Button>
             </div>
             
             {isAnalyzing && (
               <div className="mt-4 space-y-2">
                 <div className="flex justify-between">
-                  <span>Analyzing...</span>
+                  <span>{analysisStage || "Analyzing..."}</span>
                   <span>{analysisProgress}%</span>
                 </div>
                 <Progress value={analysisProgress} className="w-full" />
+                {currentJobId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => {
+                      cancelJob(currentJobId).catch(error => {
+                        console.error("Error cancelling analysis:", error);
+                      });
+                    }}
+                  >
+                    Cancel Analysis
+                  </Button>
+                )}
               </div>
             )}
             
@@ -905,20 +1092,21 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                 {/* Re-analyze with current model button */}
                 <Button 
                   onClick={() => {
-                    if (mediaData) {
+                    if (mediaId) {
                       // Clear messages for new analysis
                       setMessages([]);
                       setIsAnalyzing(true);
                       setAnalysisProgress(0);
                       
-                      // Use the stored media data directly
+                      // Re-analyze the upload without sending it again
                       uploadMedia(
-                        mediaData, 
+                        mediaId, 
                         "image", 
                         sessionId, 
                         { 
                           selectedModel, 
-                          maxPeople: 5 
+                          maxPeople: 5,
+                          onProgress: handleJobProgress
                         }
                       ).then(response => {
                         setAnalysisProgress(100);
@@ -947,7 +1135,65 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                     }
                   }}
                   className="w-full"
-                  disabled={isAnalyzing || !mediaData}
+                  disabled={isAnalyzing || !mediaId}
+                >
+                  Re-Analyze with {getModelDisplayName(selectedModel)}
+                </Button>
+              </div>
+            )}
+            
+            {uploadedMedia && mediaType === "audio" && (
+              <div className="space-y-4">
+                <audio src={uploadedMedia} controls className="w-full" />
+                <div className="text-center text-sm text-muted-foreground mb-4">
+                  Audio analysis will transcribe the recording, tell the speakers apart and measure the voice
+                </div>
+                
+                {/* Re-analyze with current model button */}
+                <Button 
+                  onClick={() => {
+                    if (mediaId) {
+                      // Clear messages for new analysis
+                      setMessages([]);
+                      setIsAnalyzing(true);
+                      setAnalysisProgress(0);
+                      
+                      uploadMedia(
+                        mediaId, 
+                        "audio", 
+                        sessionId, 
+                        { 
+                          selectedModel, 
+                          onProgress: handleJobProgress
+                        }
+                      ).then(response => {
+                        setAnalysisProgress(100);
+                        
+                        if (response && response.analysisId) {
+                          setAnalysisId(response.analysisId);
+                        }
+                        
+                        if (response && response.messages && Array.isArray(response.messages)) {
+                          setMessages(response.messages);
+                        }
+                        
+                        toast({
+                          title: "Analysis Complete",
+                          description: "Your recording has been re-analyzed with " + getModelDisplayName(selectedModel),
+                        });
+                      }).catch(error => {
+                        toast({
+                          variant: "destructive",
+                          title: "Error",
+                          description: "Failed to re-analyze recording. Please try again.",
+                        });
+                      }).finally(() => {
+                        setIsAnalyzing(false);
+                      });
+                    }
+                  }}
+                  className="w-full"
+                  disabled={isAnalyzing || !mediaId}
                 >
                   Re-Analyze with {getModelDisplayName(selectedModel)}
                 </Button>
@@ -969,50 +1215,52 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                 {/* Video Segment Selection */}
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
                   <h3 className="font-medium text-blue-900">Video Segment Selection</h3>
+                  <Select value={videoMode} onValueChange={(value) => setVideoMode(value as "segment" | "full")}>
+                    <SelectTrigger className="w-full bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="segment">Selected 3-second segments</SelectItem>
+                      <SelectItem value="full">Full video (time-indexed)</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <p className="text-sm text-blue-700">
-                    For optimal performance, videos are processed in 3-second segments. Select which segment to analyze:
+                    {videoMode === "full"
+                      ? "The whole clip is analyzed: frames are sampled throughout the video and the full audio is transcribed, so answers cite real timestamps."
+                      : `For optimal performance, videos are processed in segments of up to 3 seconds. Drag across the timeline to select up to ${MAX_VIDEO_SEGMENTS} segments, or click to select 3 seconds from that point:`}
                   </p>
                   <div className="text-xs text-blue-600 bg-blue-100 p-2 rounded">
-                    💡 Tip: Video processing may take 2-3 minutes depending on complexity. The system extracts facial analysis, 
-                    audio transcription, and emotional insights from your selected segment.
+                    💡 Tip: Video processing may take 2-3 minutes depending on complexity{videoMode === "full" ? ", longer for full videos" : ""}. The system extracts facial analysis, 
+                    audio transcription, and emotional insights from your {videoMode === "full" ? "video" : "selected segments"}.
                   </div>
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="block text-sm font-medium text-blue-900 mb-1">
-                        Start Time (seconds)
-                      </label>
-                      <Input
-                        type="number"
-                        min={0}
-                        max={Math.max(0, videoDuration - 1)}
-                        step={1}
-                        value={videoSegmentStart}
-                        onChange={(e) => setVideoSegmentStart(Math.max(0, parseInt(e.target.value) || 0))}
-                        className="w-full"
-                      />
-                    </div>
-                    
-                    <div>
-                      <label className="block text-sm font-medium text-blue-900 mb-1">
-                        Duration (max 3s)
-                      </label>
-                      <Input
-                        type="number"
-                        min={1}
-                        max={3}
-                        step={1}
-                        value={videoSegmentDuration}
-                        onChange={(e) => setVideoSegmentDuration(Math.min(3, Math.max(1, parseInt(e.target.value) || 3)))}
-                        className="w-full"
-                      />
-                    </div>
-                  </div>
+                  {videoDuration > 0 && (
+                    <VideoTimeline
+                      duration={videoDuration}
+                      timeline={videoTimeline}
+                      loading={!videoTimeline && !videoTimelineFailed}
+                      segments={videoMode === "segment" ? videoSegments : []}
+                      analyzedSegments={analyzedSegments}
+                      minSegmentDuration={MIN_SEGMENT_SECONDS}
+                      maxSegmentDuration={MAX_SEGMENT_SECONDS}
+                      maxSegments={MAX_VIDEO_SEGMENTS}
+                      disabled={isAnalyzing || videoMode === "full"}
+                      onSegmentsChange={setVideoSegments}
+                      onSeek={time => {
+                        if (videoRef.current) videoRef.current.currentTime = time;
+                      }}
+                    />
+                  )}
                   
                   {videoDuration > 0 && (
                     <div className="text-xs text-blue-600">
                       Video duration: {videoDuration.toFixed(1)}s | 
-                      Analyzing: {videoSegmentStart}s to {Math.min(videoSegmentStart + videoSegmentDuration, videoDuration).toFixed(1)}s
+                      Analyzing: {videoMode === "full"
+                        ? "entire video"
+                        : videoSegments.length > 0
+                          ? videoSegments.map(segment => `${segment.start}s to ${Math.min(segment.start + segment.duration, videoDuration).toFixed(1)}s`).join(", ")
+                          : "no segments selected"}
+                      {analyzedSegments.length > 0 && " | Green marks what has been analyzed"}
                     </div>
                   )}
                 </div>
@@ -1135,54 +1383,15 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                 
                 {/* Re-analyze with current model button */}
                 <Button 
-                  onClick={() => {
-                    if (mediaData) {
-                      // Clear messages for new analysis
-                      setMessages([]);
-                      setIsAnalyzing(true);
-                      setAnalysisProgress(0);
-                      
-                      // Use the stored media data directly with segment parameters
-                      uploadMedia(
-                        mediaData, 
-                        "video", 
-                        sessionId, 
-                        { 
-                          selectedModel, 
-                          maxPeople: 5,
-                          videoSegmentStart,
-                          videoSegmentDuration
-                        }
-                      ).then(response => {
-                        setAnalysisProgress(100);
-                        
-                        if (response && response.analysisId) {
-                          setAnalysisId(response.analysisId);
-                        }
-                        
-                        if (response && response.messages && Array.isArray(response.messages)) {
-                          setMessages(response.messages);
-                        }
-                        
-                        toast({
-                          title: "Analysis Complete",
-                          description: "Your video segment has been re-analyzed with " + getModelDisplayName(selectedModel),
-                        });
-                      }).catch(error => {
-                        toast({
-                          variant: "destructive",
-                          title: "Error",
-                          description: "Failed to re-analyze video segment. Please try again.",
-                        });
-                      }).finally(() => {
-                        setIsAnalyzing(false);
-                      });
-                    }
-                  }}
+                  onClick={reanalyzeVideo}
                   className="w-full"
-                  disabled={isAnalyzing || !mediaData}
+                  disabled={isAnalyzing || !mediaId || (videoMode === "segment" && videoSegments.length === 0)}
                 >
-                  Re-Analyze Segment ({videoSegmentStart}s-{videoSegmentStart + videoSegmentDuration}s) with {getModelDisplayName(selectedModel)}
+                  {videoMode === "full"
+                    ? `Re-Analyze Full Video with ${getModelDisplayName(selectedModel)}`
+                    : videoSegments.length === 1
+                      ? `Re-Analyze Segment (${videoSegments[0].start}s-${Number((videoSegments[0].start + videoSegments[0].duration).toFixed(1))}s) with ${getModelDisplayName(selectedModel)}`
+                      : `Analyze ${videoSegments.length} Segments with ${getModelDisplayName(selectedModel)}`}
                 </Button>
               </div>
             )}
@@ -1267,7 +1476,7 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                       // Clear all current state to start a new analysis
                       setMessages([]);
                       setUploadedMedia(null);
-                      setMediaData(null);
+                      setMediaId(null);
                       setDocumentName("");
                       setTextInput("");
                       setAnalysisId(null);
@@ -1320,12 +1529,17 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                     className="flex items-center gap-2"
                     onClick={async () => {
                       try {
-                        await clearSession(sessionId);
-                        const newSessionId = nanoid();
-                        window.location.href = `/?session=${newSessionId}`;
+                        if (analysisId) {
+                          // Remove just this analysis and its messages, keeping the session
+                          await deleteAnalysis(analysisId, sessionId);
+                        } else {
+                          await clearSession(sessionId);
+                          const newSessionId = nanoid();
+                          window.location.href = `/?session=${newSessionId}`;
+                        }
                         setMessages([]);
                         setUploadedMedia(null);
-                        setMediaData(null);
+                        setMediaId(null);
                         setDocumentName("");
                         setTextInput("");
                         setAnalysisId(null);
@@ -1398,6 +1612,32 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                         <FileText className="h-4 w-4" />
                         <span>Download TXT</span>
                       </Button>
+                      
+                      {/* Subtitles and transcript for recordings with speech */}
+                      {(mediaType === "video" || mediaType === "audio") && ([
+                        { format: "srt", label: "SRT" },
+                        { format: "vtt", label: "VTT" },
+                        { format: "transcript", label: "Transcript" }
+                      ] as const).map(({ format, label }) => (
+                        <Button 
+                          key={format}
+                          variant="outline" 
+                          size="sm" 
+                          className="flex items-center gap-2"
+                          onClick={() => {
+                            toast({
+                              title: `Downloading ${label}`,
+                              description: format === "transcript"
+                                ? "The speaker-labeled transcript is being downloaded"
+                                : `The subtitles are being downloaded as ${label}`
+                            });
+                            downloadAnalysis(analysisId, format);
+                          }}
+                        >
+                          <FileText className="h-4 w-4" />
+                          <span>{format === "transcript" ? "Download Transcript" : `Subtitles (${label})`}</span>
+                        </Button>
+                      ))}
                     </>
                   )}
                   
@@ -1484,6 +1724,12 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
                         </span>
                       </div>
                     )}
+                    
+                    {/* Face crops next to each person's profile, for photo analyses */}
+                    {analysisId && <AnalysisFaces analysisId={analysisId} />}
+                    
+                    {/* Emotion and sentiment over time, for video and audio analyses */}
+                    {analysisId && <AnalysisEmotionTimeline analysisId={analysisId} />}
                     {messages.filter(message => message.role === "assistant").map((message, index) => (
                       <div
                         key={index}
@@ -1627,6 +1873,13 @@ export default function Home({ isShareMode = false, shareId }: { isShareMode?: b
           </Card>
         </div>
       </div>
+      
+      {/* Choose and name the detected people before a photo is analyzed */}
+      <PeoplePicker
+        detection={pendingDetection}
+        onConfirm={people => finishChoosingPeople(people)}
+        onCancel={() => finishChoosingPeople(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
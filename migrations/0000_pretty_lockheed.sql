@@ -0,0 +1,49 @@
+CREATE TABLE "analyses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"title" text DEFAULT 'Untitled Analysis' NOT NULL,
+	"media_url" text NOT NULL,
+	"media_type" text NOT NULL,
+	"face_analysis" json,
+	"video_analysis" json,
+	"audio_transcription" json,
+	"document_analysis" json,
+	"text_content" text,
+	"personality_insights" json NOT NULL,
+	"people_count" integer DEFAULT 1,
+	"model_used" text DEFAULT 'anthropic' NOT NULL,
+	"document_type" text,
+	"has_downloaded" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"analysis_id" integer,
+	"content" text NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"name" text DEFAULT 'Session' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"last_active_at" timestamp DEFAULT now(),
+	CONSTRAINT "sessions_session_id_unique" UNIQUE("session_id")
+);
+--> statement-breakpoint
+CREATE TABLE "shares" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"analysis_id" integer NOT NULL,
+	"sender_email" text NOT NULL,
+	"recipient_email" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_analysis_id_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."analyses"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shares" ADD CONSTRAINT "shares_analysis_id_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."analyses"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "analyses" ADD COLUMN "scene_context" json;
\ No newline at end of file
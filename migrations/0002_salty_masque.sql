@@ -0,0 +1 @@
+ALTER TABLE "analyses" ADD COLUMN "prosody" json;
\ No newline at end of file
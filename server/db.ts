@@ -0,0 +1,18 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from 'ws';
+import * as schema from '@shared/schema';
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create a Drizzle client bound to the Postgres database at the given URL
+ */
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Any Postgres driver will do, such as node-postgres over pg-mem in the storage tests
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
@@ -6,16 +6,6 @@ const app = express();
 app.use(express.json({ limit: '100mb' }));
 app.use(express.urlencoded({ extended: false, limit: '100mb' }));
 
-// Set timeout for large video uploads
-app.use((req, res, next) => {
-  // Set timeout to 10 minutes for video processing
-  if (req.path.includes('/api/analyze')) {
-    req.setTimeout(600000); // 10 minutes
-    res.setTimeout(600000); // 10 minutes
-  }
-  next();
-});
-
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
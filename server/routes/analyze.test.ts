@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import request from "supertest";
+import { spawnSync } from "child_process";
+import type { Express } from "express";
+import { createTestApp, waitForJob } from "./testApp";
+import { storage } from "../storage";
+import { mediaUploads } from "../services/uploads";
+
+// Video and audio go through ffmpeg, which not every machine running the tests has
+const hasFfmpeg = spawnSync("ffmpeg", ["-version"]).status === 0;
+
+// A 1x1 PNG; the fake face services report the fixture's faces whatever the photo
+const PHOTO = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+
+// One second of silence as a 16-bit mono WAV; the fake transcription services replay the fixture's interview
+function silentWav(seconds = 1, sampleRate = 16000): Buffer {
+  const dataBytes = seconds * sampleRate * 2;
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write("WAVEfmt ", 8);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36);
+  header.writeUInt32LE(dataBytes, 40);
+  return Buffer.concat([header, Buffer.alloc(dataBytes)]);
+}
+
+describe("analyze routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  async function uploadRecording(sessionId: string): Promise<string> {
+    const { body } = await request(app)
+      .post("/api/uploads")
+      .field("sessionId", sessionId)
+      .attach("file", silentWav(), { filename: "interview.wav", contentType: "audio/wav" })
+      .expect(201);
+    return body.mediaId;
+  }
+
+  describe("text", () => {
+    it("analyzes text in a job and saves the analysis with its report", async () => {
+      const { body: started } = await request(app)
+        .post("/api/analyze/text")
+        .send({ sessionId: "text", content: "I spent a lot of time just listening to the team.", title: "Retro notes" })
+        .expect(202);
+      expect(started.status).toBe("queued");
+
+      const job = await waitForJob(app, started.jobId);
+      expect(job.status).toBe("completed");
+
+      const analysis = await storage.getAnalysisById(job.result.analysisId);
+      expect(analysis).toMatchObject({ sessionId: "text", mediaType: "text", title: "Retro notes", peopleCount: 1 });
+      expect(job.result.messages).toHaveLength(1);
+      expect(job.result.messages[0].content).toContain("Personality Analysis Based on Text");
+    });
+
+    it("needs text and a session id", async () => {
+      await request(app).post("/api/analyze/text").send({ sessionId: "text" }).expect(400);
+      await request(app).post("/api/analyze/text").send({ content: "Some writing" }).expect(400);
+    });
+  });
+
+  describe("photos", () => {
+    it("profiles everyone the face services find", async () => {
+      const { body: started } = await request(app)
+        .post("/api/analyze")
+        .send({ sessionId: "photo", mediaType: "image", mediaData: PHOTO })
+        .expect(202);
+
+      const job = await waitForJob(app, started.jobId);
+      expect(job.status).toBe("completed");
+
+      const analysis = await storage.getAnalysisById(job.result.analysisId);
+      expect(analysis?.mediaType).toBe("image");
+      expect(analysis?.mediaUrl).toBe(PHOTO);
+      expect(analysis?.peopleCount).toBeGreaterThan(0);
+      expect(analysis?.sceneContext).not.toBeNull();
+    });
+
+    it("detects faces first, then analyzes only the people chosen, by the names given", async () => {
+      const { body: detecting } = await request(app)
+        .post("/api/analyze/detect")
+        .send({ sessionId: "chosen", mediaData: PHOTO })
+        .expect(202);
+      const detection = await waitForJob(app, detecting.jobId);
+      expect(detection.status).toBe("completed");
+      expect(detection.result.people.length).toBeGreaterThan(0);
+
+      const [person] = detection.result.people;
+      const { body: started } = await request(app)
+        .post("/api/analyze")
+        .send({
+          sessionId: "chosen",
+          mediaType: "image",
+          mediaData: PHOTO,
+          detectionId: detection.result.detectionId,
+          people: [{ personIndex: person.personIndex, name: "Interviewer" }]
+        })
+        .expect(202);
+
+      const job = await waitForJob(app, started.jobId);
+      expect(job.status).toBe("completed");
+      const analysis = await storage.getAnalysisById(job.result.analysisId);
+      expect(analysis?.personalityInsights).toMatchObject({
+        individualProfiles: [expect.objectContaining({ personName: "Interviewer" })]
+      });
+      expect(analysis?.sceneContext).not.toBeNull();
+    });
+
+    it("won't reuse another session's detected faces or analyze nobody", async () => {
+      const { body: detecting } = await request(app)
+        .post("/api/analyze/detect")
+        .send({ sessionId: "owner", mediaData: PHOTO })
+        .expect(202);
+      const { result } = await waitForJob(app, detecting.jobId);
+
+      await request(app)
+        .post("/api/analyze")
+        .send({ sessionId: "someone-else", mediaType: "image", mediaData: PHOTO, detectionId: result.detectionId, people: [{ personIndex: 1 }] })
+        .expect(404);
+      await request(app)
+        .post("/api/analyze")
+        .send({ sessionId: "owner", mediaType: "image", mediaData: PHOTO, detectionId: result.detectionId, people: [] })
+        .expect(400);
+    });
+  });
+
+  describe("uploads", () => {
+    it("needs exactly one of an upload or inline media", async () => {
+      await request(app).post("/api/analyze").send({ sessionId: "uploads", mediaType: "image" }).expect(400);
+    });
+
+    it("only analyzes an upload for the session that made it, as the type it is", async () => {
+      const mediaId = await uploadRecording("uploads");
+
+      await request(app).post("/api/analyze").send({ sessionId: "someone-else", mediaType: "audio", mediaId }).expect(404);
+      await request(app).post("/api/analyze").send({ sessionId: "uploads", mediaType: "video", mediaId }).expect(400);
+      await request(app).post("/api/analyze").send({ sessionId: "uploads", mediaType: "audio", mediaId: "no-such-upload" }).expect(404);
+    });
+
+    it.skipIf(!hasFfmpeg)("transcribes a recording, keeps the upload and serves it to its session", async () => {
+      const mediaId = await uploadRecording("recording");
+
+      const { body: started } = await request(app)
+        .post("/api/analyze")
+        .send({ sessionId: "recording", mediaType: "audio", mediaId })
+        .expect(202);
+      const job = await waitForJob(app, started.jobId, 30000);
+      expect(job.status).toBe("completed");
+
+      const analysis = await storage.getAnalysisById(job.result.analysisId);
+      expect(analysis?.mediaUrl).toBe(`/api/uploads/${mediaId}/content`);
+      expect(analysis?.audioTranscription).toMatchObject({ transcriptionData: { utterances: expect.any(Array) } });
+      expect(mediaUploads.get(mediaId)?.kept).toBe(true);
+
+      await request(app).get(`/api/uploads/${mediaId}/content`).query({ sessionId: "recording" }).expect(200);
+      await request(app).get(`/api/uploads/${mediaId}/content`).query({ sessionId: "someone-else" }).expect(404);
+    }, 40000);
+  });
+});
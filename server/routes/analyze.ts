@@ -0,0 +1,1507 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { uploadMediaSchema, detectFacesSchema, videoTimelineSchema } from "@shared/schema";
+import { textInsightSchema, documentInsightSchema, type PersonalityInsights, type TextInsight, type SceneContext, type Prosody } from "@shared/insights";
+import { jobQueue, type JobContext } from "../services/jobs";
+import { trackPeopleAcrossFrames, linkUtterancesToPeople } from "../services/tracking";
+import { extractDocumentText, locateQuotes } from "../services/extraction";
+import { generateValidated, resolveProviders, estimateTokens, getInputTokenBudget } from "../services/llm";
+import { isEmailServiceConfigured } from "../services/email";
+import { comprehensiveMultiServiceFaceAnalysis } from "../services/faces";
+import { applyFaceQualityGate, describeFaceQuality } from "../services/faceQuality";
+import { faceDetections, applyPeopleSelection } from "../services/faceDetections";
+import { renderFaceImages, toFacePeople } from "../services/faceImages";
+import { extractSceneContext } from "../services/sceneContext";
+import { getVideoDuration, extractVideoSegment, analyzeFullVideo, analyzeVideoWithAzureIndexer, analyzeKeyframes, summarizeFrameFaces, summarizeKeyframes, isVideoIndexerConfigured, FULL_VIDEO_FRAMES_PER_CHUNK, SEGMENT_KEYFRAMES } from "../services/video";
+import { selectKeyframes } from "../services/keyframes";
+import { generateVideoTimeline } from "../services/videoTimeline";
+import { mediaUploads, resolveMediaSource, readMedia, openMediaFile, mediaUrlFor, uploadIdFromMediaUrl, uploadMediaType } from "../services/uploads";
+import { extractAudioTranscription } from "../services/transcription";
+import { getEnhancedPersonalityInsights, formatTimeline, formatFaceDisagreements, formatFaceQuality, formatAudioRecording } from "../services/personality";
+import { analyzeLongText, type LongTextAnalysis } from "../services/textAnalysis";
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { promisify } from 'util';
+
+// For temporary file storage
+const tempDir = os.tmpdir();
+const unlinkAsync = promisify(fs.unlink);
+
+// Uploads are kept for a while for re-analysis; after that they have to be sent again
+const MEDIA_EXPIRED_ERROR = "The uploaded media has expired. Please upload it again.";
+
+// Documents longer than this are cut off before being sent to the AI model
+const DOCUMENT_PROMPT_MAX_CHARS = 120000;
+
+// Audio uploads accepted by /api/analyze, keyed by MIME type, with the extension the temp file gets
+const AUDIO_FORMATS: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav",
+  "audio/mp4": "m4a",
+  "audio/m4a": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/ogg": "ogg",
+};
+
+// Helper function to clean markdown formatting from analysis text
+function cleanMarkdownFromAnalysis(obj: any): any {
+  if (typeof obj === 'string') {
+    return obj
+      .replace(/#{1,6}\s*/g, '') // Remove markdown headers
+      .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold formatting
+      .replace(/\*(.*?)\*/g, '$1') // Remove italic formatting
+      .replace(/```[\s\S]*?```/g, '') // Remove code blocks
+      .replace(/`([^`]+)`/g, '$1') // Remove inline code
+      .trim();
+  } else if (Array.isArray(obj)) {
+    return obj.map(item => cleanMarkdownFromAnalysis(item));
+  } else if (obj && typeof obj === 'object') {
+    const cleaned: any = {};
+    for (const [key, value] of Object.entries(obj)) {
+      cleaned[key] = cleanMarkdownFromAnalysis(value);
+    }
+    return cleaned;
+  }
+  return obj;
+}
+
+/**
+ * Find the faces in a photo and check each is clear enough to analyze, then describe
+ * the scene around them. Fails before any model call is made when no face is clear enough.
+ */
+async function detectPhotoFaces(mediaBuffer: Buffer, maxPeople: number, ctx: JobContext) {
+  console.log(`Analyzing image for up to ${maxPeople} people using ALL available services...`);
+  ctx.report("face_analysis", 10, "Running face analysis services");
+  const faceAnalysis = await comprehensiveMultiServiceFaceAnalysis(mediaBuffer, maxPeople, true);
+  console.log(`Detected ${faceAnalysis.length} people in the image`);
+
+  // Check every face is clear enough before spending any model calls on it
+  ctx.report("quality_check", 20, "Checking face quality");
+  const qualityGate = applyFaceQualityGate(faceAnalysis);
+  if (qualityGate.people.length > 0 && qualityGate.usable.length === 0) {
+    throw new Error(`No face in this image is clear enough to analyze. ${qualityGate.feedback.join(". ")}`);
+  }
+  if (qualityGate.feedback.length > 0) {
+    ctx.report("quality_check", 25, `Image quality: ${qualityGate.feedback.join(". ")}`);
+  }
+
+  // Google Vision describes the scene in the request it found the faces in; the analysis goes ahead without it if that fails
+  ctx.report("scene_context", 30, "Describing the scene");
+  const sceneContext = await extractSceneContext(mediaBuffer).catch(error => {
+    console.error("Scene context extraction failed:", error);
+    return null;
+  });
+  return { ...qualityGate, sceneContext };
+}
+
+/**
+ * Check the face each tracked person in a video is profiled from. People whose clearest face
+ * is still unusable are skipped, unless that's everyone: the recording's speech can still be analyzed.
+ */
+function gateTrackedFaces(representatives: any[], ctx: JobContext, progress: number) {
+  ctx.report("quality_check", progress, "Checking face quality");
+  const qualityGate = applyFaceQualityGate(representatives);
+  if (qualityGate.feedback.length > 0) {
+    ctx.report("quality_check", progress, `Video quality: ${qualityGate.feedback.join(". ")}`);
+  }
+  return qualityGate.usable.length > 0
+    ? qualityGate
+    : { ...qualityGate, usable: qualityGate.people, skipped: [] };
+}
+
+export function registerAnalyzeRoutes(app: Express) {
+  // Text analysis endpoint
+  app.post("/api/analyze/text", async (req, res) => {
+    try {
+      const { content, sessionId, selectedModel = "deepseek", title } = req.body;
+      
+      if (!content || typeof content !== 'string') {
+        return res.status(400).json({ error: "Text content is required" });
+      }
+      
+      if (!sessionId) {
+        return res.status(400).json({ error: "Session ID is required" });
+      }
+      
+      // Make sure at least one AI model can take the request
+      if (resolveProviders(selectedModel).length === 0) {
+        return res.status(503).json({ 
+          error: "No AI models are currently available. Please try again later." 
+        });
+      }
+      
+      // Run the analysis in the background and hand the client a job id to follow
+      const job = jobQueue.enqueue("text", async (ctx) => {
+        // Get personality insights based on text content
+        const textAnalysisPrompt = `
+You are an expert psychologist and personality analyst. Analyze the following text to provide comprehensive personality insights about the author.
+
+CRITICAL REQUIREMENTS - FAILURE TO COMPLY WILL RESULT IN REJECTED ANALYSIS:
+- NO MARKDOWN FORMATTING: Do not use # ### ** or any markdown in your response
+- INCLUDE 8-12 DIRECT QUOTES from the text that reveal personality traits
+- PROVIDE COMPREHENSIVE 3-4 PARAGRAPH SECTIONS for each analysis area
+- EXTRACT SPECIFIC EVIDENCE from word choice, topics discussed, and communication style
+- YOU MUST ANSWER ALL 100 PSYCHOLOGICAL QUESTIONS WITH EXPLICIT, SUBSTANTIVE ANSWERS
+- ABSOLUTELY NO PLACEHOLDER TEXT, GENERIC STATEMENTS, OR "NOT ASSESSED" RESPONSES
+- EVERY SINGLE QUESTION MUST HAVE A DETAILED, SPECIFIC ANSWER WITH EVIDENCE
+- IF DATA IS LIMITED, MAKE REASONABLE PSYCHOLOGICAL INFERENCES BASED ON AVAILABLE EVIDENCE
+
+TEXT TO ANALYZE:
+${content}
+
+You must provide detailed answers to these 100 fundamental psychological questions based on the text analysis:
+
+I. Information Processing Style (10):
+1. Does the text show an active mind organizing information, or a passive mind reciting it?
+2. Is information digested and restructured, or merely repeated?
+3. Does the writer analyze causes, or just describe effects?
+4. Are distinctions drawn sharply or blurred lazily?
+5. Is the reasoning linear, branching, or circular?
+6. Does the writer generalize prematurely or hold data until patterns emerge?
+7. Are claims proportioned to evidence?
+8. Does the mind shown seem inductive (pattern-seeking) or deductive (rule-enforcing)?
+9. Does the prose reveal curiosity, or intellectual fatigue?
+10. When the text confronts complexity, does it simplify or engage it?
+
+II. Emotional Processing Style (10):
+11. Are emotions named, implied, or avoided altogether?
+12. When emotion appears, is it integrated or intrusive?
+13. Does the author intellectualize feelings or experience them?
+14. Does the tone show restraint, volatility, or emotional flatness?
+15. Are emotional reactions linked to meaning, or detached from it?
+16. Does the text show empathy, contempt, or indifference toward others?
+17. Does emotion drive understanding or distort it?
+18. When faced with threat or contradiction, does the writer show defensiveness or reflection?
+19. Does the writing reveal warmth anywhere, or only analysis?
+20. Is there emotional growth within the text, or the same affect from start to finish?
+
+III. Agency & Activity Level (10):
+21. Does the prose suggest a person who acts on the world or merely comments on it?
+22. Are verbs mostly active or passive?
+23. Does the writer assume control of argument flow or let it meander?
+24. Does the voice take responsibility for claims ("I think," "I argue") or hide behind impersonal phrasing?
+25. Does the argument attempt to change the reader's mind or simply display intellect?
+26. Is there initiative — new frameworks, redefinitions — or only reaction?
+27. When obstacles appear, does the author adapt or stall?
+28. Does the text reveal willpower or resignation?
+29. Is the overall energy rising, steady, or depleted?
+30. Does the mind seem confident in shaping reality or resentful of being shaped by it?
+
+IV. Focus: Interpersonal vs. Ideational (10):
+31. Is attention directed toward people or toward abstractions?
+32. When others are mentioned, are they treated as minds or as examples?
+33. Does the prose imply social awareness or social detachment?
+34. Is there sensitivity to audience, or indifference to communication?
+35. Does persuasion matter, or only demonstration?
+36. Does the text reveal an interest in relationships, systems, or self-display?
+37. When using "we," is it inclusive or manipulative?
+38. Does the writer ever show vulnerability to others' judgment?
+39. Are ideas personified (showing emotional engagement) or sterilized?
+40. Does the author seek understanding or dominance over interlocutors?
+
+V. Motivation, Value System, and Reality Testing (10):
+41. What is the writer trying to achieve — truth, recognition, safety, superiority?
+42. Is success defined internally (clarity) or externally (approval)?
+43. Does the writer trust reason, intuition, authority, or instinct most?
+44. When evidence contradicts belief, does belief bend or resist?
+45. Is the worldview optimistic, tragic, cynical, or dispassionate?
+46. Does the author see the self as agent or as spectator?
+47. Does the text treat reality as negotiable (conceptualist) or binding (realist)?
+48. Does the writer seek understanding or vindication?
+49. Are problems treated as puzzles to solve or evils to condemn?
+50. Is there any visible hunger for truth — or only hunger for being right?
+
+VI. Intelligence & Conceptual Control (10):
+51. Does the writing show genuine intelligence — deep structure, inference, precision — or rote mimicry?
+52. Does the argument actually advance, or does it spin in circles?
+53. Does the author handle abstraction cleanly, or get lost in vagueness?
+54. Does reasoning depend on concrete evidence or empty jargon?
+55. When the author defines something, is it sharp and economical or padded and evasive?
+56. Are terms used consistently, or redefined to dodge difficulty?
+57. Is the prose intellectually ambitious in a disciplined way, or pretentious for show?
+58. Does the text reveal mastery of the material, or merely second-hand familiarity?
+59. Does the writer tolerate internal tension, or hide contradictions with style?
+60. Does the argument show genuine insight — a new relation between ideas — or rehearse clichés?
+
+VII. Honesty & Sincerity of Mind (10):
+61. Is the writer being straightforward, or manipulating phrasing to sound profound?
+62. Does the text ever admit uncertainty or limitation?
+63. When challenged (implicitly or explicitly), does the writer concede or double down?
+64. Is there visible willingness to change one's mind if the reasoning fails?
+65. Does the author ever say "I don't know," or is omniscience performed throughout?
+66. Are doubts faced or buried under abstraction?
+67. Does confidence come from understanding or bluster?
+68. Are counterarguments represented fairly, or caricatured for easy defeat?
+69. Does the writer seem to care about truth, or about appearing intelligent?
+70. Is there moral or intellectual humility anywhere in the text?
+
+VIII. Structure, Organization, and Focus (10):
+71. Is the argument linearly constructed or chaotic?
+72. Does every paragraph push the reasoning forward?
+73. Are transitions real or cosmetic?
+74. Does the conclusion actually follow from the premises?
+75. Are examples used to clarify or to disguise weakness?
+76. Does the text maintain topic discipline or wander aimlessly?
+77. Is there redundancy that signals insecurity?
+78. How coherent is paragraph sequencing — cumulative or random?
+79. Does the text have a visible beginning, middle, and end?
+80. Does the closing section resolve something or merely stop?
+
+IX. Psychological Profile in Style (10):
+81. Does the tone suggest calm confidence or anxious control?
+82. Is the style dry, combative, ingratiating, or sermonizing?
+83. Does the writer hide behind abstraction to avoid personal exposure?
+84. Is there contempt for opposing views or curiosity about them?
+85. What emotion drives the prose — irritation, pride, fear, wonder?
+86. Is the rhythm clenched (defensive) or open (exploratory)?
+87. Does the diction reveal class anxiety, moral superiority, or insecurity?
+88. Is humor used to clarify or to deflect?
+89. Does the writer need to dominate the reader intellectually?
+90. Does the language show obsession with control, symmetry, or perfection?
+
+X. Substance, Depth, and Cognitive Flexibility (10):
+91. Does the writer ever integrate a new idea mid-stream?
+92. Is there evidence of learning in motion — development within the text?
+93. Are insights layered, or all at the same conceptual level?
+94. When describing others' ideas, does the writer paraphrase accurately?
+95. Does the prose reveal real curiosity, or mere performance of curiosity?
+96. Does the author show capacity for self-correction?
+97. Is there flexibility of perspective, or rigid monologue?
+98. Does the argument invite dialogue, or shut it down?
+99. Is there intellectual empathy — ability to inhabit another view sincerely?
+100. After reading, do we feel we've encountered a mind in motion or a mask of erudition?
+
+Respond with clean JSON (no markdown formatting anywhere):
+{
+  "summary": "comprehensive 2-3 paragraph overview integrating content analysis with deep personality insights and specific evidence from the text",
+  "detailed_analysis": {
+    "content_themes": "detailed 3-4 paragraph analysis of topics discussed, interests revealed, concerns expressed, and what these reveal about the person's priorities and character",
+    "speech_analysis": {
+      "key_quotes": ["quote 1", "quote 2", "quote 3", "quote 4", "quote 5", "quote 6", "quote 7", "quote 8", "quote 9", "quote 10"],
+      "vocabulary_analysis": "comprehensive analysis of word choice, linguistic sophistication, communication style, and what it reveals about personality",
+      "personality_revealed": "detailed insights into character traits, values, and psychological patterns revealed through their specific word choices and expressions"
+    },
+    "core_psychological_assessment": {
+      "core_motivation": "What drives this person based on their expressed interests, priorities, and concerns",
+      "confidence_level": "Assessment of their real confidence level with supporting evidence from the text",
+      "self_acceptance": "Do they genuinely like themselves - evidence from self-talk and self-references",
+      "intelligence_level": "How smart are they - vocabulary, reasoning, complexity of ideas",
+      "creativity_assessment": "How creative are they - originality, innovative thinking, unique perspectives",
+      "stress_handling": "How they handle stress or setbacks based on their responses and attitudes",
+      "trustworthiness": "Are they trustworthy - consistency, honesty, reliability indicators",
+      "authenticity": "Do they exaggerate or fake things - genuine vs performative elements",
+      "ambition_level": "How ambitious are they - goal orientation, drive, achievement focus",
+      "insecurities": "What are they insecure about - revealed through defensiveness or overcompensation",
+      "social_validation": "How much do they care what others think - external vs internal validation",
+      "independence": "Are they independent-minded or followers - original vs conventional thinking",
+      "communication_style": "Do they dominate conversations or listen more - assertiveness patterns",
+      "criticism_response": "How do they deal with criticism - defensive, receptive, or dismissive",
+      "outlook": "Are they more optimistic or pessimistic - positive vs negative framing",
+      "humor_sense": "Do they have a strong sense of humor - wit, playfulness, levity",
+      "treatment_of_others": "How do they treat people beneath them - respect, dismissiveness, condescension",
+      "consistency": "Are they consistent or contradictory - logical coherence in their positions",
+      "hidden_strengths": "What hidden strengths do they have - subtle positive qualities",
+      "hidden_weaknesses": "What hidden weaknesses do they have - subtle negative patterns"
+    },
+    "professional_insights": "comprehensive analysis of career inclinations, work style preferences, leadership qualities, professional strengths, and workplace behavior patterns",
+    "growth_areas": {
+      "strengths": ["strength 1 with detailed evidence", "strength 2 with evidence", "strength 3 with evidence"],
+      "development_path": "detailed recommendations for personal and professional growth based on demonstrated patterns and potential areas for development"
+    }
+  }
+}
+`;
+
+        let data: TextInsight;
+        let longTextAnalysis: LongTextAnalysis | null = null;
+        if (estimateTokens(textAnalysisPrompt) <= getInputTokenBudget(selectedModel)) {
+          // Get personality analysis from the selected AI model, falling back to others if needed
+          ctx.report("llm", 20, `Generating analysis with ${selectedModel}`);
+          // Validated against the schema, with a repair prompt for any missing or invalid fields
+          const result = await generateValidated(textInsightSchema, {
+            system: "You are an expert in personality analysis and psychological assessment.",
+            messages: [{ role: "user", content: textAnalysisPrompt }],
+            signal: ctx.signal
+          }, { preferred: selectedModel });
+          data = result.data;
+          console.log(`Text analysis generated by ${result.provider}`);
+        } else {
+          // Too long for one prompt: analyze the text chunk by chunk and merge the results
+          longTextAnalysis = await analyzeLongText(content, selectedModel, ctx);
+          data = longTextAnalysis.insight;
+          console.log(`Long text analysis synthesized by ${longTextAnalysis.provider}`);
+        }
+        
+        // Clean up any markdown formatting in the analysis content
+        const analysisResult: TextInsight = cleanMarkdownFromAnalysis(data);
+      
+        ctx.throwIfCancelled();
+      
+        // Create personality insights in expected format
+        const personalityInsights: PersonalityInsights = {
+          peopleCount: 1,
+          individualProfiles: [analysisResult]
+        };
+      
+        ctx.report("saving", 90, "Saving analysis");
+      
+        // Create analysis record in storage
+        const analysis = await storage.createAnalysis({
+          sessionId,
+          mediaUrl: "", // Text analysis doesn't require a media URL
+          mediaType: "text",
+          textContent: content,
+          // Per-chunk answers, so quotes and conflicts can be traced back to their part of the text
+          ...(longTextAnalysis && {
+            documentAnalysis: {
+              pipeline: "chunked",
+              chunkChars: longTextAnalysis.chunkChars,
+              chunks: longTextAnalysis.chunks
+            }
+          }),
+          personalityInsights,
+          title: title || "Text Analysis"
+        });
+      
+        // Format message for response with comprehensive psychological assessment
+        const coreAssessment = analysisResult.detailed_analysis?.core_psychological_assessment;
+        const formattedContent = `
+Personality Analysis Based on Text
+
+${analysisResult.summary || "Analysis summary not available"}
+
+Core Psychological Assessment
+
+What drives this person: ${coreAssessment?.core_motivation || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Confidence level: ${coreAssessment?.confidence_level || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Self-acceptance: ${coreAssessment?.self_acceptance || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Intelligence level: ${coreAssessment?.intelligence_level || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Creativity: ${coreAssessment?.creativity_assessment || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Stress handling: ${coreAssessment?.stress_handling || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Trustworthiness: ${coreAssessment?.trustworthiness || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Authenticity: ${coreAssessment?.authenticity || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Ambition level: ${coreAssessment?.ambition_level || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Insecurities: ${coreAssessment?.insecurities || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Social validation needs: ${coreAssessment?.social_validation || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Independence: ${coreAssessment?.independence || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Communication style: ${coreAssessment?.communication_style || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Response to criticism: ${coreAssessment?.criticism_response || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Outlook: ${coreAssessment?.outlook || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Sense of humor: ${coreAssessment?.humor_sense || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Treatment of others: ${coreAssessment?.treatment_of_others || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Consistency: ${coreAssessment?.consistency || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Hidden strengths: ${coreAssessment?.hidden_strengths || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Hidden weaknesses: ${coreAssessment?.hidden_weaknesses || "[ERROR: AI model failed to provide answer - please regenerate analysis]"}
+
+Speech Analysis & Quotes
+${analysisResult.detailed_analysis?.speech_analysis ? 
+    `Key Quotes: ${(analysisResult.detailed_analysis.speech_analysis.key_quotes || []).join(' | ')}
+
+Vocabulary Analysis: ${analysisResult.detailed_analysis.speech_analysis.vocabulary_analysis || "Not available"}
+
+Personality Revealed: ${analysisResult.detailed_analysis.speech_analysis.personality_revealed || "Not available"}` 
+    : "Speech analysis not available"}
+
+Content Themes
+${analysisResult.detailed_analysis?.content_themes || "Content analysis not available"}
+
+Professional Insights
+${analysisResult.detailed_analysis?.professional_insights || "Professional insights not available"}
+
+Growth Areas
+${analysisResult.detailed_analysis?.growth_areas ? 
+    `Strengths: ${(analysisResult.detailed_analysis.growth_areas.strengths || []).join(', ')}
+
+Development Path: ${analysisResult.detailed_analysis.growth_areas.development_path || "Not available"}`
+    : "Growth analysis not available"}
+${longTextAnalysis ? `
+Long Text Analysis
+This text was analyzed in ${longTextAnalysis.chunks.length} parts and the results merged.
+${(analysisResult.detailed_analysis.conflict_notes || []).map(note => `Conflict: ${note}`).join('\n') || "The parts were consistent with each other."}
+` : ""}
+You can ask follow-up questions about this analysis.
+`;
+      
+        // Create initial message
+        const initialMessage = await storage.createMessage({
+          sessionId,
+          analysisId: analysis.id,
+          role: "assistant",
+          content: formattedContent
+        });
+      
+        // Hand the result to whoever is following the job
+        return {
+          analysisId: analysis.id,
+          messages: [initialMessage],
+          emailServiceAvailable: isEmailServiceConfigured
+        };
+      });
+      
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      console.error("Text analysis error:", error);
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to analyze text" });
+      }
+    }
+  });
+  
+  // Document analysis endpoint
+  app.post("/api/analyze/document", async (req, res) => {
+    try {
+      const { fileData, fileName, fileType, sessionId, selectedModel = "openai", title } = req.body;
+      
+      if (!fileData || typeof fileData !== 'string') {
+        return res.status(400).json({ error: "Document data is required" });
+      }
+      
+      if (!sessionId) {
+        return res.status(400).json({ error: "Session ID is required" });
+      }
+      
+      // Extract base64 content from data URL
+      const base64Data = fileData.split(',')[1];
+      if (!base64Data) {
+        return res.status(400).json({ error: "Invalid document data format" });
+      }
+      
+      const fileBuffer = Buffer.from(base64Data, 'base64');
+      
+      // Make sure at least one AI model can take the request
+      if (resolveProviders(selectedModel).length === 0) {
+        return res.status(503).json({ 
+          error: "No AI models are currently available. Please try again later." 
+        });
+      }
+      
+      // Run the analysis in the background and hand the client a job id to follow
+      const job = jobQueue.enqueue("document", async (ctx) => {
+        // Extract the document's text with page/paragraph anchors so quotes can be traced back
+        ctx.report("extraction", 5, "Extracting document text");
+        const extracted = await extractDocumentText(fileBuffer, fileType);
+        console.log(`Extracted ${extracted.wordCount} words in ${extracted.sections.length} sections from ${fileName}`);
+        ctx.throwIfCancelled();
+      
+        const truncated = extracted.text.length > DOCUMENT_PROMPT_MAX_CHARS;
+        const documentText = truncated ? extracted.text.slice(0, DOCUMENT_PROMPT_MAX_CHARS) : extracted.text;
+      
+        const documentAnalysisPrompt = `
+You are an expert psychologist and personality analyst. Analyze the uploaded document: ${fileName} (${extracted.format.toUpperCase()}${extracted.pageCount ? `, ${extracted.pageCount} pages` : ''}, ${extracted.wordCount} words).
+
+Each passage of the document below starts with its location in brackets, e.g. [p. 3, ¶ 2] for page 3, paragraph 2 of a PDF or [¶ 12] for paragraph 12 of a DOCX file. Footnotes are marked [^n] in the text and listed at the end as [footnote n].${truncated ? `
+The document is long, so only its first ${DOCUMENT_PROMPT_MAX_CHARS} characters are included.` : ''}
+
+DOCUMENT TEXT:
+${documentText}
+
+CRITICAL REQUIREMENTS:
+- NO MARKDOWN FORMATTING: Do not use # ### ** or any markdown in your response
+- PROVIDE COMPREHENSIVE 3-4 PARAGRAPH SECTIONS for each analysis area
+- EXTRACT SPECIFIC EVIDENCE from writing style, content, and communication patterns
+- QUOTE THE DOCUMENT EXACTLY when citing evidence, and give the bracketed location of every quote
+- ANSWER ALL 100 PSYCHOLOGICAL QUESTIONS with specific evidence
+
+You must provide detailed answers to these 100 fundamental psychological questions based on the document analysis:
+
+I. Information Processing Style (10):
+1. Does the text show an active mind organizing information, or a passive mind reciting it?
+2. Is information digested and restructured, or merely repeated?
+3. Does the writer analyze causes, or just describe effects?
+4. Are distinctions drawn sharply or blurred lazily?
+5. Is the reasoning linear, branching, or circular?
+6. Does the writer generalize prematurely or hold data until patterns emerge?
+7. Are claims proportioned to evidence?
+8. Does the mind shown seem inductive (pattern-seeking) or deductive (rule-enforcing)?
+9. Does the prose reveal curiosity, or intellectual fatigue?
+10. When the text confronts complexity, does it simplify or engage it?
+
+II. Emotional Processing Style (10):
+11. Are emotions named, implied, or avoided altogether?
+12. When emotion appears, is it integrated or intrusive?
+13. Does the author intellectualize feelings or experience them?
+14. Does the tone show restraint, volatility, or emotional flatness?
+15. Are emotional reactions linked to meaning, or detached from it?
+16. Does the text show empathy, contempt, or indifference toward others?
+17. Does emotion drive understanding or distort it?
+18. When faced with threat or contradiction, does the writer show defensiveness or reflection?
+19. Does the writing reveal warmth anywhere, or only analysis?
+20. Is there emotional growth within the text, or the same affect from start to finish?
+
+III. Agency & Activity Level (10):
+21. Does the prose suggest a person who acts on the world or merely comments on it?
+22. Are verbs mostly active or passive?
+23. Does the writer assume control of argument flow or let it meander?
+24. Does the voice take responsibility for claims ("I think," "I argue") or hide behind impersonal phrasing?
+25. Does the argument attempt to change the reader's mind or simply display intellect?
+26. Is there initiative — new frameworks, redefinitions — or only reaction?
+27. When obstacles appear, does the author adapt or stall?
+28. Does the text reveal willpower or resignation?
+29. Is the overall energy rising, steady, or depleted?
+30. Does the mind seem confident in shaping reality or resentful of being shaped by it?
+
+IV. Focus: Interpersonal vs. Ideational (10):
+31. Is attention directed toward people or toward abstractions?
+32. When others are mentioned, are they treated as minds or as examples?
+33. Does the prose imply social awareness or social detachment?
+34. Is there sensitivity to audience, or indifference to communication?
+35. Does persuasion matter, or only demonstration?
+36. Does the text reveal an interest in relationships, systems, or self-display?
+37. When using "we," is it inclusive or manipulative?
+38. Does the writer ever show vulnerability to others' judgment?
+39. Are ideas personified (showing emotional engagement) or sterilized?
+40. Does the author seek understanding or dominance over interlocutors?
+
+V. Motivation, Value System, and Reality Testing (10):
+41. What is the writer trying to achieve — truth, recognition, safety, superiority?
+42. Is success defined internally (clarity) or externally (approval)?
+43. Does the writer trust reason, intuition, authority, or instinct most?
+44. When evidence contradicts belief, does belief bend or resist?
+45. Is the worldview optimistic, tragic, cynical, or dispassionate?
+46. Does the author see the self as agent or as spectator?
+47. Does the text treat reality as negotiable (conceptualist) or binding (realist)?
+48. Does the writer seek understanding or vindication?
+49. Are problems treated as puzzles to solve or evils to condemn?
+50. Is there any visible hunger for truth — or only hunger for being right?
+
+VI. Intelligence & Conceptual Control (10):
+51. Does the writing show genuine intelligence — deep structure, inference, precision — or rote mimicry?
+52. Does the argument actually advance, or does it spin in circles?
+53. Does the author handle abstraction cleanly, or get lost in vagueness?
+54. Does reasoning depend on concrete evidence or empty jargon?
+55. When the author defines something, is it sharp and economical or padded and evasive?
+56. Are terms used consistently, or redefined to dodge difficulty?
+57. Is the prose intellectually ambitious in a disciplined way, or pretentious for show?
+58. Does the text reveal mastery of the material, or merely second-hand familiarity?
+59. Does the writer tolerate internal tension, or hide contradictions with style?
+60. Does the argument show genuine insight — a new relation between ideas — or rehearse clichés?
+
+VII. Honesty & Sincerity of Mind (10):
+61. Is the writer being straightforward, or manipulating phrasing to sound profound?
+62. Does the text ever admit uncertainty or limitation?
+63. When challenged (implicitly or explicitly), does the writer concede or double down?
+64. Is there visible willingness to change one's mind if the reasoning fails?
+65. Does the author ever say "I don't know," or is omniscience performed throughout?
+66. Are doubts faced or buried under abstraction?
+67. Does confidence come from understanding or bluster?
+68. Are counterarguments represented fairly, or caricatured for easy defeat?
+69. Does the writer seem to care about truth, or about appearing intelligent?
+70. Is there moral or intellectual humility anywhere in the text?
+
+VIII. Structure, Organization, and Focus (10):
+71. Is the argument linearly constructed or chaotic?
+72. Does every paragraph push the reasoning forward?
+73. Are transitions real or cosmetic?
+74. Does the conclusion actually follow from the premises?
+75. Are examples used to clarify or to disguise weakness?
+76. Does the text maintain topic discipline or wander aimlessly?
+77. Is there redundancy that signals insecurity?
+78. How coherent is paragraph sequencing — cumulative or random?
+79. Does the text have a visible beginning, middle, and end?
+80. Does the closing section resolve something or merely stop?
+
+IX. Psychological Profile in Style (10):
+81. Does the tone suggest calm confidence or anxious control?
+82. Is the style dry, combative, ingratiating, or sermonizing?
+83. Does the writer hide behind abstraction to avoid personal exposure?
+84. Is there contempt for opposing views or curiosity about them?
+85. What emotion drives the prose — irritation, pride, fear, wonder?
+86. Is the rhythm clenched (defensive) or open (exploratory)?
+87. Does the diction reveal class anxiety, moral superiority, or insecurity?
+88. Is humor used to clarify or to deflect?
+89. Does the writer need to dominate the reader intellectually?
+90. Does the language show obsession with control, symmetry, or perfection?
+
+X. Substance, Depth, and Cognitive Flexibility (10):
+91. Does the writer ever integrate a new idea mid-stream?
+92. Is there evidence of learning in motion — development within the text?
+93. Are insights layered, or all at the same conceptual level?
+94. When describing others' ideas, does the writer paraphrase accurately?
+95. Does the prose reveal real curiosity, or mere performance of curiosity?
+96. Does the author show capacity for self-correction?
+97. Is there flexibility of perspective, or rigid monologue?
+98. Does the argument invite dialogue, or shut it down?
+99. Is there intellectual empathy — ability to inhabit another view sincerely?
+100. After reading, do we feel we've encountered a mind in motion or a mask of erudition?
+
+Respond with clean JSON (no markdown formatting anywhere):
+{
+  "summary": "comprehensive 2-3 paragraph overview integrating document analysis with deep personality insights",
+  "detailed_analysis": {
+    "document_overview": "detailed analysis of document type, structure, content themes, and what they reveal about the author",
+    "core_psychological_assessment": {
+      "core_motivation": "What drives this person based on their expressed interests, priorities, and concerns",
+      "confidence_level": "Assessment of their real confidence level with supporting evidence from the document",
+      "self_acceptance": "Do they genuinely like themselves - evidence from self-talk and self-references",
+      "intelligence_level": "How smart are they - vocabulary, reasoning, complexity of ideas",
+      "creativity_assessment": "How creative are they - originality, innovative thinking, unique perspectives",
+      "stress_handling": "How they handle stress or setbacks based on their responses and attitudes",
+      "trustworthiness": "Are they trustworthy - consistency, honesty, reliability indicators",
+      "authenticity": "Do they exaggerate or fake things - genuine vs performative elements",
+      "ambition_level": "How ambitious are they - goal orientation, drive, achievement focus",
+      "insecurities": "What are they insecure about - revealed through defensiveness or overcompensation",
+      "social_validation": "How much do they care what others think - external vs internal validation",
+      "independence": "Are they independent-minded or followers - original vs conventional thinking",
+      "communication_style": "Do they dominate conversations or listen more - assertiveness patterns",
+      "criticism_response": "How do they deal with criticism - defensive, receptive, or dismissive",
+      "outlook": "Are they more optimistic or pessimistic - positive vs negative framing",
+      "humor_sense": "Do they have a strong sense of humor - wit, playfulness, levity",
+      "treatment_of_others": "How do they treat people beneath them - respect, dismissiveness, condescension",
+      "consistency": "Are they consistent or contradictory - logical coherence in their positions",
+      "hidden_strengths": "What hidden strengths do they have - subtle positive qualities",
+      "hidden_weaknesses": "What hidden weaknesses do they have - subtle negative patterns"
+    },
+    "writing_style": "comprehensive analysis of linguistic patterns, vocabulary, structure, and what it reveals about personality",
+    "professional_insights": "career inclinations, work style preferences, leadership qualities based on document content",
+    "quoted_evidence": [
+      {"quote": "exact words copied from the document that support the assessment", "location": "the bracketed location of the passage, e.g. p. 3, ¶ 2"}
+    ]
+  }
+}
+`;
+
+        // Get document analysis from the selected AI model, falling back to others if needed
+        ctx.report("llm", 20, `Generating analysis with ${selectedModel}`);
+        // Validated against the schema, with a repair prompt for any missing or invalid fields
+        const { data: analysisResult, provider } = await generateValidated(documentInsightSchema, {
+          system: "You are an expert in document analysis and personality assessment.",
+          messages: [{ role: "user", content: documentAnalysisPrompt }],
+          signal: ctx.signal
+        }, { preferred: selectedModel });
+        console.log(`Document analysis generated by ${provider}`);
+      
+        // Point every quote at the passage it actually came from
+        analysisResult.detailed_analysis.quoted_evidence = locateQuotes(extracted, analysisResult.detailed_analysis.quoted_evidence);
+      
+        // Create personality insights in expected format
+        const personalityInsights: PersonalityInsights = {
+          peopleCount: 1,
+          individualProfiles: [analysisResult]
+        };
+      
+        ctx.throwIfCancelled();
+        ctx.report("saving", 90, "Saving analysis");
+        
+        // Create analysis record in storage
+        const analysis = await storage.createAnalysis({
+          sessionId,
+          mediaUrl: "", // Document analysis uses file content, not URL
+          mediaType: "document",
+          documentType: extracted.format,
+          textContent: extracted.text,
+          documentAnalysis: {
+            format: extracted.format,
+            pageCount: extracted.pageCount,
+            wordCount: extracted.wordCount,
+            truncated,
+            sections: extracted.sections
+          },
+          personalityInsights,
+          title: title || fileName
+        });
+      
+        // Format message for response
+        const formattedContent = `
+# Document Analysis: ${fileName}
+
+${analysisResult.summary}
+
+## Document Overview
+${analysisResult.detailed_analysis.document_overview}
+
+## Writing Style
+${analysisResult.detailed_analysis.writing_style}
+
+## Author Personality Assessment
+${analysisResult.detailed_analysis.core_psychological_assessment.core_motivation}
+
+${analysisResult.detailed_analysis.core_psychological_assessment.communication_style}
+
+## Professional Insights
+${analysisResult.detailed_analysis.professional_insights}
+
+## Quoted Evidence
+${analysisResult.detailed_analysis.quoted_evidence.map(item => `"${item.quote}"${item.location ? ` (${item.location})` : ''}`).join('\n')}
+
+You can ask follow-up questions about this analysis.
+`;
+      
+        // Create initial message
+        const initialMessage = await storage.createMessage({
+          sessionId,
+          analysisId: analysis.id,
+          role: "assistant",
+          content: formattedContent
+        });
+      
+        // Hand the result to whoever is following the job
+        return {
+          analysisId: analysis.id,
+          messages: [initialMessage],
+          emailServiceAvailable: isEmailServiceConfigured
+        };
+      });
+      
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      console.error("Document analysis error:", error);
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to analyze document" });
+      }
+    }
+  });
+
+  // Photos, step one: find the faces so the user can choose and name who to analyze.
+  // The returned detectionId and their choices then go to /api/analyze.
+  app.post("/api/analyze/detect", async (req, res) => {
+    try {
+      const { mediaData, mediaId, sessionId, maxPeople } = detectFacesSchema.parse(req.body);
+      const media = resolveMediaSource({ mediaData, mediaId }, sessionId);
+      if (!media) {
+        return res.status(404).json({ error: MEDIA_EXPIRED_ERROR });
+      }
+
+      const job = jobQueue.enqueue("detection", async (ctx) => {
+        const { people, sceneContext } = await detectPhotoFaces(await readMedia(media), maxPeople, ctx);
+
+        // Crops help tell people apart, but the user can still choose by number without them
+        ctx.report("face_crops", 60, "Cropping faces");
+        const faceImages = await renderFaceImages(await mediaUrlFor(media, mediaData), toFacePeople(people)).catch(error => {
+          console.warn("Could not render face crops:", error);
+          return null;
+        });
+        const toDataUrl = (image: Buffer | undefined) => image ? `data:image/jpeg;base64,${image.toString('base64')}` : null;
+
+        const detection = faceDetections.save(sessionId, people, sceneContext);
+        return {
+          detectionId: detection.id,
+          annotatedImage: toDataUrl(faceImages?.annotated.data),
+          people: people.map(person => ({
+            personIndex: person.personIndex,
+            personLabel: person.personLabel,
+            boundingBox: person.boundingBox,
+            qualityAssessment: person.qualityAssessment,
+            cropImage: toDataUrl(faceImages?.crops.get(person.personIndex))
+          }))
+        };
+      });
+
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      console.error("Face detection error:", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to detect faces" });
+    }
+  });
+
+  app.post("/api/analyze/timeline", async (req, res) => {
+    try {
+      const { mediaData, mediaId, sessionId } = videoTimelineSchema.parse(req.body);
+      const media = resolveMediaSource({ mediaData, mediaId }, sessionId);
+      if (!media) {
+        return res.status(404).json({ error: MEDIA_EXPIRED_ERROR });
+      }
+      if (uploadMediaType(media.mimeType) !== "video") {
+        return res.status(400).json({ error: "A timeline can only be built for a video" });
+      }
+
+      const job = jobQueue.enqueue("timeline", async (ctx) => {
+        const video = await openMediaFile(media, "mp4");
+
+        try {
+          ctx.report("frame_extraction", 10, "Reading video");
+          const duration = await getVideoDuration(video.path);
+
+          ctx.report("timeline", 30, "Building thumbnails and waveform");
+          const timeline = await generateVideoTimeline(video.path, duration);
+          return {
+            ...timeline,
+            thumbnails: timeline.thumbnails.map(thumbnail => ({
+              timestamp: thumbnail.timestamp,
+              image: `data:image/jpeg;base64,${thumbnail.image.toString('base64')}`
+            }))
+          };
+        } finally {
+          await video.release();
+        }
+      });
+
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      console.error("Video timeline error:", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to build the video timeline" });
+    }
+  });
+
+  app.post("/api/analyze", async (req, res) => {
+    try {
+      // Use the new schema that supports both image and video with optional maxPeople
+      const { mediaData, mediaId, mediaType, sessionId, maxPeople = 5, selectedModel = "deepseek", videoSegmentStart = 0, videoSegmentDuration = 3, videoMode = "segment", detectionId, people } = uploadMediaSchema.parse(req.body);
+
+      // Photos analyzed in two steps reuse the faces found in the first
+      const detection = detectionId ? faceDetections.get(detectionId) : undefined;
+      if (detectionId && (!detection || detection.sessionId !== sessionId)) {
+        return res.status(404).json({ error: "The detected faces have expired. Please upload the photo again." });
+      }
+      if (detection && (!people || people.length === 0)) {
+        return res.status(400).json({ error: "Choose at least one person to analyze" });
+      }
+
+      // Re-analysis refers to the earlier upload instead of sending the file again
+      const media = resolveMediaSource({ mediaData, mediaId }, sessionId);
+      if (!media) {
+        return res.status(404).json({ error: MEDIA_EXPIRED_ERROR });
+      }
+      if (media.mediaId && uploadMediaType(media.mimeType) !== mediaType) {
+        return res.status(400).json({ error: `The uploaded file is not ${mediaType === "video" ? "a video" : `an ${mediaType}`}` });
+      }
+
+      // Audio is limited to the formats the transcription services take
+      const audioExtension = AUDIO_FORMATS[media.mimeType];
+      if (mediaType === "audio" && !audioExtension) {
+        return res.status(400).json({ error: "Unsupported audio format. Please upload an MP3, WAV, M4A or OGG file." });
+      }
+
+      // Run the analysis in the background and hand the client a job id to follow
+      const job = jobQueue.enqueue(mediaType, async (ctx) => {
+        let faceAnalysis: any = [];
+        let peopleToAnalyze: any = null; // Set when some detected faces are too poor to analyze
+        let skippedFaces: any[] = [];
+        let videoAnalysis: any = null;
+        let audioTranscription: any = null;
+        let sceneContext: SceneContext | null = null;
+        let prosody: Prosody | null = null;
+        const photoBuffer = mediaType === "image" ? await readMedia(media) : null;
+      
+        // Process based on media type
+        if (mediaType === "image" && detection) {
+          // The user already chose, and maybe named, who to analyze from the detected faces
+          faceAnalysis = applyPeopleSelection(detection.people, people!);
+          peopleToAnalyze = faceAnalysis.filter((person: any) => person.selected && person.qualityAssessment.verdict !== "unusable");
+          skippedFaces = faceAnalysis.filter((person: any) => person.qualityAssessment.verdict === "unusable");
+          if (peopleToAnalyze.length === 0) {
+            throw new Error("None of the chosen people has a face clear enough to analyze.");
+          }
+          sceneContext = detection.sceneContext;
+        } else if (mediaType === "image") {
+          // For images, use comprehensive multi-service face analysis
+          const qualityGate = await detectPhotoFaces(photoBuffer!, maxPeople, ctx);
+          faceAnalysis = qualityGate.people;
+          peopleToAnalyze = qualityGate.usable;
+          skippedFaces = qualityGate.skipped;
+          sceneContext = qualityGate.sceneContext;
+        } else if (mediaType === "audio") {
+          // Audio has no faces to analyze: the transcript, speakers and measured voice are the evidence
+          faceAnalysis = null;
+          const audio = await openMediaFile(media, audioExtension);
+          try {
+            ctx.report("transcription", 10, "Transcribing audio");
+            ({ prosody, ...audioTranscription } = await extractAudioTranscription(audio.path));
+            console.log(`Audio transcription complete. Text length: ${audioTranscription.transcription.length} characters`);
+          } finally {
+            await audio.release();
+          }
+          if (["none", "error"].includes(audioTranscription.speechAnalysis.provider)) {
+            throw new Error("None of the transcription services could process this audio. Please try a clearer recording.");
+          }
+        } else {
+          // For videos, analyze either the selected 3-second segment or the whole clip
+          const video = await openMediaFile(media, "mp4");
+          try {
+            console.log(`Video size: ${media.size / 1024 / 1024} MB`);
+            const videoPath = video.path;
+          
+            // Get video duration using ffprobe
+            ctx.report("frame_extraction", 5, "Reading video");
+            const videoDuration = await getVideoDuration(videoPath);
+            console.log(`Video duration: ${videoDuration} seconds`);
+          
+            if (videoMode === "full") {
+              // Whole-clip coverage: frames sampled from every chunk, full audio transcribed
+              const fullVideo = await analyzeFullVideo(videoPath, videoDuration, maxPeople, ctx);
+            
+              // Follow each person across the frames so their label means the same person throughout,
+              // and profile everyone seen from the frame with their clearest face
+              ctx.report("tracking", 35, "Tracking people across frames");
+              const tracking = await trackPeopleAcrossFrames(fullVideo.frames);
+              const qualityGate = gateTrackedFaces(tracking.representatives.slice(0, maxPeople), ctx, 35);
+              faceAnalysis = qualityGate.people;
+              peopleToAnalyze = qualityGate.usable;
+              skippedFaces = qualityGate.skipped;
+              console.log(`Tracked ${tracking.people.length} people across ${fullVideo.frames.length} sampled frames`);
+            
+              let azureVideoInsights = null;
+              if (isVideoIndexerConfigured) {
+                try {
+                  ctx.report("video_indexer", 36, "Running Azure Video Indexer");
+                  azureVideoInsights = await analyzeVideoWithAzureIndexer(await readMedia(media));
+                } catch (error) {
+                  console.warn('Azure Video Indexer analysis failed:', error);
+                }
+              }
+            
+              videoAnalysis = {
+                provider: azureVideoInsights ? "azure_video_indexer" : "basic",
+                mode: "full",
+                totalVideoDuration: videoDuration,
+                chunkDuration: fullVideo.chunkDuration,
+                chunks: fullVideo.chunks,
+                // The frames face analysis ran on, picked per chunk for face clarity and scene change
+                keyframes: summarizeKeyframes(fullVideo.frames),
+                keyframeSelection: fullVideo.keyframeSelection,
+                // Per-person emotion timelines under the tracked labels, plus the utterances linked to each
+                trackedPeople: tracking.people,
+                // Time-indexed face data the AI model cites timestamps from
+                timeline: fullVideo.frames.map(frame => ({
+                  timestamp: frame.timestamp,
+                  chunkIndex: frame.chunkIndex,
+                  people: summarizeFrameFaces(frame.faceAnalysis)
+                })),
+                ...(azureVideoInsights && { azureInsights: azureVideoInsights })
+              };
+            
+              ctx.report("transcription", 40, "Transcribing full audio");
+              ({ prosody, ...audioTranscription } = await extractAudioTranscription(videoPath));
+              console.log(`Audio transcription complete. Text length: ${audioTranscription.transcription.length} characters`);
+            
+              // Frames within a chunk are about a quarter chunk apart, so that's how long a sighting counts for
+              const linkedUtterances = linkUtterancesToPeople(
+                tracking.people,
+                audioTranscription.transcriptionData?.utterances || [],
+                fullVideo.chunkDuration / (FULL_VIDEO_FRAMES_PER_CHUNK + 1)
+              );
+              console.log(`Linked ${linkedUtterances} utterances to tracked people`);
+            } else {
+              // Extract the specific 3-second segment requested
+              const segmentPath = path.join(tempDir, `${Math.random().toString(36).substring(2, 15)}_segment.mp4`);
+              const actualDuration = Math.min(videoSegmentDuration, videoDuration - videoSegmentStart);
+          
+              if (actualDuration <= 0) {
+                throw new Error(`Invalid segment: starts at ${videoSegmentStart}s but video is only ${videoDuration}s long`);
+              }
+          
+              console.log(`Extracting ${actualDuration}s segment starting at ${videoSegmentStart}s...`);
+              await extractVideoSegment(videoPath, videoSegmentStart, actualDuration, segmentPath);
+          
+              // Process the segment instead of the full video
+              const segmentBuffer = await fs.promises.readFile(segmentPath);
+          
+              // Pick the segment's clearest frames instead of whatever is on screen halfway through
+              ctx.report("frame_extraction", 12, "Choosing the clearest frames");
+              const keyframeSelection = await selectKeyframes(segmentPath, actualDuration, SEGMENT_KEYFRAMES, maxPeople);
+          
+              // Now run comprehensive multi-service face analysis on each keyframe
+              ctx.report("face_analysis", 18, "Running face analysis services");
+              const keyframes = await analyzeKeyframes(keyframeSelection, videoSegmentStart, maxPeople, timestamp => {
+                ctx.throwIfCancelled();
+                console.log(`Analyzing keyframe at ${timestamp}s`);
+              });
+          
+              // Follow people across the keyframes and profile each from their clearest face
+              const tracking = await trackPeopleAcrossFrames(keyframes);
+              const qualityGate = gateTrackedFaces(tracking.representatives.slice(0, maxPeople), ctx, 25);
+              faceAnalysis = qualityGate.people;
+              peopleToAnalyze = qualityGate.usable;
+              skippedFaces = qualityGate.skipped;
+              console.log(`Detected ${faceAnalysis.length} people across ${keyframes.length} keyframes of the video segment`);
+          
+              // Process the segment for comprehensive analysis
+              console.log(`Processing video segment: ${videoSegmentStart}s to ${videoSegmentStart + actualDuration}s`);
+          
+              // Try to get Azure Video Indexer analysis if available (on the segment)
+              let azureVideoInsights = null;
+          
+              if (isVideoIndexerConfigured) {
+                try {
+                  console.log('Attempting deep video analysis with Azure Video Indexer...');
+                  ctx.report("video_indexer", 28, "Running Azure Video Indexer");
+                  azureVideoInsights = await analyzeVideoWithAzureIndexer(segmentBuffer);
+              
+                  if (azureVideoInsights) {
+                    console.log('Azure Video Indexer analysis successful!');
+                  }
+                } catch (error) {
+                  console.warn('Azure Video Indexer analysis failed:', error);
+                  // Continue with basic analysis if Azure Video Indexer fails
+                }
+              }
+          
+              // Create a comprehensive video analysis for the segment
+              videoAnalysis = {
+                provider: azureVideoInsights ? "azure_video_indexer" : "basic",
+                segmentStart: videoSegmentStart,
+                segmentDuration: actualDuration,
+                totalVideoDuration: videoDuration,
+                segmentData: {
+                  timestamp: videoSegmentStart,
+                  duration: actualDuration,
+                  faceAnalysis: faceAnalysis
+                },
+                // The frames face analysis ran on, picked for face clarity and scene change
+                keyframes: summarizeKeyframes(keyframes),
+                keyframeSelection: { candidates: keyframeSelection.candidates, scoredBy: keyframeSelection.scoredBy },
+                // Per-person emotion timelines across the keyframes, under the tracked labels
+                trackedPeople: tracking.people,
+            
+                // Include Azure insights if available
+                ...(azureVideoInsights && { azureInsights: azureVideoInsights })
+              };
+          
+              // Get audio transcription from the segment
+              console.log('Starting audio transcription with Whisper API...');
+              ctx.report("transcription", 35, "Transcribing audio");
+              ({ prosody, ...audioTranscription } = await extractAudioTranscription(segmentPath));
+              console.log(`Audio transcription complete. Text length: ${audioTranscription.transcription.length} characters`);
+          
+              // Clean up the extracted segment; the video itself is released below
+              try {
+                await unlinkAsync(segmentPath);
+              } catch (e) {
+                console.warn("Error cleaning up temp files:", e);
+              }
+            }
+          } catch (error) {
+            console.error("Error processing video:", error);
+            throw new Error("Failed to process video. Please try a smaller video file or an image.");
+          } finally {
+            await video.release();
+          }
+        }
+
+        // Get comprehensive personality insights with enhanced cognitive profiling
+        ctx.throwIfCancelled();
+        const personalityInsights = await getEnhancedPersonalityInsights(
+          peopleToAnalyze ?? faceAnalysis, 
+          videoAnalysis, 
+          audioTranscription,
+          selectedModel,
+          ctx,
+          sceneContext,
+          prosody
+        );
+        ctx.throwIfCancelled();
+        if (skippedFaces.length > 0) {
+          personalityInsights.skippedFaces = skippedFaces.map(person => ({ personLabel: person.personLabel, faceQuality: person.qualityAssessment }));
+        }
+
+        // Determine how many people were detected
+        const peopleCount = personalityInsights.peopleCount || 1;
+
+        // Create analysis in storage
+        ctx.report("saving", 95, "Saving analysis");
+        const analysis = await storage.createAnalysis({
+          sessionId,
+          mediaUrl: await mediaUrlFor(media, mediaData),
+          mediaType,
+          faceAnalysis,
+          videoAnalysis: videoAnalysis || undefined,
+          audioTranscription: audioTranscription || undefined,
+          sceneContext,
+          prosody,
+          personalityInsights,
+        });
+
+        // Keep the upload the analysis links to for as long as the analysis exists
+        const linkedUpload = uploadIdFromMediaUrl(analysis.mediaUrl);
+        if (linkedUpload) {
+          mediaUploads.keep(linkedUpload);
+        }
+
+        // Format initial message content for the chat
+        let formattedContent = "";
+        const skippedFacesNote = skippedFaces.length > 0
+          ? `Not Analyzed (image quality):\n${skippedFaces.map(person => `- ${describeFaceQuality(person.personLabel, person.qualityAssessment)}`).join("\n")}\n\n`
+          : "";
+        const sceneContextNote = sceneContext ? `Scene Context:\n${sceneContext.summary}\n\n` : "";
+        const audioRecordingNote = mediaType === "audio" ? formatAudioRecording(audioTranscription, prosody) : "";
+      
+        if (personalityInsights.individualProfiles?.length > 1) {
+          // Multi-person message format with improved visual structure
+          const peopleCount = personalityInsights.individualProfiles.length;
+          formattedContent = `AI-Powered Psychological Profile Report\n`;
+          formattedContent += `Subjects Detected: ${peopleCount} Individuals\n`;
+          formattedContent += `Mode: Group Analysis\n\n`;
+          formattedContent += skippedFacesNote;
+          formattedContent += sceneContextNote;
+        
+          // Add each individual profile first
+          personalityInsights.individualProfiles.forEach((profile: any, index) => {
+            const gender = profile.personLabel?.includes('Male') ? 'Male' : 
+                           profile.personLabel?.includes('Female') ? 'Female' : '';
+            const ageMatch = profile.personLabel?.match(/~(\d+)-(\d+)/);
+            const ageRange = ageMatch ? `~${ageMatch[1]}–${ageMatch[2]} years` : '';
+            const genderAge = [gender, ageRange].filter(Boolean).join(', ');
+          
+            formattedContent += `${profile.personName || `Subject ${index + 1}`}${genderAge ? ` (${genderAge})` : ''}\n`;
+            formattedContent += `${'─'.repeat(40)}\n\n`;
+          
+            const detailedAnalysis = profile.detailed_analysis || {};
+          
+            formattedContent += `Summary:\n${profile.summary || 'No summary available'}\n\n`;
+            formattedContent += formatFaceDisagreements(profile.faceServiceDisagreements);
+            formattedContent += formatFaceQuality(profile.faceQuality);
+          
+            // Display comprehensive psychological analysis for each person
+            const coreAssessment = detailedAnalysis.core_psychological_assessment || {};
+          
+            formattedContent += `Core Psychological Assessment:\n\n`;
+            formattedContent += `What drives this person: ${coreAssessment.core_motivation || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Confidence level: ${coreAssessment.confidence_level || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Self-acceptance: ${coreAssessment.self_acceptance || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Intelligence level: ${coreAssessment.intelligence_level || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Creativity: ${coreAssessment.creativity_assessment || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Stress handling: ${coreAssessment.stress_handling || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Trustworthiness: ${coreAssessment.trustworthness || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Authenticity: ${coreAssessment.authenticity || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Ambition level: ${coreAssessment.ambition_level || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Insecurities: ${coreAssessment.insecurities || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Social validation needs: ${coreAssessment.social_validation || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Independence: ${coreAssessment.independence || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Communication style: ${coreAssessment.communication_style || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Response to criticism: ${coreAssessment.criticism_response || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Outlook: ${coreAssessment.outlook || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Sense of humor: ${coreAssessment.humor_sense || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Treatment of others: ${coreAssessment.treatment_of_others || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Consistency: ${coreAssessment.consistency || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Hidden strengths: ${coreAssessment.hidden_strengths || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n`;
+            formattedContent += `Hidden weaknesses: ${coreAssessment.hidden_weaknesses || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+          
+            formattedContent += formatTimeline(detailedAnalysis.timestamped_observations);
+          
+            if (detailedAnalysis.professional_insights) {
+              formattedContent += `Professional Insights:\n${detailedAnalysis.professional_insights}\n\n`;
+            }
+          
+            if (detailedAnalysis.relationships) {
+              formattedContent += `Relationships:\n`;
+              const relationshipParts = [];
+            
+              if (detailedAnalysis.relationships.current_status && 
+                  detailedAnalysis.relationships.current_status !== 'Not available') {
+                relationshipParts.push(detailedAnalysis.relationships.current_status);
+              }
+            
+              if (detailedAnalysis.relationships.parental_status && 
+                  detailedAnalysis.relationships.parental_status !== 'Not available') {
+                relationshipParts.push(detailedAnalysis.relationships.parental_status);
+              }
+            
+              if (detailedAnalysis.relationships.ideal_partner && 
+                  detailedAnalysis.relationships.ideal_partner !== 'Not available') {
+                relationshipParts.push(`Ideal match: ${detailedAnalysis.relationships.ideal_partner}`);
+              }
+            
+              formattedContent += relationshipParts.length > 0 
+                ? relationshipParts.join(' ') 
+                : 'No relationship data available';
+            
+              formattedContent += `\n\n`;
+            }
+          
+            if (detailedAnalysis.growth_areas) {
+              formattedContent += `📈 Growth Areas:\n`;
+            
+              if (Array.isArray(detailedAnalysis.growth_areas.strengths) && 
+                  detailedAnalysis.growth_areas.strengths.length > 0) {
+                formattedContent += `Strengths:\n${detailedAnalysis.growth_areas.strengths.map((s: string) => `• ${s}`).join('\n')}\n\n`;
+              }
+            
+              if (Array.isArray(detailedAnalysis.growth_areas.challenges) && 
+                  detailedAnalysis.growth_areas.challenges.length > 0) {
+                formattedContent += `Challenges:\n${detailedAnalysis.growth_areas.challenges.map((c: string) => `• ${c}`).join('\n')}\n\n`;
+              }
+            
+              if (detailedAnalysis.growth_areas.development_path) {
+                formattedContent += `Development Path:\n${detailedAnalysis.growth_areas.development_path}\n\n`;
+              }
+            }
+          });
+        
+          // Add group dynamics at the end
+          if (personalityInsights.groupDynamics) {
+            formattedContent += `${'─'.repeat(65)}\n`;
+            formattedContent += `🤝 Group Dynamics (${peopleCount}-Person Analysis)\n`;
+            formattedContent += `${'─'.repeat(65)}\n\n`;
+            formattedContent += `${personalityInsights.groupDynamics}\n`;
+          }
+        
+        } else if (personalityInsights.individualProfiles?.length === 1) {
+          // Single person format with comprehensive psychological analysis
+          const profile: any = personalityInsights.individualProfiles[0];
+          const detailedAnalysis = profile.detailed_analysis || {};
+          const assessments = profile.assessments || null;
+          const coreAssessment = detailedAnalysis.core_psychological_assessment || {};
+        
+          const gender = profile.personLabel?.includes('Male') ? 'Male' : 
+                         profile.personLabel?.includes('Female') ? 'Female' : '';
+          const ageMatch = profile.personLabel?.match(/~(\d+)-(\d+)/);
+          const ageRange = ageMatch ? `~${ageMatch[1]}–${ageMatch[2]} years` : '';
+          const genderAge = [gender, ageRange].filter(Boolean).join(', ');
+        
+          formattedContent = `AI-Powered Psychological Profile Report\n`;
+          formattedContent += `Subject Detected: 1 Individual\n`;
+          formattedContent += `Mode: ${mediaType === "audio" ? "Audio" : "Individual"} Analysis\n\n`;
+          formattedContent += skippedFacesNote;
+          formattedContent += sceneContextNote;
+          formattedContent += audioRecordingNote;
+        
+          formattedContent += `${profile.personName || 'Subject 1'}${genderAge ? ` (${genderAge})` : ''}\n`;
+          formattedContent += `${'─'.repeat(40)}\n\n`;
+        
+          formattedContent += `Summary:\n${profile.summary || 'No summary available'}\n\n`;
+          formattedContent += formatFaceDisagreements(profile.faceServiceDisagreements);
+          formattedContent += formatFaceQuality(profile.faceQuality);
+        
+          // Check if this is the NEW assessment-based format (for photos) or OLD format (for videos)
+          if (assessments) {
+            // NEW ASSESSMENT-BASED FORMAT FOR PHOTO ANALYSIS
+            formattedContent += `PSYCHOLOGICAL ASSESSMENT RESULTS\n`;
+            formattedContent += `${' ='.repeat(40)}\n\n`;
+          
+            // Trait & Type Assessments
+            if (assessments.trait_type_assessments) {
+              formattedContent += `TRAIT & TYPE ASSESSMENTS:\n\n`;
+              const t = assessments.trait_type_assessments;
+              if (t.mbti) formattedContent += `MBTI: ${t.mbti}\n\n`;
+              if (t.big_five_ocean) formattedContent += `Big Five (OCEAN): ${t.big_five_ocean}\n\n`;
+              if (t.hexaco) formattedContent += `HEXACO: ${t.hexaco}\n\n`;
+              if (t.enneagram) formattedContent += `Enneagram: ${t.enneagram}\n\n`;
+              if (t.disc) formattedContent += `DISC: ${t.disc}\n\n`;
+              if (t["16pf"]) formattedContent += `16PF: ${t["16pf"]}\n\n`;
+              if (t.keirsey_temperament) formattedContent += `Keirsey Temperament: ${t.keirsey_temperament}\n\n`;
+              if (t.socionics) formattedContent += `Socionics: ${t.socionics}\n\n`;
+              if (t.hogan_personality) formattedContent += `Hogan Personality: ${t.hogan_personality}\n\n`;
+            }
+          
+            // Clinical & Mental Health
+            if (assessments.clinical_mental_health) {
+              formattedContent += `CLINICAL & MENTAL HEALTH ASSESSMENTS:\n\n`;
+              const c = assessments.clinical_mental_health;
+              if (c.mmpi) formattedContent += `MMPI: ${c.mmpi}\n\n`;
+              if (c.mcmi) formattedContent += `MCMI: ${c.mcmi}\n\n`;
+              if (c.dsm5) formattedContent += `DSM-5: ${c.dsm5}\n\n`;
+              if (c.beck_depression) formattedContent += `Beck Depression: ${c.beck_depression}\n\n`;
+              if (c.hamilton_depression) formattedContent += `Hamilton Depression: ${c.hamilton_depression}\n\n`;
+              if (c.beck_anxiety) formattedContent += `Beck Anxiety: ${c.beck_anxiety}\n\n`;
+              if (c.gad7) formattedContent += `GAD-7: ${c.gad7}\n\n`;
+              if (c.phq9) formattedContent += `PHQ-9: ${c.phq9}\n\n`;
+            }
+          
+            // Cognitive & Intelligence
+            if (assessments.cognitive_intelligence) {
+              formattedContent += `COGNITIVE & INTELLIGENCE ASSESSMENTS:\n\n`;
+              const cog = assessments.cognitive_intelligence;
+              if (cog.wais) formattedContent += `WAIS: ${cog.wais}\n\n`;
+              if (cog.wisc) formattedContent += `WISC: ${cog.wisc}\n\n`;
+              if (cog.stanford_binet) formattedContent += `Stanford-Binet: ${cog.stanford_binet}\n\n`;
+              if (cog.ravens_progressive) formattedContent += `Raven's Progressive Matrices: ${cog.ravens_progressive}\n\n`;
+              if (cog.woodcock_johnson) formattedContent += `Woodcock-Johnson: ${cog.woodcock_johnson}\n\n`;
+            }
+          
+            // Projective Tests
+            if (assessments.projective_tests) {
+              formattedContent += `PROJECTIVE TESTS:\n\n`;
+              const p = assessments.projective_tests;
+              if (p.rorschach) formattedContent += `Rorschach: ${p.rorschach}\n\n`;
+              if (p.tat) formattedContent += `TAT: ${p.tat}\n\n`;
+              if (p.draw_a_person) formattedContent += `Draw-a-Person: ${p.draw_a_person}\n\n`;
+              if (p.sentence_completion) formattedContent += `Sentence Completion: ${p.sentence_completion}\n\n`;
+            }
+          
+            // Emotional & Social
+            if (assessments.emotional_social) {
+              formattedContent += `EMOTIONAL & SOCIAL FUNCTIONING:\n\n`;
+              const e = assessments.emotional_social;
+              if (e.eqi) formattedContent += `EQ-i: ${e.eqi}\n\n`;
+              if (e.msceit) formattedContent += `MSCEIT: ${e.msceit}\n\n`;
+              if (e.baron_emotional) formattedContent += `Bar-On Emotional Intelligence: ${e.baron_emotional}\n\n`;
+              if (e.social_responsiveness) formattedContent += `Social Responsiveness: ${e.social_responsiveness}\n\n`;
+            }
+          
+            // Behavioral & Attention
+            if (assessments.behavioral_attention) {
+              formattedContent += `BEHAVIORAL & ATTENTION ASSESSMENTS:\n\n`;
+              const b = assessments.behavioral_attention;
+              if (b.adhd_rating) formattedContent += `ADHD Rating Scale: ${b.adhd_rating}\n\n`;
+              if (b.conners) formattedContent += `Conners': ${b.conners}\n\n`;
+              if (b.brief) formattedContent += `BRIEF: ${b.brief}\n\n`;
+            }
+          
+            // Vocational & Motivation
+            if (assessments.vocational_motivation) {
+              formattedContent += `VOCATIONAL & MOTIVATION ASSESSMENTS:\n\n`;
+              const v = assessments.vocational_motivation;
+              if (v.strong_interest) formattedContent += `Strong Interest Inventory: ${v.strong_interest}\n\n`;
+              if (v.riasec_holland) formattedContent += `RIASEC/Holland Codes: ${v.riasec_holland}\n\n`;
+              if (v.via_character) formattedContent += `VIA Character Strengths: ${v.via_character}\n\n`;
+              if (v.schwartz_values) formattedContent += `Schwartz Values: ${v.schwartz_values}\n\n`;
+            }
+          
+            // Personality Pathology
+            if (assessments.personality_pathology) {
+              formattedContent += `PERSONALITY PATHOLOGY & DARK TRAITS:\n\n`;
+              const path = assessments.personality_pathology;
+              if (path.pclr) formattedContent += `PCL-R: ${path.pclr}\n\n`;
+              if (path.dark_triad) formattedContent += `Dark Triad: ${path.dark_triad}\n\n`;
+              if (path.pid5) formattedContent += `PID-5: ${path.pid5}\n\n`;
+            }
+          } else {
+            // OLD FORMAT FOR VIDEO ANALYSIS
+            formattedContent += `Core Psychological Assessment\n\n`;
+          
+            formattedContent += `What drives this person: ${coreAssessment.core_motivation || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Confidence level: ${coreAssessment.confidence_level || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Self-acceptance: ${coreAssessment.self_acceptance || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Intelligence level: ${coreAssessment.intelligence_level || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Creativity: ${coreAssessment.creativity_assessment || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Stress handling: ${coreAssessment.stress_handling || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Trustworthiness: ${coreAssessment.trustworthiness || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Authenticity: ${coreAssessment.authenticity || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Ambition level: ${coreAssessment.ambition_level || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Insecurities: ${coreAssessment.insecurities || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Social validation needs: ${coreAssessment.social_validation || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Independence: ${coreAssessment.independence || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Communication style: ${coreAssessment.communication_style || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Response to criticism: ${coreAssessment.criticism_response || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Outlook: ${coreAssessment.outlook || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Sense of humor: ${coreAssessment.humor_sense || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Treatment of others: ${coreAssessment.treatment_of_others || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Consistency: ${coreAssessment.consistency || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Hidden strengths: ${coreAssessment.hidden_strengths || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+            formattedContent += `Hidden weaknesses: ${coreAssessment.hidden_weaknesses || '[ERROR: AI model failed to provide answer - please regenerate analysis]'}\n\n`;
+          }
+        
+          // Speech Analysis section if available
+          if (detailedAnalysis.speech_analysis) {
+            formattedContent += `Speech Analysis & Quotes\n`;
+            const speechAnalysis = detailedAnalysis.speech_analysis;
+          
+            if (speechAnalysis.key_quotes && Array.isArray(speechAnalysis.key_quotes) && speechAnalysis.key_quotes.length > 0) {
+              formattedContent += `Key Quotes: ${speechAnalysis.key_quotes.join(' | ')}\n\n`;
+            }
+          
+            if (speechAnalysis.vocabulary_analysis) {
+              formattedContent += `Vocabulary Analysis: ${speechAnalysis.vocabulary_analysis}\n\n`;
+            }
+          
+            if (speechAnalysis.personality_revealed) {
+              formattedContent += `Personality Revealed: ${speechAnalysis.personality_revealed}\n\n`;
+            }
+          }
+        
+          // Visual Evidence section if available  
+          if (detailedAnalysis.visual_evidence) {
+            formattedContent += `Visual Evidence\n`;
+            const visualEvidence = detailedAnalysis.visual_evidence;
+          
+            if (visualEvidence.facial_analysis) {
+              formattedContent += `Facial Analysis: ${visualEvidence.facial_analysis}\n\n`;
+            }
+          
+            if (visualEvidence.body_language) {
+              formattedContent += `Body Language: ${visualEvidence.body_language}\n\n`;
+            }
+          
+            if (visualEvidence.appearance_details) {
+              formattedContent += `Appearance Details: ${visualEvidence.appearance_details}\n\n`;
+            }
+          
+            if (visualEvidence.microexpressions) {
+              formattedContent += `Microexpressions: ${visualEvidence.microexpressions}\n\n`;
+            }
+          }
+        
+          // Voice Evidence section for audio-only analyses
+          if (detailedAnalysis.voice_evidence) {
+            formattedContent += `Voice Evidence\n`;
+            for (const [key, value] of Object.entries(detailedAnalysis.voice_evidence)) {
+              const label = key.replace(/_/g, ' ');
+              formattedContent += `${label.charAt(0).toUpperCase() + label.slice(1)}: ${value}\n\n`;
+            }
+          }
+        
+          // Moments cited from a full-length video or an audio recording
+          formattedContent += formatTimeline(detailedAnalysis.timestamped_observations);
+        
+          // Professional Insights
+          if (detailedAnalysis.professional_insights) {
+            formattedContent += `Professional Insights\n${detailedAnalysis.professional_insights}\n\n`;
+          }
+        
+          // Growth Areas
+          if (detailedAnalysis.growth_areas) {
+            formattedContent += `Growth Areas\n`;
+          
+            if (Array.isArray(detailedAnalysis.growth_areas.strengths) && 
+                detailedAnalysis.growth_areas.strengths.length > 0) {
+              formattedContent += `Strengths: ${detailedAnalysis.growth_areas.strengths.join(', ')}\n\n`;
+            }
+          
+            if (detailedAnalysis.growth_areas.development_path) {
+              formattedContent += `Development Path: ${detailedAnalysis.growth_areas.development_path}\n\n`;
+            }
+          }
+        } else {
+          // Fallback if no profiles
+          formattedContent = "No personality profiles could be generated. Please try again with a different image, video or recording.";
+        }
+
+        // Send initial message with comprehensive analysis
+        const message = await storage.createMessage({
+          sessionId,
+          analysisId: analysis.id,
+          content: formattedContent,
+          role: "assistant",
+        });
+
+        // Get all messages to return to client
+        const messages = await storage.getMessagesBySessionId(sessionId);
+
+        console.log(`Analysis complete. Created message with ID ${message.id} and returning ${messages.length} messages`);
+      
+        // Hand the result to whoever is following the job
+        return { 
+          ...analysis, 
+          analysisId: analysis.id,
+          messages,
+          emailServiceAvailable: isEmailServiceConfigured 
+        };
+      });
+      
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      console.error("Analyze error:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(400).json({ error: "An unknown error occurred" });
+      }
+    }
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createTestApp } from "./testApp";
+import { storage } from "../storage";
+
+describe("chat routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("answers a follow-up question about the session's analysis", async () => {
+    const analysis = await storage.createAnalysis({
+      sessionId: "followup",
+      mediaUrl: "data:image/png;base64,AAAA",
+      mediaType: "image",
+      personalityInsights: {
+        peopleCount: 1,
+        individualProfiles: [{ personLabel: "Person 1", personName: "Interviewer", summary: "Calm", analysisFailed: true, detailed_analysis: {} }]
+      }
+    });
+    await storage.createMessage({ sessionId: "followup", analysisId: analysis.id, role: "assistant", content: "Report" });
+
+    const { body } = await request(app).post("/api/chat").send({ sessionId: "followup", content: "What motivates them?" }).expect(200);
+
+    expect(body.success).toBe(true);
+    expect(body.messages).toHaveLength(2);
+    expect(body.messages[0]).toMatchObject({ role: "user", content: "What motivates them?", analysisId: analysis.id });
+    expect(body.messages[1]).toMatchObject({ role: "assistant", analysisId: analysis.id });
+    expect(body.messages[1].content).toContain("What motivates them?");
+
+    const { body: messages } = await request(app).get("/api/messages").query({ sessionId: "followup" }).expect(200);
+    expect(messages.map((message: { role: string }) => message.role)).toEqual(["assistant", "user", "assistant"]);
+  });
+
+  it("chats without an analysis", async () => {
+    const { body } = await request(app).post("/api/chat").send({ sessionId: "fresh", content: "Hello" }).expect(200);
+
+    expect(body.messages.map((message: { analysisId: number | null }) => message.analysisId)).toEqual([null, null]);
+  });
+
+  it("needs message content and a session id", async () => {
+    await request(app).post("/api/chat").send({ sessionId: "fresh" }).expect(400);
+    await request(app).post("/api/chat").send({ content: "Hello" }).expect(400);
+    await request(app).get("/api/messages").expect(400);
+  });
+});
@@ -0,0 +1,128 @@
+import type { Express } from "express";
+import { getIndividualProfiles } from "@shared/insights";
+import { storage } from "../storage";
+import { generateText, resolveProviders } from "../services/llm";
+
+export function registerChatRoutes(app: Express) {
+  // Chat endpoint to continue conversation with AI
+  app.post("/api/chat", async (req, res) => {
+    try {
+      const { content, sessionId, selectedModel = "openai" } = req.body;
+      
+      if (!content || typeof content !== 'string') {
+        return res.status(400).json({ error: "Message content is required" });
+      }
+      
+      if (!sessionId) {
+        return res.status(400).json({ error: "Session ID is required" });
+      }
+      
+      console.log(`Processing chat with model: ${selectedModel}, sessionId: ${sessionId}`);
+      
+      // Get existing messages for this session
+      const existingMessages = await storage.getMessagesBySessionId(sessionId);
+      const analysisId = existingMessages.length > 0 ? existingMessages[0].analysisId : null;
+      
+      // Create user message
+      const userMessage = await storage.createMessage({
+        sessionId,
+        analysisId,
+        role: "user",
+        content
+      });
+      
+      // Get analysis if available
+      let analysisContext = "";
+      if (analysisId) {
+        const analysis = await storage.getAnalysisById(analysisId);
+        if (analysis && analysis.personalityInsights) {
+          // Add the analysis context for better AI responses
+          analysisContext = "This conversation is about a personality analysis. Here's the context: " + 
+            JSON.stringify(analysis.personalityInsights);
+          
+          // People the user named or gave roles before the analysis should be called that in the chat too
+          const names = getIndividualProfiles(analysis.personalityInsights)
+            .map(profile => profile.personName)
+            .filter(Boolean);
+          if (names.length > 0) {
+            analysisContext += `\n\nThe user named the people in this analysis: ${names.join(", ")}. Refer to them by these names.`;
+          }
+        }
+      }
+      
+      // Format the conversation history for the AI
+      const conversationHistory = existingMessages.map(msg => ({
+        role: msg.role,
+        content: msg.content
+      }));
+      
+      // Add the new user message
+      conversationHistory.push({
+        role: "user",
+        content
+      });
+      
+      // Get AI response from the selected model, falling back to others if needed
+      if (resolveProviders(selectedModel).length === 0) {
+        return res.status(503).json({ 
+          error: "Selected AI model is not available. Please try again with a different model." 
+        });
+      }
+      
+      const systemPrompt = analysisContext ? 
+        `You are an AI assistant specialized in personality analysis. 
+
+CRITICAL FORMATTING RULE: Do not use ANY markdown formatting in your response. Do not use hashtags (#), asterisks (*), underscores (_), or any other markdown symbols. Use plain text only with clear paragraph breaks and simple text formatting.
+
+${analysisContext}
+
+Provide detailed, comprehensive psychological insights based on the analysis. Always respond in plain text format without any markdown symbols.` :
+        "You are an AI assistant specialized in personality analysis. Be helpful, informative, and engaging. CRITICAL: Do not use ANY markdown formatting (no #, *, _, etc.) - use plain text only.";
+      
+      const { data: aiResponseText, provider } = await generateText({
+        system: systemPrompt,
+        messages: conversationHistory.map(msg => ({
+          role: msg.role === "assistant" ? "assistant" as const : "user" as const,
+          content: msg.content
+        }))
+      }, { preferred: selectedModel });
+      console.log(`Chat response generated by ${provider}`);
+      
+      // Create AI response message
+      const aiMessage = await storage.createMessage({
+        sessionId,
+        analysisId,
+        role: "assistant",
+        content: aiResponseText
+      });
+      
+      // Return both the user message and AI response
+      res.json({
+        messages: [userMessage, aiMessage],
+        success: true
+      });
+    } catch (error) {
+      console.error("Chat error:", error);
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to process chat message" });
+      }
+    }
+  });
+  app.get("/api/messages", async (req, res) => {
+    try {
+      const { sessionId } = req.query;
+      
+      if (!sessionId || typeof sessionId !== 'string') {
+        return res.status(400).json({ error: "Session ID is required" });
+      }
+      
+      const messages = await storage.getMessagesBySessionId(sessionId);
+      res.json(messages);
+    } catch (error) {
+      console.error("Get messages error:", error);
+      res.status(400).json({ error: "Failed to get messages" });
+    }
+  });
+}
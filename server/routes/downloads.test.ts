@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createTestApp } from "./testApp";
+import { storage } from "../storage";
+import { getTranscriptionProviders } from "../services/transcriptionProviders";
+
+describe("downloads routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  // An audio analysis as the analyze route stores it, with the fake service's timed transcript
+  async function createAudioAnalysis() {
+    const [provider] = getTranscriptionProviders();
+    const transcript = await provider.transcribe({ audio: Buffer.alloc(0), audioPath: "", duration: 20 });
+    return storage.createAnalysis({
+      sessionId: "downloads",
+      mediaUrl: "/api/uploads/recording/content",
+      mediaType: "audio",
+      title: "Interview",
+      audioTranscription: {
+        transcription: transcript.text,
+        transcriptionData: { full_text: transcript.text, utterances: transcript.utterances, words: transcript.words, speakers: transcript.speakers },
+        speechAnalysis: { provider: transcript.provider }
+      },
+      personalityInsights: {
+        peopleCount: 1,
+        individualProfiles: [{ personLabel: "Speaker A", personName: "Interviewer", summary: "Calm and curious", analysisFailed: true, detailed_analysis: {} }]
+      }
+    });
+  }
+
+  it("exports the report as text and marks the analysis downloaded", async () => {
+    const analysis = await createAudioAnalysis();
+
+    const res = await request(app).get(`/api/download/${analysis.id}`).query({ format: "txt" }).expect(200);
+
+    expect(res.headers["content-type"]).toContain("text/plain");
+    expect(res.headers["content-disposition"]).toBe(`attachment; filename="personality-analysis-${analysis.id}.txt"`);
+    expect(res.text).toContain("Calm and curious");
+    expect((await storage.getAnalysisById(analysis.id))?.hasDownloaded).toBe(true);
+  });
+
+  it("exports the report as a Word document", async () => {
+    const analysis = await createAudioAnalysis();
+
+    const res = await request(app)
+      .get(`/api/download/${analysis.id}`)
+      .query({ format: "docx" })
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () => callback(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+
+    expect(res.headers["content-type"]).toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    expect((res.body as Buffer).subarray(0, 2).toString()).toBe("PK");
+  });
+
+  it("exports the transcript as subtitles, with times and speakers", async () => {
+    const analysis = await createAudioAnalysis();
+
+    const srt = await request(app).get(`/api/download/${analysis.id}`).query({ format: "srt" }).expect(200);
+    expect(srt.headers["content-disposition"]).toBe(`attachment; filename="subtitles-${analysis.id}.srt"`);
+    expect(srt.text).toMatch(/^1\n\d{2}:\d{2}:\d{2},\d{3} --> \d{2}:\d{2}:\d{2},\d{3}\nSpeaker A: /);
+
+    const vtt = await request(app).get(`/api/download/${analysis.id}`).query({ format: "vtt" }).expect(200);
+    expect(vtt.headers["content-type"]).toContain("text/vtt");
+    expect(vtt.text.startsWith("WEBVTT")).toBe(true);
+  });
+
+  it("has no transcript to export for a text analysis", async () => {
+    const analysis = await storage.createAnalysis({
+      sessionId: "downloads",
+      mediaUrl: "",
+      mediaType: "text",
+      personalityInsights: { analysis: "A plain reply" }
+    });
+
+    await request(app).get(`/api/download/${analysis.id}`).query({ format: "srt" }).expect(404);
+  });
+
+  it("answers 404 for an unknown analysis", async () => {
+    await request(app).get("/api/download/99999").query({ format: "txt" }).expect(404);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { generateAnalysisHtml, generatePdf, generateDocx, generateAnalysisTxt } from '../services/document';
+import { getFaceImages } from '../services/faceImages';
+import { getEmotionTimelineChart } from '../services/emotionTimeline';
+import { generateTranscriptExport } from '../services/subtitles';
+
+// Subtitle and transcript formats, built from the analysis's timed transcript instead of the report
+const TRANSCRIPT_FORMATS = {
+  srt: { contentType: 'application/x-subrip', extension: 'srt' },
+  vtt: { contentType: 'text/vtt', extension: 'vtt' },
+  transcript: { contentType: 'text/plain', extension: 'txt' },
+} as const;
+
+export function registerDownloadsRoutes(app: Express) {
+  // Download analysis as PDF, DOCX or TXT, or its transcript as SRT, WebVTT or a speaker-labeled TXT
+  app.get("/api/download/:analysisId", async (req, res) => {
+    try {
+      const { analysisId } = req.params;
+      const format = req.query.format as string || 'pdf';
+      
+      // Get the analysis from storage
+      const analysis = await storage.getAnalysisById(parseInt(analysisId));
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+      
+      let buffer: Buffer;
+      let contentType: string;
+      let filename: string;
+      
+      const isTranscriptFormat = Object.hasOwn(TRANSCRIPT_FORMATS, format);
+      
+      // Face crops and the annotated photo are a bonus; export without them if they can't be rendered
+      const faceImages = format === 'txt' || isTranscriptFormat ? null : await getFaceImages(analysis).catch(error => {
+        console.warn("Could not render face images for export:", error);
+        return null;
+      });
+      const emotionChart = format === 'txt' || isTranscriptFormat ? null : await getEmotionTimelineChart(analysis).catch(error => {
+        console.warn("Could not draw the emotion timeline for export:", error);
+        return null;
+      });
+      
+      if (isTranscriptFormat) {
+        const transcriptFormat = format as keyof typeof TRANSCRIPT_FORMATS;
+        const content = generateTranscriptExport(analysis, transcriptFormat);
+        if (content === null) {
+          return res.status(404).json({ error: "This analysis has no timed transcript to export" });
+        }
+        buffer = Buffer.from(content, 'utf-8');
+        contentType = `${TRANSCRIPT_FORMATS[transcriptFormat].contentType}; charset=utf-8`;
+        filename = `${transcriptFormat === 'transcript' ? 'transcript' : 'subtitles'}-${analysisId}.${TRANSCRIPT_FORMATS[transcriptFormat].extension}`;
+      } else if (format === 'docx') {
+        // Generate DOCX
+        buffer = await generateDocx(analysis, faceImages, emotionChart);
+        contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+        filename = `personality-analysis-${analysisId}.docx`;
+      } else if (format === 'txt') {
+        // Generate TXT
+        const txtContent = generateAnalysisTxt(analysis);
+        buffer = Buffer.from(txtContent, 'utf-8');
+        contentType = 'text/plain';
+        filename = `personality-analysis-${analysisId}.txt`;
+      } else {
+        // Default to PDF
+        const htmlContent = generateAnalysisHtml(analysis, faceImages, emotionChart);
+        buffer = await generatePdf(htmlContent);
+        contentType = 'application/pdf';
+        filename = `personality-analysis-${analysisId}.pdf`;
+      }
+      
+      // Mark as downloaded in the database
+      await storage.updateAnalysisDownloadStatus(analysis.id, true);
+      
+      // Send the file
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Length', buffer.length);
+      res.send(buffer);
+      
+    } catch (error) {
+      console.error("Download error:", error);
+      res.status(500).json({ error: "Failed to generate document" });
+    }
+  });
+}
@@ -0,0 +1,26 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { buildEmotionTimeline } from "../services/emotionTimeline";
+
+export function registerEmotionTimelineRoutes(app: Express) {
+  // Per-person face emotions and speech sentiment over time, for the analysis's emotion chart
+  app.get("/api/analysis/:id/emotion-timeline", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      if (isNaN(analysisId)) {
+        return res.status(400).json({ error: 'Invalid analysis ID' });
+      }
+      
+      const analysis = await storage.getAnalysisById(analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: 'Analysis not found' });
+      }
+      
+      // Null for analyses without tracked faces, sentiment or Video Indexer emotions
+      res.json({ timeline: buildEmotionTimeline(analysis) });
+    } catch (error) {
+      console.error('Error building emotion timeline:', error);
+      res.status(500).json({ error: 'Failed to build the emotion timeline' });
+    }
+  });
+}
@@ -0,0 +1,96 @@
+import type { Express } from "express";
+import { getIndividualProfiles, isPersonalityInsights } from "@shared/insights";
+import { storage } from "../storage";
+import { getAnalysisFacePeople, getFaceImages, findProfileFace } from "../services/faceImages";
+
+export function registerFacesRoutes(app: Express) {
+  // People with a face in a photo analysis, with links to their face crops and the annotated photo
+  app.get("/api/analysis/:id/faces", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      if (isNaN(analysisId)) {
+        return res.status(400).json({ error: 'Invalid analysis ID' });
+      }
+      
+      const analysis = await storage.getAnalysisById(analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: 'Analysis not found' });
+      }
+      
+      const people = getAnalysisFacePeople(analysis);
+      const profiles = getIndividualProfiles(analysis.personalityInsights);
+      const skippedFaces = isPersonalityInsights(analysis.personalityInsights) ? analysis.personalityInsights.skippedFaces || [] : [];
+      
+      res.json({
+        annotatedUrl: people.length > 0 ? `/api/analysis/${analysisId}/faces/annotated` : null,
+        people: people.map(person => {
+          const profile = profiles.find(profile => findProfileFace([person], profile));
+          const skipped = skippedFaces.some(skippedFace => skippedFace.personLabel === person.personLabel);
+          return {
+            ...person,
+            cropUrl: `/api/analysis/${analysisId}/faces/person/${person.personIndex}`,
+            status: profile ? "analyzed" : skipped ? "poor_quality" : "not_selected",
+            summary: profile?.summary || null
+          };
+        })
+      });
+    } catch (error) {
+      console.error('Error fetching analysis faces:', error);
+      res.status(500).json({ error: 'Failed to fetch analysis faces' });
+    }
+  });
+
+  // The uploaded photo with a numbered box around each person's face
+  app.get("/api/analysis/:id/faces/annotated", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      if (isNaN(analysisId)) {
+        return res.status(400).json({ error: 'Invalid analysis ID' });
+      }
+      
+      const analysis = await storage.getAnalysisById(analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: 'Analysis not found' });
+      }
+      
+      const faceImages = await getFaceImages(analysis);
+      if (!faceImages) {
+        return res.status(404).json({ error: 'This analysis has no faces to show' });
+      }
+      
+      res.setHeader('Content-Type', 'image/jpeg');
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.send(faceImages.annotated.data);
+    } catch (error) {
+      console.error('Error rendering annotated image:', error);
+      res.status(500).json({ error: 'Failed to render annotated image' });
+    }
+  });
+
+  // One person's face crop, by the number in their "Person N" label
+  app.get("/api/analysis/:id/faces/person/:personIndex", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      if (isNaN(analysisId)) {
+        return res.status(400).json({ error: 'Invalid analysis ID' });
+      }
+      
+      const analysis = await storage.getAnalysisById(analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: 'Analysis not found' });
+      }
+      
+      const crop = (await getFaceImages(analysis))?.crops.get(parseInt(req.params.personIndex));
+      if (!crop) {
+        return res.status(404).json({ error: 'Face not found' });
+      }
+      
+      res.setHeader('Content-Type', 'image/jpeg');
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.send(crop);
+    } catch (error) {
+      console.error('Error rendering face crop:', error);
+      res.status(500).json({ error: 'Failed to render face crop' });
+    }
+  });
+}
@@ -0,0 +1,26 @@
+import type { Express } from "express";
+import { createServer, type Server } from "http";
+import { registerAnalyzeRoutes } from "./analyze";
+import { registerChatRoutes } from "./chat";
+import { registerSessionsRoutes } from "./sessions";
+import { registerSharesRoutes } from "./shares";
+import { registerDownloadsRoutes } from "./downloads";
+import { registerFacesRoutes } from "./faces";
+import { registerEmotionTimelineRoutes } from "./emotionTimeline";
+import { registerUploadsRoutes } from "./uploads";
+import { registerStatusRoutes } from "./status";
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  registerUploadsRoutes(app);
+  registerAnalyzeRoutes(app);
+  registerChatRoutes(app);
+  registerSessionsRoutes(app);
+  registerSharesRoutes(app);
+  registerDownloadsRoutes(app);
+  registerFacesRoutes(app);
+  registerEmotionTimelineRoutes(app);
+  registerStatusRoutes(app);
+
+  const httpServer = createServer(app);
+  return httpServer;
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import type { InsertAnalysis } from "@shared/schema";
+import { createTestApp } from "./testApp";
+import { storage } from "../storage";
+
+function textAnalysis(sessionId: string, overrides: Partial<InsertAnalysis> = {}): InsertAnalysis {
+  return {
+    sessionId,
+    mediaUrl: "",
+    mediaType: "text",
+    textContent: "Some writing",
+    personalityInsights: { analysis: "A plain reply" },
+    ...overrides
+  };
+}
+
+describe("sessions routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("names a session and lists it", async () => {
+    await storage.createSession({ sessionId: "named" });
+
+    await request(app).patch("/api/session/name").send({ sessionId: "named", name: "Interviews" }).expect(200);
+
+    const { body } = await request(app).get("/api/sessions").expect(200);
+    expect(body).toEqual(expect.arrayContaining([expect.objectContaining({ sessionId: "named", name: "Interviews" })]));
+  });
+
+  it("needs a session id and a name to rename", async () => {
+    await request(app).patch("/api/session/name").send({ name: "Interviews" }).expect(400);
+    await request(app).patch("/api/session/name").send({ sessionId: "named" }).expect(400);
+  });
+
+  it("clears a session's analyses and messages", async () => {
+    const analysis = await storage.createAnalysis(textAnalysis("cleared"));
+    await storage.createMessage({ sessionId: "cleared", analysisId: analysis.id, role: "assistant", content: "Report" });
+
+    await request(app).post("/api/session/clear").send({ sessionId: "cleared" }).expect(200);
+
+    await request(app).get(`/api/analysis/${analysis.id}`).expect(404);
+    const { body } = await request(app).get("/api/messages").query({ sessionId: "cleared" }).expect(200);
+    expect(body).toEqual([]);
+    await request(app).post("/api/session/clear").send({}).expect(400);
+  });
+
+  it("fetches one analysis, rejecting malformed ids", async () => {
+    const analysis = await storage.createAnalysis(textAnalysis("fetched", { title: "Essay" }));
+
+    const { body } = await request(app).get(`/api/analysis/${analysis.id}`).expect(200);
+    expect(body).toMatchObject({ id: analysis.id, title: "Essay", mediaType: "text" });
+    await request(app).get("/api/analysis/abc").expect(400);
+    await request(app).get("/api/analysis/99999").expect(404);
+  });
+
+  it("pages and filters a session's analyses, newest first", async () => {
+    const first = await storage.createAnalysis(textAnalysis("listed", { title: "First" }));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await storage.createAnalysis(textAnalysis("listed", { title: "Second" }));
+    await storage.createAnalysis(textAnalysis("listed", { mediaType: "image", mediaUrl: "data:image/png;base64,AAAA", title: "Photo" }));
+
+    const { body: page } = await request(app).get("/api/analyses").query({ sessionId: "listed", mediaType: "text", pageSize: 1 }).expect(200);
+    expect(page).toMatchObject({ total: 2, page: 1, pageSize: 1, totalPages: 2 });
+    expect(page.analyses.map((analysis: { id: number }) => analysis.id)).toEqual([second.id]);
+    expect(page.analyses[0]).not.toHaveProperty("mediaUrl");
+
+    const { body: next } = await request(app).get("/api/analyses").query({ sessionId: "listed", mediaType: "text", pageSize: 1, page: 2 }).expect(200);
+    expect(next.analyses.map((analysis: { id: number }) => analysis.id)).toEqual([first.id]);
+
+    const today = new Date().toISOString().slice(0, 10);
+    const { body: untilToday } = await request(app).get("/api/analyses").query({ sessionId: "listed", to: today }).expect(200);
+    expect(untilToday.total).toBe(3);
+
+    await request(app).get("/api/analyses").query({ sessionId: "listed", pageSize: 500 }).expect(400);
+    await request(app).get("/api/analyses").expect(400);
+  });
+
+  it("renames an analysis", async () => {
+    const analysis = await storage.createAnalysis(textAnalysis("renamed"));
+
+    const { body } = await request(app).patch(`/api/analysis/${analysis.id}/title`).send({ sessionId: "renamed", title: "  Cover letter " }).expect(200);
+    expect(body.title).toBe("Cover letter");
+    expect((await storage.getAnalysisById(analysis.id))?.title).toBe("Cover letter");
+
+    await request(app).patch(`/api/analysis/${analysis.id}/title`).send({ sessionId: "renamed", title: "" }).expect(400);
+    await request(app).patch("/api/analysis/99999/title").send({ sessionId: "renamed", title: "Missing" }).expect(404);
+  });
+
+  it("renames only for the session that owns the analysis", async () => {
+    const analysis = await storage.createAnalysis(textAnalysis("owner", { title: "Essay" }));
+
+    await request(app).patch(`/api/analysis/${analysis.id}/title`).send({ title: "Taken" }).expect(400);
+    await request(app).patch(`/api/analysis/${analysis.id}/title`).send({ sessionId: "someone-else", title: "Taken" }).expect(404);
+
+    expect((await storage.getAnalysisById(analysis.id))?.title).toBe("Essay");
+  });
+
+  it("deletes an analysis along with its messages", async () => {
+    const analysis = await storage.createAnalysis(textAnalysis("deleted"));
+    await storage.createMessage({ sessionId: "deleted", analysisId: analysis.id, role: "assistant", content: "Report" });
+
+    await request(app).delete(`/api/analysis/${analysis.id}`).query({ sessionId: "deleted" }).expect(200);
+
+    expect(await storage.getAnalysisById(analysis.id)).toBeUndefined();
+    expect(await storage.getMessagesByAnalysisId(analysis.id)).toEqual([]);
+    await request(app).delete(`/api/analysis/${analysis.id}`).query({ sessionId: "deleted" }).expect(404);
+    await request(app).delete("/api/analysis/abc").query({ sessionId: "deleted" }).expect(400);
+  });
+
+  it("deletes only for the session that owns the analysis", async () => {
+    const analysis = await storage.createAnalysis(textAnalysis("owner"));
+
+    await request(app).delete(`/api/analysis/${analysis.id}`).expect(400);
+    await request(app).delete(`/api/analysis/${analysis.id}`).query({ sessionId: "someone-else" }).expect(404);
+
+    expect(await storage.getAnalysisById(analysis.id)).toBeDefined();
+  });
+});
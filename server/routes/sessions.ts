@@ -0,0 +1,157 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { mediaUploads, uploadIdFromMediaUrl } from "../services/uploads";
+import { listAnalysesSchema, updateAnalysisTitleSchema } from "@shared/schema";
+import { z } from "zod";
+
+export function registerSessionsRoutes(app: Express) {
+  // Session management endpoints
+  app.get("/api/sessions", async (req, res) => {
+    try {
+      const sessions = await storage.getAllSessions();
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error getting sessions:", error);
+      res.status(500).json({ error: "Failed to get sessions" });
+    }
+  });
+  
+  app.post("/api/session/clear", async (req, res) => {
+    try {
+      const { sessionId } = req.body;
+      
+      if (!sessionId) {
+        return res.status(400).json({ error: "Session ID is required" });
+      }
+      
+      await storage.clearSession(sessionId);
+      mediaUploads.removeSession(sessionId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error clearing session:", error);
+      res.status(500).json({ error: "Failed to clear session" });
+    }
+  });
+  
+  app.patch("/api/session/name", async (req, res) => {
+    try {
+      const { sessionId, name } = req.body;
+      
+      if (!sessionId) {
+        return res.status(400).json({ error: "Session ID is required" });
+      }
+      
+      if (!name) {
+        return res.status(400).json({ error: "Name is required" });
+      }
+      
+      await storage.updateSessionName(sessionId, name);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error updating session name:", error);
+      res.status(500).json({ error: "Failed to update session name" });
+    }
+  });
+  // Get a specific analysis by ID
+  app.get("/api/analysis/:id", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      if (isNaN(analysisId)) {
+        return res.status(400).json({ error: 'Invalid analysis ID' });
+      }
+      
+      const analysis = await storage.getAnalysisById(analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: 'Analysis not found' });
+      }
+      
+      res.json(analysis);
+    } catch (error) {
+      console.error('Error fetching analysis:', error);
+      res.status(500).json({ error: 'Failed to fetch analysis' });
+    }
+  });
+  
+  // List a session's analyses for the history panel, newest first
+  app.get("/api/analyses", async (req, res) => {
+    try {
+      const query = listAnalysesSchema.parse(req.query);
+      const { analyses, total } = await storage.listAnalyses(query);
+      
+      res.json({
+        analyses,
+        total,
+        page: query.page,
+        pageSize: query.pageSize,
+        totalPages: Math.ceil(total / query.pageSize)
+      });
+    } catch (error) {
+      console.error("Error listing analyses:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to list analyses" });
+    }
+  });
+  
+  // Rename an analysis
+  app.patch("/api/analysis/:id/title", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      if (isNaN(analysisId)) {
+        return res.status(400).json({ error: 'Invalid analysis ID' });
+      }
+      
+      const { sessionId, title } = updateAnalysisTitleSchema.parse(req.body);
+      
+      const analysis = await storage.getAnalysisById(analysisId);
+      if (!analysis || analysis.sessionId !== sessionId) {
+        return res.status(404).json({ error: 'Analysis not found' });
+      }
+      
+      await storage.updateAnalysisTitle(analysisId, title);
+      res.json({ ...analysis, title });
+    } catch (error) {
+      console.error('Error updating analysis title:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to update analysis title' });
+    }
+  });
+  
+  // Delete an analysis along with its messages (?sessionId= of the session that owns it)
+  app.delete("/api/analysis/:id", async (req, res) => {
+    try {
+      const analysisId = parseInt(req.params.id);
+      if (isNaN(analysisId)) {
+        return res.status(400).json({ error: 'Invalid analysis ID' });
+      }
+      
+      const { sessionId } = req.query;
+      if (!sessionId || typeof sessionId !== "string") {
+        return res.status(400).json({ error: "Session ID is required" });
+      }
+      
+      const analysis = await storage.getAnalysisById(analysisId);
+      if (!analysis || analysis.sessionId !== sessionId) {
+        return res.status(404).json({ error: 'Analysis not found' });
+      }
+      
+      await storage.deleteAnalysis(analysisId);
+
+      // Remove the upload it linked to, unless another analysis of the media still does
+      const linkedUpload = uploadIdFromMediaUrl(analysis.mediaUrl);
+      if (linkedUpload) {
+        const remaining = await storage.getAllAnalysesBySessionId(analysis.sessionId);
+        if (!remaining.some(other => other.mediaUrl === analysis.mediaUrl)) {
+          mediaUploads.remove(linkedUpload);
+        }
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting analysis:', error);
+      res.status(500).json({ error: 'Failed to delete analysis' });
+    }
+  });
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createTestApp } from "./testApp";
+import { storage } from "../storage";
+import { sendAnalysisEmail } from "../services/email";
+
+// SendGrid stand-in: whether it's configured and whether sending works are up to each test
+const email = vi.hoisted(() => ({ configured: true }));
+vi.mock("../services/email", () => ({
+  get isEmailServiceConfigured() {
+    return email.configured;
+  },
+  sendAnalysisEmail: vi.fn(async () => true)
+}));
+
+describe("shares routes", () => {
+  let app: Express;
+  let analysisId: number;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    const analysis = await storage.createAnalysis({
+      sessionId: "sharer",
+      mediaUrl: "",
+      mediaType: "text",
+      personalityInsights: { analysis: "A plain reply" }
+    });
+    await storage.createMessage({ sessionId: "sharer", analysisId: analysis.id, role: "assistant", content: "Report" });
+    analysisId = analysis.id;
+  });
+
+  beforeEach(() => {
+    email.configured = true;
+    vi.mocked(sendAnalysisEmail).mockClear().mockResolvedValue(true);
+  });
+
+  it("emails a link to the analysis and records the share as sent", async () => {
+    const { body } = await request(app)
+      .post("/api/share")
+      .set("Host", "insights.example.com")
+      .send({ analysisId, senderEmail: "a@example.com", recipientEmail: "b@example.com" })
+      .expect(200);
+
+    expect(body.success).toBe(true);
+    const shareId = Number(body.shareUrl.match(/^http:\/\/insights\.example\.com\/share\/(\d+)$/)?.[1]);
+    expect((await storage.getShareById(shareId))?.status).toBe("sent");
+    expect(sendAnalysisEmail).toHaveBeenCalledWith(expect.objectContaining({
+      analysis: expect.objectContaining({ id: analysisId }),
+      shareUrl: body.shareUrl
+    }));
+  });
+
+  it("records the share as failed when the email can't be sent", async () => {
+    vi.mocked(sendAnalysisEmail).mockResolvedValue(false);
+
+    await request(app)
+      .post("/api/share")
+      .send({ analysisId, senderEmail: "a@example.com", recipientEmail: "b@example.com" })
+      .expect(500);
+
+    const { share } = vi.mocked(sendAnalysisEmail).mock.calls[0][0];
+    expect((await storage.getShareById(share.id))?.status).toBe("error");
+  });
+
+  it("refuses to share while email isn't configured", async () => {
+    email.configured = false;
+
+    await request(app)
+      .post("/api/share")
+      .send({ analysisId, senderEmail: "a@example.com", recipientEmail: "b@example.com" })
+      .expect(503);
+    expect(sendAnalysisEmail).not.toHaveBeenCalled();
+  });
+
+  it("rejects an invalid share", async () => {
+    await request(app).post("/api/share").send({ analysisId, senderEmail: "a@example.com" }).expect(400);
+    await request(app)
+      .post("/api/share")
+      .send({ analysisId: 99999, senderEmail: "a@example.com", recipientEmail: "b@example.com" })
+      .expect(404);
+  });
+
+  it("opens a shared analysis with its conversation", async () => {
+    const share = await storage.createShare({ analysisId, senderEmail: "a@example.com", recipientEmail: "b@example.com" });
+
+    const { body } = await request(app).get(`/api/shared-analysis/${share.id}`).expect(200);
+
+    expect(body.analysis.id).toBe(analysisId);
+    expect(body.share.id).toBe(share.id);
+    expect(body.messages.map((message: { content: string }) => message.content)).toEqual(["Report"]);
+    await request(app).get("/api/shared-analysis/99999").expect(404);
+    await request(app).get("/api/shared-analysis/abc").expect(400);
+  });
+});
@@ -0,0 +1,167 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { insertShareSchema } from "@shared/schema";
+import { z } from "zod";
+import { sendAnalysisEmail, isEmailServiceConfigured } from "../services/email";
+
+// Define the schema for retrieving a shared analysis
+const getSharedAnalysisSchema = z.object({
+  shareId: z.coerce.number(),
+});
+
+export function registerSharesRoutes(app: Express) {
+  app.post("/api/share", async (req, res) => {
+    try {
+      // Check if email service is configured
+      if (!isEmailServiceConfigured) {
+        return res.status(503).json({ 
+          error: "Email sharing is not available. Please try again later or contact support." 
+        });
+      }
+
+      const shareData = insertShareSchema.parse(req.body);
+
+      // Create share record
+      const share = await storage.createShare(shareData);
+
+      // Get the analysis
+      const analysis = await storage.getAnalysisById(shareData.analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+
+      // Generate the share URL with the current hostname and /share path with analysis ID
+      const hostname = req.get('host');
+      const protocol = req.headers['x-forwarded-proto'] || req.protocol;
+      const shareUrl = `${protocol}://${hostname}/share/${share.id}`;
+      
+      // Send email with share URL
+      const emailSent = await sendAnalysisEmail({
+        share,
+        analysis,
+        shareUrl
+      });
+
+      // Update share status based on email sending result
+      await storage.updateShareStatus(share.id, emailSent ? "sent" : "error");
+
+      if (!emailSent) {
+        return res.status(500).json({ 
+          error: "Failed to send email. Please try again later." 
+        });
+      }
+
+      res.json({ success: emailSent, shareUrl });
+    } catch (error) {
+      console.error('Share endpoint error:', error);
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(400).json({ error: "Failed to share analysis" });
+      }
+    }
+  });
+
+  app.get("/api/shared-analysis/:shareId", async (req, res) => {
+    try {
+      const { shareId } = getSharedAnalysisSchema.parse({ shareId: req.params.shareId });
+      
+      // Get the share record
+      const share = await storage.getShareById(shareId);
+      if (!share) {
+        return res.status(404).json({ error: "Shared analysis not found" });
+      }
+      
+      // Get the analysis
+      const analysis = await storage.getAnalysisById(share.analysisId);
+      if (!analysis) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+      
+      // Get all messages for this analysis
+      const messages = await storage.getMessagesBySessionId(analysis.sessionId);
+      
+      // Return the complete data
+      res.json({
+        analysis,
+        messages,
+        share,
+        emailServiceAvailable: isEmailServiceConfigured
+      });
+    } catch (error) {
+      console.error("Get shared analysis error:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(400).json({ error: "Failed to get shared analysis" });
+      }
+    }
+  });
+
+  // Test email endpoint (for troubleshooting only, disable in production)
+  app.get("/api/test-email", async (req, res) => {
+    try {
+      if (!process.env.SENDGRID_API_KEY || !process.env.SENDGRID_VERIFIED_SENDER) {
+        return res.status(503).json({ 
+          error: "Email service is not available. Please check environment variables." 
+        });
+      }
+      
+      // Create a test share
+      const testShare = {
+        id: 9999,
+        analysisId: 9999,
+        senderEmail: "test@example.com",
+        recipientEmail: process.env.SENDGRID_VERIFIED_SENDER, // Use the verified sender as recipient for testing
+        status: "pending",
+        createdAt: new Date().toISOString()
+      };
+      
+      // Create a test analysis
+      const testAnalysis = {
+        id: 9999,
+        sessionId: "test-session",
+        title: "Test Analysis",
+        mediaType: "text",
+        mediaUrl: null,
+        peopleCount: 1,
+        personalityInsights: {
+          summary: "This is a test analysis summary for email testing purposes.",
+          personality_core: {
+            summary: "Test personality core summary."
+          },
+          thought_patterns: {
+            summary: "Test thought patterns summary."
+          },
+          professional_insights: {
+            summary: "Test professional insights summary."
+          },
+          growth_areas: {
+            strengths: ["Test strength 1", "Test strength 2"],
+            challenges: ["Test challenge 1", "Test challenge 2"],
+            development_path: "Test development path."
+          }
+        },
+        downloaded: false,
+        createdAt: new Date().toISOString()
+      };
+      
+      // Send test email
+      console.log("Sending test email...");
+      const emailSent = await sendAnalysisEmail({
+        share: testShare,
+        analysis: testAnalysis,
+        shareUrl: "https://example.com/test-share"
+      });
+      
+      if (emailSent) {
+        res.json({ success: true, message: "Test email sent successfully" });
+      } else {
+        res.status(500).json({ success: false, error: "Failed to send test email" });
+      }
+    } catch (error) {
+      console.error("Test email error:", error);
+      res.status(500).json({ success: false, error: String(error) });
+    }
+  });
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { createTestApp, waitForJob } from "./testApp";
+import { jobQueue } from "../services/jobs";
+
+describe("status routes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("reports the fake providers as available", async () => {
+    const { body } = await request(app).get("/api/status").expect(200);
+
+    expect(body.llmProviders).toContain("fake");
+    expect(body.faceProviders.length).toBeGreaterThan(0);
+    expect(body.transcriptionProviders.length).toBeGreaterThan(0);
+    expect(body.sendgrid).toBe(false);
+    expect(Date.parse(body.timestamp)).not.toBeNaN();
+  });
+
+  it("follows a job to its result", async () => {
+    const job = jobQueue.enqueue("test", async ctx => {
+      ctx.report("working", 50, "Halfway");
+      return { answer: 42 };
+    });
+
+    const finished = await waitForJob(app, job.id);
+    expect(finished).toMatchObject({ id: job.id, type: "test", status: "completed", result: { answer: 42 } });
+  });
+
+  it("reports a failed job's error", async () => {
+    const job = jobQueue.enqueue("test", async () => {
+      throw new Error("Nothing to analyze");
+    });
+
+    const finished = await waitForJob(app, job.id);
+    expect(finished).toMatchObject({ status: "failed", error: "Nothing to analyze" });
+  });
+
+  it("streams a finished job's state as a server-sent event", async () => {
+    const job = jobQueue.enqueue("test", async () => "done");
+    await waitForJob(app, job.id);
+
+    const res = await request(app).get(`/api/jobs/${job.id}/events`).expect(200);
+    expect(res.headers["content-type"]).toContain("text/event-stream");
+    expect(res.text).toContain("event: completed");
+  });
+
+  it("cancels a running job once, then refuses", async () => {
+    const job = jobQueue.enqueue("test", ctx => new Promise((_resolve, reject) => {
+      ctx.signal.addEventListener("abort", () => reject(new Error("aborted")));
+    }));
+
+    const { body } = await request(app).post(`/api/jobs/${job.id}/cancel`).expect(200);
+    expect(body.status).toBe("cancelled");
+    await request(app).post(`/api/jobs/${job.id}/cancel`).expect(409);
+  });
+
+  it("answers 404 for an unknown job", async () => {
+    await request(app).get("/api/jobs/no-such-job").expect(404);
+    await request(app).get("/api/jobs/no-such-job/events").expect(404);
+    await request(app).post("/api/jobs/no-such-job/cancel").expect(404);
+  });
+});
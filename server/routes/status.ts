@@ -0,0 +1,112 @@
+import type { Express } from "express";
+import { jobQueue, isJobFinished } from "../services/jobs";
+import { openai, anthropic, deepseek, getAvailableProviders } from "../services/llm";
+import { getFaceProviders } from "../services/faceProviders";
+import { isLocalFaceDetectorAvailable } from "../services/localFaceDetector";
+import { getTranscriptionProviders } from "../services/transcriptionProviders";
+
+export function registerStatusRoutes(app: Express) {
+  // API status endpoint - returns the availability of various services
+  app.get("/api/status", async (req, res) => {
+    try {
+      const statusData = {
+        // LLM Services
+        deepseek: !!deepseek,
+        openai: !!openai,
+        anthropic: !!anthropic,
+        perplexity: !!process.env.PERPLEXITY_API_KEY,
+        azureOpenai: !!process.env.AZURE_OPENAI_ENDPOINT && !!process.env.AZURE_OPENAI_KEY,
+        llmProviders: getAvailableProviders(),
+        
+        // Facial Analysis Services
+        aws_rekognition: !!process.env.AWS_ACCESS_KEY_ID && !!process.env.AWS_SECRET_ACCESS_KEY,
+        facepp: !!process.env.FACEPP_API_KEY && !!process.env.FACEPP_API_SECRET,
+        azure_face: !!process.env.AZURE_FACE_ENDPOINT && !!process.env.AZURE_FACE_API_KEY,
+        google_vision: !!process.env.GOOGLE_CLOUD_VISION_API_KEY,
+        local_face: isLocalFaceDetectorAvailable(),
+        faceProviders: getFaceProviders().map(provider => provider.name),
+        
+        // Transcription Services
+        gladia: !!process.env.GLADIA_API_KEY,
+        assemblyai: !!process.env.ASSEMBLYAI_API_KEY,
+        deepgram: !!process.env.DEEPGRAM_API_KEY,
+        transcriptionProviders: getTranscriptionProviders().map(provider => provider.name),
+        
+        // Video Analysis Services
+        azure_video_indexer: !!process.env.AZURE_VIDEO_INDEXER_KEY && 
+                            !!process.env.AZURE_VIDEO_INDEXER_LOCATION && 
+                            !!process.env.AZURE_VIDEO_INDEXER_ACCOUNT_ID,
+        
+        // Email Service
+        sendgrid: !!process.env.SENDGRID_API_KEY && !!process.env.SENDGRID_VERIFIED_SENDER,
+        
+        // Service status timestamp
+        timestamp: new Date().toISOString()
+      };
+      
+      res.json(statusData);
+    } catch (error) {
+      console.error("Error checking API status:", error);
+      res.status(500).json({ error: "Failed to check API status" });
+    }
+  });
+  
+  // Analysis job endpoints - analyze routes return a job id that clients follow here
+  app.get("/api/jobs/:jobId", (req, res) => {
+    const job = jobQueue.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  });
+  
+  // Stream job progress as server-sent events until the job finishes
+  app.get("/api/jobs/:jobId/events", (req, res) => {
+    const job = jobQueue.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    
+    const send = (snapshot: typeof job) => {
+      res.write(`event: ${snapshot.status}\ndata: ${JSON.stringify(snapshot)}\n\n`);
+      if (isJobFinished(snapshot)) {
+        cleanup();
+        res.end();
+      }
+    };
+    
+    // Keep proxies from closing an idle stream during long LLM calls
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+    const unsubscribe = jobQueue.subscribe(job.id, send);
+    const cleanup = () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    };
+    
+    // The job keeps running if the client goes away; it can reconnect or poll later
+    req.on("close", cleanup);
+    
+    // Send the current state straight away so reconnecting clients catch up
+    send(job);
+  });
+  
+  app.post("/api/jobs/:jobId/cancel", (req, res) => {
+    const job = jobQueue.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    
+    if (!jobQueue.cancel(job.id)) {
+      return res.status(409).json({ error: `Job already ${job.status}` });
+    }
+    
+    res.json(jobQueue.getJob(job.id));
+  });
+}
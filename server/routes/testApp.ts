@@ -0,0 +1,30 @@
+import express, { type Express } from "express";
+import request from "supertest";
+import { registerRoutes } from "./index";
+import { isJobFinished, type JobSnapshot } from "../services/jobs";
+
+/**
+ * The API routes on a bare Express app, without Vite or a listening server, for supertest
+ */
+export async function createTestApp(): Promise<Express> {
+  const app = express();
+  app.use(express.json({ limit: "100mb" }));
+  app.use(express.urlencoded({ extended: false, limit: "100mb" }));
+  await registerRoutes(app);
+  return app;
+}
+
+/**
+ * Poll an analysis job until it finishes, the way the client does when it loses its event stream
+ */
+export async function waitForJob(app: Express, jobId: string, timeoutMs = 10000): Promise<JobSnapshot> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const { body } = await request(app).get(`/api/jobs/${jobId}`).expect(200);
+    if (isJobFinished(body)) {
+      return body;
+    }
+    await new Promise(resolve => setTimeout(resolve, 25));
+  }
+  throw new Error(`Job ${jobId} did not finish within ${timeoutMs}ms`);
+}
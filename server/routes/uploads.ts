@@ -0,0 +1,134 @@
+import type { Express } from "express";
+import multer from "multer";
+import { randomUUID } from "crypto";
+import * as fs from 'fs';
+import { storage } from "../storage";
+import { uploadFileSchema, startUploadSchema } from "@shared/schema";
+import { mediaUploads, uploadMediaType, uploadExtension, uploadIdFromMediaUrl, UploadError, MAX_UPLOAD_BYTES, UPLOAD_CHUNK_BYTES, type StoredMedia } from "../services/uploads";
+
+// Multipart uploads stream straight into the upload directory instead of memory
+const multipartUpload = multer({
+  storage: multer.diskStorage({
+    destination: mediaUploads.directory,
+    filename: (req, file, cb) => cb(null, `${randomUUID()}${uploadExtension(file.originalname, file.mimetype)}`)
+  }),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, cb) => cb(null, uploadMediaType(file.mimetype) !== null)
+});
+
+// What the client gets back for a finished upload, to reference in analyze requests
+function describeMedia(media: StoredMedia) {
+  return {
+    mediaId: media.id,
+    mediaType: media.mediaType,
+    mimeType: media.mimeType,
+    fileName: media.fileName,
+    size: media.size
+  };
+}
+
+// Whether the share is of an analysis that links to the upload
+async function isSharedMedia(media: StoredMedia, shareId: unknown): Promise<boolean> {
+  if (typeof shareId !== "string" || !shareId) {
+    return false;
+  }
+  const share = await storage.getShareById(shareId);
+  const analysis = share && await storage.getAnalysisById(share.analysisId);
+  return !!analysis && uploadIdFromMediaUrl(analysis.mediaUrl) === media.id;
+}
+
+export function registerUploadsRoutes(app: Express) {
+  // Upload a photo, video or audio file as multipart form data (fields: sessionId, file)
+  app.post("/api/uploads", (req, res) => {
+    multipartUpload.single("file")(req, res, (error: unknown) => {
+      if (error) {
+        const tooLarge = error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE";
+        console.error("Upload error:", error);
+        return res.status(tooLarge ? 413 : 400).json({
+          error: tooLarge ? `Files can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024}MB` : "Failed to upload file"
+        });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: "Send an image, video or audio file in the \"file\" field" });
+      }
+
+      const fields = uploadFileSchema.safeParse(req.body);
+      if (!fields.success) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ error: "A sessionId is required" });
+      }
+
+      const media = mediaUploads.add(fields.data.sessionId, {
+        path: req.file.path,
+        mimeType: req.file.mimetype,
+        fileName: req.file.originalname,
+        size: req.file.size
+      });
+      res.status(201).json(describeMedia(media));
+    });
+  });
+
+  // Start a resumable upload; the file then follows in chunks
+  app.post("/api/uploads/resumable", async (req, res) => {
+    try {
+      const { sessionId, fileName, mimeType, size } = startUploadSchema.parse(req.body);
+      const upload = await mediaUploads.startUpload(sessionId, { fileName, mimeType, size });
+      res.status(201).json({ uploadId: upload.id, chunkSize: UPLOAD_CHUNK_BYTES, received: upload.received, size: upload.size });
+    } catch (error) {
+      console.error("Error starting upload:", error);
+      res.status(error instanceof UploadError ? error.status : 400).json({
+        error: error instanceof Error ? error.message : "Failed to start upload"
+      });
+    }
+  });
+
+  // How much of a resumable upload has arrived, to resume after a dropped connection (?sessionId= of the uploader)
+  app.get("/api/uploads/resumable/:uploadId", (req, res) => {
+    const upload = mediaUploads.getUpload(req.params.uploadId);
+    if (!upload || upload.sessionId !== req.query.sessionId) {
+      return res.status(404).json({ error: "Upload not found or expired" });
+    }
+    res.json({ uploadId: upload.id, chunkSize: UPLOAD_CHUNK_BYTES, received: upload.received, size: upload.size });
+  });
+
+  // Send the next chunk as the raw request body, starting at ?offset= (the bytes received so far)
+  app.put("/api/uploads/resumable/:uploadId", async (req, res) => {
+    try {
+      const offset = parseInt(req.query.offset as string);
+      if (isNaN(offset) || offset < 0) {
+        return res.status(400).json({ error: "Invalid chunk offset" });
+      }
+
+      const { upload, media } = await mediaUploads.appendChunk(req.params.uploadId, offset, req);
+      res.json({
+        uploadId: upload.id,
+        received: upload.received,
+        size: upload.size,
+        media: media ? describeMedia(media) : null
+      });
+    } catch (error) {
+      console.error("Chunk upload error:", error);
+      const upload = mediaUploads.getUpload(req.params.uploadId);
+      res.status(error instanceof UploadError ? error.status : 500).json({
+        error: error instanceof Error ? error.message : "Failed to upload chunk",
+        ...(upload && { received: upload.received })
+      });
+    }
+  });
+
+  // The uploaded file itself, for previewing a video or recording of a saved analysis.
+  // Open to the session that uploaded it (?sessionId=) and to a share of an analysis linking to it (?shareId=).
+  app.get("/api/uploads/:mediaId/content", async (req, res) => {
+    try {
+      const media = mediaUploads.get(req.params.mediaId);
+      if (!media || !(media.sessionId === req.query.sessionId || await isSharedMedia(media, req.query.shareId))) {
+        return res.status(404).json({ error: "This upload has expired" });
+      }
+      res.type(media.mimeType);
+      res.sendFile(media.path);
+    } catch (error) {
+      console.error("Error sending upload:", error);
+      res.status(500).json({ error: "Failed to send upload" });
+    }
+  });
+}
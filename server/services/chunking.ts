@@ -0,0 +1,125 @@
+/**
+ * A slice of a long text, with its character offsets into the original
+ */
+export interface TextChunk {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Block {
+  start: number;
+  end: number;
+}
+
+const MARKED_HEADING = /^(#{1,6}\s|(chapter|section|part)\s+[\divxlc]+\b)/i;
+
+/**
+ * Whether a paragraph opens a new section: a short marked ("Chapter 3", "## Results") or all-caps first line
+ */
+function isSectionHeading(text: string): boolean {
+  const firstLine = text.trim().split('\n')[0];
+  if (firstLine.length > 80) return false;
+
+  return MARKED_HEADING.test(firstLine) || (/[A-Z]/.test(firstLine) && firstLine === firstLine.toUpperCase());
+}
+
+/**
+ * Paragraphs of the text as offset ranges, split on blank lines
+ */
+function paragraphBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  const separator = /\n[ \t]*\n\s*/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = separator.exec(text)) !== null) {
+    if (match.index > start) blocks.push({ start, end: match.index });
+    start = match.index + match[0].length;
+  }
+  if (start < text.length) blocks.push({ start, end: text.length });
+
+  return blocks;
+}
+
+/**
+ * Break a block that is too long on its own at sentence ends, then at
+ * whitespace, and only as a last resort mid-word
+ */
+function splitOversizedBlock(text: string, block: Block, maxChars: number): Block[] {
+  const pieces: Block[] = [];
+  let start = block.start;
+
+  while (block.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    let cut = -1;
+    for (let i = window.length - 1; i > maxChars / 2; i--) {
+      if (/[.!?]/.test(window[i]) && /\s/.test(window[i + 1] || '')) {
+        cut = i + 1;
+        break;
+      }
+    }
+    if (cut === -1) cut = window.lastIndexOf(' ') > maxChars / 2 ? window.lastIndexOf(' ') + 1 : maxChars;
+
+    pieces.push({ start, end: start + cut });
+    start += cut;
+  }
+  pieces.push({ start, end: block.end });
+
+  return pieces;
+}
+
+/**
+ * Split a long text into chunks of at most maxChars, breaking on paragraph
+ * boundaries and preferring to start a new chunk at a section heading once the
+ * current one is at least half full. Chunk text is an exact slice of the
+ * original, so offsets found within a chunk map straight back to it.
+ */
+export function splitTextIntoChunks(text: string, maxChars: number): TextChunk[] {
+  const blocks = paragraphBlocks(text).flatMap(block =>
+    block.end - block.start > maxChars ? splitOversizedBlock(text, block, maxChars) : [block]
+  );
+
+  const chunks: TextChunk[] = [];
+  let current: Block | null = null;
+  const closeChunk = () => {
+    if (!current) return;
+    chunks.push({ index: chunks.length, start: current.start, end: current.end, text: text.slice(current.start, current.end) });
+    current = null;
+  };
+
+  for (const block of blocks) {
+    if (current) {
+      const size = current.end - current.start;
+      const wouldOverflow = block.end - current.start > maxChars;
+      const startsSection = size >= maxChars / 2 && isSectionHeading(text.slice(block.start, block.end));
+      if (wouldOverflow || startsSection) closeChunk();
+    }
+
+    current = current ? { start: current.start, end: block.end } : { ...block };
+  }
+  closeChunk();
+
+  return chunks;
+}
+
+/**
+ * Where a quote appears in a text, or -1. Tries an exact match first, then
+ * matches the quote's opening words ignoring case, punctuation and spacing,
+ * since quotes often come back with straightened quote marks or reflowed lines.
+ */
+export function findQuoteOffset(text: string, quote: string): number {
+  const trimmed = quote.trim().replace(/^["'“‘]+|["'”’]+$/g, '').replace(/^\.{3}\s*|\s*\.{3}$/g, '');
+  if (!trimmed) return -1;
+
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) return exact;
+
+  const words = trimmed.split(/[^A-Za-z0-9À-ɏ]+/).filter(Boolean).slice(0, 12);
+  if (words.length === 0) return -1;
+
+  const pattern = new RegExp(words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[^A-Za-z0-9\\u00c0-\\u024f]+'), 'i');
+  const match = pattern.exec(text);
+  return match ? match.index : -1;
+}
@@ -2,19 +2,145 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { promisify } from 'util';
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, BorderStyle } from 'docx';
-import { Analysis } from '../../shared/schema';
+import { Document, Packer, Paragraph, TextRun, ImageRun, HeadingLevel, AlignmentType, BorderStyle } from 'docx';
+import { Analysis } from '@shared/schema';
+import { getIndividualProfiles, getPeopleCount, getPrimaryProfile, isPersonalityInsights, type DetailedAnalysis, type ProfileView } from '@shared/insights';
 import * as pdf from 'html-pdf';
+import { findProfileFace, type FaceImages } from './faceImages';
+import type { EmotionTimelineChart } from './emotionTimeline';
+import { getStoredTranscription } from './storedAnalysis';
 
 const writeFileAsync = promisify(fs.writeFile);
 const unlinkAsync = promisify(fs.unlink);
 
+// Face crop for one individual profile, if the photo had a face for them
+function getProfileCrop(faceImages: FaceImages | null | undefined, profile: ProfileView): Buffer | undefined {
+  const face = faceImages ? findProfileFace(faceImages.people, profile) : undefined;
+  return face ? faceImages!.crops.get(face.personIndex) : undefined;
+}
+
+function faceCropHtml(faceImages: FaceImages | null | undefined, profile: ProfileView): string {
+  const crop = getProfileCrop(faceImages, profile);
+  return crop ? `<img class="face-crop" src="data:image/jpeg;base64,${crop.toString('base64')}" alt="${escapeHtml(profile.personLabel || 'Face')}" />` : '';
+}
+
+function faceCropParagraphs(faceImages: FaceImages | null | undefined, profile: ProfileView): Paragraph[] {
+  const crop = getProfileCrop(faceImages, profile);
+  return crop
+    ? [new Paragraph({ children: [new ImageRun({ type: 'jpg', data: crop, transformation: { width: 120, height: 120 } })] })]
+    : [];
+}
+
+// Scene context rows shared by every export format, in reading order
+function sceneContextRows(analysis: Analysis): { label: string; value: string }[] {
+  const scene = analysis.sceneContext;
+  if (!scene) {
+    return [];
+  }
+
+  return [
+    { label: 'Setting', value: scene.setting.join(', ') },
+    { label: 'Objects', value: scene.objects.map(object => object.count > 1 ? `${object.name} (${object.count})` : object.name).join(', ') },
+    { label: 'Clothing and props', value: scene.clothingAndProps.join(', ') },
+    { label: 'Visible text', value: scene.visibleText.map(line => `"${line}"`).join(', ') }
+  ].filter(row => row.value);
+}
+
+// Transcript utterances quoted in the audio exports; the full transcript is in the JSON download
+const AUDIO_TRANSCRIPT_EXCERPT_UTTERANCES = 12;
+
+function formatSeconds(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// Audio-only sections shared by every export format: the recording, its speakers, the
+// measured voice, the answers drawn from it and the start of the transcript
+function audioSections(analysis: Analysis): { title: string; rows: { label: string; value: string }[] }[] {
+  if (analysis.mediaType !== 'audio') {
+    return [];
+  }
+
+  const transcription = getStoredTranscription(analysis) || {};
+  const speechAnalysis = transcription.speechAnalysis || {};
+  const prosody = analysis.prosody;
+  const [profile] = getIndividualProfiles(analysis.personalityInsights);
+  const sections: { title: string; rows: { label: string; value: string }[] }[] = [];
+
+  sections.push({
+    title: 'Recording',
+    rows: [
+      { label: 'Length', value: formatSeconds(speechAnalysis.duration || prosody?.duration || 0) },
+      { label: 'Language', value: speechAnalysis.language || '' },
+      { label: 'Words transcribed', value: speechAnalysis.wordCount ? String(speechAnalysis.wordCount) : '' },
+      { label: 'Transcribed by', value: speechAnalysis.provider || '' }
+    ].filter(row => row.value)
+  });
+
+  if (prosody && prosody.speakers.length > 0) {
+    sections.push({
+      title: 'Speakers',
+      rows: prosody.speakers.map(speaker => ({
+        label: `Speaker ${speaker.speaker}`,
+        value: [
+          `${formatSeconds(speaker.talkSeconds)} of speech`,
+          speaker.wordsPerMinute !== null && `${speaker.wordsPerMinute} words per minute`,
+          speaker.pitchMedianHz !== null && `median pitch ${speaker.pitchMedianHz} Hz`
+        ].filter(Boolean).join(', ')
+      }))
+    });
+  }
+
+  if (prosody) {
+    sections.push({
+      title: 'Vocal Prosody',
+      rows: [
+        { label: 'Pitch', value: prosody.pitch ? `median ${prosody.pitch.medianHz} Hz, range ${prosody.pitch.minHz}-${prosody.pitch.maxHz} Hz` : '' },
+        { label: 'Loudness', value: `mean ${prosody.loudness.meanDb} dBFS, peak ${prosody.loudness.maxDb} dBFS` },
+        { label: 'Speaking rate', value: prosody.speakingRate ? `${prosody.speakingRate.wordsPerMinute} words per minute` : '' },
+        { label: 'Rate changes', value: (prosody.speakingRate?.changes || []).map(change => `[${formatSeconds(change.start)}] ${change.changePercent > 0 ? '+' : ''}${change.changePercent}%`).join(', ') },
+        { label: 'Pauses', value: `${prosody.pauses.count} (${prosody.pauses.distribution.long} over 1.5s)` },
+        { label: 'Long pauses', value: prosody.pauses.long.map(pause => `[${formatSeconds(pause.start)}] ${pause.duration}s`).join(', ') },
+        { label: 'Pitch spikes', value: prosody.pitchSpikes.map(spike => `[${formatSeconds(spike.timestamp)}] ${spike.pitchHz} Hz`).join(', ') }
+      ].filter(row => row.value)
+    });
+  }
+
+  const voiceEvidence = profile?.detailed_analysis?.voice_evidence;
+  if (voiceEvidence) {
+    sections.push({
+      title: 'Voice Evidence',
+      rows: Object.entries(voiceEvidence).map(([key, value]) => {
+        const label = key.replace(/_/g, ' ');
+        return { label: label.charAt(0).toUpperCase() + label.slice(1), value: String(value) };
+      })
+    });
+  }
+
+  const utterances = transcription.transcriptionData?.utterances || [];
+  if (utterances.length > 0) {
+    sections.push({
+      title: 'Transcript Excerpt',
+      rows: utterances.slice(0, AUDIO_TRANSCRIPT_EXCERPT_UTTERANCES).map(utterance => ({
+        label: `[${formatSeconds(utterance.start)}]${utterance.speaker !== null ? ` Speaker ${utterance.speaker}` : ''}`,
+        value: utterance.text
+      }))
+    });
+  }
+
+  return sections.filter(section => section.rows.length > 0);
+}
+
+// Text read from the photo or heard in a recording ends up in the page, so it mustn't be taken as markup
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
 // Function to generate plain text format
 export function generateAnalysisTxt(analysis: Analysis): string {
-  const personalityInsights = analysis.personalityInsights as any || {};
-  const isMultiPersonAnalysis = personalityInsights.individualProfiles && 
-                              Array.isArray(personalityInsights.individualProfiles) && 
-                              personalityInsights.individualProfiles.length > 1;
+  const personalityInsights = analysis.personalityInsights;
+  const profiles = getIndividualProfiles(personalityInsights);
+  const isMultiPersonAnalysis = profiles.length > 1;
   
   let txtContent = '';
   
@@ -26,19 +152,40 @@ export function generateAnalysisTxt(analysis: Analysis): string {
   txtContent += `Analysis ID: ${analysis.id}\n`;
   txtContent += `Created: ${new Date(analysis.createdAt).toLocaleString()}\n`;
   txtContent += `Media Type: ${analysis.mediaType}\n`;
-  txtContent += `People Detected: ${personalityInsights.peopleCount || 1}\n\n`;
+  txtContent += `People Detected: ${getPeopleCount(personalityInsights)}\n\n`;
+  
+  const sceneRows = sceneContextRows(analysis);
+  if (sceneRows.length > 0) {
+    txtContent += 'SCENE CONTEXT:\n';
+    txtContent += '-'.repeat(40) + '\n';
+    sceneRows.forEach(row => {
+      txtContent += `${row.label}: ${row.value}\n`;
+    });
+    txtContent += '\n';
+  }
+  
+  audioSections(analysis).forEach(section => {
+    txtContent += `${section.title.toUpperCase()}:\n`;
+    txtContent += '-'.repeat(40) + '\n';
+    section.rows.forEach(row => {
+      txtContent += `${row.label}: ${row.value}\n`;
+    });
+    txtContent += '\n';
+  });
   
   if (isMultiPersonAnalysis) {
-    txtContent += personalityInsights.overviewSummary + '\n\n';
+    if (isPersonalityInsights(personalityInsights) && personalityInsights.overviewSummary) {
+      txtContent += personalityInsights.overviewSummary + '\n\n';
+    }
     
-    personalityInsights.individualProfiles.forEach((profile: any, index: number) => {
+    profiles.forEach((profile, index) => {
       txtContent += '='.repeat(60) + '\n';
-      txtContent += `INDIVIDUAL PROFILE ${index + 1}\n`;
+      txtContent += `INDIVIDUAL PROFILE ${index + 1}: ${profile.personLabel || `Person ${index + 1}`}\n`;
       txtContent += '='.repeat(60) + '\n\n';
       
       txtContent += `SUMMARY:\n${profile.summary || 'No summary available'}\n\n`;
       
-      const detailed = profile.detailed_analysis || {};
+      const detailed: DetailedAnalysis = profile.detailed_analysis || {};
       
       if (detailed.cognitive_profile) {
         txtContent += 'COGNITIVE PROFILE:\n';
@@ -161,10 +308,13 @@ export function generateAnalysisTxt(analysis: Analysis): string {
     });
   } else {
     // Single person analysis
-    const profile = personalityInsights.individualProfiles?.[0] || personalityInsights;
+    const profile = getPrimaryProfile(personalityInsights);
+    if (profile.personName) {
+      txtContent += `PERSON: ${profile.personName}\n\n`;
+    }
     txtContent += `SUMMARY:\n${profile.summary || 'No summary available'}\n\n`;
     
-    const detailed = profile.detailed_analysis || {};
+    const detailed: DetailedAnalysis = profile.detailed_analysis || {};
     
     if (detailed.cognitive_profile) {
       txtContent += 'COGNITIVE PROFILE:\n';
@@ -295,21 +445,21 @@ export function generateAnalysisTxt(analysis: Analysis): string {
 }
 
 // Function to generate HTML for PDF
-export function generateAnalysisHtml(analysis: Analysis): string {
+export function generateAnalysisHtml(analysis: Analysis, faceImages?: FaceImages | null, emotionChart?: EmotionTimelineChart | null): string {
   // Extract the personality insights
-  const personalityInsights = analysis.personalityInsights as any || {};
+  const personalityInsights = analysis.personalityInsights;
+  const groupInsights = isPersonalityInsights(personalityInsights) ? personalityInsights : null;
+  const profiles = getIndividualProfiles(personalityInsights);
   
   // Determine if we have a multi-person analysis
-  const isMultiPersonAnalysis = personalityInsights.individualProfiles && 
-                              Array.isArray(personalityInsights.individualProfiles) && 
-                              personalityInsights.individualProfiles.length > 1;
+  const isMultiPersonAnalysis = profiles.length > 1;
   
   // Get total people count
-  const peopleCount = personalityInsights.peopleCount || 1;
+  const peopleCount = getPeopleCount(personalityInsights);
   
   // For backward compatibility with single-person analysis
   let summary = 'No summary available';
-  let detailedAnalysis = {} as any;
+  let detailedAnalysis: DetailedAnalysis = {};
 
   // Format content differently based on single vs. multiple people
   let htmlContent = `
@@ -352,6 +502,20 @@ export function generateAnalysisHtml(analysis: Analysis): string {
         .section {
           margin: 15px 0;
         }
+        .annotated {
+          max-width: 100%;
+          border-radius: 8px;
+        }
+        .chart {
+          width: 100%;
+        }
+        .face-crop {
+          float: right;
+          width: 120px;
+          height: 120px;
+          border-radius: 8px;
+          margin: 0 0 10px 15px;
+        }
         .footer {
           margin-top: 40px;
           font-size: 0.8em;
@@ -361,15 +525,55 @@ export function generateAnalysisHtml(analysis: Analysis): string {
       </style>
     </head>
     <body>
-      <h1>${analysis.title || 'Personality Analysis Report'}</h1>
+      <h1>${escapeHtml(analysis.title || 'Personality Analysis Report')}</h1>
       <p><strong>Date:</strong> ${new Date().toLocaleDateString()}</p>
       <p><strong>Analysis Type:</strong> ${analysis.mediaType.charAt(0).toUpperCase() + analysis.mediaType.slice(1)} Analysis</p>
   `;
   
+  if (faceImages) {
+    htmlContent += `
+      <div class="section">
+        <h2>People in the Photo</h2>
+        <img class="annotated" src="data:image/jpeg;base64,${faceImages.annotated.data.toString('base64')}" alt="Photo with numbered face boxes" />
+      </div>
+    `;
+  }
+  
+  const sceneRows = sceneContextRows(analysis);
+  if (sceneRows.length > 0) {
+    htmlContent += `
+      <div class="section">
+        <h2>Scene Context</h2>
+        ${sceneRows.map(row => `<p><strong>${row.label}:</strong> ${escapeHtml(row.value)}</p>`).join('')}
+      </div>
+    `;
+  }
+  
+  audioSections(analysis).forEach(section => {
+    htmlContent += `
+      <div class="section">
+        <h2>${section.title}</h2>
+        ${section.rows.map(row => `<p><strong>${row.label}:</strong> ${escapeHtml(row.value)}</p>`).join('')}
+      </div>
+    `;
+  });
+  
+  // The vector chart is used when it couldn't be rasterized
+  if (emotionChart) {
+    const chartSrc = emotionChart.png
+      ? `data:image/png;base64,${emotionChart.png.toString('base64')}`
+      : `data:image/svg+xml;base64,${Buffer.from(emotionChart.svg).toString('base64')}`;
+    htmlContent += `
+      <div class="section">
+        <h2>Emotion Timeline</h2>
+        <img class="chart" src="${chartSrc}" alt="Emotion and sentiment over time for each person" />
+      </div>
+    `;
+  }
+  
   if (isMultiPersonAnalysis) {
     // Handle multi-person analysis
-    const profiles = personalityInsights.individualProfiles || [];
-    const overviewSummary = personalityInsights.overviewSummary || `Analysis of ${peopleCount} people detected in the media.`;
+    const overviewSummary = groupInsights?.overviewSummary || `Analysis of ${peopleCount} people detected in the media.`;
     
     htmlContent += `
       <div class="summary">
@@ -378,11 +582,11 @@ export function generateAnalysisHtml(analysis: Analysis): string {
       </div>
     `;
     
-    if (personalityInsights.groupDynamics) {
+    if (groupInsights?.groupDynamics) {
       htmlContent += `
         <div class="section">
           <h2>Group Dynamics</h2>
-          <p>${personalityInsights.groupDynamics}</p>
+          <p>${groupInsights.groupDynamics}</p>
         </div>
       `;
     }
@@ -391,14 +595,15 @@ export function generateAnalysisHtml(analysis: Analysis): string {
     htmlContent += `<h2>Individual Profiles</h2>`;
     
     // Add each person's profile
-    profiles.forEach((profile: any, index: number) => {
+    profiles.forEach((profile, index) => {
       const personLabel = profile.personLabel || `Person ${index + 1}`;
       const personSummary = profile.summary || 'No summary available';
-      const personDetails = profile.detailed_analysis || {};
+      const personDetails: DetailedAnalysis = profile.detailed_analysis || {};
       
       htmlContent += `
         <div class="profile">
-          <h3>${personLabel}</h3>
+          ${faceCropHtml(faceImages, profile)}
+          <h3>${escapeHtml(personLabel)}</h3>
           
           <div class="section">
             <h4>Summary</h4>
@@ -446,19 +651,20 @@ export function generateAnalysisHtml(analysis: Analysis): string {
     
   } else {
     // Get data for single-person format
-    if (personalityInsights.individualProfiles?.length === 1) {
-      const profile = personalityInsights.individualProfiles[0];
-      summary = profile.summary || 'No summary available';
-      detailedAnalysis = profile.detailed_analysis || {};
-    } else {
-      // Legacy format
-      summary = personalityInsights.summary || 'No summary available';
-      detailedAnalysis = personalityInsights.detailed_analysis || {};
-    }
+    let faceCrop = '';
+    let personName = '';
+    // Analyses without profiles fall back to their overall or legacy fields
+    const profile = getPrimaryProfile(personalityInsights);
+    summary = profile.summary || 'No summary available';
+    detailedAnalysis = profile.detailed_analysis || {};
+    faceCrop = faceCropHtml(faceImages, profile);
+    personName = profile.personName || '';
     
     // Generate single-person content
     htmlContent += `
       <div class="summary">
+        ${faceCrop}
+        ${personName ? `<h2>${escapeHtml(personName)}</h2>` : ''}
         <h2>Summary</h2>
         <p>${summary}</p>
       </div>
@@ -475,7 +681,7 @@ export function generateAnalysisHtml(analysis: Analysis): string {
 
       <div class="section">
         <h2>Cognitive Style</h2>
-        <p>${detailedAnalysis.cognitive_style || 'Not available'}</p>
+        <p>${detailedAnalysis.cognitive_profile?.processing_style || 'Not available'}</p>
       </div>
 
       <div class="section">
@@ -519,17 +725,17 @@ export function generateAnalysisHtml(analysis: Analysis): string {
 }
 
 // Generate DOCX document for an analysis
-export async function generateDocx(analysis: Analysis): Promise<Buffer> {
+export async function generateDocx(analysis: Analysis, faceImages?: FaceImages | null, emotionChart?: EmotionTimelineChart | null): Promise<Buffer> {
   // Extract the personality insights
-  const personalityInsights = analysis.personalityInsights as any || {};
+  const personalityInsights = analysis.personalityInsights;
+  const groupInsights = isPersonalityInsights(personalityInsights) ? personalityInsights : null;
+  const profiles = getIndividualProfiles(personalityInsights);
   
   // Determine if we have a multi-person analysis
-  const isMultiPersonAnalysis = personalityInsights.individualProfiles && 
-                              Array.isArray(personalityInsights.individualProfiles) && 
-                              personalityInsights.individualProfiles.length > 1;
+  const isMultiPersonAnalysis = profiles.length > 1;
   
   // Get total people count
-  const peopleCount = personalityInsights.peopleCount || 1;
+  const peopleCount = getPeopleCount(personalityInsights);
   
   // Document content
   const doc = new Document({
@@ -573,10 +779,87 @@ export async function generateDocx(analysis: Analysis): Promise<Buffer> {
 
   children.push(new Paragraph({})); // Spacing
 
+  // Photo with a numbered box per person, scaled to fit the page width
+  if (faceImages) {
+    const { data, width, height } = faceImages.annotated;
+    const displayWidth = Math.min(width, 600);
+    children.push(
+      new Paragraph({
+        text: 'People in the Photo',
+        heading: HeadingLevel.HEADING_2,
+      })
+    );
+    children.push(
+      new Paragraph({
+        children: [new ImageRun({ type: 'jpg', data, transformation: { width: displayWidth, height: Math.round((height * displayWidth) / width) } })],
+      })
+    );
+    children.push(new Paragraph({})); // Spacing
+  }
+
+  // What image recognition found around the people
+  const sceneRows = sceneContextRows(analysis);
+  if (sceneRows.length > 0) {
+    children.push(
+      new Paragraph({
+        text: 'Scene Context',
+        heading: HeadingLevel.HEADING_2,
+      })
+    );
+    sceneRows.forEach(row => {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: `${row.label}: `, bold: true }),
+            new TextRun(row.value),
+          ],
+        })
+      );
+    });
+    children.push(new Paragraph({})); // Spacing
+  }
+
+  // What was measured and transcribed from an audio-only recording
+  audioSections(analysis).forEach(section => {
+    children.push(
+      new Paragraph({
+        text: section.title,
+        heading: HeadingLevel.HEADING_2,
+      })
+    );
+    section.rows.forEach(row => {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: `${row.label}: `, bold: true }),
+            new TextRun(row.value),
+          ],
+        })
+      );
+    });
+    children.push(new Paragraph({})); // Spacing
+  });
+
+  // Emotion and sentiment over time, scaled to fit the page width
+  if (emotionChart?.png) {
+    const displayWidth = Math.min(emotionChart.width, 600);
+    children.push(
+      new Paragraph({
+        text: 'Emotion Timeline',
+        heading: HeadingLevel.HEADING_2,
+      })
+    );
+    children.push(
+      new Paragraph({
+        children: [new ImageRun({ type: 'png', data: emotionChart.png, transformation: { width: displayWidth, height: Math.round((emotionChart.height * displayWidth) / emotionChart.width) } })],
+      })
+    );
+    children.push(new Paragraph({})); // Spacing
+  }
+
   if (isMultiPersonAnalysis) {
     // Handle multi-person analysis
-    const profiles = personalityInsights.individualProfiles || [];
-    const overviewSummary = personalityInsights.overviewSummary || `Analysis of ${peopleCount} people detected in the media.`;
+    const overviewSummary = groupInsights?.overviewSummary || `Analysis of ${peopleCount} people detected in the media.`;
     
     // Overview
     children.push(
@@ -589,7 +872,7 @@ export async function generateDocx(analysis: Analysis): Promise<Buffer> {
     children.push(new Paragraph({ text: overviewSummary }));
     
     // Group Dynamics if available
-    if (personalityInsights.groupDynamics) {
+    if (groupInsights?.groupDynamics) {
       children.push(
         new Paragraph({
           text: 'Group Dynamics',
@@ -597,7 +880,7 @@ export async function generateDocx(analysis: Analysis): Promise<Buffer> {
         })
       );
       
-      children.push(new Paragraph({ text: personalityInsights.groupDynamics }));
+      children.push(new Paragraph({ text: groupInsights.groupDynamics }));
     }
     
     // Individual Profiles
@@ -609,10 +892,10 @@ export async function generateDocx(analysis: Analysis): Promise<Buffer> {
     );
     
     // Add each person's profile
-    profiles.forEach((profile: any, index: number) => {
+    profiles.forEach((profile, index) => {
       const personLabel = profile.personLabel || `Person ${index + 1}`;
       const personSummary = profile.summary || 'No summary available';
-      const personDetails = profile.detailed_analysis || {};
+      const personDetails: DetailedAnalysis = profile.detailed_analysis || {};
       
       children.push(
         new Paragraph({
@@ -621,6 +904,8 @@ export async function generateDocx(analysis: Analysis): Promise<Buffer> {
         })
       );
       
+      children.push(...faceCropParagraphs(faceImages, profile));
+      
       // Summary
       children.push(
         new Paragraph({
@@ -695,17 +980,21 @@ export async function generateDocx(analysis: Analysis): Promise<Buffer> {
   } else {
     // Get data for single-person format
     let summary = 'No summary available';
-    let detailedAnalysis = {} as any;
-    
-    if (personalityInsights.individualProfiles?.length === 1) {
-      const profile = personalityInsights.individualProfiles[0];
-      summary = profile.summary || 'No summary available';
-      detailedAnalysis = profile.detailed_analysis || {};
-    } else {
-      // Legacy format
-      summary = personalityInsights.summary || 'No summary available';
-      detailedAnalysis = personalityInsights.detailed_analysis || {};
+    let detailedAnalysis: DetailedAnalysis = {};
+    
+    // Analyses without profiles fall back to their overall or legacy fields
+    const profile = getPrimaryProfile(personalityInsights);
+    summary = profile.summary || 'No summary available';
+    detailedAnalysis = profile.detailed_analysis || {};
+    if (profile.personName) {
+      children.push(
+        new Paragraph({
+          text: profile.personName,
+          heading: HeadingLevel.HEADING_2,
+        })
+      );
     }
+    children.push(...faceCropParagraphs(faceImages, profile));
     
     // Summary
     children.push(
@@ -745,7 +1034,7 @@ export async function generateDocx(analysis: Analysis): Promise<Buffer> {
       })
     );
     
-    children.push(new Paragraph({ text: detailedAnalysis.cognitive_style || 'Not available' }));
+    children.push(new Paragraph({ text: detailedAnalysis.cognitive_profile?.processing_style || 'Not available' }));
     
     // Professional Insights
     children.push(
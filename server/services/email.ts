@@ -1,5 +1,7 @@
 import mail from '@sendgrid/mail';
-import { Share, Analysis } from '../../shared/schema';
+import { Share, Analysis } from '@shared/schema';
+import { getIndividualProfiles, getPeopleCount, getPrimaryProfile, isPersonalityInsights, type DetailedAnalysis } from '@shared/insights';
+import { getStoredTranscription, getStoredVideoAnalysis } from './storedAnalysis';
 
 // Check if required environment variables are set
 if (!process.env.SENDGRID_API_KEY) {
@@ -18,6 +20,9 @@ if (!process.env.SENDGRID_VERIFIED_SENDER) {
 const FROM_EMAIL = process.env.SENDGRID_VERIFIED_SENDER || 'notifications@personality-insights.app';
 console.log(`SendGrid configured with sender email: ${FROM_EMAIL}`);
 
+// Sharing by email needs both the API key and a verified sender
+export const isEmailServiceConfigured = !!(process.env.SENDGRID_API_KEY && process.env.SENDGRID_VERIFIED_SENDER);
+
 interface SendAnalysisEmailParams {
   share: Share;
   analysis: Analysis;
@@ -41,64 +46,29 @@ export async function sendAnalysisEmail({
     console.log(`[SendGrid] Share URL: ${shareUrl}`);
     
 
-    // Parse the JSON data from the database
-    const personalityInsights = analysis.personalityInsights as any || {};
-    
-    // Create a type-safe object to ensure we can safely access properties
-    const typeSafeInsights = {
-      individualProfiles: personalityInsights.individualProfiles || [],
-      peopleCount: personalityInsights.peopleCount || 1,
-      summary: personalityInsights.summary || 'No summary available',
-      personality_core: personalityInsights.personality_core || {},
-      thought_patterns: personalityInsights.thought_patterns || {},
-      professional_insights: personalityInsights.professional_insights || {},
-      growth_areas: personalityInsights.growth_areas || {},
-    };
+    const personalityInsights = analysis.personalityInsights;
+    const profiles = getIndividualProfiles(personalityInsights);
     
     // Detect if we have a multi-person analysis
-    const isMultiPersonAnalysis = typeSafeInsights.individualProfiles.length > 1;
+    const isMultiPersonAnalysis = profiles.length > 1;
     
     // Get total people count
-    const peopleCount = typeSafeInsights.peopleCount;
-    
-    // For backward compatibility with single-person analysis
-    let summary = typeSafeInsights.summary;
-    let detailedAnalysis: any = {
-      personality_core: '',
-      thought_patterns: '',
-      professional_insights: '',
-      growth_areas: {
-        strengths: [],
-        challenges: [],
-        development_path: ''
-      }
-    };
+    const peopleCount = getPeopleCount(personalityInsights);
 
     // Determine if this was a video analysis that includes transcription
     const isVideoAnalysis = analysis.mediaType === 'video';
     
-    // Get transcription data - it could be stored in multiple places based on our implementation
-    // First, check if it's stored directly in audioTranscription field
-    let transcription = '';
-    if (analysis.audioTranscription) {
-      const audioData = analysis.audioTranscription as any;
-      transcription = audioData.transcription || '';
-    } 
-    // If not found, check if it's nested in videoAnalysis
-    else if (analysis.videoAnalysis) {
-      const videoData = analysis.videoAnalysis as any;
-      if (videoData.audioTranscription) {
-        transcription = videoData.audioTranscription.transcription || '';
-      }
-    }
+    // Early video analyses kept their transcript inside videoAnalysis
+    const storedTranscription = getStoredTranscription(analysis) || getStoredVideoAnalysis(analysis)?.audioTranscription;
+    const transcription = storedTranscription?.transcription || '';
     
     // Format content differently based on single vs. multiple people
     let emailContent = '';
     
     if (isMultiPersonAnalysis) {
       // Handle multi-person analysis
-      const profiles = personalityInsights.individualProfiles || [];
-      const overviewSummary = personalityInsights.overviewSummary || `Analysis of ${peopleCount} people detected in the media.`;
+      const groupInsights = isPersonalityInsights(personalityInsights) ? personalityInsights : null;
+      const overviewSummary = groupInsights?.overviewSummary || `Analysis of ${peopleCount} people detected in the media.`;
       
       // Generate group analysis HTML
       emailContent = `
@@ -117,10 +87,10 @@ export async function sendAnalysisEmail({
           </div>
           ` : ''}
           
-          ${personalityInsights.groupDynamics ? `
+          ${groupInsights?.groupDynamics ? `
           <div style="background: #f0fff4; padding: 15px; border-radius: 5px; margin: 20px 0; border-left: 4px solid #10b981;">
             <h3 style="color: #059669;">Group Dynamics</h3>
-            <p>${personalityInsights.groupDynamics}</p>
+            <p>${groupInsights.groupDynamics}</p>
           </div>
           ` : ''}
       `;
@@ -131,10 +101,10 @@ export async function sendAnalysisEmail({
       `;
       
       // Add each person's profile
-      profiles.forEach((profile: any, index: number) => {
+      profiles.forEach((profile, index) => {
         const personLabel = profile.personLabel || `Person ${index + 1}`;
         const personSummary = profile.summary || 'No summary available';
-        const personDetails = profile.detailed_analysis || {};
+        const personDetails: DetailedAnalysis = profile.detailed_analysis || {};
         
         emailContent += `
           <div style="margin: 30px 0; background: #fff; border: 1px solid #eee; border-radius: 10px; padding: 15px; box-shadow: 0 2px 5px rgba(0,0,0,0.05);">
@@ -179,37 +149,9 @@ export async function sendAnalysisEmail({
       
     } else {
       // Get data for single-person format (traditional format)
-      if (typeSafeInsights.individualProfiles?.length === 1) {
-        const profile = typeSafeInsights.individualProfiles[0];
-        summary = profile.summary || 'No summary available';
-        // Ensure detailedAnalysis has the expected structure
-        const profileAnalysis = profile.detailed_analysis || {};
-        detailedAnalysis = {
-          personality_core: profileAnalysis.personality_core || '',
-          thought_patterns: profileAnalysis.thought_patterns || '',
-          professional_insights: profileAnalysis.professional_insights || '',
-          growth_areas: {
-            strengths: Array.isArray(profileAnalysis.growth_areas?.strengths) ? profileAnalysis.growth_areas.strengths : [],
-            challenges: Array.isArray(profileAnalysis.growth_areas?.challenges) ? profileAnalysis.growth_areas.challenges : [],
-            development_path: profileAnalysis.growth_areas?.development_path || ''
-          }
-        };
-      } else {
-        // Legacy format
-        summary = typeSafeInsights.summary;
-        // Ensure detailedAnalysis has the expected structure using the typeSafeInsights
-        const legacyAnalysis = personalityInsights.detailed_analysis || {};
-        detailedAnalysis = {
-          personality_core: legacyAnalysis.personality_core || '',
-          thought_patterns: legacyAnalysis.thought_patterns || '',
-          professional_insights: legacyAnalysis.professional_insights || '',
-          growth_areas: {
-            strengths: Array.isArray(legacyAnalysis.growth_areas?.strengths) ? legacyAnalysis.growth_areas.strengths : [],
-            challenges: Array.isArray(legacyAnalysis.growth_areas?.challenges) ? legacyAnalysis.growth_areas.challenges : [],
-            development_path: legacyAnalysis.growth_areas?.development_path || ''
-          }
-        };
-      }
+      const profile = getPrimaryProfile(personalityInsights);
+      const summary = profile.summary || 'No summary available';
+      const detailedAnalysis: DetailedAnalysis = profile.detailed_analysis || {};
       
       // Generate single-person email content (original format)
       emailContent = `
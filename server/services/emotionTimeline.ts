@@ -0,0 +1,351 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import ffmpeg from 'fluent-ffmpeg';
+import type { Analysis } from '@shared/schema';
+import { EMOTION_COLORS, MAX_CHARTED_EMOTIONS, OTHER_EMOTION_COLOR, SENTIMENT_COLOR } from '@shared/emotions';
+import type { TranscriptUtterance } from './transcriptionProviders';
+import type { TrackedPerson } from './tracking';
+import { getPersonNames, getStoredTranscription, getStoredVideoAnalysis, getTranscriptOffset } from './storedAnalysis';
+
+// Video Indexer names some emotions differently from the face services
+const INDEXER_EMOTIONS: Record<string, string> = {
+  joy: 'happiness',
+  sad: 'sadness',
+  sadness: 'sadness',
+  anger: 'anger',
+  fear: 'fear'
+};
+
+// Track for Video Indexer's emotions, which come from the whole video's audio and transcript rather than a face
+const WHOLE_VIDEO_LABEL = 'Whole video';
+
+// Exported chart size, in pixels
+const CHART_WIDTH = 800;
+const CHART_MARGIN_LEFT = 50;
+const CHART_MARGIN_RIGHT = 20;
+const PANEL_TITLE_HEIGHT = 24;
+const PANEL_PLOT_HEIGHT = 120;
+const PANEL_AXIS_HEIGHT = 26;
+const LEGEND_HEIGHT = 30;
+
+// Rendered charts kept for repeat downloads
+const MAX_CACHED_ANALYSES = 20;
+
+/**
+ * Emotion scores read from one person's face in one video frame
+ */
+export interface FaceEmotionSample {
+  timestamp: number;
+  primaryEmotion: string;
+  emotions: Record<string, number>; // 0-1 per emotion
+}
+
+/**
+ * A stretch of time Video Indexer found an emotion in
+ */
+export interface EmotionSpan {
+  start: number;
+  end: number;
+  emotion: string;
+  confidence: number; // 0-1
+}
+
+/**
+ * The sentiment of one utterance, scored -1 (negative) to 1 (positive)
+ */
+export interface SentimentSpan {
+  start: number;
+  end: number;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  score: number;
+  text: string;
+}
+
+/**
+ * Everything known about how one person felt over time. A tracked person has
+ * face emotions and, once linked to a speaker, sentiment; a speaker nobody was
+ * matched to has only sentiment.
+ */
+export interface EmotionTimelineTrack {
+  personLabel: string; // Tracked label, "Speaker A", or "Whole video" for Video Indexer's emotions
+  personName: string | null; // The name or role the user gave this person
+  faceEmotions: FaceEmotionSample[];
+  emotionSpans: EmotionSpan[];
+  sentiment: SentimentSpan[];
+}
+
+/**
+ * Emotion and sentiment over time for everyone in an analysis. Times are in
+ * seconds from the start of the uploaded media.
+ */
+export interface EmotionTimeline {
+  start: number;
+  end: number;
+  emotions: string[]; // Emotions that appear, most prominent first
+  tracks: EmotionTimelineTrack[];
+}
+
+export interface EmotionTimelineChart {
+  svg: string;
+  png: Buffer | null; // Null when ffmpeg can't rasterize SVG
+  width: number;
+  height: number;
+}
+
+const chartCache = new Map<number, Promise<EmotionTimelineChart | null>>();
+
+/**
+ * Video Indexer times are strings like "0:01:02.5"
+ */
+function parseIndexerTime(value: unknown): number {
+  if (typeof value === 'number') return value;
+  const parts = String(value || '0').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + (isNaN(part) ? 0 : part), 0);
+}
+
+function sentimentScore(utterance: TranscriptUtterance): number {
+  const strength = utterance.sentimentConfidence ?? 1;
+  if (utterance.sentiment === 'positive') return strength;
+  if (utterance.sentiment === 'negative') return -strength;
+  return 0;
+}
+
+/**
+ * Bring together the per-person emotion data an analysis has: face emotions of
+ * the people tracked across its frames, the sentiment of what each speaker said
+ * (filed under the tracked person they were linked to, when they were), and
+ * Video Indexer's emotions for the whole video. Returns null when there is
+ * nothing to show.
+ */
+export function buildEmotionTimeline(analysis: Analysis): EmotionTimeline | null {
+  const videoAnalysis = getStoredVideoAnalysis(analysis);
+  const transcriptionData = getStoredTranscription(analysis)?.transcriptionData;
+  const utterances: TranscriptUtterance[] = transcriptionData?.utterances || [];
+  const offset = getTranscriptOffset(analysis);
+  const personNames = getPersonNames(analysis);
+
+  const tracks = new Map<string, EmotionTimelineTrack>();
+  const trackFor = (personLabel: string) => {
+    let track = tracks.get(personLabel);
+    if (!track) {
+      track = { personLabel, personName: personNames.get(personLabel) || null, faceEmotions: [], emotionSpans: [], sentiment: [] };
+      tracks.set(personLabel, track);
+    }
+    return track;
+  };
+
+  // Frame timestamps are already measured from the start of the video
+  const trackedPeople: TrackedPerson[] = videoAnalysis?.trackedPeople || [];
+  for (const person of trackedPeople) {
+    const samples = person.emotionTimeline
+      .filter(sample => sample.emotions && Object.keys(sample.emotions).length > 0)
+      .map(sample => ({
+        timestamp: sample.timestamp,
+        primaryEmotion: sample.primaryEmotion,
+        emotions: Object.fromEntries(Object.entries(sample.emotions!).filter(([, score]) => typeof score === 'number')) as Record<string, number>
+      }));
+    if (samples.length > 0) {
+      trackFor(person.personLabel).faceEmotions.push(...samples);
+    }
+  }
+
+  for (const utterance of utterances) {
+    if (!utterance.sentiment || utterance.sentiment === 'unknown') continue;
+    const personLabel = utterance.personLabel
+      || (utterance.speaker !== null && utterance.speaker !== undefined ? `Speaker ${utterance.speaker}` : 'Speaker');
+    trackFor(personLabel).sentiment.push({
+      start: utterance.start + offset,
+      end: Math.max(utterance.end, utterance.start) + offset,
+      sentiment: utterance.sentiment,
+      score: Number(sentimentScore(utterance).toFixed(2)),
+      text: utterance.text.trim()
+    });
+  }
+
+  for (const emotion of videoAnalysis?.azureInsights?.emotions || []) {
+    const name = INDEXER_EMOTIONS[String(emotion.type || '').toLowerCase()] || String(emotion.type || 'unknown').toLowerCase();
+    for (const instance of emotion.instances || []) {
+      trackFor(WHOLE_VIDEO_LABEL).emotionSpans.push({
+        start: parseIndexerTime(instance.start) + offset,
+        end: parseIndexerTime(instance.end) + offset,
+        emotion: name,
+        confidence: typeof instance.confidence === 'number' ? instance.confidence : 1
+      });
+    }
+  }
+
+  const timeline = Array.from(tracks.values())
+    .filter(track => track.faceEmotions.length > 0 || track.emotionSpans.length > 0 || track.sentiment.length > 0);
+  if (timeline.length === 0) {
+    return null;
+  }
+  timeline.forEach(track => {
+    track.faceEmotions.sort((a, b) => a.timestamp - b.timestamp);
+    track.emotionSpans.sort((a, b) => a.start - b.start);
+    track.sentiment.sort((a, b) => a.start - b.start);
+  });
+
+  // Rank emotions by how strongly and how often they show up
+  const prominence = new Map<string, number>();
+  timeline.forEach(track => {
+    track.faceEmotions.forEach(sample => Object.entries(sample.emotions).forEach(([emotion, score]) => {
+      prominence.set(emotion, (prominence.get(emotion) || 0) + score);
+    }));
+    track.emotionSpans.forEach(span => {
+      prominence.set(span.emotion, (prominence.get(span.emotion) || 0) + span.confidence);
+    });
+  });
+
+  const times = timeline.flatMap(track => [
+    ...track.faceEmotions.map(sample => sample.timestamp),
+    ...track.emotionSpans.flatMap(span => [span.start, span.end]),
+    ...track.sentiment.flatMap(span => [span.start, span.end])
+  ]);
+  const start = videoAnalysis && videoAnalysis.mode !== 'full' && videoAnalysis.segmentDuration ? offset : 0;
+  const end = videoAnalysis?.mode === 'full' && videoAnalysis.totalVideoDuration
+    ? videoAnalysis.totalVideoDuration
+    : videoAnalysis?.segmentDuration
+      ? offset + videoAnalysis.segmentDuration
+      : Math.max(analysis.prosody?.duration || 0, ...times);
+
+  return {
+    start,
+    end: Math.max(end, ...times),
+    emotions: Array.from(prominence.entries()).sort((a, b) => b[1] - a[1]).map(([emotion]) => emotion),
+    tracks: timeline
+  };
+}
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const emotionColor = (emotion: string) => EMOTION_COLORS[emotion] || OTHER_EMOTION_COLOR;
+
+function formatTickTime(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// About six ticks along the time axis, at round numbers of seconds
+function tickStep(span: number): number {
+  const steps = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800];
+  return steps.find(step => span / step <= 6) || 3600;
+}
+
+/**
+ * Draw the timeline as an SVG: one panel per person, with a line per charted
+ * emotion (0 to 1) and sentiment as steps between -1 and 1, over a shared time axis.
+ */
+export function renderEmotionTimelineSvg(timeline: EmotionTimeline): { svg: string; width: number; height: number } {
+  const charted = timeline.emotions.slice(0, MAX_CHARTED_EMOTIONS);
+  const plotWidth = CHART_WIDTH - CHART_MARGIN_LEFT - CHART_MARGIN_RIGHT;
+  const panelHeight = PANEL_TITLE_HEIGHT + PANEL_PLOT_HEIGHT + PANEL_AXIS_HEIGHT;
+  const height = timeline.tracks.length * panelHeight + LEGEND_HEIGHT;
+  const span = Math.max(0.001, timeline.end - timeline.start);
+  const x = (t: number) => (CHART_MARGIN_LEFT + (Math.min(timeline.end, Math.max(timeline.start, t)) - timeline.start) / span * plotWidth).toFixed(1);
+
+  const parts: string[] = [];
+  timeline.tracks.forEach((track, i) => {
+    const top = i * panelHeight + PANEL_TITLE_HEIGHT;
+    const y = (value: number) => (top + (1 - (value + 1) / 2) * PANEL_PLOT_HEIGHT).toFixed(1);
+    const title = track.personName ? `${track.personName} (${track.personLabel})` : track.personLabel;
+
+    parts.push(`<text x="${CHART_MARGIN_LEFT}" y="${top - 8}" font-size="13" font-weight="bold" fill="#111827">${escapeXml(title)}</text>`);
+    parts.push(`<rect x="${CHART_MARGIN_LEFT}" y="${top}" width="${plotWidth}" height="${PANEL_PLOT_HEIGHT}" fill="#f9fafb" stroke="#e5e7eb"/>`);
+    [1, 0, -1].forEach(value => {
+      parts.push(`<line x1="${CHART_MARGIN_LEFT}" x2="${CHART_MARGIN_LEFT + plotWidth}" y1="${y(value)}" y2="${y(value)}" stroke="#d1d5db" stroke-dasharray="${value === 0 ? '' : '3,3'}"/>`);
+      parts.push(`<text x="${CHART_MARGIN_LEFT - 6}" y="${Number(y(value)) + 4}" font-size="10" text-anchor="end" fill="#6b7280">${value}</text>`);
+    });
+
+    const step = tickStep(span);
+    for (let t = Math.ceil(timeline.start / step) * step; t <= timeline.end + 0.001; t += step) {
+      parts.push(`<text x="${x(t)}" y="${top + PANEL_PLOT_HEIGHT + 16}" font-size="10" text-anchor="middle" fill="#6b7280">${formatTickTime(t)}</text>`);
+    }
+
+    // Face emotions: a line through each frame's score
+    charted.forEach(emotion => {
+      const points = track.faceEmotions
+        .filter(sample => sample.emotions[emotion] !== undefined)
+        .map(sample => `${x(sample.timestamp)},${y(sample.emotions[emotion])}`);
+      if (points.length > 1) {
+        parts.push(`<polyline points="${points.join(' ')}" fill="none" stroke="${emotionColor(emotion)}" stroke-width="2"/>`);
+      }
+      points.forEach(point => {
+        const [cx, cy] = point.split(',');
+        parts.push(`<circle cx="${cx}" cy="${cy}" r="2.5" fill="${emotionColor(emotion)}"/>`);
+      });
+    });
+
+    // Video Indexer emotions and utterance sentiment hold their value for as long as they last
+    track.emotionSpans.filter(span => charted.includes(span.emotion)).forEach(span => {
+      parts.push(`<line x1="${x(span.start)}" x2="${x(span.end)}" y1="${y(span.confidence)}" y2="${y(span.confidence)}" stroke="${emotionColor(span.emotion)}" stroke-width="4"/>`);
+    });
+    track.sentiment.forEach(span => {
+      parts.push(`<line x1="${x(span.start)}" x2="${x(span.end)}" y1="${y(span.score)}" y2="${y(span.score)}" stroke="${SENTIMENT_COLOR}" stroke-width="3"/>`);
+    });
+  });
+
+  // Legend along the bottom
+  const legendTop = timeline.tracks.length * panelHeight + 12;
+  const legendEntries = [...charted.map(emotion => ({ label: emotion, color: emotionColor(emotion) })), { label: 'sentiment', color: SENTIMENT_COLOR }];
+  legendEntries.forEach((entry, i) => {
+    const left = CHART_MARGIN_LEFT + i * 105;
+    parts.push(`<rect x="${left}" y="${legendTop}" width="12" height="12" fill="${entry.color}"/>`);
+    parts.push(`<text x="${left + 17}" y="${legendTop + 10}" font-size="11" fill="#374151">${escapeXml(entry.label)}</text>`);
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${CHART_WIDTH}" height="${height}" viewBox="0 0 ${CHART_WIDTH} ${height}" font-family="Arial, sans-serif">`
+    + `<rect width="100%" height="100%" fill="#ffffff"/>${parts.join('')}</svg>`;
+  return { svg, width: CHART_WIDTH, height };
+}
+
+/**
+ * Helper function to rasterize an SVG to PNG with ffmpeg, which reads SVG when built with librsvg
+ */
+async function rasterizeSvg(svg: string): Promise<Buffer> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'emotion_chart_'));
+  const svgPath = path.join(workDir, 'chart.svg');
+  const pngPath = path.join(workDir, 'chart.png');
+
+  try {
+    await fs.promises.writeFile(svgPath, svg);
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(svgPath)
+        .frames(1)
+        .output(pngPath)
+        .on('end', () => resolve())
+        .on('error', (err: Error) => reject(err))
+        .run();
+    });
+    return await fs.promises.readFile(pngPath);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * The emotion timeline of an analysis drawn for the PDF and DOCX exports, or null
+ * if it has no timeline. The PNG is missing when ffmpeg can't render it; results are cached.
+ */
+export function getEmotionTimelineChart(analysis: Analysis): Promise<EmotionTimelineChart | null> {
+  let rendered = chartCache.get(analysis.id);
+  if (!rendered) {
+    const timeline = buildEmotionTimeline(analysis);
+    rendered = timeline ? (async () => {
+      const chart = renderEmotionTimelineSvg(timeline);
+      const png = await rasterizeSvg(chart.svg).catch(error => {
+        console.warn('Could not rasterize the emotion timeline chart:', error);
+        return null;
+      });
+      return { ...chart, png };
+    })() : Promise.resolve(null);
+    chartCache.set(analysis.id, rendered);
+    rendered.catch(() => chartCache.delete(analysis.id));
+
+    // Maps iterate in insertion order, so the first key is the oldest render
+    if (chartCache.size > MAX_CACHED_ANALYSES) {
+      chartCache.delete(chartCache.keys().next().value!);
+    }
+  }
+  return rendered;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import PDFDocument from "pdfkit";
+import JSZip from "jszip";
+import { extractDocumentText, locateQuotes, DocumentExtractionError } from "./extraction";
+
+type PdfPage = { text: string; x: number; y: number }[];
+
+// A PDF with each line placed exactly where given, in PDF points from the top left
+function buildPdf(pages: PdfPage[]): Promise<Buffer> {
+  return new Promise(resolve => {
+    const doc = new PDFDocument({ size: "LETTER", autoFirstPage: false });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+
+    for (const lines of pages) {
+      doc.addPage({ size: "LETTER", margin: 0 });
+      doc.font("Helvetica").fontSize(11);
+      for (const line of lines) {
+        doc.text(line.text, line.x, line.y, { lineBreak: false });
+      }
+    }
+    doc.end();
+  });
+}
+
+// Lines of one column, a blank line's worth of space between paragraphs
+function column(x: number, top: number, paragraphs: string[][]): PdfPage {
+  const lines: PdfPage = [];
+  let y = top;
+  for (const paragraph of paragraphs) {
+    for (const text of paragraph) {
+      lines.push({ text, x, y });
+      y += 14;
+    }
+    y += 14;
+  }
+  return lines;
+}
+
+async function buildDocx(documentBody: string, footnotes?: string): Promise<Buffer> {
+  const zip = new JSZip();
+  const namespace = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+  zip.file("word/document.xml", `<w:document ${namespace}><w:body>${documentBody}</w:body></w:document>`);
+  if (footnotes) {
+    zip.file("word/footnotes.xml", `<w:footnotes ${namespace}>${footnotes}</w:footnotes>`);
+  }
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+const paragraph = (text: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ""}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe("extractDocumentText", () => {
+  it("reads a two-column PDF page a column at a time, split into paragraphs", async () => {
+    const pdf = await buildPdf([[
+      { text: "Minutes of the planning meeting held on the first Monday of the month", x: 50, y: 50 },
+      ...column(50, 90, [
+        ["Alice opened the meeting by", "thanking every-", "one for coming early."],
+        ["She asked for honest", "feedback on the plan", "before the vote."]
+      ]),
+      ...column(330, 90, [
+        ["The team answered with", "concerns about the", "deadline and budget."],
+        ["Bob proposed a smaller", "first release to keep", "the date."]
+      ]),
+      { text: "Page 1", x: 290, y: 740 }
+    ]]);
+
+    const extracted = await extractDocumentText(pdf);
+
+    expect(extracted).toMatchObject({ format: "pdf", pageCount: 1 });
+    expect(extracted.sections.map(section => [section.anchor, section.text])).toEqual([
+      ["p. 1, ¶ 1", "Minutes of the planning meeting held on the first Monday of the month"],
+      ["p. 1, ¶ 2", "Alice opened the meeting by thanking everyone for coming early."],
+      ["p. 1, ¶ 3", "She asked for honest feedback on the plan before the vote."],
+      ["p. 1, ¶ 4", "The team answered with concerns about the deadline and budget."],
+      ["p. 1, ¶ 5", "Bob proposed a smaller first release to keep the date."]
+    ]);
+    expect(extracted.text.startsWith("[p. 1, ¶ 1] Minutes of the planning meeting")).toBe(true);
+  });
+
+  it("numbers paragraphs per page", async () => {
+    const pdf = await buildPdf([
+      column(72, 72, [["The first page has one paragraph."]]),
+      column(72, 72, [["The second page has two.", "This line belongs to it,", "and so does this one."], ["And this is the second", "paragraph."]])
+    ]);
+
+    const extracted = await extractDocumentText(pdf);
+
+    expect(extracted.pageCount).toBe(2);
+    expect(extracted.sections.map(section => section.anchor)).toEqual(["p. 1, ¶ 1", "p. 2, ¶ 1", "p. 2, ¶ 2"]);
+    expect(extracted.sections[1]).toMatchObject({ page: 2, paragraph: 1, text: "The second page has two. This line belongs to it, and so does this one." });
+  });
+
+  it("reads DOCX headings, paragraphs and footnotes in document order", async () => {
+    const docx = await buildDocx(
+      paragraph("Quarterly review", "Heading1") +
+      '<w:p><w:r><w:t>Sales grew &amp; costs fell</w:t></w:r><w:r><w:footnoteReference w:id="7"/></w:r><w:r><w:t>.</w:t></w:r></w:p>' +
+      paragraph("Hiring is paused.") +
+      "<w:p></w:p>",
+      '<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>' +
+      '<w:footnote w:id="7">' + paragraph("Compared with last year.") + "</w:footnote>"
+    );
+
+    const extracted = await extractDocumentText(docx);
+
+    expect(extracted.format).toBe("docx");
+    expect(extracted.sections).toEqual([
+      { anchor: "¶ 1", kind: "heading", paragraph: 1, text: "Quarterly review" },
+      { anchor: "¶ 2", kind: "paragraph", paragraph: 2, text: "Sales grew & costs fell[^1]." },
+      { anchor: "¶ 3", kind: "paragraph", paragraph: 3, text: "Hiring is paused." },
+      { anchor: "footnote 1", kind: "footnote", footnote: 1, text: "Compared with last year." }
+    ]);
+    expect(extracted.text).toContain("[¶ 1, heading] Quarterly review");
+    expect(extracted.wordCount).toBe(14);
+  });
+
+  it("goes by the file's contents rather than its declared type", async () => {
+    const docx = await buildDocx(paragraph("Misnamed but fine."));
+
+    expect((await extractDocumentText(docx, "pdf")).format).toBe("docx");
+  });
+
+  it("rejects unsupported files and documents without text", async () => {
+    await expect(extractDocumentText(Buffer.from("plain text"), "txt")).rejects.toThrow(DocumentExtractionError);
+    await expect(extractDocumentText(await buildDocx("<w:p></w:p>"))).rejects.toThrow("No text could be found");
+    await expect(extractDocumentText(await buildPdf([[]]))).rejects.toThrow("Scanned documents need to be run through OCR");
+  });
+});
+
+describe("locateQuotes", () => {
+  const document = {
+    format: "pdf" as const,
+    text: "",
+    wordCount: 0,
+    sections: [
+      { anchor: "p. 1, ¶ 1", kind: "paragraph" as const, page: 1, paragraph: 1, text: "I never liked crowds, but I love a small dinner with friends." },
+      { anchor: "p. 2, ¶ 3", kind: "paragraph" as const, page: 2, paragraph: 3, text: "Honestly? “Failure” taught me more[^2] than any success did." }
+    ]
+  };
+
+  it("points a quote at the section it came from, ignoring case, punctuation and footnote markers", () => {
+    const [located] = locateQuotes(document, [{ quote: "...failure taught me more than any success", location: "page 5" }]);
+
+    expect(located).toEqual({ quote: "...failure taught me more than any success", location: "p. 2, ¶ 3", page: 2, paragraph: 3, verified: true });
+  });
+
+  it("matches a long quote on its opening words", () => {
+    const [located] = locateQuotes(document, [{ quote: "I never liked crowds, but I love a small dinner with friends and family every week" }]);
+
+    expect(located).toMatchObject({ location: "p. 1, ¶ 1", verified: true });
+  });
+
+  it("keeps the model's location for a quote it can't find, marked unverified", () => {
+    const [located] = locateQuotes(document, [{ quote: "Something nobody wrote", location: "p. 9" }]);
+
+    expect(located).toEqual({ quote: "Something nobody wrote", location: "p. 9", verified: false });
+  });
+});
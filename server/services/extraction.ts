@@ -0,0 +1,401 @@
+import JSZip from 'jszip';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+/**
+ * A heading, paragraph or footnote of an uploaded document. The anchor says
+ * where it is ("p. 3, ¶ 2" in PDFs, "¶ 12" or "footnote 4" in DOCX files) and
+ * is what quoted evidence points back to.
+ */
+export interface DocumentSection {
+  anchor: string;
+  kind: 'heading' | 'paragraph' | 'footnote';
+  page?: number;
+  paragraph?: number;
+  footnote?: number;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  format: 'pdf' | 'docx';
+  // Every section prefixed with its anchor in brackets, as sent to the AI model
+  text: string;
+  sections: DocumentSection[];
+  pageCount?: number;
+  wordCount: number;
+}
+
+/**
+ * Thrown when no usable text can be read from an uploaded document
+ */
+export class DocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+  }
+}
+
+// Lines holding nothing but a page number ("7", "Page 7", "7 of 12", "- 7 -")
+const PAGE_NUMBER_LINE = /^[\s\-–—]*(page\s+)?\d+(\s*(of|\/)\s*\d+)?[\s\-–—]*$/i;
+
+interface PdfFragment {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+}
+
+interface PdfLine {
+  y: number;
+  height: number;
+  fragments: PdfFragment[];
+}
+
+/**
+ * Group text fragments that share a baseline into lines, top of the page first
+ */
+function groupIntoLines(fragments: PdfFragment[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  for (const fragment of [...fragments].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const line = lines.find(candidate => Math.abs(candidate.y - fragment.y) <= Math.max(2, candidate.height * 0.5));
+    if (line) {
+      line.fragments.push(fragment);
+      line.height = Math.max(line.height, fragment.height);
+    } else {
+      lines.push({ y: fragment.y, height: fragment.height, fragments: [fragment] });
+    }
+  }
+
+  lines.forEach(line => line.fragments.sort((a, b) => a.x - b.x));
+  return lines.sort((a, b) => b.y - a.y);
+}
+
+function lineText(fragments: PdfFragment[]): string {
+  let text = '';
+  let previous: PdfFragment | null = null;
+  for (const fragment of fragments) {
+    // pdf.js doesn't always emit the spaces between words set as separate fragments
+    const gap = previous ? fragment.x - (previous.x + previous.width) : 0;
+    if (previous && gap > fragment.height * 0.15 && !/\s$/.test(text) && !/^\s/.test(fragment.text)) {
+      text += ' ';
+    }
+    text += fragment.text;
+    previous = fragment;
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the x position of the gutter between two text columns, if the page has
+ * them: a vertical strip near the middle that almost no line crosses while
+ * most lines have text on both sides of it.
+ */
+function findColumnGutter(lines: PdfLine[], pageWidth: number): number | null {
+  if (lines.length < 6) return null;
+
+  let best: { x: number; crossings: number } | null = null;
+  for (let x = pageWidth * 0.3; x <= pageWidth * 0.7; x += 2) {
+    let crossings = 0;
+    let bothSides = 0;
+    for (const line of lines) {
+      if (line.fragments.some(f => f.x < x && f.x + f.width > x)) {
+        crossings++;
+      } else if (line.fragments.some(f => f.x + f.width <= x) && line.fragments.some(f => f.x >= x)) {
+        bothSides++;
+      }
+    }
+
+    if (crossings <= lines.length * 0.15 && bothSides >= lines.length * 0.4) {
+      const closerToCentre = best && crossings === best.crossings && Math.abs(x - pageWidth / 2) < Math.abs(best.x - pageWidth / 2);
+      if (!best || crossings < best.crossings || closerToCentre) {
+        best = { x, crossings };
+      }
+    }
+  }
+
+  return best ? best.x : null;
+}
+
+/**
+ * Put the lines of a page in reading order as separate flows. On a two-column
+ * page, full-width lines (titles, captions) stay where they are and each run
+ * of two-column lines is read left column first, then right.
+ */
+function readingFlows(lines: PdfLine[], pageWidth: number): PdfLine[][] {
+  const gutter = findColumnGutter(lines, pageWidth);
+  if (gutter === null) return [lines];
+
+  const flows: PdfLine[][] = [];
+  let left: PdfLine[] = [];
+  let right: PdfLine[] = [];
+  const flushColumns = () => {
+    if (left.length > 0) flows.push(left);
+    if (right.length > 0) flows.push(right);
+    left = [];
+    right = [];
+  };
+
+  for (const line of lines) {
+    if (line.fragments.some(f => f.x < gutter && f.x + f.width > gutter)) {
+      flushColumns();
+      flows.push([line]);
+      continue;
+    }
+
+    const leftFragments = line.fragments.filter(f => f.x + f.width <= gutter);
+    const rightFragments = line.fragments.filter(f => f.x >= gutter);
+    if (leftFragments.length > 0) left.push({ ...line, fragments: leftFragments });
+    if (rightFragments.length > 0) right.push({ ...line, fragments: rightFragments });
+  }
+  flushColumns();
+
+  // Merge neighbouring full-width lines back into one flow so their paragraphs hold together
+  return flows.reduce<PdfLine[][]>((merged, flow) => {
+    const last = merged[merged.length - 1];
+    const isFullWidth = (f: PdfLine[]) => f.length === 1 && f[0].fragments.some(fr => fr.x < gutter && fr.x + fr.width > gutter);
+    if (last && isFullWidth(flow) && last.every(line => isFullWidth([line]))) {
+      last.push(flow[0]);
+    } else {
+      merged.push(flow);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Split a flow of lines into paragraphs at vertical gaps noticeably wider than
+ * its usual line spacing, re-joining words hyphenated across lines.
+ */
+function flowParagraphs(flow: PdfLine[]): string[] {
+  const gaps = flow.slice(1).map((line, i) => flow[i].y - line.y).filter(gap => gap > 0).sort((a, b) => a - b);
+  const typicalGap = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+
+  const paragraphs: string[] = [];
+  let current = '';
+  flow.forEach((line, i) => {
+    const text = lineText(line.fragments);
+    if (!text) return;
+
+    const gap = i > 0 ? flow[i - 1].y - line.y : 0;
+    const breaksParagraph = i > 0 && (typicalGap > 0 ? gap > typicalGap * 1.4 : gap > line.height * 1.8);
+    if (breaksParagraph && current) {
+      paragraphs.push(current);
+      current = '';
+    }
+
+    if (/[a-z]-$/.test(current) && /^[a-z]/.test(text)) {
+      current = current.slice(0, -1) + text;
+    } else {
+      current = current ? `${current} ${text}` : text;
+    }
+  });
+  if (current) paragraphs.push(current);
+
+  return paragraphs;
+}
+
+async function extractPdf(buffer: Buffer): Promise<Omit<ExtractedDocument, 'text' | 'wordCount'>> {
+  // pdf.js is large, so it's only loaded once a PDF actually arrives
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  let pdf;
+  try {
+    pdf = await getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, useSystemFonts: true }).promise;
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') {
+      throw new DocumentExtractionError('This PDF is password protected. Please upload an unprotected copy.');
+    }
+    throw new DocumentExtractionError(`Could not read the PDF: ${error?.message || error}`);
+  }
+
+  const sections: DocumentSection[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { width } = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const fragments = content.items
+        .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+        .map(item => ({
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3]),
+          text: item.str
+        }));
+      const lines = groupIntoLines(fragments);
+
+      // Running page numbers sit on the first or last line and would otherwise end up mid-sentence
+      if (lines.length > 0 && PAGE_NUMBER_LINE.test(lineText(lines[lines.length - 1].fragments))) lines.pop();
+      if (lines.length > 0 && PAGE_NUMBER_LINE.test(lineText(lines[0].fragments))) lines.shift();
+
+      const paragraphs = readingFlows(lines, width).flatMap(flowParagraphs);
+      paragraphs.forEach((text, i) => {
+        sections.push({ anchor: `p. ${pageNumber}, ¶ ${i + 1}`, kind: 'paragraph', page: pageNumber, paragraph: i + 1, text });
+      });
+      page.cleanup();
+    }
+
+    return { format: 'pdf', sections, pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Text of the paragraphs in a piece of WordprocessingML, in document order.
+ * Footnote references become [^n] markers, numbered in the order they appear.
+ */
+function docxParagraphs(xml: string, footnoteNumbers: Map<string, number>): { style: string; isHeading: boolean; text: string }[] {
+  const paragraphs: { style: string; isHeading: boolean; text: string }[] = [];
+
+  for (const [, body] of Array.from(xml.matchAll(/<w:p(?:\s[^>]*)?>([\s\S]*?)<\/w:p>/g))) {
+    const style = body.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || '';
+    let text = '';
+    const tokens = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:footnoteReference[^>]*w:id="(-?\d+)"[^>]*\/>|<w:tab\/>|<w:br[^>]*\/>/g;
+    for (const token of Array.from(body.matchAll(tokens))) {
+      if (token[1] !== undefined) {
+        text += decodeXmlEntities(token[1]);
+      } else if (token[2] !== undefined) {
+        if (!footnoteNumbers.has(token[2])) footnoteNumbers.set(token[2], footnoteNumbers.size + 1);
+        text += `[^${footnoteNumbers.get(token[2])}]`;
+      } else {
+        text += ' ';
+      }
+    }
+
+    text = text.replace(/\s+/g, ' ').trim();
+    if (text) {
+      paragraphs.push({ style, isHeading: /^(heading|title|subtitle)/i.test(style) || /<w:outlineLvl /.test(body), text });
+    }
+  }
+
+  return paragraphs;
+}
+
+async function extractDocx(buffer: Buffer): Promise<Omit<ExtractedDocument, 'text' | 'wordCount'>> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error: any) {
+    throw new DocumentExtractionError(`Could not read the DOCX file: ${error?.message || error}`);
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new DocumentExtractionError('The DOCX file has no document body. Older .doc files need to be saved as .docx first.');
+  }
+
+  const footnoteNumbers = new Map<string, number>();
+  const sections: DocumentSection[] = docxParagraphs(documentXml, footnoteNumbers).map((paragraph, i) => ({
+    anchor: `¶ ${i + 1}`,
+    kind: paragraph.isHeading ? 'heading' : 'paragraph',
+    paragraph: i + 1,
+    text: paragraph.text
+  }));
+
+  // Footnotes go after the body, numbered to match the [^n] markers in it
+  const footnotesXml = await zip.file('word/footnotes.xml')?.async('string');
+  if (footnotesXml) {
+    const footnotes: DocumentSection[] = [];
+    for (const [, attributes, body] of Array.from(footnotesXml.matchAll(/<w:footnote\b([^>]*)>([\s\S]*?)<\/w:footnote>/g))) {
+      const id = attributes.match(/w:id="(-?\d+)"/)?.[1];
+      // Separator "footnotes" only hold the rule drawn above the notes
+      if (!id || /w:type="(separator|continuationSeparator|continuationNotice)"/.test(attributes)) continue;
+
+      const text = docxParagraphs(body, new Map()).map(paragraph => paragraph.text).join(' ');
+      if (!text) continue;
+      if (!footnoteNumbers.has(id)) footnoteNumbers.set(id, footnoteNumbers.size + 1);
+      const footnote = footnoteNumbers.get(id)!;
+      footnotes.push({ anchor: `footnote ${footnote}`, kind: 'footnote', footnote, text });
+    }
+    sections.push(...footnotes.sort((a, b) => a.footnote! - b.footnote!));
+  }
+
+  return { format: 'docx', sections };
+}
+
+/**
+ * Read the text of an uploaded PDF or DOCX file, split into anchored sections.
+ * The format is taken from the file's contents, falling back to the declared
+ * type, since uploads are often misnamed.
+ */
+export async function extractDocumentText(buffer: Buffer, declaredType?: string): Promise<ExtractedDocument> {
+  const signature = buffer.subarray(0, 5).toString('latin1');
+  const format = signature.startsWith('%PDF') ? 'pdf' : signature.startsWith('PK') ? 'docx' : declaredType;
+
+  let extracted: Omit<ExtractedDocument, 'text' | 'wordCount'>;
+  if (format === 'pdf') {
+    extracted = await extractPdf(buffer);
+  } else if (format === 'docx') {
+    extracted = await extractDocx(buffer);
+  } else {
+    throw new DocumentExtractionError('Unsupported document type. Please upload a PDF or DOCX file.');
+  }
+
+  if (extracted.sections.length === 0) {
+    throw new DocumentExtractionError(
+      extracted.format === 'pdf'
+        ? 'No text could be found in this PDF. Scanned documents need to be run through OCR first.'
+        : 'No text could be found in this document.'
+    );
+  }
+
+  const text = extracted.sections
+    .map(section => `[${section.anchor}${section.kind === 'heading' ? ', heading' : ''}] ${section.text}`)
+    .join('\n\n');
+  const wordCount = extracted.sections.reduce((count, section) => count + section.text.split(/\s+/).filter(Boolean).length, 0);
+
+  return { ...extracted, text, wordCount };
+}
+
+function normalizeForMatching(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’“”"'`]/g, '')
+    .replace(/\[\^\d+\]/g, '')
+    .replace(/[^a-z0-9\u00c0-\u024f]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Trace quoted evidence back to the section it came from. A quote found in
+ * the extracted text takes that section's anchor; otherwise the location the
+ * AI model gave is kept and the quote is marked unverified.
+ */
+export function locateQuotes<T extends { quote: string; location?: string }>(
+  document: ExtractedDocument,
+  evidence: T[]
+): (T & { location?: string; page?: number; paragraph?: number; verified: boolean })[] {
+  const sections = document.sections.map(section => ({ section, normalized: normalizeForMatching(section.text) }));
+
+  return evidence.map(item => {
+    const quote = normalizeForMatching(item.quote.replace(/^\s*\.{3}|\.{3}\s*$/g, ''));
+    // Long quotes are often trimmed or lightly reworded toward the end, so match on their opening
+    const probe = quote.split(' ').slice(0, 12).join(' ');
+    const match = probe ? sections.find(({ normalized }) => normalized.includes(probe)) : undefined;
+
+    if (!match) {
+      return { ...item, verified: false };
+    }
+    return {
+      ...item,
+      location: match.section.anchor,
+      ...(match.section.page !== undefined && { page: match.section.page }),
+      ...(match.section.paragraph !== undefined && { paragraph: match.section.paragraph }),
+      verified: true
+    };
+  });
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import type { SceneContext } from '@shared/insights';
+
+/**
+ * Faces found in an uploaded photo, kept while the user picks who to analyze
+ */
+export interface FaceDetection {
+  id: string;
+  sessionId: string;
+  people: any[]; // Integrated face analysis, each person annotated with its qualityAssessment
+  sceneContext: SceneContext | null; // Described from the same Vision request as the faces
+  createdAt: string;
+}
+
+/**
+ * One person the user chose to analyze, optionally with a name or role like "Interviewer"
+ */
+export interface PersonSelection {
+  personIndex: number;
+  name?: string;
+}
+
+/**
+ * In-process store for face detections awaiting the user's choice of people. Like
+ * finished jobs, detections are forgotten after a retention window.
+ */
+export class FaceDetectionStore {
+  private detections = new Map<string, FaceDetection>();
+
+  constructor(private retentionMs: number = 60 * 60 * 1000) {}
+
+  save(sessionId: string, people: any[], sceneContext: SceneContext | null = null): FaceDetection {
+    const detection: FaceDetection = {
+      id: randomUUID(),
+      sessionId,
+      people,
+      sceneContext,
+      createdAt: new Date().toISOString()
+    };
+    this.detections.set(detection.id, detection);
+
+    setTimeout(() => {
+      this.detections.delete(detection.id);
+    }, this.retentionMs).unref();
+
+    return detection;
+  }
+
+  get(detectionId: string): FaceDetection | undefined {
+    return this.detections.get(detectionId);
+  }
+}
+
+export const faceDetections = new FaceDetectionStore();
+
+/**
+ * Mark which detected people the user chose, and relabel those they named. People
+ * left out stay in the list, marked unselected, so their face boxes are kept.
+ */
+export function applyPeopleSelection(people: any[], selection: PersonSelection[]): any[] {
+  return people.map(person => {
+    const chosen = selection.find(choice => choice.personIndex === person.personIndex);
+    const name = chosen?.name?.trim();
+    return {
+      ...person,
+      selected: !!chosen,
+      ...(name && { personName: name, personLabel: name })
+    };
+  });
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { fuseFaceObservations } from "./faceFusion";
+import type { FaceObservation, FaceProviderName } from "./faceProviders";
+
+function observation(provider: FaceProviderName, box: FaceObservation["box"], overrides: Partial<FaceObservation> = {}): FaceObservation {
+  return {
+    provider,
+    box,
+    landmarks: {},
+    ageRange: null,
+    gender: null,
+    genderConfidence: null,
+    emotions: {},
+    headPose: null,
+    quality: { overall: null, sharpness: null, exposure: null, noise: null, occluded: null, eyesOpen: null },
+    confidence: null,
+    attributes: {},
+    raw: {},
+    ...overrides
+  };
+}
+
+const LEFT = { left: 100, top: 100, width: 100, height: 100 };
+const RIGHT = { left: 400, top: 120, width: 90, height: 90 };
+
+describe("fuseFaceObservations", () => {
+  it("matches each service's faces to the same people by box overlap, ordered left to right", () => {
+    const fused = fuseFaceObservations([
+      [observation("facepp", RIGHT), observation("facepp", LEFT)],
+      [observation("azure_face", { left: 110, top: 95, width: 100, height: 105 }), observation("azure_face", { left: 395, top: 118, width: 92, height: 94 })]
+    ], 5);
+
+    expect(fused).toHaveLength(2);
+    expect(fused.map(face => face.observations.map(seen => seen.provider))).toEqual([["facepp", "azure_face"], ["facepp", "azure_face"]]);
+    expect(fused[0].box).toEqual({ left: 105, top: 98, width: 100, height: 103 });
+    expect(fused[1].observations[1].box.left).toBe(395);
+  });
+
+  it("keeps faces that barely overlap apart", () => {
+    const fused = fuseFaceObservations([
+      [observation("facepp", LEFT)],
+      [observation("azure_face", { left: 170, top: 170, width: 100, height: 100 })]
+    ], 5);
+
+    expect(fused.map(face => face.observations.length)).toEqual([1, 1]);
+  });
+
+  it("keeps the faces most services agree on when there are more than wanted", () => {
+    const fused = fuseFaceObservations([
+      [observation("facepp", LEFT), observation("facepp", RIGHT)],
+      [observation("aws_rekognition", RIGHT)]
+    ], 1);
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].box).toEqual(RIGHT);
+  });
+
+  it("weights attributes by detection confidence", () => {
+    const [face] = fuseFaceObservations([
+      [observation("facepp", LEFT, { ageRange: { low: 20, high: 30 }, emotions: { happiness: 1 }, confidence: 0.9 })],
+      [observation("azure_face", LEFT, { ageRange: { low: 30, high: 40 }, emotions: { happiness: 0.5, neutral: 0.5 }, confidence: 0.3 })]
+    ], 5);
+
+    expect(face.age).toEqual({ value: 28, low: 23, high: 33 });
+    expect(face.emotions.happiness).toBeCloseTo(0.875);
+    expect(face.emotions.neutral).toBeCloseTo(0.125);
+    expect(face.primaryEmotion).toBe("happiness");
+  });
+
+  it("reports where services disagree on age, gender and emotion", () => {
+    const [face] = fuseFaceObservations([
+      [observation("facepp", LEFT, { ageRange: { low: 20, high: 26 }, gender: "female", genderConfidence: 0.9, emotions: { happiness: 0.8, sadness: 0.2 } })],
+      [observation("azure_face", LEFT, { ageRange: { low: 38, high: 44 }, gender: "male", emotions: { sadness: 0.7, happiness: 0.3 } })],
+      [observation("aws_rekognition", LEFT, { gender: "female", genderConfidence: 0.6 })]
+    ], 5);
+
+    expect(face.gender).toEqual({ value: "female", confidence: 0.6 });
+    const byAttribute = Object.fromEntries(face.disagreements.map(disagreement => [disagreement.attribute, disagreement]));
+    expect(byAttribute.age).toMatchObject({
+      resolved: "29-35",
+      readings: [{ provider: "facepp", value: "20-26" }, { provider: "azure_face", value: "38-44" }]
+    });
+    expect(byAttribute.age.summary).toContain("~23 (facepp) to ~41 (azure_face)");
+    expect(byAttribute.gender.summary).toBe(
+      "Gender read as male by azure_face and female by facepp (90% confident), aws_rekognition (60% confident); going with female (60% of the weighted vote)"
+    );
+    expect(byAttribute.emotion).toMatchObject({ resolved: "happiness", readings: [{ provider: "facepp", value: "happiness" }, { provider: "azure_face", value: "sadness" }] });
+  });
+
+  it("reports no disagreement when the services agree", () => {
+    const [face] = fuseFaceObservations([
+      [observation("facepp", LEFT, { ageRange: { low: 30, high: 36 }, gender: "male", emotions: { neutral: 0.9 } })],
+      [observation("azure_face", LEFT, { ageRange: { low: 28, high: 34 }, gender: "male", emotions: { neutral: 0.6, happiness: 0.4 } })]
+    ], 5);
+
+    expect(face.disagreements).toEqual([]);
+  });
+
+  it("averages quality over the services reporting it and flags any occlusion or closed eyes", () => {
+    const [face] = fuseFaceObservations([
+      [observation("facepp", LEFT, { quality: { overall: 0.8, sharpness: 0.9, exposure: null, noise: null, occluded: null, eyesOpen: true } })],
+      [observation("azure_face", LEFT, { quality: { overall: null, sharpness: 0.5, exposure: 0.4, noise: 0.1, occluded: true, eyesOpen: false } })]
+    ], 5);
+
+    expect(face.quality).toEqual({ overall: 0.8, sharpness: 0.7, exposure: 0.4, noise: 0.1, occluded: true, eyesOpen: false });
+  });
+
+  it("keeps each extra attribute from the first service to report it", () => {
+    const [face] = fuseFaceObservations([
+      [observation("facepp", LEFT, { attributes: { glasses: "None", smiling: 0.8 } })],
+      [observation("azure_face", LEFT, { attributes: { glasses: "ReadingGlasses", beard: 0.4 } })]
+    ], 5);
+
+    expect(face.attributes).toEqual({ glasses: "None", smiling: 0.8, beard: 0.4 });
+  });
+});
@@ -0,0 +1,260 @@
+import type { FaceDisagreement } from '@shared/insights';
+import type { FaceBox, FaceObservation, FaceQuality, HeadPose } from './faceProviders';
+
+// Boxes from two services overlapping at least this much are taken to be the same face
+const MIN_MATCH_IOU = 0.3;
+// Age estimates whose midpoints are further apart than this, in years, count as a conflict
+const AGE_DISAGREEMENT_YEARS = 10;
+
+/**
+ * One person's face as agreed across services, with every service's observation of it
+ */
+export interface FusedFace {
+  box: FaceBox;
+  observations: FaceObservation[];
+  age: { value: number; low: number; high: number } | null;
+  gender: { value: 'male' | 'female'; confidence: number } | null;
+  emotions: Record<string, number>;
+  primaryEmotion: string;
+  headPose: HeadPose | null;
+  quality: FaceQuality;
+  attributes: Record<string, string | number | boolean>;
+  disagreements: FaceDisagreement[];
+}
+
+interface Weighted {
+  value: number;
+  weight: number;
+}
+
+/**
+ * Overlap of two boxes as a share of their combined area, from 0 to 1
+ */
+export function intersectionOverUnion(a: FaceBox, b: FaceBox): number {
+  const overlapWidth = Math.min(a.left + a.width, b.left + b.width) - Math.max(a.left, b.left);
+  const overlapHeight = Math.min(a.top + a.height, b.top + b.height) - Math.max(a.top, b.top);
+  if (overlapWidth <= 0 || overlapHeight <= 0) return 0;
+
+  const overlap = overlapWidth * overlapHeight;
+  return overlap / (a.width * a.height + b.width * b.height - overlap);
+}
+
+function weightedMean(values: Weighted[]): number {
+  const totalWeight = values.reduce((sum, { weight }) => sum + weight, 0);
+  return totalWeight > 0
+    ? values.reduce((sum, { value, weight }) => sum + value * weight, 0) / totalWeight
+    : values.reduce((sum, { value }) => sum + value, 0) / values.length;
+}
+
+// Services that don't report a detection confidence count as fully confident
+function observationWeight(observation: FaceObservation): number {
+  return observation.confidence ?? 1;
+}
+
+function meanBox(observations: FaceObservation[]): FaceBox {
+  const mean = (field: keyof FaceBox) =>
+    weightedMean(observations.map(observation => ({ value: observation.box[field], weight: observationWeight(observation) })));
+  return { left: Math.round(mean('left')), top: Math.round(mean('top')), width: Math.round(mean('width')), height: Math.round(mean('height')) };
+}
+
+function topEmotion(emotions: Record<string, number>): string {
+  let top = 'neutral';
+  let maxValue = 0;
+  for (const [emotion, value] of Object.entries(emotions)) {
+    if (value > maxValue) {
+      maxValue = value;
+      top = emotion;
+    }
+  }
+  return top;
+}
+
+/**
+ * Group the services' observations into one group per face. Each service's faces
+ * are matched one-to-one to the groups so far by box overlap, best overlaps first;
+ * faces that match nothing start a group of their own.
+ */
+function matchAcrossServices(observationsByService: FaceObservation[][]): FaceObservation[][] {
+  const groups: FaceObservation[][] = [];
+
+  for (const observations of observationsByService) {
+    const groupBoxes = groups.map(meanBox);
+    const pairs: { observation: number; group: number; overlap: number }[] = [];
+    observations.forEach((observation, i) => groupBoxes.forEach((box, g) => {
+      const overlap = intersectionOverUnion(observation.box, box);
+      if (overlap >= MIN_MATCH_IOU) pairs.push({ observation: i, group: g, overlap });
+    }));
+    pairs.sort((a, b) => b.overlap - a.overlap);
+
+    const matchedObservations = new Set<number>();
+    const matchedGroups = new Set<number>();
+    for (const pair of pairs) {
+      if (matchedObservations.has(pair.observation) || matchedGroups.has(pair.group)) continue;
+      groups[pair.group].push(observations[pair.observation]);
+      matchedObservations.add(pair.observation);
+      matchedGroups.add(pair.group);
+    }
+
+    observations.forEach((observation, i) => {
+      if (!matchedObservations.has(i)) groups.push([observation]);
+    });
+  }
+
+  return groups;
+}
+
+function fuseAge(observations: FaceObservation[], disagreements: FaceDisagreement[]): FusedFace['age'] {
+  const readings = observations.filter(observation => observation.ageRange);
+  if (readings.length === 0) return null;
+
+  const weighted = (pick: (range: { low: number; high: number }) => number) =>
+    weightedMean(readings.map(observation => ({ value: pick(observation.ageRange!), weight: observationWeight(observation) })));
+  const age = {
+    value: Math.round(weighted(range => (range.low + range.high) / 2)),
+    low: Math.round(weighted(range => range.low)),
+    high: Math.round(weighted(range => range.high))
+  };
+
+  const midpoints = readings.map(observation => ({
+    provider: observation.provider,
+    midpoint: (observation.ageRange!.low + observation.ageRange!.high) / 2
+  })).sort((a, b) => a.midpoint - b.midpoint);
+  const youngest = midpoints[0];
+  const oldest = midpoints[midpoints.length - 1];
+  if (oldest.midpoint - youngest.midpoint > AGE_DISAGREEMENT_YEARS) {
+    disagreements.push({
+      attribute: 'age',
+      readings: readings.map(observation => ({ provider: observation.provider, value: `${observation.ageRange!.low}-${observation.ageRange!.high}` })),
+      resolved: `${age.low}-${age.high}`,
+      summary: `Age estimates ranged from ~${Math.round(youngest.midpoint)} (${youngest.provider}) to ~${Math.round(oldest.midpoint)} (${oldest.provider}); combined estimate ${age.low}-${age.high}`
+    });
+  }
+
+  return age;
+}
+
+function fuseGender(observations: FaceObservation[], disagreements: FaceDisagreement[]): FusedFace['gender'] {
+  const readings = observations.filter(observation => observation.gender);
+  if (readings.length === 0) return null;
+
+  // Each reading votes with the service's confidence in the face and, where given, in the gender
+  const votes = { male: 0, female: 0 };
+  for (const observation of readings) {
+    votes[observation.gender!] += observationWeight(observation) * (observation.genderConfidence ?? 1);
+  }
+  const value = votes.male >= votes.female ? 'male' : 'female';
+  const totalVotes = votes.male + votes.female;
+  const gender = { value, confidence: totalVotes > 0 ? votes[value] / totalVotes : 0 } as const;
+
+  if (readings.some(observation => observation.gender !== value)) {
+    const describe = (reading: 'male' | 'female') => readings
+      .filter(observation => observation.gender === reading)
+      .map(observation => observation.genderConfidence !== null
+        ? `${observation.provider} (${Math.round(observation.genderConfidence * 100)}% confident)`
+        : observation.provider)
+      .join(', ');
+    disagreements.push({
+      attribute: 'gender',
+      readings: readings.map(observation => ({ provider: observation.provider, value: observation.gender! })),
+      resolved: value,
+      summary: `Gender read as male by ${describe('male')} and female by ${describe('female')}; going with ${value} (${Math.round(gender.confidence * 100)}% of the weighted vote)`
+    });
+  }
+
+  return gender;
+}
+
+function fuseEmotions(observations: FaceObservation[], disagreements: FaceDisagreement[]): Record<string, number> {
+  const readings = observations.filter(observation => Object.keys(observation.emotions).length > 0);
+  if (readings.length === 0) return {};
+
+  // An emotion a service scored for other faces but not this one counts as 0 from that service
+  const names = Array.from(new Set(readings.flatMap(observation => Object.keys(observation.emotions))));
+  const emotions = Object.fromEntries(names.map(name => [
+    name,
+    weightedMean(readings.map(observation => ({ value: observation.emotions[name] || 0, weight: observationWeight(observation) })))
+  ]));
+
+  const tops = readings.map(observation => ({ provider: observation.provider, emotion: topEmotion(observation.emotions) }));
+  if (new Set(tops.map(top => top.emotion)).size > 1) {
+    const resolved = topEmotion(emotions);
+    const byEmotion = Array.from(new Set(tops.map(top => top.emotion))).map(emotion =>
+      `${emotion} (${tops.filter(top => top.emotion === emotion).map(top => top.provider).join(', ')})`);
+    disagreements.push({
+      attribute: 'emotion',
+      readings: tops.map(top => ({ provider: top.provider, value: top.emotion })),
+      resolved,
+      summary: `Strongest emotion differed between services: ${byEmotion.join(', ')}; combined reading is ${resolved}`
+    });
+  }
+
+  return emotions;
+}
+
+function fuseHeadPose(observations: FaceObservation[]): HeadPose | null {
+  const readings = observations.filter(observation => observation.headPose);
+  if (readings.length === 0) return null;
+
+  const mean = (field: keyof HeadPose) =>
+    weightedMean(readings.map(observation => ({ value: observation.headPose![field], weight: observationWeight(observation) })));
+  return { pitch: mean('pitch'), roll: mean('roll'), yaw: mean('yaw') };
+}
+
+/**
+ * Average each quality signal over the services reporting it. A face counts as
+ * occluded, or as having closed eyes, if any service says so.
+ */
+function fuseQuality(observations: FaceObservation[]): FaceQuality {
+  const mean = (field: 'overall' | 'sharpness' | 'exposure' | 'noise') => {
+    const values = observations.map(observation => observation.quality[field]).filter((value): value is number => value !== null);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  };
+  const flags = (field: 'occluded' | 'eyesOpen') =>
+    observations.map(observation => observation.quality[field]).filter((value): value is boolean => value !== null);
+  const occluded = flags('occluded');
+  const eyesOpen = flags('eyesOpen');
+
+  return {
+    overall: mean('overall'),
+    sharpness: mean('sharpness'),
+    exposure: mean('exposure'),
+    noise: mean('noise'),
+    occluded: occluded.length > 0 ? occluded.some(Boolean) : null,
+    eyesOpen: eyesOpen.length > 0 ? eyesOpen.every(Boolean) : null
+  };
+}
+
+function fuseGroup(observations: FaceObservation[]): FusedFace {
+  const disagreements: FaceDisagreement[] = [];
+  const emotions = fuseEmotions(observations, disagreements);
+
+  return {
+    box: meanBox(observations),
+    observations,
+    age: fuseAge(observations, disagreements),
+    gender: fuseGender(observations, disagreements),
+    emotions,
+    primaryEmotion: topEmotion(emotions),
+    headPose: fuseHeadPose(observations),
+    quality: fuseQuality(observations),
+    // Extras are service-specific, so the first service to report one keeps it
+    attributes: Object.assign({}, ...observations.map(observation => observation.attributes).reverse()),
+    disagreements
+  };
+}
+
+/**
+ * Combine the faces every service found in one image into one entry per person.
+ * Faces are matched across services by bounding-box overlap, and attributes are
+ * combined weighted by each service's confidence, recording where services conflicted.
+ * The faces seen by the most services are kept, ordered left to right.
+ */
+export function fuseFaceObservations(observationsByService: FaceObservation[][], maxFaces: number): FusedFace[] {
+  const boxArea = (face: FusedFace) => face.box.width * face.box.height;
+
+  return matchAcrossServices(observationsByService)
+    .map(fuseGroup)
+    .sort((a, b) => b.observations.length - a.observations.length || boxArea(b) - boxArea(a))
+    .slice(0, maxFaces)
+    .sort((a, b) => a.box.left - b.box.left);
+}
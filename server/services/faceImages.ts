@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { promisify } from 'util';
+import ffmpeg from 'fluent-ffmpeg';
+import type { Analysis } from '@shared/schema';
+import type { ProfileView } from '@shared/insights';
+import type { FaceBox } from './faceProviders';
+
+const writeFileAsync = promisify(fs.writeFile);
+const readFileAsync = promisify(fs.readFile);
+const unlinkAsync = promisify(fs.unlink);
+
+// Face crops are square thumbnails of this size, in pixels
+const FACE_CROP_SIZE = 160;
+// Annotated images wider than this are scaled down
+const ANNOTATED_MAX_WIDTH = 800;
+// How much of the surroundings a crop keeps, as a multiple of the face box's longer side
+const CROP_MARGIN = 1.6;
+// Box colors, cycled through by person number
+const BOX_COLORS = ['0x3b82f6', '0xef4444', '0x22c55e', '0xf59e0b', '0xa855f7'];
+// Rendered images kept for repeat downloads and page loads
+const MAX_CACHED_ANALYSES = 20;
+
+/**
+ * A person with a face box in a photo analysis, numbered as in their "Person N" label
+ */
+export interface FacePerson {
+  personIndex: number;
+  personLabel: string;
+  boundingBox: FaceBox;
+}
+
+export interface FaceImages {
+  people: FacePerson[];
+  annotated: { data: Buffer; width: number; height: number };
+  crops: Map<number, Buffer>; // JPEG thumbnail per personIndex
+}
+
+const renderCache = new Map<number, Promise<FaceImages | null>>();
+
+/**
+ * The people an analysis has face boxes for. Only photo analyses qualify: video
+ * analyses don't keep the frames their boxes were measured on.
+ */
+export function getAnalysisFacePeople(analysis: Analysis): FacePerson[] {
+  if (analysis.mediaType !== 'image' || !Array.isArray(analysis.faceAnalysis)) {
+    return [];
+  }
+
+  return toFacePeople(analysis.faceAnalysis);
+}
+
+/**
+ * The people from an integrated face analysis that have a face box
+ */
+export function toFacePeople(faceAnalysis: any[]): FacePerson[] {
+  return faceAnalysis
+    .filter((person: any) => person?.boundingBox && person.boundingBox.width > 0 && person.boundingBox.height > 0)
+    .map((person: any, i: number) => ({
+      personIndex: person.personIndex ?? i + 1,
+      personLabel: person.personLabel || `Person ${i + 1}`,
+      boundingBox: person.boundingBox
+    }));
+}
+
+/**
+ * Helper function to read an image's pixel size using ffprobe
+ */
+export function probeImageSize(imagePath: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(imagePath, (err: Error | null, metadata: any) => {
+      if (err) return reject(err);
+      const stream = metadata.streams?.find((s: any) => s.width && s.height);
+      if (!stream) return reject(new Error('Could not read image size'));
+      resolve({ width: stream.width, height: stream.height });
+    });
+  });
+}
+
+/**
+ * Helper function to write one filtered still of an image with ffmpeg
+ */
+function renderStill(inputPath: string, filters: string[], outputPath: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg(inputPath)
+      .videoFilters(filters)
+      .frames(1)
+      .outputOptions(['-q:v 3'])
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+}
+
+/**
+ * Square region around a face box with some margin, kept inside the image
+ */
+function cropRegion(box: FaceBox, image: { width: number; height: number }) {
+  const side = Math.round(Math.min(Math.max(box.width, box.height) * CROP_MARGIN, image.width, image.height));
+  const clamp = (value: number, max: number) => Math.round(Math.max(0, Math.min(value, max)));
+  return {
+    side,
+    x: clamp(box.left + box.width / 2 - side / 2, image.width - side),
+    y: clamp(box.top + box.height / 2 - side / 2, image.height - side)
+  };
+}
+
+/**
+ * Render face crops and the numbered-box overlay for people found in a photo given
+ * as a data URL, or null if there is nothing to render. Needs ffmpeg.
+ */
+export async function renderFaceImages(mediaUrl: string, people: FacePerson[]): Promise<FaceImages | null> {
+  const match = mediaUrl.match(/^data:image\/(\w+);base64,(.*)$/);
+  if (people.length === 0 || !match) {
+    return null;
+  }
+
+  const randomId = Math.random().toString(36).substring(2, 15);
+  const inputPath = path.join(os.tmpdir(), `${randomId}.${match[1]}`);
+  const outputPaths: string[] = [];
+  const outputPath = (name: string) => {
+    const outputFile = path.join(os.tmpdir(), `${randomId}_${name}.jpg`);
+    outputPaths.push(outputFile);
+    return outputFile;
+  };
+
+  try {
+    await writeFileAsync(inputPath, Buffer.from(match[2], 'base64'));
+    const image = await probeImageSize(inputPath);
+
+    const crops = new Map<number, Buffer>();
+    for (const person of people) {
+      const { side, x, y } = cropRegion(person.boundingBox, image);
+      const cropPath = outputPath(`face_${person.personIndex}`);
+      await renderStill(inputPath, [`crop=${side}:${side}:${x}:${y}`, `scale=${FACE_CROP_SIZE}:${FACE_CROP_SIZE}`], cropPath);
+      crops.set(person.personIndex, await readFileAsync(cropPath));
+    }
+
+    // Numbered boxes are drawn at full size, then the whole image is scaled down
+    const thickness = Math.max(2, Math.round(image.width / 300));
+    const fontSize = Math.max(16, Math.round(image.width / 30));
+    const width = Math.min(image.width, ANNOTATED_MAX_WIDTH);
+    const height = Math.round((image.height * width) / image.width / 2) * 2;
+    const annotatedPath = outputPath('annotated');
+    await renderStill(inputPath, [
+      ...people.flatMap(person => {
+        const { left, top, width: boxWidth, height: boxHeight } = person.boundingBox;
+        const color = BOX_COLORS[(person.personIndex - 1) % BOX_COLORS.length];
+        return [
+          `drawbox=x=${left}:y=${top}:w=${boxWidth}:h=${boxHeight}:color=${color}:t=${thickness}`,
+          `drawtext=text='${person.personIndex}':x=${left}:y=${Math.max(0, top - fontSize - thickness * 2)}:fontsize=${fontSize}:fontcolor=white:box=1:boxcolor=${color}:boxborderw=${thickness * 2}`
+        ];
+      }),
+      `scale=${width}:${height}`
+    ], annotatedPath);
+
+    return {
+      people,
+      annotated: { data: await readFileAsync(annotatedPath), width, height },
+      crops
+    };
+  } finally {
+    await Promise.all([inputPath, ...outputPaths].map(file => unlinkAsync(file).catch(() => {})));
+  }
+}
+
+/**
+ * Face crops and a numbered-box overlay of the uploaded photo for an analysis, or null
+ * if the analysis has no faces to show. Rendering needs ffmpeg; results are cached.
+ */
+export function getFaceImages(analysis: Analysis): Promise<FaceImages | null> {
+  let rendered = renderCache.get(analysis.id);
+  if (!rendered) {
+    rendered = renderFaceImages(analysis.mediaUrl, getAnalysisFacePeople(analysis));
+    renderCache.set(analysis.id, rendered);
+    rendered.catch(() => renderCache.delete(analysis.id));
+
+    // Maps iterate in insertion order, so the first key is the oldest render
+    if (renderCache.size > MAX_CACHED_ANALYSES) {
+      renderCache.delete(renderCache.keys().next().value!);
+    }
+  }
+  return rendered;
+}
+
+/**
+ * The face belonging to one of an analysis's individual profiles. Older analyses
+ * didn't record personIndex on profiles, so fall back to the person label.
+ */
+export function findProfileFace(people: FacePerson[], profile: Pick<ProfileView, 'personIndex' | 'personLabel'>): FacePerson | undefined {
+  return people.find(person => profile.personIndex !== undefined && person.personIndex === profile.personIndex)
+    ?? people.find(person => person.personLabel === profile.personLabel);
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getFaceProviders } from "./faceProviders";
+
+const IMAGE = Buffer.alloc(0);
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("fixture face providers", () => {
+  it("stand in for every service recorded in the fixture", () => {
+    vi.stubEnv("FACE_FAKE_PROVIDERS", "true");
+
+    expect(getFaceProviders().map(provider => provider.name)).toEqual(["facepp", "azure_face", "google_vision", "aws_rekognition"]);
+  });
+
+  it("replay the recorded faces as normalized observations", async () => {
+    vi.stubEnv("FACE_FAKE_PROVIDERS", "true");
+    const facepp = getFaceProviders().find(provider => provider.name === "facepp")!;
+
+    const [first, second] = await facepp.detect(IMAGE, { maxFaces: 5 });
+
+    expect(first).toMatchObject({
+      provider: "facepp",
+      box: { left: 140, top: 110, width: 120, height: 120 },
+      ageRange: { low: 29, high: 39 },
+      gender: "female",
+      quality: { overall: 0.82, sharpness: 0.9, eyesOpen: true, exposure: null, noise: null, occluded: null },
+      raw: { face_token: "fixture-facepp-1" }
+    });
+    expect(second.gender).toBe("male");
+  });
+
+  it("fill in what a service doesn't report and stop at the face limit", async () => {
+    vi.stubEnv("FACE_FAKE_PROVIDERS", "true");
+    const azure = getFaceProviders().find(provider => provider.name === "azure_face")!;
+
+    const faces = await azure.detect(IMAGE, { maxFaces: 1 });
+
+    expect(faces).toHaveLength(1);
+    expect(faces[0]).toMatchObject({ landmarks: {}, genderConfidence: null, confidence: null, quality: { overall: null, eyesOpen: null } });
+    expect(faces[0].raw).toMatchObject({ box: faces[0].box });
+  });
+
+  it("are limited to FACE_PROVIDERS", () => {
+    vi.stubEnv("FACE_FAKE_PROVIDERS", "true");
+    vi.stubEnv("FACE_PROVIDERS", "aws_rekognition, facepp");
+
+    expect(getFaceProviders().map(provider => provider.name)).toEqual(["facepp", "aws_rekognition"]);
+  });
+
+  it("read FACE_FAKE_FIXTURE, leaving out services it has no faces for", async () => {
+    const fixturePath = path.join(os.tmpdir(), `faces-${process.pid}.json`);
+    fs.writeFileSync(fixturePath, JSON.stringify({ azure_face: [], google_vision: [{ box: { left: 1, top: 2, width: 3, height: 4 } }] }));
+    vi.stubEnv("FACE_FAKE_PROVIDERS", "true");
+    vi.stubEnv("FACE_FAKE_FIXTURE", fixturePath);
+
+    try {
+      const providers = getFaceProviders();
+      expect(providers.map(provider => provider.name)).toEqual(["azure_face", "google_vision"]);
+      expect(await providers[0].detect(IMAGE, { maxFaces: 5 })).toEqual([]);
+      expect((await providers[1].detect(IMAGE, { maxFaces: 5 }))[0].box).toEqual({ left: 1, top: 2, width: 3, height: 4 });
+    } finally {
+      fs.unlinkSync(fixturePath);
+    }
+  });
+});
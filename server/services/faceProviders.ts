@@ -0,0 +1,462 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import FormData from 'form-data';
+import { RekognitionClient, DetectFacesCommand } from '@aws-sdk/client-rekognition';
+import { detectFacesLocally, isLocalFaceDetectorAvailable } from './localFaceDetector';
+import { annotateImage } from './googleVision';
+
+// API Keys for the face analysis services
+const FACEPP_API_KEY = process.env.FACEPP_API_KEY;
+const FACEPP_API_SECRET = process.env.FACEPP_API_SECRET;
+const AZURE_FACE_API_KEY = process.env.AZURE_FACE_API_KEY;
+const AZURE_FACE_ENDPOINT = process.env.AZURE_FACE_ENDPOINT;
+const GOOGLE_CLOUD_VISION_API_KEY = process.env.GOOGLE_CLOUD_VISION_API_KEY;
+
+// Availability of face analysis APIs
+if (FACEPP_API_KEY && FACEPP_API_SECRET) {
+  console.log("Face++ API available for face analysis");
+}
+
+if (AZURE_FACE_API_KEY && AZURE_FACE_ENDPOINT) {
+  console.log("Azure Face API available for face analysis");
+}
+
+if (GOOGLE_CLOUD_VISION_API_KEY) {
+  console.log("Google Cloud Vision API available for image analysis");
+}
+
+// AWS Rekognition client
+// Let the AWS SDK pick up credentials from environment variables automatically
+const rekognition = new RekognitionClient({
+  region: process.env.AWS_REGION || "us-east-1"
+});
+
+export type FaceProviderName = 'facepp' | 'azure_face' | 'google_vision' | 'aws_rekognition' | 'local';
+
+export const FACE_PROVIDER_NAMES: FaceProviderName[] = ['facepp', 'azure_face', 'google_vision', 'aws_rekognition', 'local'];
+
+export interface FaceBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+export interface HeadPose {
+  pitch: number;
+  roll: number;
+  yaw: number;
+}
+
+/**
+ * Image quality of one face. Each signal is null when the service doesn't report it.
+ */
+export interface FaceQuality {
+  overall: number | null; // The service's own quality rating, 0-1
+  sharpness: number | null; // 0 blurry to 1 sharp
+  exposure: number | null; // 0 under-exposed to 1 over-exposed
+  noise: number | null; // 0 clean to 1 noisy
+  occluded: boolean | null;
+  eyesOpen: boolean | null;
+}
+
+/**
+ * One face as seen by one service. Boxes and landmarks are in image pixels,
+ * emotion scores are 0-1 under shared names (happiness, sadness, anger, ...).
+ */
+export interface FaceObservation {
+  provider: FaceProviderName;
+  box: FaceBox;
+  landmarks: Record<string, FacePoint>;
+  ageRange: { low: number; high: number } | null;
+  gender: 'male' | 'female' | null;
+  genderConfidence: number | null;
+  emotions: Record<string, number>;
+  headPose: HeadPose | null;
+  quality: FaceQuality;
+  confidence: number | null; // Detection confidence, 0-1
+  attributes: Record<string, string | number | boolean>; // Service-specific extras like smile or glasses
+  raw: any; // The service's own payload for this face
+}
+
+export interface FaceDetectOptions {
+  maxFaces: number;
+  describeScene?: boolean; // A photo's scene context is wanted too, so services that can describe it do so in the same request
+}
+
+export interface FaceProvider {
+  name: FaceProviderName;
+  isAvailable(): boolean;
+  detect(image: Buffer, options: FaceDetectOptions): Promise<FaceObservation[]>;
+}
+
+// Services that estimate a single age get a range this wide either side of it
+const AGE_RANGE_MARGIN = 5;
+
+// Used when an image's size can't be read from its header, matching how boxes were approximated before
+const FALLBACK_IMAGE_SIZE = { width: 1000, height: 1000 };
+
+const GOOGLE_LIKELIHOOD: Record<string, number> = {
+  VERY_UNLIKELY: 0.1,
+  UNLIKELY: 0.3,
+  POSSIBLE: 0.5,
+  LIKELY: 0.7,
+  VERY_LIKELY: 0.9
+};
+
+const REKOGNITION_EMOTIONS: Record<string, string> = {
+  HAPPY: 'happiness',
+  SAD: 'sadness',
+  ANGRY: 'anger',
+  SURPRISED: 'surprise',
+  DISGUSTED: 'disgust',
+  FEAR: 'fear',
+  CALM: 'neutral',
+  CONFUSED: 'confusion'
+};
+
+function emptyQuality(): FaceQuality {
+  return { overall: null, sharpness: null, exposure: null, noise: null, occluded: null, eyesOpen: null };
+}
+
+function ageRangeAround(age: unknown): FaceObservation['ageRange'] {
+  return typeof age === 'number' ? { low: Math.max(0, age - AGE_RANGE_MARGIN), high: age + AGE_RANGE_MARGIN } : null;
+}
+
+function normalizeGender(gender: unknown): FaceObservation['gender'] {
+  const value = String(gender || '').toLowerCase();
+  return value === 'male' || value === 'female' ? value : null;
+}
+
+/**
+ * Width and height from a JPEG or PNG header, or null for anything else
+ */
+function readImageSize(image: Buffer): { width: number; height: number } | null {
+  // PNG: the IHDR chunk always comes first
+  if (image.length >= 24 && image.readUInt32BE(0) === 0x89504e47) {
+    return { width: image.readUInt32BE(16), height: image.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (image.length >= 4 && image[0] === 0xff && image[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < image.length) {
+      if (image[offset] !== 0xff) return null;
+      const marker = image[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: image.readUInt16BE(offset + 7), height: image.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + image.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+const faceppProvider: FaceProvider = {
+  name: 'facepp',
+  isAvailable: () => !!(FACEPP_API_KEY && FACEPP_API_SECRET),
+  async detect(image) {
+    const formData = new FormData();
+    formData.append('api_key', FACEPP_API_KEY!);
+    formData.append('api_secret', FACEPP_API_SECRET!);
+    formData.append('image_base64', image.toString('base64'));
+    formData.append('return_landmark', '1');
+    formData.append('return_attributes', 'gender,age,smiling,headpose,facequality,blur,eyestatus,emotion,ethnicity,beauty,mouthstatus,eyegaze,skinstatus');
+
+    const response = await fetch('https://api-us.faceplusplus.com/facepp/v3/detect', {
+      method: 'POST',
+      body: formData
+    });
+    if (!response.ok) {
+      throw new Error(`Face++ API returned an error: ${await response.text()}`);
+    }
+
+    const data = await response.json() as any;
+    return (data.faces || []).map((face: any): FaceObservation => {
+      const attributes = face.attributes || {};
+      const eyeOpen = (eye: any) => eye ? (eye.no_glass_eye_open || 0) + (eye.normal_glass_eye_open || 0) > 50 : null;
+      const leftEyeOpen = eyeOpen(attributes.eyestatus?.left_eye_status);
+      const rightEyeOpen = eyeOpen(attributes.eyestatus?.right_eye_status);
+      const gender = normalizeGender(attributes.gender?.value);
+
+      return {
+        provider: 'facepp',
+        box: face.face_rectangle,
+        landmarks: face.landmark || {},
+        ageRange: ageRangeAround(attributes.age?.value),
+        gender,
+        genderConfidence: null,
+        emotions: Object.fromEntries(Object.entries(attributes.emotion || {}).map(([emotion, score]) => [emotion, (score as number) / 100])),
+        headPose: attributes.headpose
+          ? { pitch: attributes.headpose.pitch_angle, roll: attributes.headpose.roll_angle, yaw: attributes.headpose.yaw_angle }
+          : null,
+        quality: {
+          ...emptyQuality(),
+          overall: typeof attributes.facequality?.value === 'number' ? attributes.facequality.value / 100 : null,
+          sharpness: typeof attributes.blur?.blurness?.value === 'number' ? 1 - attributes.blur.blurness.value / 100 : null,
+          eyesOpen: leftEyeOpen === null || rightEyeOpen === null ? null : leftEyeOpen && rightEyeOpen
+        },
+        confidence: null,
+        attributes: {
+          ...(typeof attributes.smile?.value === 'number' && { smiling: attributes.smile.value / 100 }),
+          ...(attributes.glass?.value && { glasses: attributes.glass.value }),
+          ...(attributes.ethnicity?.value && { ethnicity: attributes.ethnicity.value }),
+          ...(attributes.beauty && { beauty: gender === 'female' ? attributes.beauty.female_score : attributes.beauty.male_score })
+        },
+        raw: face
+      };
+    });
+  }
+};
+
+const azureFaceProvider: FaceProvider = {
+  name: 'azure_face',
+  isAvailable: () => !!(AZURE_FACE_API_KEY && AZURE_FACE_ENDPOINT),
+  async detect(image) {
+    const response = await fetch(
+      `${AZURE_FACE_ENDPOINT}/face/v1.0/detect?returnFaceId=true&returnFaceLandmarks=true&returnFaceAttributes=age,gender,headPose,smile,facialHair,glasses,emotion,hair,makeup,occlusion,accessories,blur,exposure,noise`,
+      {
+        method: 'POST',
+        headers: {
+          'Ocp-Apim-Subscription-Key': AZURE_FACE_API_KEY!,
+          'Content-Type': 'application/octet-stream'
+        },
+        body: image
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`Azure Face API returned an error: ${await response.text()}`);
+    }
+
+    const data = await response.json() as any[];
+    return data.map((face: any): FaceObservation => {
+      const attributes = face.faceAttributes || {};
+      const occlusion = attributes.occlusion;
+
+      return {
+        provider: 'azure_face',
+        box: face.faceRectangle,
+        landmarks: face.faceLandmarks || {},
+        ageRange: ageRangeAround(attributes.age),
+        gender: normalizeGender(attributes.gender),
+        genderConfidence: null,
+        emotions: attributes.emotion || {},
+        headPose: attributes.headPose || null,
+        quality: {
+          ...emptyQuality(),
+          sharpness: typeof attributes.blur?.value === 'number' ? 1 - attributes.blur.value : null,
+          exposure: typeof attributes.exposure?.value === 'number' ? attributes.exposure.value : null,
+          noise: typeof attributes.noise?.value === 'number' ? attributes.noise.value : null,
+          occluded: occlusion ? !!(occlusion.foreheadOccluded || occlusion.eyeOccluded || occlusion.mouthOccluded) : null
+        },
+        confidence: null,
+        attributes: {
+          ...(typeof attributes.smile === 'number' && { smiling: attributes.smile }),
+          ...(attributes.glasses && { glasses: attributes.glasses }),
+          ...(attributes.facialHair && { beard: attributes.facialHair.beard, moustache: attributes.facialHair.moustache })
+        },
+        raw: face
+      };
+    });
+  }
+};
+
+const googleVisionProvider: FaceProvider = {
+  name: 'google_vision',
+  isAvailable: () => !!GOOGLE_CLOUD_VISION_API_KEY,
+  async detect(image, { maxFaces, describeScene }) {
+    const annotations = await annotateImage(image, { maxFaces, describeScene });
+    const likelihood = (value: string) => GOOGLE_LIKELIHOOD[value];
+    return (annotations.faceAnnotations || []).map((face: any): FaceObservation => {
+      const vertices: any[] = face.boundingPoly?.vertices || [];
+      const xs = vertices.map(v => v.x || 0);
+      const ys = vertices.map(v => v.y || 0);
+      const emotions: Record<string, number> = {};
+      for (const [emotion, field] of [['happiness', 'joyLikelihood'], ['sadness', 'sorrowLikelihood'], ['anger', 'angerLikelihood'], ['surprise', 'surpriseLikelihood']]) {
+        if (likelihood(face[field]) !== undefined) emotions[emotion] = likelihood(face[field]);
+      }
+
+      return {
+        provider: 'google_vision',
+        box: vertices.length > 0
+          ? { left: Math.min(...xs), top: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) }
+          : { left: 0, top: 0, width: 0, height: 0 },
+        landmarks: Object.fromEntries((face.landmarks || []).map((landmark: any) =>
+          [String(landmark.type).toLowerCase(), { x: landmark.position?.x || 0, y: landmark.position?.y || 0 }])),
+        ageRange: null,
+        gender: null,
+        genderConfidence: null,
+        emotions,
+        headPose: { pitch: face.tiltAngle || 0, roll: face.rollAngle || 0, yaw: face.panAngle || 0 },
+        quality: {
+          ...emptyQuality(),
+          sharpness: likelihood(face.blurredLikelihood) !== undefined ? 1 - likelihood(face.blurredLikelihood) : null,
+          // Vision only reports under-exposure, so its scale stops at the middle
+          exposure: likelihood(face.underExposedLikelihood) !== undefined ? 0.5 - likelihood(face.underExposedLikelihood) / 2 : null
+        },
+        confidence: typeof face.detectionConfidence === 'number' ? face.detectionConfidence : null,
+        attributes: {
+          ...(likelihood(face.headwearLikelihood) !== undefined && { headwear: likelihood(face.headwearLikelihood) })
+        },
+        raw: face
+      };
+    });
+  }
+};
+
+const rekognitionProvider: FaceProvider = {
+  name: 'aws_rekognition',
+  isAvailable: () => !!(process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY),
+  async detect(image) {
+    const response = await rekognition.send(new DetectFacesCommand({
+      Image: { Bytes: image },
+      Attributes: ['ALL']
+    }));
+
+    // Rekognition reports positions as fractions of the image
+    const { width, height } = readImageSize(image) || FALLBACK_IMAGE_SIZE;
+    return (response.FaceDetails || []).map((face): FaceObservation => ({
+      provider: 'aws_rekognition',
+      box: {
+        left: (face.BoundingBox?.Left || 0) * width,
+        top: (face.BoundingBox?.Top || 0) * height,
+        width: (face.BoundingBox?.Width || 0) * width,
+        height: (face.BoundingBox?.Height || 0) * height
+      },
+      landmarks: Object.fromEntries((face.Landmarks || []).map(landmark =>
+        [String(landmark.Type), { x: (landmark.X || 0) * width, y: (landmark.Y || 0) * height }])),
+      ageRange: face.AgeRange ? { low: face.AgeRange.Low || 0, high: face.AgeRange.High || 0 } : null,
+      gender: normalizeGender(face.Gender?.Value),
+      genderConfidence: typeof face.Gender?.Confidence === 'number' ? face.Gender.Confidence / 100 : null,
+      emotions: Object.fromEntries((face.Emotions || [])
+        .filter(emotion => emotion.Type && REKOGNITION_EMOTIONS[emotion.Type])
+        .map(emotion => [REKOGNITION_EMOTIONS[emotion.Type!], (emotion.Confidence || 0) / 100])),
+      headPose: face.Pose ? { pitch: face.Pose.Pitch || 0, roll: face.Pose.Roll || 0, yaw: face.Pose.Yaw || 0 } : null,
+      quality: {
+        ...emptyQuality(),
+        sharpness: typeof face.Quality?.Sharpness === 'number' ? face.Quality.Sharpness / 100 : null,
+        exposure: typeof face.Quality?.Brightness === 'number' ? face.Quality.Brightness / 100 : null,
+        occluded: typeof face.FaceOccluded?.Value === 'boolean' ? face.FaceOccluded.Value : null,
+        eyesOpen: typeof face.EyesOpen?.Value === 'boolean' ? face.EyesOpen.Value : null
+      },
+      confidence: typeof face.Confidence === 'number' ? face.Confidence / 100 : null,
+      attributes: {
+        ...(face.Smile && { smiling: face.Smile.Value ? (face.Smile.Confidence || 0) / 100 : 0 }),
+        ...(face.Eyeglasses && { glasses: face.Eyeglasses.Value ? 'Glasses' : face.Sunglasses?.Value ? 'Sunglasses' : 'None' }),
+        ...(face.Beard && { beard: !!face.Beard.Value }),
+        ...(face.Mustache && { moustache: !!face.Mustache.Value })
+      },
+      raw: face
+    }));
+  }
+};
+
+/**
+ * Offline, CPU-only detector used when no cloud face service is configured
+ */
+const localProvider: FaceProvider = {
+  name: 'local',
+  isAvailable: isLocalFaceDetectorAvailable,
+  async detect(image, { maxFaces }) {
+    const faces = await detectFacesLocally(image, maxFaces);
+    return faces.map((face): FaceObservation => ({
+      provider: 'local',
+      box: face.box,
+      landmarks: {},
+      ageRange: null,
+      gender: null,
+      genderConfidence: null,
+      emotions: face.emotions,
+      headPose: null,
+      quality: {
+        ...emptyQuality(),
+        sharpness: face.sharpness,
+        exposure: face.brightness
+      },
+      confidence: face.score,
+      attributes: {},
+      raw: face
+    }));
+  }
+};
+
+// Bundled fixture for FACE_FAKE_PROVIDERS; FACE_FAKE_FIXTURE points at a different one
+const DEFAULT_FACE_FIXTURE = 'server/fixtures/faces/two-people.json';
+
+type FaceFixture = Partial<Record<FaceProviderName, Partial<FaceObservation>[]>>;
+
+const fixtureCache = new Map<string, FaceFixture>();
+
+function loadFaceFixture(): FaceFixture {
+  const fixturePath = path.resolve(process.env.FACE_FAKE_FIXTURE || DEFAULT_FACE_FIXTURE);
+  if (!fixtureCache.has(fixturePath)) {
+    fixtureCache.set(fixturePath, JSON.parse(fs.readFileSync(fixturePath, 'utf-8')));
+  }
+  return fixtureCache.get(fixturePath)!;
+}
+
+/**
+ * Stand-in for a real service that replays the faces recorded for it in a fixture,
+ * whatever the image. Lets detection and fusion run offline without cloud keys.
+ */
+function createFixtureProvider(name: FaceProviderName): FaceProvider {
+  return {
+    name,
+    isAvailable: () => Array.isArray(loadFaceFixture()[name]),
+    async detect(_image, { maxFaces }) {
+      return (loadFaceFixture()[name] || []).slice(0, maxFaces).map(face => ({
+        box: { left: 0, top: 0, width: 0, height: 0 },
+        landmarks: {},
+        ageRange: null,
+        gender: null,
+        genderConfidence: null,
+        emotions: {},
+        headPose: null,
+        confidence: null,
+        attributes: {},
+        ...face,
+        provider: name,
+        quality: { ...emptyQuality(), ...face.quality },
+        raw: face.raw ?? face
+      }));
+    }
+  };
+}
+
+const providers = new Map<FaceProviderName, FaceProvider>();
+
+export function registerFaceProvider(provider: FaceProvider) {
+  providers.set(provider.name, provider);
+}
+
+registerFaceProvider(faceppProvider);
+registerFaceProvider(azureFaceProvider);
+registerFaceProvider(googleVisionProvider);
+registerFaceProvider(rekognitionProvider);
+registerFaceProvider(localProvider);
+
+const fixtureProviders = FACE_PROVIDER_NAMES.map(createFixtureProvider);
+
+/**
+ * Face services to run on an image, skipping any that aren't configured.
+ * FACE_PROVIDERS (comma-separated names) limits which services are used, and
+ * FACE_FAKE_PROVIDERS=true swaps every service for its fixture-backed fake.
+ * The local detector only runs when no cloud service is available, unless
+ * FACE_PROVIDERS names it.
+ */
+export function getFaceProviders(): FaceProvider[] {
+  const enabled = process.env.FACE_PROVIDERS?.split(',').map(name => name.trim()).filter(Boolean);
+  const pool = process.env.FACE_FAKE_PROVIDERS === 'true' ? fixtureProviders : Array.from(providers.values());
+
+  const available = pool.filter(provider => (!enabled || enabled.includes(provider.name)) && provider.isAvailable());
+  const cloud = available.filter(provider => provider.name !== 'local');
+  return cloud.length === 0 || enabled?.includes('local') ? available : cloud;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { applyFaceQualityGate, assessFaceQuality, describeFaceQuality, getFaceQualityThresholds } from "./faceQuality";
+
+// A person as the integrated face analysis describes them
+function person(personLabel: string, size: number, quality: Record<string, unknown> = {}, yaw = 0) {
+  return {
+    personLabel,
+    boundingBox: { left: 0, top: 0, width: size, height: size + 10 },
+    integratedAnalysis: { quality, head_pose: { pitch: 0, roll: 0, yaw } }
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("assessFaceQuality", () => {
+  it("passes a large, sharp, well-lit face looking at the camera", () => {
+    expect(assessFaceQuality(person("Person 1", 150, { sharpness: 0.9, exposure: 0.5, noise: 0.1, overall: 0.8 }, 10)))
+      .toEqual({ verdict: "good", issues: [] });
+  });
+
+  it("grades each signal against its degraded and unusable limits", () => {
+    expect(assessFaceQuality(person("Person 1", 60)).issues).toEqual([expect.objectContaining({ code: "too_small", severity: "degraded" })]);
+    expect(assessFaceQuality(person("Person 1", 39)).verdict).toBe("unusable");
+    expect(assessFaceQuality(person("Person 1", 40)).verdict).toBe("degraded");
+    expect(assessFaceQuality(person("Person 1", 80)).verdict).toBe("good");
+
+    const codes = (quality: Record<string, unknown>, yaw = 0) =>
+      assessFaceQuality(person("Person 1", 150, quality, yaw)).issues.map(issue => `${issue.code}:${issue.severity}`);
+    expect(codes({ sharpness: 0.2 })).toEqual(["blurry:unusable"]);
+    expect(codes({ exposure: 0.2 })).toEqual(["under_exposed:degraded"]);
+    expect(codes({ exposure: 0.95 })).toEqual(["over_exposed:unusable"]);
+    expect(codes({ noise: 0.7 })).toEqual(["noisy:degraded"]);
+    expect(codes({ overall: 0.1 })).toEqual(["low_quality:unusable"]);
+    expect(codes({}, -60)).toEqual(["turned_away:degraded"]);
+    expect(codes({ occluded: true, eyesOpen: false })).toEqual(["occluded:degraded", "eyes_closed:degraded"]);
+  });
+
+  it("ignores signals no service reported", () => {
+    expect(assessFaceQuality({ personLabel: "Person 1" })).toEqual({ verdict: "good", issues: [] });
+  });
+});
+
+describe("getFaceQualityThresholds", () => {
+  it("overrides just the limits given in FACE_QUALITY_THRESHOLDS", () => {
+    vi.stubEnv("FACE_QUALITY_THRESHOLDS", JSON.stringify({ faceSize: { unusable: 60 }, headYaw: { unusable: 30, degraded: 20 } }));
+
+    const thresholds = getFaceQualityThresholds();
+
+    expect(thresholds.faceSize).toEqual({ unusable: 60, degraded: 80 });
+    expect(thresholds.headYaw).toEqual({ unusable: 30, degraded: 20 });
+    expect(thresholds.sharpness).toEqual({ unusable: 0.25, degraded: 0.5 });
+    expect(assessFaceQuality(person("Person 1", 50)).verdict).toBe("unusable");
+  });
+
+  it("falls back to the defaults when FACE_QUALITY_THRESHOLDS isn't valid JSON", () => {
+    vi.stubEnv("FACE_QUALITY_THRESHOLDS", "{faceSize: 60");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(getFaceQualityThresholds().faceSize).toEqual({ unusable: 40, degraded: 80 });
+  });
+});
+
+describe("applyFaceQualityGate", () => {
+  it("skips unusable faces and gives feedback on every face with a problem", () => {
+    const gate = applyFaceQualityGate([
+      person("Person 1", 150, { sharpness: 0.9 }),
+      person("Person 2", 30),
+      person("Person 3", 150, { sharpness: 0.4, occluded: true })
+    ]);
+
+    expect(gate.people.map(p => p.qualityAssessment.verdict)).toEqual(["good", "unusable", "degraded"]);
+    expect(gate.usable.map(p => p.personLabel)).toEqual(["Person 1", "Person 3"]);
+    expect(gate.skipped.map(p => p.personLabel)).toEqual(["Person 2"]);
+    expect(gate.feedback).toEqual([
+      "Person 2: face too small (30px across, 80px or more works best) - move closer, crop tighter around the face or use a higher-resolution photo",
+      "Person 3: face is blurry (sharpness 40%); face is partly covered - hold the camera steady and make sure the face is in focus; use a photo where the face is not hidden by hands, hair or objects"
+    ]);
+  });
+});
+
+describe("describeFaceQuality", () => {
+  it("mentions only the issues behind the verdict", () => {
+    const assessment = assessFaceQuality(person("Person 1", 30, { noise: 0.7 }));
+
+    expect(describeFaceQuality("Person 1", assessment)).not.toContain("grainy");
+  });
+});
@@ -0,0 +1,146 @@
+import type { FaceQualityAssessment, FaceQualityIssue } from '@shared/insights';
+import type { FaceQuality } from './faceProviders';
+
+/**
+ * Limits for one quality signal: past `unusable` a face is skipped, past `degraded`
+ * it is still analyzed but the analysis is told to hold its visual conclusions loosely
+ */
+export interface QualityLimit {
+  unusable: number;
+  degraded: number;
+}
+
+export interface FaceQualityThresholds {
+  faceSize: QualityLimit; // Shorter side of the face box in pixels, minimum
+  sharpness: QualityLimit; // 0-1, minimum
+  underExposure: QualityLimit; // Exposure 0-1, minimum
+  overExposure: QualityLimit; // Exposure 0-1, maximum
+  noise: QualityLimit; // 0-1, maximum
+  overallQuality: QualityLimit; // The service's own 0-1 rating, minimum
+  headYaw: QualityLimit; // Degrees turned away from the camera, maximum
+}
+
+const DEFAULT_THRESHOLDS: FaceQualityThresholds = {
+  faceSize: { unusable: 40, degraded: 80 },
+  sharpness: { unusable: 0.25, degraded: 0.5 },
+  underExposure: { unusable: 0.1, degraded: 0.25 },
+  overExposure: { unusable: 0.9, degraded: 0.75 },
+  noise: { unusable: 0.85, degraded: 0.6 },
+  overallQuality: { unusable: 0.2, degraded: 0.4 },
+  headYaw: { unusable: 75, degraded: 45 }
+};
+
+/**
+ * Thresholds for the quality gate. FACE_QUALITY_THRESHOLDS holds a JSON object
+ * overriding any of the defaults, e.g. {"faceSize": {"unusable": 60, "degraded": 100}}.
+ */
+export function getFaceQualityThresholds(): FaceQualityThresholds {
+  if (!process.env.FACE_QUALITY_THRESHOLDS) {
+    return DEFAULT_THRESHOLDS;
+  }
+
+  try {
+    const overrides = JSON.parse(process.env.FACE_QUALITY_THRESHOLDS) as Partial<Record<keyof FaceQualityThresholds, Partial<QualityLimit>>>;
+    const thresholds = { ...DEFAULT_THRESHOLDS };
+    for (const key of Object.keys(DEFAULT_THRESHOLDS) as (keyof FaceQualityThresholds)[]) {
+      thresholds[key] = { ...DEFAULT_THRESHOLDS[key], ...overrides[key] };
+    }
+    return thresholds;
+  } catch (error) {
+    console.warn('Ignoring invalid FACE_QUALITY_THRESHOLDS:', error);
+    return DEFAULT_THRESHOLDS;
+  }
+}
+
+/**
+ * Judge whether one detected person's face is good enough to analyze, from the
+ * fused box, head pose and quality signals of the integrated face analysis
+ */
+export function assessFaceQuality(person: any, thresholds: FaceQualityThresholds = getFaceQualityThresholds()): FaceQualityAssessment {
+  const issues: FaceQualityIssue[] = [];
+  const quality: Partial<FaceQuality> = person.integratedAnalysis?.quality || {};
+
+  // Adds an issue when a value falls below (or, for maximums, rises above) a limit
+  const check = (
+    value: number | null | undefined,
+    limit: QualityLimit,
+    direction: 'min' | 'max',
+    code: FaceQualityIssue['code'],
+    describe: (value: number) => string,
+    suggestion: string
+  ) => {
+    if (typeof value !== 'number') return;
+    const past = (bound: number) => (direction === 'min' ? value < bound : value > bound);
+    const severity = past(limit.unusable) ? 'unusable' : past(limit.degraded) ? 'degraded' : null;
+    if (severity) issues.push({ code, severity, message: describe(value), suggestion });
+  };
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+  const box = person.boundingBox;
+  const faceSize = box && typeof box.width === 'number' && typeof box.height === 'number' ? Math.min(box.width, box.height) : null;
+  check(faceSize, thresholds.faceSize, 'min', 'too_small',
+    value => `face too small (${Math.round(value)}px across, ${thresholds.faceSize.degraded}px or more works best)`,
+    'move closer, crop tighter around the face or use a higher-resolution photo');
+  check(quality.sharpness, thresholds.sharpness, 'min', 'blurry',
+    value => `face is blurry (sharpness ${percent(value)})`,
+    'hold the camera steady and make sure the face is in focus');
+  check(quality.exposure, thresholds.underExposure, 'min', 'under_exposed',
+    value => `face is under-exposed (brightness ${percent(value)})`,
+    'add light in front of the person or avoid shooting against a bright background');
+  check(quality.exposure, thresholds.overExposure, 'max', 'over_exposed',
+    value => `face is over-exposed (brightness ${percent(value)})`,
+    'avoid direct flash or harsh sunlight on the face');
+  check(quality.noise, thresholds.noise, 'max', 'noisy',
+    value => `image is grainy (noise ${percent(value)})`,
+    'use better lighting so the camera needs less sensitivity');
+  check(quality.overall, thresholds.overallQuality, 'min', 'low_quality',
+    value => `face quality rated low (${percent(value)})`,
+    'use a clearer, front-facing photo');
+  check(Math.abs(person.integratedAnalysis?.head_pose?.yaw ?? NaN), thresholds.headYaw, 'max', 'turned_away',
+    value => `face turned ${Math.round(value)}° away from the camera`,
+    'use a photo where the person faces the camera');
+
+  if (quality.occluded) {
+    issues.push({ code: 'occluded', severity: 'degraded', message: 'face is partly covered', suggestion: 'use a photo where the face is not hidden by hands, hair or objects' });
+  }
+  if (quality.eyesOpen === false) {
+    issues.push({ code: 'eyes_closed', severity: 'degraded', message: 'eyes are closed', suggestion: 'use a photo with the eyes open' });
+  }
+
+  const verdict: FaceQualityAssessment['verdict'] = issues.some(issue => issue.severity === 'unusable')
+    ? 'unusable'
+    : issues.length > 0 ? 'degraded' : 'good';
+  return { verdict, issues };
+}
+
+/**
+ * One line of feedback for a person, e.g. "Person 2: face too small (32px across, ...) - move closer ..."
+ */
+export function describeFaceQuality(personLabel: string, assessment: FaceQualityAssessment): string {
+  const worst = assessment.issues.filter(issue => issue.severity === assessment.verdict);
+  return `${personLabel}: ${worst.map(issue => issue.message).join('; ')} - ${Array.from(new Set(worst.map(issue => issue.suggestion))).join('; ')}`;
+}
+
+/**
+ * People from the integrated face analysis, each annotated with its qualityAssessment,
+ * split into those worth spending analysis on and those skipped as unusable
+ */
+export interface FaceQualityGate {
+  people: any[];
+  usable: any[];
+  skipped: any[];
+  feedback: string[]; // One line per person with a quality problem
+}
+
+export function applyFaceQualityGate(faceAnalysis: any[], thresholds: FaceQualityThresholds = getFaceQualityThresholds()): FaceQualityGate {
+  const people = faceAnalysis.map(person => ({ ...person, qualityAssessment: assessFaceQuality(person, thresholds) }));
+
+  return {
+    people,
+    usable: people.filter(person => person.qualityAssessment.verdict !== 'unusable'),
+    skipped: people.filter(person => person.qualityAssessment.verdict === 'unusable'),
+    feedback: people
+      .filter(person => person.qualityAssessment.verdict !== 'good')
+      .map(person => describeFaceQuality(person.personLabel, person.qualityAssessment))
+  };
+}
@@ -0,0 +1,100 @@
+import { getFaceProviders, FACE_PROVIDER_NAMES, type FaceObservation, type FaceProviderName } from './faceProviders';
+import { fuseFaceObservations } from './faceFusion';
+
+/**
+ * What one face service returned for an image: its observations, or why it failed
+ */
+export interface FaceServiceResult {
+  observations?: FaceObservation[];
+  error?: string;
+}
+
+export type FaceServiceResults = Partial<Record<FaceProviderName, FaceServiceResult>>;
+
+/**
+ * Comprehensive multi-service face analysis using ALL available services
+ * Runs every configured face provider in parallel and integrates their observations.
+ * With describeScene, services that can also describe a photo's scene are asked to.
+ */
+export async function comprehensiveMultiServiceFaceAnalysis(imageBuffer: Buffer, maxPeople: number = 5, describeScene: boolean = false): Promise<any[]> {
+  console.log('Starting comprehensive multi-service face analysis...');
+
+  const analysisResults: FaceServiceResults = {};
+
+  // Run ALL services in parallel for maximum data collection
+  await Promise.all(getFaceProviders().map(async provider => {
+    try {
+      console.log(`Attempting face analysis with ${provider.name}...`);
+      analysisResults[provider.name] = { observations: await provider.detect(imageBuffer, { maxFaces: maxPeople, describeScene }) };
+      console.log(`${provider.name} analysis successful!`);
+    } catch (error: any) {
+      console.error(`${provider.name} face analysis error:`, error);
+      analysisResults[provider.name] = { error: error.message };
+    }
+  }));
+
+  // Process and integrate results from all services
+  const integratedResults = integrateMultiServiceResults(analysisResults, maxPeople);
+
+  console.log(`Comprehensive analysis complete. Integrated data from ${Object.values(analysisResults).filter(result => result.observations).length} services.`);
+
+  return integratedResults;
+}
+
+/**
+ * Integrate results from multiple face analysis services into comprehensive profiles,
+ * one per face the services agree on
+ */
+function integrateMultiServiceResults(analysisResults: FaceServiceResults, maxPeople: number): any[] {
+  const fusedFaces = fuseFaceObservations(FACE_PROVIDER_NAMES.map(name => analysisResults[name]?.observations || []), maxPeople);
+
+  return fusedFaces.map((face, i) => ({
+    personIndex: i + 1,
+    personLabel: face.gender ? `Person ${i + 1} (${face.gender.value === 'male' ? 'Male' : 'Female'})` : `Person ${i + 1}`,
+    boundingBox: face.box,
+
+    // Normalized observations, plus each service's raw payload
+    observations: face.observations,
+    multiServiceData: Object.fromEntries(face.observations.map(observation => [observation.provider, observation.raw])),
+
+    // Integrated analysis
+    integratedAnalysis: {
+      age: face.age?.value ?? null,
+      age_range: face.age ? { low: face.age.low, high: face.age.high } : null,
+      gender: face.gender?.value || 'unknown',
+      gender_confidence: face.gender?.confidence ?? null,
+      emotions: {
+        primary: face.primaryEmotion,
+        detailed: face.emotions
+      },
+      head_pose: face.headPose,
+      quality: face.quality,
+      facial_features: face.attributes,
+      psychological_indicators: {
+        emotional_stability: calculateEmotionalStability(face.emotions),
+        social_openness: Math.round(Number(face.attributes.smiling || 0) * 100)
+      }
+    },
+
+    // Attributes the services read differently, so the analysis can say so
+    disagreements: face.disagreements,
+
+    // Comprehensive service status
+    serviceStatus: {
+      ...Object.fromEntries(FACE_PROVIDER_NAMES.map(name => [`${name}_available`, !!analysisResults[name]?.observations])),
+      services_detecting_person: face.observations.map(observation => observation.provider),
+      total_services_used: Object.values(analysisResults).filter(result => result.observations).length
+    }
+  }));
+}
+
+/**
+ * Calculate emotional stability from emotion scores
+ */
+function calculateEmotionalStability(emotions: Record<string, number>): number {
+  const emotionValues = Object.values(emotions).map(value => value * 100);
+  if (emotionValues.length === 0) return 50;
+
+  const variance = emotionValues.reduce((sum, val) => sum + Math.pow(val - 50, 2), 0) / emotionValues.length;
+  return Math.max(0, Math.min(100, 100 - variance));
+}
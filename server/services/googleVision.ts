@@ -0,0 +1,60 @@
+import fetch from 'node-fetch';
+
+const GOOGLE_CLOUD_VISION_API_KEY = process.env.GOOGLE_CLOUD_VISION_API_KEY;
+
+// What the scene context is built from
+const SCENE_FEATURES = [
+  { type: 'OBJECT_LOCALIZATION', maxResults: 10 },
+  { type: 'TEXT_DETECTION', maxResults: 5 },
+  { type: 'LABEL_DETECTION', maxResults: 10 }
+];
+
+export interface VisionAnnotateOptions {
+  maxFaces?: number; // Ask for FACE_DETECTION, up to this many faces
+  describeScene?: boolean; // Ask for the labels, objects and text the scene context is built from
+}
+
+// Responses that included the scene features, by image, so the scene context reuses the face request's
+const sceneResponses = new WeakMap<Buffer, Promise<any>>();
+
+/**
+ * One Google Vision annotate request for an image, returning its single response.
+ * A photo's faces and scene are asked for together, and a later scene-only call
+ * for the same image buffer gets that response instead of a second request.
+ */
+export function annotateImage(image: Buffer, { maxFaces, describeScene = false }: VisionAnnotateOptions): Promise<any> {
+  const earlier = sceneResponses.get(image);
+  if (earlier && describeScene && !maxFaces) {
+    return earlier;
+  }
+
+  const response = requestAnnotations(image, [
+    ...(maxFaces ? [{ type: 'FACE_DETECTION', maxResults: maxFaces }] : []),
+    ...(describeScene ? SCENE_FEATURES : [])
+  ]);
+  if (describeScene) {
+    sceneResponses.set(image, response);
+    // A failed request isn't reused, so the scene can still be asked for on its own
+    response.catch(() => sceneResponses.delete(image));
+  }
+  return response;
+}
+
+async function requestAnnotations(image: Buffer, features: { type: string; maxResults: number }[]): Promise<any> {
+  const response = await fetch(`https://vision.googleapis.com/v1/images:annotate?key=${GOOGLE_CLOUD_VISION_API_KEY}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      requests: [{
+        image: { content: image.toString('base64') },
+        features
+      }]
+    })
+  });
+  if (!response.ok) {
+    throw new Error(`Google Cloud Vision API returned an error: ${await response.text()}`);
+  }
+
+  const data = await response.json() as any;
+  return data.responses?.[0] || {};
+}
@@ -0,0 +1,199 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Public view of a job, sent to clients over polling and SSE
+ */
+export interface JobSnapshot {
+  id: string;
+  type: string;
+  status: JobStatus;
+  stage: string;
+  progress: number;
+  message: string;
+  result?: any;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Handed to a job runner so it can report progress and honour cancellation
+ */
+export interface JobContext {
+  jobId: string;
+  signal: AbortSignal;
+  report(stage: string, progress: number, message?: string): void;
+  throwIfCancelled(): void;
+}
+
+export type JobRunner = (ctx: JobContext) => Promise<any>;
+
+/**
+ * Thrown from inside a runner once its job has been cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+interface JobRecord {
+  snapshot: JobSnapshot;
+  runner: JobRunner;
+  controller: AbortController;
+}
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * In-process queue for long-running analysis work. Jobs run independently of
+ * the HTTP request that created them, so a client can disconnect and come back
+ * to poll or re-subscribe by job id. Finished jobs are kept for a while so late
+ * subscribers still receive the result.
+ */
+export class JobQueue {
+  private jobs = new Map<string, JobRecord>();
+  private pending: string[] = [];
+  private running = 0;
+  private events = new EventEmitter();
+
+  constructor(
+    private concurrency: number = 2,
+    private retentionMs: number = 60 * 60 * 1000
+  ) {
+    // Every open SSE stream holds a listener
+    this.events.setMaxListeners(0);
+  }
+
+  enqueue(type: string, runner: JobRunner): JobSnapshot {
+    const now = new Date().toISOString();
+    const snapshot: JobSnapshot = {
+      id: randomUUID(),
+      type,
+      status: 'queued',
+      stage: 'queued',
+      progress: 0,
+      message: 'Waiting to start',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.jobs.set(snapshot.id, { snapshot, runner, controller: new AbortController() });
+    this.pending.push(snapshot.id);
+    this.drain();
+
+    return { ...snapshot };
+  }
+
+  getJob(jobId: string): JobSnapshot | undefined {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job.snapshot } : undefined;
+  }
+
+  /**
+   * Cancel a queued or running job. Returns false if the job is unknown or already finished.
+   */
+  cancel(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || FINISHED_STATUSES.includes(job.snapshot.status)) {
+      return false;
+    }
+
+    job.controller.abort();
+    this.pending = this.pending.filter(id => id !== jobId);
+    this.finish(job, { status: 'cancelled', stage: 'cancelled', message: 'Analysis cancelled' });
+    return true;
+  }
+
+  /**
+   * Listen for updates to a job. Returns a function that removes the listener.
+   */
+  subscribe(jobId: string, listener: (snapshot: JobSnapshot) => void): () => void {
+    const eventName = `job:${jobId}`;
+    this.events.on(eventName, listener);
+    return () => {
+      this.events.off(eventName, listener);
+    };
+  }
+
+  private drain() {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (job && job.snapshot.status === 'queued') {
+        this.run(job);
+      }
+    }
+  }
+
+  private async run(job: JobRecord) {
+    this.running++;
+    const { id } = job.snapshot;
+
+    const ctx: JobContext = {
+      jobId: id,
+      signal: job.controller.signal,
+      report: (stage, progress, message) => {
+        if (job.controller.signal.aborted) return;
+        this.update(job, {
+          stage,
+          // Progress only moves forward and never reaches 100 until the job completes
+          progress: Math.max(job.snapshot.progress, Math.min(99, Math.round(progress))),
+          message: message || stage
+        });
+      },
+      throwIfCancelled: () => {
+        if (job.controller.signal.aborted) {
+          throw new JobCancelledError(id);
+        }
+      }
+    };
+
+    this.update(job, { status: 'running', stage: 'starting', message: 'Starting analysis' });
+
+    try {
+      const result = await job.runner(ctx);
+      if (!job.controller.signal.aborted) {
+        this.finish(job, { status: 'completed', stage: 'complete', progress: 100, message: 'Analysis complete', result });
+      }
+    } catch (error) {
+      if (!job.controller.signal.aborted) {
+        console.error(`Job ${id} (${job.snapshot.type}) failed:`, error);
+        this.finish(job, {
+          status: 'failed',
+          stage: 'failed',
+          message: 'Analysis failed',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    } finally {
+      this.running--;
+      this.drain();
+    }
+  }
+
+  private update(job: JobRecord, changes: Partial<JobSnapshot>) {
+    job.snapshot = { ...job.snapshot, ...changes, updatedAt: new Date().toISOString() };
+    this.events.emit(`job:${job.snapshot.id}`, { ...job.snapshot });
+  }
+
+  private finish(job: JobRecord, changes: Partial<JobSnapshot>) {
+    this.update(job, changes);
+
+    // Forget finished jobs after the retention window
+    setTimeout(() => {
+      this.jobs.delete(job.snapshot.id);
+    }, this.retentionMs).unref();
+  }
+}
+
+export function isJobFinished(snapshot: JobSnapshot): boolean {
+  return FINISHED_STATUSES.includes(snapshot.status);
+}
+
+export const jobQueue = new JobQueue(
+  parseInt(process.env.ANALYSIS_JOB_CONCURRENCY || '2', 10) || 2
+);
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import ffmpeg from 'fluent-ffmpeg';
+import { getFaceProviders, type FaceObservation, type FaceProviderName } from './faceProviders';
+import { assessFaceQuality } from './faceQuality';
+import { probeImageSize } from './faceImages';
+
+// Candidates sampled for every keyframe wanted, so there's a real choice without a detection call per video frame
+const CANDIDATES_PER_KEYFRAME = 3;
+const MIN_CANDIDATES = 6;
+
+// Candidates are compared for scene change as tiny grayscale thumbnails
+const THUMBNAIL_WIDTH = 32;
+const THUMBNAIL_HEIGHT = 18;
+
+// How much being unlike the frames already picked, and far from them in time, counts next to face quality
+const SCENE_CHANGE_WEIGHT = 0.5;
+const TIME_SPREAD_WEIGHT = 0.1;
+
+// Each quality problem a usable face has takes this much off its score
+const FACE_ISSUE_PENALTY = 0.25;
+
+/**
+ * A frame chosen for face analysis, as a JPEG at the video's native resolution
+ */
+export interface Keyframe {
+  timestamp: number; // Seconds from the start of the video it was taken from
+  image: Buffer;
+  width: number;
+  height: number;
+  faceScore: number; // 0-1: how many of the faces are visible, and how clearly
+  sceneChange: number; // 0-1: how different the picture is from the previous candidate
+  facesDetected: number;
+}
+
+export interface KeyframeSelection {
+  keyframes: Keyframe[]; // In time order
+  candidates: number;
+  scoredBy: FaceProviderName | null; // Face service the candidates were scored with, null when none was available
+}
+
+interface Candidate {
+  timestamp: number;
+  imagePath: string;
+  thumbnail: Buffer;
+  faceScore: number;
+  facesDetected: number;
+  sceneChange: number;
+}
+
+/**
+ * Helper function to extract still frames at the given offsets (in seconds), at the video's own size
+ */
+async function extractCandidateFrames(videoPath: string, offsets: number[], outputDir: string): Promise<string[]> {
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .screenshots({
+        timestamps: offsets,
+        filename: 'candidate_%i.jpg',
+        folder: outputDir
+      })
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err));
+  });
+
+  return offsets.map((_, i) => path.join(outputDir, `candidate_${i + 1}.jpg`));
+}
+
+/**
+ * Helper function to shrink a frame to a grayscale thumbnail, one byte per pixel
+ */
+async function decodeThumbnail(imagePath: string): Promise<Buffer> {
+  const outputPath = `${imagePath}.gray`;
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(imagePath)
+      .videoFilters([`scale=${THUMBNAIL_WIDTH}:${THUMBNAIL_HEIGHT}`])
+      .frames(1)
+      .outputOptions(['-f rawvideo', '-pix_fmt gray'])
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+  return fs.promises.readFile(outputPath);
+}
+
+/**
+ * Mean absolute difference between two thumbnails, 0 (identical) to 1
+ */
+function thumbnailDifference(a: Buffer, b: Buffer): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+
+  let total = 0;
+  for (let i = 0; i < length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / (length * 255);
+}
+
+/**
+ * How clear one detected face is, 0-1, judged by the same quality checks photos go through
+ */
+function faceClarity(observation: FaceObservation): number {
+  const assessment = assessFaceQuality({
+    boundingBox: observation.box,
+    integratedAnalysis: { quality: observation.quality, head_pose: observation.headPose }
+  });
+  if (assessment.verdict === 'unusable') {
+    return 0;
+  }
+  return Math.max(0.1, 1 - FACE_ISSUE_PENALTY * assessment.issues.length) * (observation.confidence ?? 1);
+}
+
+/**
+ * Choose the frames of a video (or segment) worth spending face analysis on.
+ * Candidates are sampled evenly, scored by how many faces are visible and how
+ * clear they are (a blink, a turned head or a hand over the face all count
+ * against a frame), then picked greedily, preferring frames that show a
+ * different scene from the ones already picked. Candidates are scored with the
+ * first available face service, the offline detector when it's in use.
+ */
+export async function selectKeyframes(videoPath: string, duration: number, count: number, maxPeople: number): Promise<KeyframeSelection> {
+  const candidateCount = Math.max(MIN_CANDIDATES, count * CANDIDATES_PER_KEYFRAME);
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'keyframes_'));
+
+  try {
+    // Spread the candidates evenly, each in the middle of its slice of the video
+    const offsets = Array.from({ length: candidateCount }, (_, k) => Number((duration * (k + 0.5) / candidateCount).toFixed(2)));
+    const imagePaths = await extractCandidateFrames(videoPath, offsets, workDir);
+
+    const providers = getFaceProviders();
+    const scorer = providers.find(provider => provider.name === 'local') || providers[0] || null;
+
+    const candidates: Candidate[] = [];
+    for (let i = 0; i < imagePaths.length; i++) {
+      // Seeking past the last decodable frame yields no image
+      if (!fs.existsSync(imagePaths[i])) continue;
+
+      let observations: FaceObservation[] = [];
+      if (scorer) {
+        try {
+          observations = await scorer.detect(await fs.promises.readFile(imagePaths[i]), { maxFaces: maxPeople });
+        } catch (error) {
+          console.warn(`Keyframe scoring with ${scorer.name} failed at ${offsets[i]}s:`, error);
+        }
+      }
+
+      const thumbnail = await decodeThumbnail(imagePaths[i]);
+      const previous = candidates[candidates.length - 1];
+      candidates.push({
+        timestamp: offsets[i],
+        imagePath: imagePaths[i],
+        thumbnail,
+        faceScore: observations.reduce((sum, observation) => sum + faceClarity(observation), 0),
+        facesDetected: observations.length,
+        sceneChange: previous ? thumbnailDifference(thumbnail, previous.thumbnail) : 0
+      });
+    }
+    if (candidates.length === 0) {
+      throw new Error('No frames could be extracted from the video');
+    }
+
+    // A frame missing someone who is visible elsewhere scores lower than one showing everybody
+    const mostFaces = Math.max(1, ...candidates.map(candidate => candidate.facesDetected));
+    candidates.forEach(candidate => {
+      candidate.faceScore = Math.min(1, candidate.faceScore / mostFaces);
+    });
+
+    const picked: Candidate[] = [];
+    while (picked.length < Math.min(count, candidates.length)) {
+      let best: Candidate | null = null;
+      let bestScore = -Infinity;
+      for (const candidate of candidates) {
+        if (picked.includes(candidate)) continue;
+
+        const novelty = picked.length === 0 ? 0 : Math.min(...picked.map(other => thumbnailDifference(candidate.thumbnail, other.thumbnail)));
+        const spread = picked.length === 0 || duration <= 0 ? 0 : Math.min(...picked.map(other => Math.abs(candidate.timestamp - other.timestamp))) / duration;
+        const score = candidate.faceScore + SCENE_CHANGE_WEIGHT * novelty + TIME_SPREAD_WEIGHT * spread;
+        if (score > bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+      picked.push(best!);
+    }
+
+    const size = await probeImageSize(picked[0].imagePath);
+    const keyframes = await Promise.all(picked
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(async candidate => ({
+        timestamp: candidate.timestamp,
+        image: await fs.promises.readFile(candidate.imagePath),
+        width: size.width,
+        height: size.height,
+        faceScore: Number(candidate.faceScore.toFixed(2)),
+        sceneChange: Number(candidate.sceneChange.toFixed(2)),
+        facesDetected: candidate.facesDetected
+      })));
+
+    return { keyframes, candidates: candidates.length, scoredBy: scorer?.name || null };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true }).catch(e => {
+      console.warn("Error cleaning up keyframe candidates:", e);
+    });
+  }
+}
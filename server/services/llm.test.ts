@@ -0,0 +1,200 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { z } from "zod";
+import {
+  generateStructured,
+  generateText,
+  generateValidated,
+  getInputTokenBudget,
+  getProvider,
+  parseStructuredOutput,
+  registerProvider,
+  resolveProviders,
+  LLMOutputError,
+  LLMUnavailableError,
+  LLMValidationError,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMRequest
+} from "./llm";
+
+// Stand-in providers that only exist in these tests
+function scriptedProvider(name: string, replies: (string | Error)[], maxContextTokens = 8000): LLMProvider & { requests: LLMRequest[] } {
+  const provider = {
+    name: name as LLMProviderName,
+    capabilities: { jsonMode: true, vision: false, maxContextTokens, maxOutputTokens: 1000 },
+    requests: [] as LLMRequest[],
+    isAvailable: () => true,
+    async complete(request: LLMRequest) {
+      provider.requests.push(request);
+      const reply = replies[Math.min(provider.requests.length - 1, replies.length - 1)];
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      return reply;
+    }
+  };
+  return provider;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("fake provider", () => {
+  it("is used exclusively once enabled", () => {
+    vi.stubEnv("LLM_FAKE_PROVIDER", "true");
+
+    expect(resolveProviders("openai").map(provider => provider.name)).toEqual(["fake"]);
+  });
+
+  it("answers the same request the same way", async () => {
+    const fake = getProvider("fake")!;
+    const request = { messages: [{ role: "user" as const, content: "Describe this person" }] };
+
+    const first = await fake.complete(request);
+    expect(await fake.complete(request)).toBe(first);
+    expect(await fake.complete({ messages: [{ role: "user", content: "Someone else" }] })).not.toBe(first);
+    expect(first).toContain("Describe this person");
+  });
+
+  it("returns a profile shaped JSON object when asked for JSON", async () => {
+    vi.stubEnv("LLM_FAKE_PROVIDER", "true");
+
+    const { data, provider } = await generateStructured<any>({ messages: [{ role: "user", content: "Profile" }] });
+
+    expect(provider).toBe("fake");
+    expect(data.summary).toEqual(expect.any(String));
+    expect(data.detailed_analysis.core_psychological_assessment.core_motivation).toEqual(expect.any(String));
+    expect(data.detailed_analysis.growth_areas.strengths).toHaveLength(1);
+  });
+});
+
+describe("fallback", () => {
+  it("moves on to the next provider in LLM_FALLBACK_ORDER when one fails", async () => {
+    const broken = scriptedProvider("test-broken", [new Error("rate limited")]);
+    const working = scriptedProvider("test-working", ["Hello"]);
+    registerProvider(broken);
+    registerProvider(working);
+    vi.stubEnv("LLM_FAKE_PROVIDER", "false");
+    vi.stubEnv("LLM_FALLBACK_ORDER", "test-broken, test-working");
+
+    const result = await generateText({ messages: [{ role: "user", content: "Hi" }] }, { retries: 0 });
+
+    expect(result).toMatchObject({ data: "Hello", provider: "test-working" });
+    expect(broken.requests).toHaveLength(1);
+  });
+
+  it("tries the preferred provider first and skips unknown names", () => {
+    registerProvider(scriptedProvider("test-first", ["First"]));
+    registerProvider(scriptedProvider("test-second", ["Second"]));
+    vi.stubEnv("LLM_FAKE_PROVIDER", "false");
+    vi.stubEnv("LLM_FALLBACK_ORDER", "test-first,not-a-provider,test-second");
+
+    expect(resolveProviders("test-second").map(provider => provider.name)).toEqual(["test-second", "test-first"]);
+  });
+
+  it("treats an empty reply as a failure", async () => {
+    registerProvider(scriptedProvider("test-silent", ["   "]));
+    registerProvider(scriptedProvider("test-chatty", ["Something"]));
+    vi.stubEnv("LLM_FAKE_PROVIDER", "false");
+    vi.stubEnv("LLM_FALLBACK_ORDER", "test-silent,test-chatty");
+
+    expect((await generateText({ messages: [{ role: "user", content: "Hi" }] }, { retries: 0 })).provider).toBe("test-chatty");
+  });
+
+  it("reports every failure once all providers have failed", async () => {
+    registerProvider(scriptedProvider("test-down", [new Error("offline")]));
+    vi.stubEnv("LLM_FAKE_PROVIDER", "false");
+    vi.stubEnv("LLM_FALLBACK_ORDER", "test-down");
+
+    const failure = await generateText({ messages: [{ role: "user", content: "Hi" }] }, { retries: 0 }).catch(error => error);
+
+    expect(failure).toBeInstanceOf(LLMUnavailableError);
+    expect(failure.failures).toEqual([{ provider: "test-down", error: "offline" }]);
+  });
+
+  it("budgets prompts for the provider tried first", () => {
+    registerProvider(scriptedProvider("test-narrow", ["Narrow"]));
+    registerProvider(scriptedProvider("test-wide", ["Wide"], 100000));
+    vi.stubEnv("LLM_FAKE_PROVIDER", "false");
+    vi.stubEnv("LLM_FALLBACK_ORDER", "test-narrow,test-wide");
+
+    expect(getInputTokenBudget()).toBe(7000);
+    expect(getInputTokenBudget("test-wide")).toBe(99000);
+  });
+
+  it("skips providers whose context window can't take the prompt", async () => {
+    const narrow = scriptedProvider("test-narrow", ["Narrow"]);
+    registerProvider(narrow);
+    registerProvider(scriptedProvider("test-wide", ["Wide"], 100000));
+    vi.stubEnv("LLM_FAKE_PROVIDER", "false");
+    vi.stubEnv("LLM_FALLBACK_ORDER", "test-narrow,test-wide");
+    const longPrompt = { messages: [{ role: "user" as const, content: "word ".repeat(10000) }] };
+
+    expect((await generateText(longPrompt)).provider).toBe("test-wide");
+    expect(narrow.requests).toEqual([]);
+
+    vi.stubEnv("LLM_FALLBACK_ORDER", "test-narrow");
+    await expect(generateText(longPrompt)).rejects.toThrow("too long for every available AI model");
+  });
+
+  it("fails fast when no provider is configured", async () => {
+    vi.stubEnv("LLM_FAKE_PROVIDER", "false");
+    vi.stubEnv("LLM_FALLBACK_ORDER", "not-a-provider");
+
+    await expect(generateText({ messages: [{ role: "user", content: "Hi" }] })).rejects.toThrow("No AI models");
+  });
+});
+
+describe("generateValidated", () => {
+  const profileSchema = z.object({
+    summary: z.string().min(10),
+    traits: z.object({ openness: z.number(), warmth: z.number() })
+  });
+
+  it("asks the same provider to repair just the invalid fields and merges its answer", async () => {
+    const model = scriptedProvider("test-repairing", [
+      JSON.stringify({ summary: "Thoughtful and steady", traits: { openness: 4, warmth: "high" } }),
+      JSON.stringify({ traits: { warmth: 5 } })
+    ]);
+    registerProvider(model);
+    vi.stubEnv("LLM_FAKE_PROVIDER", "false");
+    vi.stubEnv("LLM_FALLBACK_ORDER", "test-repairing");
+
+    const { data, provider } = await generateValidated(profileSchema, { messages: [{ role: "user", content: "Profile" }] });
+
+    expect(provider).toBe("test-repairing");
+    expect(data).toEqual({ summary: "Thoughtful and steady", traits: { openness: 4, warmth: 5 } });
+    const repairRequest = model.requests[1];
+    expect(repairRequest.messages.map(message => message.role)).toEqual(["user", "assistant", "user"]);
+    expect(repairRequest.messages[2].content).toContain("traits.warmth");
+    expect(repairRequest.messages[2].content).not.toContain("summary");
+  });
+
+  it("gives up with the remaining issues once the repair attempts run out", async () => {
+    const model = scriptedProvider("test-stubborn", [JSON.stringify({ summary: "Short", traits: { openness: 4, warmth: 3 } })]);
+    registerProvider(model);
+    vi.stubEnv("LLM_FAKE_PROVIDER", "false");
+    vi.stubEnv("LLM_FALLBACK_ORDER", "test-stubborn");
+
+    const failure = await generateValidated(profileSchema, { messages: [{ role: "user", content: "Profile" }] }, { repairAttempts: 1 })
+      .catch(error => error);
+
+    expect(failure).toBeInstanceOf(LLMValidationError);
+    expect(failure.issues.map((issue: { path: string }) => issue.path)).toEqual(["summary"]);
+    expect(model.requests).toHaveLength(2);
+  });
+});
+
+describe("parseStructuredOutput", () => {
+  it("finds the JSON object inside code fences and prose", () => {
+    const raw = 'Here you go:\n```json\n{"summary": "Calm {mostly}", "scores": {"calm": 4}}\n```\nAnything else?';
+
+    expect(parseStructuredOutput(raw)).toEqual({ summary: "Calm {mostly}", scores: { calm: 4 } });
+  });
+
+  it("keeps the raw reply when there is no valid object", () => {
+    expect(() => parseStructuredOutput("No JSON here")).toThrow(LLMOutputError);
+    expect(() => parseStructuredOutput('{"summary": }')).toThrow(expect.objectContaining({ raw: '{"summary": }' }));
+  });
+});
@@ -0,0 +1,591 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { coreAssessmentSchema, photoInsightSchema, TEXT_QUESTION_COUNT } from '@shared/insights';
+
+// Initialize API clients with proper error handling for missing keys
+let openai: OpenAI | null = null;
+let anthropic: Anthropic | null = null;
+let azureOpenAI: OpenAI | null = null;
+let deepseek: OpenAI | null = null;
+
+// Initialize Azure OpenAI if available
+if (process.env.AZURE_OPENAI_KEY && process.env.AZURE_OPENAI_ENDPOINT) {
+  try {
+    // Initialize the Azure OpenAI client
+    azureOpenAI = new OpenAI({
+      apiKey: process.env.AZURE_OPENAI_KEY,
+      baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/gpt-4/`,
+      defaultQuery: { "api-version": "2023-12-01-preview" },
+      defaultHeaders: { "api-key": process.env.AZURE_OPENAI_KEY }
+    });
+    console.log("Azure OpenAI client initialized successfully");
+  } catch (error) {
+    console.error("Failed to initialize Azure OpenAI client:", error);
+  }
+}
+
+// Initialize DeepSeek client (using OpenAI-compatible API)
+if (process.env.DEEPSEEK_API_KEY) {
+  try {
+    deepseek = new OpenAI({
+      apiKey: process.env.DEEPSEEK_API_KEY,
+      baseURL: "https://api.deepseek.com/v1"
+    });
+    console.log("DeepSeek client initialized successfully");
+  } catch (error) {
+    console.error("Failed to initialize DeepSeek client:", error);
+  }
+}
+
+// Check if OpenAI API key is available
+if (process.env.OPENAI_API_KEY) {
+  try {
+    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    console.log("OpenAI client initialized successfully");
+  } catch (error) {
+    console.error("Failed to initialize OpenAI client:", error);
+  }
+} else {
+  console.warn("OPENAI_API_KEY environment variable is not set. OpenAI API functionality will be limited.");
+}
+
+// Check if Anthropic API key is available
+if (process.env.ANTHROPIC_API_KEY) {
+  try {
+    anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    console.log("Anthropic client initialized successfully");
+  } catch (error) {
+    console.error("Failed to initialize Anthropic client:", error);
+  }
+} else {
+  console.warn("ANTHROPIC_API_KEY environment variable is not set. Anthropic API functionality will be limited.");
+}
+
+export { openai, anthropic, azureOpenAI, deepseek };
+
+export type LLMProviderName = 'deepseek' | 'openai' | 'anthropic' | 'perplexity' | 'azureOpenAI' | 'fake';
+
+/**
+ * What a provider can do, so callers can pick or adapt prompts without knowing the vendor
+ */
+export interface LLMCapabilities {
+  jsonMode: boolean; // Native JSON response format
+  vision: boolean; // Accepts image input
+  maxContextTokens: number;
+  maxOutputTokens: number;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  json?: boolean; // Ask for a single JSON object back
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  capabilities: LLMCapabilities;
+  isAvailable(): boolean;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+export interface LLMCallOptions {
+  preferred?: string; // Provider to try first, usually the model picked in the UI
+  retries?: number; // Extra attempts per provider before falling back
+}
+
+export interface LLMResult<T> {
+  data: T;
+  provider: LLMProviderName;
+  raw: string;
+}
+
+export interface LLMValidatedCallOptions extends LLMCallOptions {
+  repairAttempts?: number; // Follow-up prompts asking the model to fix invalid fields
+}
+
+export interface LLMValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a model's reply can't be turned into the JSON object we asked for
+ */
+export class LLMOutputError extends Error {
+  constructor(message: string, public raw: string) {
+    super(message);
+    this.name = 'LLMOutputError';
+  }
+}
+
+/**
+ * Thrown when a model's JSON still doesn't match the expected schema after repair attempts
+ */
+export class LLMValidationError extends Error {
+  constructor(message: string, public issues: LLMValidationIssue[], public raw: string) {
+    super(message);
+    this.name = 'LLMValidationError';
+  }
+}
+
+/**
+ * Thrown when every provider in the fallback order failed or none are configured
+ */
+export class LLMUnavailableError extends Error {
+  constructor(message: string, public failures: { provider: LLMProviderName; error: string }[] = []) {
+    super(message);
+    this.name = 'LLMUnavailableError';
+  }
+}
+
+const JSON_ONLY_INSTRUCTION = "Respond with a single valid JSON object only, with no markdown code fences or commentary.";
+
+function withJsonInstruction(request: LLMRequest, capabilities: LLMCapabilities): string | undefined {
+  if (!request.json || capabilities.jsonMode) {
+    return request.system;
+  }
+  return request.system ? `${request.system}\n\n${JSON_ONLY_INSTRUCTION}` : JSON_ONLY_INSTRUCTION;
+}
+
+/**
+ * Provider for any OpenAI-compatible chat completions API (OpenAI, DeepSeek, Azure OpenAI)
+ */
+function createOpenAICompatibleProvider(
+  name: LLMProviderName,
+  getClient: () => OpenAI | null,
+  model: string,
+  capabilities: LLMCapabilities
+): LLMProvider {
+  return {
+    name,
+    capabilities,
+    isAvailable: () => getClient() !== null,
+    async complete(request) {
+      const client = getClient();
+      if (!client) {
+        throw new Error(`${name} client not available`);
+      }
+
+      const system = withJsonInstruction(request, capabilities);
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          ...(system ? [{ role: "system" as const, content: system }] : []),
+          ...request.messages
+        ],
+        ...(request.maxTokens && { max_tokens: Math.min(request.maxTokens, capabilities.maxOutputTokens) }),
+        ...(request.json && capabilities.jsonMode && { response_format: { type: "json_object" as const } })
+      }, { signal: request.signal });
+
+      return completion.choices[0]?.message?.content || "";
+    }
+  };
+}
+
+const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+  capabilities: { jsonMode: false, vision: true, maxContextTokens: 200000, maxOutputTokens: 8000 },
+  isAvailable: () => anthropic !== null,
+  async complete(request) {
+    if (!anthropic) {
+      throw new Error("Anthropic client not available");
+    }
+
+    const response = await anthropic.messages.create({
+      model: "claude-sonnet-4-20250514", // the newest Anthropic model is "claude-sonnet-4-20250514", not "claude-3-7-sonnet-20250219", "claude-3-5-sonnet-20241022" nor "claude-3-sonnet-20240229".
+      max_tokens: Math.min(request.maxTokens || 4000, anthropicProvider.capabilities.maxOutputTokens),
+      system: withJsonInstruction(request, anthropicProvider.capabilities),
+      messages: request.messages
+    }, { signal: request.signal });
+
+    return response.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+  }
+};
+
+const perplexityProvider: LLMProvider = {
+  name: 'perplexity',
+  capabilities: { jsonMode: false, vision: false, maxContextTokens: 127000, maxOutputTokens: 4000 },
+  isAvailable: () => !!process.env.PERPLEXITY_API_KEY,
+  async complete(request) {
+    if (!process.env.PERPLEXITY_API_KEY) {
+      throw new Error("Perplexity API key not available");
+    }
+
+    const system = withJsonInstruction(request, perplexityProvider.capabilities);
+    const response = await fetch("https://api.perplexity.ai/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${process.env.PERPLEXITY_API_KEY}`
+      },
+      body: JSON.stringify({
+        model: "llama-3.1-sonar-small-128k-online",
+        messages: [
+          ...(system ? [{ role: "system", content: system }] : []),
+          ...request.messages
+        ],
+        ...(request.maxTokens && { max_tokens: request.maxTokens })
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Perplexity API error: ${response.status} ${await response.text()}`);
+    }
+
+    const data: any = await response.json();
+    return data.choices?.[0]?.message?.content || "";
+  }
+};
+
+/**
+ * Deterministic stand-in for a real model. The same request always produces the
+ * same reply, so the whole pipeline can run offline. Enabled with LLM_FAKE_PROVIDER=true.
+ */
+const fakeProvider: LLMProvider = {
+  name: 'fake',
+  // LLM_FAKE_CONTEXT_TOKENS shrinks the context window so the long-text pipeline can be exercised with short inputs
+  capabilities: { jsonMode: true, vision: true, maxContextTokens: parseInt(process.env.LLM_FAKE_CONTEXT_TOKENS || '200000', 10), maxOutputTokens: 8000 },
+  isAvailable: () => process.env.LLM_FAKE_PROVIDER === 'true',
+  async complete(request) {
+    const lastMessage = request.messages[request.messages.length - 1]?.content || "";
+    const digest = createHash('sha256')
+      .update(`${request.system || ''}\n${request.messages.map(m => `${m.role}:${m.content}`).join('\n')}`)
+      .digest('hex')
+      .slice(0, 8);
+
+    if (!request.json) {
+      return `Deterministic response ${digest} to: ${lastMessage.slice(0, 200)}`;
+    }
+
+    const sentence = (topic: string) =>
+      `Deterministic ${topic.replace(/_/g, ' ')} assessment ${digest}, generated offline by the fake provider so the analysis pipeline can be exercised without calling a real model.`;
+
+    // One reply that satisfies every insight schema in shared/insights.ts
+    return JSON.stringify({
+      summary: sentence("summary"),
+      assessments: Object.fromEntries(Object.keys(photoInsightSchema.shape.assessments.shape)
+        .map(group => [group, { [`${group}_result`]: sentence(group) }])),
+      question_answers: Object.fromEntries(Array.from({ length: TEXT_QUESTION_COUNT }, (_, i) =>
+        [String(i + 1), { answer: sentence(`question_${i + 1}`), quotes: [`Quote ${digest}`] }])),
+      detailed_analysis: {
+        content_themes: sentence("content_themes"),
+        document_overview: sentence("document_overview"),
+        writing_style: sentence("writing_style"),
+        quoted_evidence: [{ quote: `Quote ${digest}`, location: "¶ 1" }],
+        conflict_notes: [sentence("conflict_note")],
+        core_psychological_assessment: Object.fromEntries(Object.keys(coreAssessmentSchema.shape).map(field => [field, sentence(field)])),
+        speech_analysis: {
+          key_quotes: [`Quote ${digest}`],
+          vocabulary_analysis: sentence("vocabulary_analysis"),
+          personality_revealed: sentence("personality_revealed")
+        },
+        visual_evidence: {
+          facial_analysis: sentence("facial_analysis"),
+          body_language: sentence("body_language")
+        },
+        voice_evidence: {
+          vocal_tone: sentence("vocal_tone"),
+          pacing_and_pauses: sentence("pacing_and_pauses")
+        },
+        timestamped_observations: [1, 2, 3, 4, 5].map(question => ({
+          timestamp: 0,
+          question,
+          observation: sentence(`question_${question}`)
+        })),
+        professional_insights: sentence("professional_insights"),
+        growth_areas: {
+          strengths: [sentence("strength")],
+          challenges: [sentence("challenge")],
+          development_path: sentence("development_path")
+        }
+      }
+    });
+  }
+};
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getProvider(name: string): LLMProvider | undefined {
+  return providers.get(name as LLMProviderName);
+}
+
+registerProvider(createOpenAICompatibleProvider('deepseek', () => deepseek, "deepseek-chat",
+  { jsonMode: true, vision: false, maxContextTokens: 64000, maxOutputTokens: 8000 }));
+registerProvider(createOpenAICompatibleProvider('openai', () => openai, "gpt-4o",
+  { jsonMode: true, vision: true, maxContextTokens: 128000, maxOutputTokens: 16000 }));
+registerProvider(anthropicProvider);
+registerProvider(perplexityProvider);
+registerProvider(createOpenAICompatibleProvider('azureOpenAI', () => azureOpenAI, "gpt-4",
+  { jsonMode: false, vision: false, maxContextTokens: 8000, maxOutputTokens: 4000 }));
+registerProvider(fakeProvider);
+
+// Fallback order when the preferred provider is missing or failing; LLM_FALLBACK_ORDER overrides it
+const DEFAULT_PROVIDER_ORDER: LLMProviderName[] = ['anthropic', 'openai', 'deepseek', 'perplexity', 'azureOpenAI'];
+
+/**
+ * Providers to try for a request, preferred first, skipping any that aren't configured.
+ * When the fake provider is enabled it is used exclusively.
+ */
+export function resolveProviders(preferred?: string): LLMProvider[] {
+  if (fakeProvider.isAvailable()) {
+    return [fakeProvider];
+  }
+
+  const configuredOrder = process.env.LLM_FALLBACK_ORDER
+    ? process.env.LLM_FALLBACK_ORDER.split(',').map(name => name.trim()) as LLMProviderName[]
+    : DEFAULT_PROVIDER_ORDER;
+  const order = preferred ? [preferred as LLMProviderName, ...configuredOrder] : configuredOrder;
+
+  return Array.from(new Set(order))
+    .map(name => providers.get(name))
+    .filter((provider): provider is LLMProvider => !!provider && provider.isAvailable());
+}
+
+// English prose averages about four characters per token
+export const APPROX_CHARS_PER_TOKEN = 4;
+
+/**
+ * Rough token count of a prompt, for budgeting without a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / APPROX_CHARS_PER_TOKEN);
+}
+
+// Prompt tokens a provider can take while leaving room for its longest reply
+function inputTokenBudget(provider: LLMProvider): number {
+  return provider.capabilities.maxContextTokens - provider.capabilities.maxOutputTokens;
+}
+
+function estimateRequestTokens(request: LLMRequest): number {
+  return estimateTokens([request.system || '', ...request.messages.map(message => message.content)].join('\n'));
+}
+
+/**
+ * How many prompt tokens a request can carry on the provider it goes to first.
+ * Fallbacks with a smaller window are skipped for prompts they can't take,
+ * rather than holding every request to the smallest window in the chain.
+ */
+export function getInputTokenBudget(preferred?: string): number {
+  const [first] = resolveProviders(preferred);
+  return first ? inputTokenBudget(first) : 0;
+}
+
+export function getAvailableProviders(): LLMProviderName[] {
+  return Array.from(providers.values())
+    .filter(provider => provider.isAvailable())
+    .map(provider => provider.name);
+}
+
+/**
+ * Pull the outermost JSON object out of a model reply, tolerating code fences
+ * and any prose around it
+ */
+export function parseStructuredOutput<T = any>(raw: string): T {
+  const text = raw.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
+
+  // Find the outermost JSON object, ignoring braces inside strings
+  let depth = 0;
+  let start = -1;
+  let end = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (start === -1) start = i;
+      depth++;
+    } else if (char === '}' && start !== -1) {
+      depth--;
+      if (depth === 0) {
+        end = i;
+        break;
+      }
+    }
+  }
+
+  if (start === -1 || end === -1) {
+    throw new LLMOutputError("Model response did not contain a JSON object", raw);
+  }
+
+  try {
+    return JSON.parse(text.substring(start, end + 1));
+  } catch (error) {
+    throw new LLMOutputError(`Model response contained invalid JSON: ${error instanceof Error ? error.message : error}`, raw);
+  }
+}
+
+/**
+ * Run a request against each provider in fallback order, retrying each one
+ * with backoff before moving on to the next. Providers whose context window
+ * can't take the prompt are left out.
+ */
+async function runWithFallback<T>(
+  request: LLMRequest,
+  options: LLMCallOptions,
+  handle: (raw: string) => T
+): Promise<LLMResult<T>> {
+  const available = resolveProviders(options.preferred);
+  if (available.length === 0) {
+    throw new LLMUnavailableError("No AI models are currently available. Please try again later.");
+  }
+
+  const promptTokens = estimateRequestTokens(request);
+  const candidates = available.filter(provider => promptTokens <= inputTokenBudget(provider));
+  if (candidates.length === 0) {
+    throw new LLMUnavailableError(`The request (about ${promptTokens} tokens) is too long for every available AI model.`);
+  }
+
+  const retries = options.retries ?? 1;
+  const failures: { provider: LLMProviderName; error: string }[] = [];
+
+  for (const provider of candidates) {
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (request.signal?.aborted) {
+        throw new Error("Request was cancelled");
+      }
+
+      try {
+        const raw = await provider.complete(request);
+        return { data: handle(raw), provider: provider.name, raw };
+      } catch (error) {
+        if (request.signal?.aborted) {
+          throw error;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`${provider.name} attempt ${attempt + 1} failed: ${message}`);
+        failures.push({ provider: provider.name, error: message });
+
+        if (attempt < retries) {
+          await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+        }
+      }
+    }
+  }
+
+  throw new LLMUnavailableError(
+    `All AI models failed: ${failures.map(f => `${f.provider} (${f.error})`).join('; ')}`,
+    failures
+  );
+}
+
+/**
+ * Ask for a JSON object and parse it, falling back across providers
+ */
+export function generateStructured<T = any>(request: Omit<LLMRequest, 'json'>, options: LLMCallOptions = {}): Promise<LLMResult<T>> {
+  return runWithFallback({ ...request, json: true }, options, raw => parseStructuredOutput<T>(raw));
+}
+
+/**
+ * Ask for free-form text, falling back across providers
+ */
+export function generateText(request: Omit<LLMRequest, 'json'>, options: LLMCallOptions = {}): Promise<LLMResult<string>> {
+  return runWithFallback(request, options, raw => {
+    if (!raw.trim()) {
+      throw new LLMOutputError("Model returned an empty response", raw);
+    }
+    return raw;
+  });
+}
+
+/**
+ * Overlay a model's repair reply onto the original object. Objects are merged
+ * key by key, anything else in the repair replaces the original value.
+ */
+function mergeRepair(original: any, repair: any): any {
+  if (!original || typeof original !== 'object' || Array.isArray(original) ||
+      !repair || typeof repair !== 'object' || Array.isArray(repair)) {
+    return repair;
+  }
+
+  const merged = { ...original };
+  for (const [key, value] of Object.entries(repair)) {
+    merged[key] = key in original ? mergeRepair(original[key], value) : value;
+  }
+  return merged;
+}
+
+function describeIssues(error: z.ZodError): LLMValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message
+  }));
+}
+
+function buildRepairPrompt(issues: LLMValidationIssue[]): string {
+  return `Your previous JSON response is missing fields or has invalid values:
+${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Return a JSON object containing ONLY these fields, at the same paths, with complete and substantive values. Do not repeat fields that were already valid.`;
+}
+
+/**
+ * Ask for a JSON object and validate it against a schema. When fields are
+ * missing or invalid, the model that produced the reply is asked to fill in
+ * just those fields, and its answer is merged into the original before
+ * validating again.
+ */
+export async function generateValidated<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, any>,
+  request: Omit<LLMRequest, 'json'>,
+  options: LLMValidatedCallOptions = {}
+): Promise<LLMResult<T>> {
+  const repairAttempts = options.repairAttempts ?? 2;
+  let { data: candidate, provider, raw } = await generateStructured(request, options);
+
+  for (let attempt = 0; ; attempt++) {
+    const parsed = schema.safeParse(candidate);
+    if (parsed.success) {
+      return { data: parsed.data, provider, raw };
+    }
+
+    const issues = describeIssues(parsed.error);
+    if (attempt >= repairAttempts) {
+      throw new LLMValidationError(
+        `AI model response failed validation: ${issues.map(issue => issue.path).join(', ')}`,
+        issues,
+        raw
+      );
+    }
+
+    console.warn(`${provider} response failed validation on ${issues.length} field(s), requesting repair`);
+    const repair = await generateStructured({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: JSON.stringify(candidate) },
+        { role: 'user', content: buildRepairPrompt(issues) }
+      ]
+    }, { ...options, preferred: provider });
+
+    candidate = mergeRepair(candidate, repair.data);
+    provider = repair.provider;
+    raw = repair.raw;
+  }
+}
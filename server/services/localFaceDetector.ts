@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { promisify } from 'util';
+import ffmpeg from 'fluent-ffmpeg';
+import type { InferenceSession } from 'onnxruntime-node';
+import { probeImageSize } from './faceImages';
+import { intersectionOverUnion } from './faceFusion';
+
+const readFileAsync = promisify(fs.readFile);
+const writeFileAsync = promisify(fs.writeFile);
+const unlinkAsync = promisify(fs.unlink);
+
+// ONNX models for the offline detector. Only the face detector is required; without the
+// emotion model faces are reported without emotions. There is no landmark model, so the
+// detector reports no landmarks or head pose.
+const DETECTOR_MODEL = 'version-RFB-320.onnx'; // UltraFace RFB-320 face detector
+const EMOTION_MODEL = 'emotion-ferplus-8.onnx'; // FER+ emotion classifier
+
+// UltraFace takes a fixed 320x240 input
+const DETECTOR_INPUT = { width: 320, height: 240 };
+const EMOTION_INPUT_SIZE = 64;
+
+// Detections less certain than this are dropped, and overlapping ones merged past this IoU
+const MIN_DETECTION_SCORE = 0.7;
+const NMS_IOU_THRESHOLD = 0.3;
+
+// Images are decoded no wider than this before any model sees them
+const DECODE_MAX_WIDTH = 1280;
+
+// Laplacian variance at which a face crop counts as fully sharp
+const SHARP_LAPLACIAN_VARIANCE = 500;
+
+// FER+ output order
+const FERPLUS_EMOTIONS = ['neutral', 'happiness', 'surprise', 'sadness', 'anger', 'disgust', 'fear', 'contempt'];
+
+interface RgbImage {
+  data: Buffer; // rgb24, row by row
+  width: number;
+  height: number;
+}
+
+interface Region {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One face found by the offline detector. The box is in original image pixels.
+ */
+export interface LocalFace {
+  box: Region;
+  score: number;
+  emotions: Record<string, number>; // 0-1, empty without the emotion model
+  brightness: number; // Mean luminance of the face, 0-1
+  sharpness: number; // 0 blurry to 1 sharp
+}
+
+function getModelDir(): string {
+  return path.resolve(process.env.LOCAL_FACE_MODEL_DIR || 'server/models/face');
+}
+
+/**
+ * Whether the offline detector can run, i.e. its face detection model is in LOCAL_FACE_MODEL_DIR
+ */
+export function isLocalFaceDetectorAvailable(): boolean {
+  return fs.existsSync(path.join(getModelDir(), DETECTOR_MODEL));
+}
+
+// onnxruntime's native binary is only loaded once the offline detector is actually used,
+// so deployments with cloud face services never need it to load
+let runtime: Promise<typeof import('onnxruntime-node')> | null = null;
+
+function loadRuntime() {
+  if (!runtime) {
+    runtime = import('onnxruntime-node');
+    runtime.catch(() => { runtime = null; });
+  }
+  return runtime;
+}
+
+const sessions = new Map<string, Promise<InferenceSession | null>>();
+
+// Models are loaded once, on first use; a missing optional model resolves to null
+function loadModel(fileName: string): Promise<InferenceSession | null> {
+  const modelPath = path.join(getModelDir(), fileName);
+  if (!sessions.has(modelPath)) {
+    const session = fs.existsSync(modelPath)
+      ? loadRuntime().then(ort => ort.InferenceSession.create(modelPath))
+      : Promise.resolve(null);
+    sessions.set(modelPath, session);
+    session.catch(() => sessions.delete(modelPath));
+  }
+  return sessions.get(modelPath)!;
+}
+
+/**
+ * Helper function to decode an image to raw RGB pixels with ffmpeg, scaled down if very wide
+ */
+async function decodeImage(image: Buffer): Promise<{ pixels: RgbImage; originalWidth: number; originalHeight: number }> {
+  const randomId = Math.random().toString(36).substring(2, 15);
+  const inputPath = path.join(os.tmpdir(), `${randomId}_local_face`);
+  const outputPath = path.join(os.tmpdir(), `${randomId}_local_face.rgb`);
+
+  try {
+    await writeFileAsync(inputPath, image);
+    const original = await probeImageSize(inputPath);
+    const width = Math.min(original.width, DECODE_MAX_WIDTH);
+    const height = Math.max(1, Math.round((original.height * width) / original.width));
+
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .videoFilters([`scale=${width}:${height}`])
+        .frames(1)
+        .outputOptions(['-f rawvideo', '-pix_fmt rgb24'])
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err: Error) => reject(err))
+        .run();
+    });
+
+    return {
+      pixels: { data: await readFileAsync(outputPath), width, height },
+      originalWidth: original.width,
+      originalHeight: original.height
+    };
+  } finally {
+    await Promise.all([inputPath, outputPath].map(file => unlinkAsync(file).catch(() => {})));
+  }
+}
+
+/**
+ * Bilinear resample of a region of an image to a new size, as planar RGB floats 0-255
+ */
+function resampleRegion(image: RgbImage, region: Region, width: number, height: number): Float32Array[] {
+  const planes = [new Float32Array(width * height), new Float32Array(width * height), new Float32Array(width * height)];
+  const pixel = (x: number, y: number, channel: number) => {
+    const cx = Math.max(0, Math.min(image.width - 1, x));
+    const cy = Math.max(0, Math.min(image.height - 1, y));
+    return image.data[(cy * image.width + cx) * 3 + channel];
+  };
+
+  for (let y = 0; y < height; y++) {
+    const sy = region.top + ((y + 0.5) * region.height) / height - 0.5;
+    const y0 = Math.floor(sy);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = region.left + ((x + 0.5) * region.width) / width - 0.5;
+      const x0 = Math.floor(sx);
+      const fx = sx - x0;
+      for (let channel = 0; channel < 3; channel++) {
+        const top = pixel(x0, y0, channel) * (1 - fx) + pixel(x0 + 1, y0, channel) * fx;
+        const bottom = pixel(x0, y0 + 1, channel) * (1 - fx) + pixel(x0 + 1, y0 + 1, channel) * fx;
+        planes[channel][y * width + x] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return planes;
+}
+
+function toGray(planes: Float32Array[]): Float32Array {
+  const gray = new Float32Array(planes[0].length);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * planes[0][i] + 0.587 * planes[1][i] + 0.114 * planes[2][i];
+  }
+  return gray;
+}
+
+/**
+ * Run UltraFace over the whole image and keep the best non-overlapping boxes,
+ * in normalized 0-1 coordinates
+ */
+async function detectBoxes(detector: InferenceSession, image: RgbImage, maxFaces: number): Promise<{ box: Region; score: number }[]> {
+  const ort = await loadRuntime();
+  const { width, height } = DETECTOR_INPUT;
+  const planes = resampleRegion(image, { left: 0, top: 0, width: image.width, height: image.height }, width, height);
+  const input = new Float32Array(3 * width * height);
+  planes.forEach((plane, channel) => plane.forEach((value, i) => { input[channel * width * height + i] = (value - 127) / 128; }));
+
+  const outputs = await detector.run({ [detector.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, height, width]) });
+  const scores = outputs.scores.data as Float32Array; // [1, N, 2]: background, face
+  const boxes = outputs.boxes.data as Float32Array; // [1, N, 4]: x1, y1, x2, y2
+
+  const candidates: { box: Region; score: number }[] = [];
+  for (let i = 0; i < scores.length / 2; i++) {
+    const score = scores[i * 2 + 1];
+    if (score < MIN_DETECTION_SCORE) continue;
+    const [x1, y1, x2, y2] = [boxes[i * 4], boxes[i * 4 + 1], boxes[i * 4 + 2], boxes[i * 4 + 3]].map(v => Math.max(0, Math.min(1, v)));
+    if (x2 > x1 && y2 > y1) {
+      candidates.push({ box: { left: x1, top: y1, width: x2 - x1, height: y2 - y1 }, score });
+    }
+  }
+
+  // Greedy non-maximum suppression
+  const kept: { box: Region; score: number }[] = [];
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (kept.every(face => intersectionOverUnion(face.box, candidate.box) < NMS_IOU_THRESHOLD)) {
+      kept.push(candidate);
+      if (kept.length === maxFaces) break;
+    }
+  }
+  return kept;
+}
+
+async function estimateEmotions(model: InferenceSession, gray64: Float32Array): Promise<Record<string, number>> {
+  const ort = await loadRuntime();
+  const outputs = await model.run({ [model.inputNames[0]]: new ort.Tensor('float32', gray64, [1, 1, EMOTION_INPUT_SIZE, EMOTION_INPUT_SIZE]) });
+  const logits = Array.from(outputs[model.outputNames[0]].data as Float32Array);
+
+  // FER+ returns raw scores; softmax them into 0-1 probabilities
+  const max = Math.max(...logits);
+  const exps = logits.map(value => Math.exp(value - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return Object.fromEntries(FERPLUS_EMOTIONS.map((emotion, i) => [emotion, exps[i] / total]));
+}
+
+/**
+ * Sharpness from the variance of the Laplacian over a grayscale crop
+ */
+function measureSharpness(gray: Float32Array, size: number): number {
+  const values: number[] = [];
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const i = y * size + x;
+      values.push(gray[i - size] + gray[i + size] + gray[i - 1] + gray[i + 1] - 4 * gray[i]);
+    }
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.min(1, variance / SHARP_LAPLACIAN_VARIANCE);
+}
+
+/**
+ * Find faces in an image entirely on this machine's CPU with ONNX models from
+ * LOCAL_FACE_MODEL_DIR, then estimate each face's emotions, brightness and sharpness.
+ * Needs ffmpeg to decode the image.
+ */
+export async function detectFacesLocally(image: Buffer, maxFaces: number): Promise<LocalFace[]> {
+  const detector = await loadModel(DETECTOR_MODEL);
+  if (!detector) {
+    throw new Error(`Local face detection model not found in ${getModelDir()}`);
+  }
+  const emotionModel = await loadModel(EMOTION_MODEL);
+
+  const { pixels, originalWidth, originalHeight } = await decodeImage(image);
+  const detections = await detectBoxes(detector, pixels, maxFaces);
+
+  const faces: LocalFace[] = [];
+  for (const { box, score } of detections) {
+    // Boxes come back normalized, so they scale straight to either image size
+    const decodedBox = { left: box.left * pixels.width, top: box.top * pixels.height, width: box.width * pixels.width, height: box.height * pixels.height };
+    const gray = toGray(resampleRegion(pixels, decodedBox, EMOTION_INPUT_SIZE, EMOTION_INPUT_SIZE));
+
+    faces.push({
+      box: {
+        left: Math.round(box.left * originalWidth),
+        top: Math.round(box.top * originalHeight),
+        width: Math.round(box.width * originalWidth),
+        height: Math.round(box.height * originalHeight)
+      },
+      score,
+      emotions: emotionModel ? await estimateEmotions(emotionModel, gray) : {},
+      brightness: gray.reduce((sum, value) => sum + value, 0) / gray.length / 255,
+      sharpness: measureSharpness(gray, EMOTION_INPUT_SIZE)
+    });
+  }
+  return faces;
+}
@@ -0,0 +1,397 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { promisify } from 'util';
+import ffmpeg from 'fluent-ffmpeg';
+import type { Prosody } from '@shared/insights';
+import type { TranscriptUtterance, TranscriptWord } from './transcriptionProviders';
+
+const readFileAsync = promisify(fs.readFile);
+const unlinkAsync = promisify(fs.unlink);
+
+// Audio is decoded at 16kHz; pitch is tracked on a 2x downsampled copy to keep it cheap
+const SAMPLE_RATE = 16000;
+const PITCH_SAMPLE_RATE = SAMPLE_RATE / 2;
+
+// Analysis frames are 40ms long, one every 20ms
+const FRAME_SECONDS = 0.04;
+const HOP_SECONDS = 0.02;
+
+// Speaking voices sit between these fundamental frequencies
+const MIN_PITCH_HZ = 60;
+const MAX_PITCH_HZ = 400;
+// Normalized autocorrelation a frame needs to count as voiced
+const VOICING_THRESHOLD = 0.5;
+// Frames this far above the quietest tenth of the audio count as sound rather than silence,
+// with the cut-off kept between these levels for recordings that are all noise or all speech
+const SILENCE_MARGIN_DB = 12;
+const MIN_SILENCE_DB = -55;
+const MAX_SILENCE_DB = -35;
+
+// A pitch this many semitones above the speaker's median counts as a spike
+const PITCH_SPIKE_SEMITONES = 4;
+const MAX_PITCH_SPIKES = 20;
+
+// Speaking rate is measured over windows this long, and a window this far off the overall rate is a change
+const RATE_WINDOW_SECONDS = 10;
+const RATE_CHANGE_RATIO = 0.3;
+
+// Gaps shorter than this are part of normal speech rather than pauses
+const MIN_PAUSE_SECONDS = 0.25;
+const MEDIUM_PAUSE_SECONDS = 0.7;
+const LONG_PAUSE_SECONDS = 1.5;
+const MAX_LONG_PAUSES = 30;
+
+// The stored contour has one point per half second
+const CONTOUR_STEP_SECONDS = 0.5;
+
+// Pitch tracking hands the event loop back after this many frames (about 10 seconds of audio),
+// so a long recording doesn't hold up other requests while it's measured
+const FRAMES_PER_YIELD = 500;
+
+interface Frame {
+  time: number; // Middle of the frame, in seconds
+  loudnessDb: number;
+  pitchHz: number | null; // Null for silent or unvoiced frames
+  sounding: boolean;
+}
+
+/**
+ * Helper function to decode audio to 16kHz mono samples with ffmpeg
+ */
+async function decodeSamples(audioPath: string): Promise<Float32Array> {
+  const outputPath = path.join(os.tmpdir(), `${Math.random().toString(36).substring(2, 15)}.pcm`);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(audioPath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(SAMPLE_RATE)
+        .outputOptions(['-f s16le', '-acodec pcm_s16le'])
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err: Error) => reject(err))
+        .run();
+    });
+
+    const pcm = await readFileAsync(outputPath);
+    const samples = new Float32Array(Math.floor(pcm.length / 2));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = pcm.readInt16LE(i * 2) / 32768;
+    }
+    return samples;
+  } finally {
+    await unlinkAsync(outputPath).catch(() => {});
+  }
+}
+
+const round = (value: number, places: number = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function meanAndStdev(values: number[]): { mean: number; stdev: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return { mean, stdev: Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length) };
+}
+
+const semitonesBetween = (from: number, to: number) => 12 * Math.log2(to / from);
+
+/**
+ * Pitch of one downsampled frame by normalized autocorrelation, or null if unvoiced.
+ * Takes the shortest lag that nearly matches the best one, which avoids octave-down errors.
+ */
+function estimatePitch(frame: Float32Array): number | null {
+  const minLag = Math.floor(PITCH_SAMPLE_RATE / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.ceil(PITCH_SAMPLE_RATE / MIN_PITCH_HZ), frame.length - 1);
+  const correlations: number[] = [];
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let cross = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i + lag < frame.length; i++) {
+      cross += frame[i] * frame[i + lag];
+      energyA += frame[i] * frame[i];
+      energyB += frame[i + lag] * frame[i + lag];
+    }
+    correlations.push(energyA > 0 && energyB > 0 ? cross / Math.sqrt(energyA * energyB) : 0);
+  }
+
+  const best = Math.max(...correlations);
+  if (best < VOICING_THRESHOLD) {
+    return null;
+  }
+  // Climb to the top of that peak, then interpolate between lags for a finer estimate
+  let index = correlations.findIndex(correlation => correlation >= best * 0.9);
+  while (index + 1 < correlations.length && correlations[index + 1] > correlations[index]) index++;
+  const peak = correlations[index];
+  const before = correlations[index - 1] ?? peak;
+  const after = correlations[index + 1] ?? peak;
+  const curvature = before - 2 * peak + after;
+  const offset = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+  return PITCH_SAMPLE_RATE / (minLag + index + offset);
+}
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+/**
+ * Loudness and pitch for each analysis frame. Pitch is only tracked on frames loud
+ * enough to be speech, then median-smoothed to drop single-frame glitches.
+ */
+async function analyzeFrames(samples: Float32Array): Promise<Frame[]> {
+  const frameLength = Math.round(FRAME_SECONDS * SAMPLE_RATE);
+  const hop = Math.round(HOP_SECONDS * SAMPLE_RATE);
+  const loudness: number[] = [];
+  for (let start = 0; start + frameLength <= samples.length; start += hop) {
+    let energy = 0;
+    for (let i = start; i < start + frameLength; i++) energy += samples[i] * samples[i];
+    loudness.push(20 * Math.log10(Math.sqrt(energy / frameLength) + 1e-10));
+  }
+  if (loudness.length === 0) {
+    return [];
+  }
+
+  // The quietest tenth of the recording is taken as its noise floor
+  const noiseFloor = [...loudness].sort((a, b) => a - b)[Math.floor(loudness.length / 10)];
+  const silenceDb = Math.min(MAX_SILENCE_DB, Math.max(MIN_SILENCE_DB, noiseFloor + SILENCE_MARGIN_DB));
+
+  const rawPitches: (number | null)[] = [];
+  const downsampled = new Float32Array(frameLength / 2);
+  for (let index = 0; index < loudness.length; index++) {
+    if (index > 0 && index % FRAMES_PER_YIELD === 0) {
+      await yieldToEventLoop();
+    }
+    if (loudness[index] < silenceDb) {
+      rawPitches.push(null);
+      continue;
+    }
+    const start = index * hop;
+    for (let i = 0; i < downsampled.length; i++) {
+      downsampled[i] = (samples[start + i * 2] + samples[start + i * 2 + 1]) / 2;
+    }
+    rawPitches.push(estimatePitch(downsampled));
+  }
+
+  return loudness.map((db, index) => {
+    const neighbours = rawPitches.slice(Math.max(0, index - 2), index + 3).filter((pitch): pitch is number => pitch !== null);
+    return {
+      time: (index * hop + frameLength / 2) / SAMPLE_RATE,
+      loudnessDb: db,
+      pitchHz: rawPitches[index] !== null && neighbours.length >= 3 ? median(neighbours) : null,
+      sounding: db >= silenceDb
+    };
+  });
+}
+
+/**
+ * Moments where pitch jumps well above the speaker's median, one per stretch of raised pitch
+ */
+function findPitchSpikes(frames: Frame[], medianHz: number): Prosody['pitchSpikes'] {
+  const spikes: Prosody['pitchSpikes'] = [];
+  let current: Frame | null = null;
+
+  for (const frame of [...frames, null]) {
+    const raised = frame?.pitchHz != null && semitonesBetween(medianHz, frame.pitchHz) >= PITCH_SPIKE_SEMITONES;
+    if (raised && (!current || frame!.pitchHz! > current.pitchHz!)) {
+      current = frame;
+    } else if (!raised && current) {
+      spikes.push({
+        timestamp: round(current.time),
+        pitchHz: round(current.pitchHz!, 1),
+        semitonesAboveMedian: round(semitonesBetween(medianHz, current.pitchHz!), 1)
+      });
+      current = null;
+    }
+  }
+
+  // Keep the largest spikes, in time order
+  return spikes
+    .sort((a, b) => b.semitonesAboveMedian - a.semitonesAboveMedian)
+    .slice(0, MAX_PITCH_SPIKES)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function measureSpeakingRate(words: TranscriptWord[], duration: number): Prosody['speakingRate'] {
+  if (words.length < 2) {
+    return null;
+  }
+
+  const speechMinutes = (words[words.length - 1].end - words[0].start) / 60;
+  const wordsPerMinute = speechMinutes > 0 ? words.length / speechMinutes : 0;
+
+  const windows: NonNullable<Prosody['speakingRate']>['windows'] = [];
+  for (let start = 0; start < duration; start += RATE_WINDOW_SECONDS) {
+    const end = Math.min(start + RATE_WINDOW_SECONDS, duration);
+    const count = words.filter(word => word.start >= start && word.start < end).length;
+    // Windows without speech say nothing about rate; they show up as pauses instead
+    if (count > 0 && end > start) {
+      windows.push({ start: round(start), end: round(end), wordsPerMinute: round((count * 60) / (end - start), 1) });
+    }
+  }
+
+  return {
+    wordsPerMinute: round(wordsPerMinute, 1),
+    windows,
+    changes: wordsPerMinute > 0
+      ? windows
+        .filter(window => Math.abs(window.wordsPerMinute - wordsPerMinute) / wordsPerMinute >= RATE_CHANGE_RATIO)
+        .map(window => ({ ...window, changePercent: Math.round(((window.wordsPerMinute - wordsPerMinute) / wordsPerMinute) * 100) }))
+      : []
+  };
+}
+
+/**
+ * Pauses from the gaps between timed words, or from silent stretches between
+ * sounds when there are no word timestamps
+ */
+function measurePauses(words: TranscriptWord[], frames: Frame[]): Prosody['pauses'] {
+  const gaps: { start: number; end: number }[] = [];
+  const source = words.length >= 2 ? 'words' : 'silence';
+
+  if (source === 'words') {
+    for (let i = 1; i < words.length; i++) {
+      gaps.push({ start: words[i - 1].end, end: words[i].start });
+    }
+  } else {
+    let silenceStart: number | null = null;
+    let heardSound = false;
+    for (const frame of frames) {
+      if (!frame.sounding && heardSound && silenceStart === null) {
+        silenceStart = frame.time;
+      } else if (frame.sounding) {
+        if (silenceStart !== null) gaps.push({ start: silenceStart, end: frame.time });
+        silenceStart = null;
+        heardSound = true;
+      }
+    }
+  }
+
+  const pauses = gaps
+    .map(gap => ({ start: round(gap.start), end: round(gap.end), duration: round(gap.end - gap.start) }))
+    .filter(pause => pause.duration >= MIN_PAUSE_SECONDS);
+  const totalSeconds = pauses.reduce((sum, pause) => sum + pause.duration, 0);
+
+  return {
+    count: pauses.length,
+    totalSeconds: round(totalSeconds),
+    meanSeconds: pauses.length > 0 ? round(totalSeconds / pauses.length) : 0,
+    distribution: {
+      short: pauses.filter(pause => pause.duration < MEDIUM_PAUSE_SECONDS).length,
+      medium: pauses.filter(pause => pause.duration >= MEDIUM_PAUSE_SECONDS && pause.duration <= LONG_PAUSE_SECONDS).length,
+      long: pauses.filter(pause => pause.duration > LONG_PAUSE_SECONDS).length
+    },
+    long: pauses
+      .filter(pause => pause.duration > LONG_PAUSE_SECONDS)
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, MAX_LONG_PAUSES)
+      .sort((a, b) => a.start - b.start),
+    source
+  };
+}
+
+/**
+ * Index of the first frame at or after a time; frames are in time order
+ */
+function firstFrameFrom(frames: Frame[], time: number): number {
+  let low = 0;
+  let high = frames.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (frames[middle].time < time) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Talk time, speaking rate and typical pitch of each diarized speaker
+ */
+function measureSpeakers(words: TranscriptWord[], utterances: TranscriptUtterance[], frames: Frame[]): Prosody['speakers'] {
+  const speakers = Array.from(new Set(utterances.map(utterance => utterance.speaker).filter((speaker): speaker is string => speaker !== null)));
+
+  return speakers.map(speaker => {
+    const turns = utterances.filter(utterance => utterance.speaker === speaker);
+    const talkSeconds = turns.reduce((sum, turn) => sum + Math.max(0, turn.end - turn.start), 0);
+    const wordCount = words.filter(word => word.speaker === speaker).length;
+    // Only the frames within each turn are looked at, counting frames where turns overlap once
+    const spoken = new Set<number>();
+    for (const turn of turns) {
+      for (let index = firstFrameFrom(frames, turn.start); index < frames.length && frames[index].time <= turn.end; index++) {
+        spoken.add(index);
+      }
+    }
+    const pitches = Array.from(spoken, index => frames[index].pitchHz).filter((pitch): pitch is number => pitch !== null);
+
+    return {
+      speaker,
+      talkSeconds: round(talkSeconds),
+      wordsPerMinute: talkSeconds > 0 && wordCount > 0 ? round((wordCount * 60) / talkSeconds, 1) : null,
+      pitchMedianHz: pitches.length > 0 ? round(median(pitches), 1) : null
+    };
+  });
+}
+
+function buildContour(frames: Frame[]): Prosody['contour'] {
+  const steps = new Map<number, Frame[]>();
+  for (const frame of frames) {
+    const step = Math.floor(frame.time / CONTOUR_STEP_SECONDS);
+    steps.set(step, [...(steps.get(step) || []), frame]);
+  }
+
+  return Array.from(steps.entries()).map(([step, inStep]) => {
+    const pitches = inStep.filter(frame => frame.pitchHz !== null).map(frame => frame.pitchHz!);
+    return {
+      timestamp: round(step * CONTOUR_STEP_SECONDS),
+      pitchHz: pitches.length > 0 ? round(median(pitches), 1) : null,
+      loudnessDb: round(inStep.reduce((sum, frame) => sum + frame.loudnessDb, 0) / inStep.length, 1)
+    };
+  });
+}
+
+/**
+ * Measure vocal prosody from an audio file: pitch contour and spikes, loudness,
+ * speaking rate from the transcript's word timestamps, and pauses. Runs locally
+ * with ffmpeg; no service is called.
+ */
+export async function analyzeProsody(
+  audioPath: string,
+  transcript: { words: TranscriptWord[]; utterances: TranscriptUtterance[] } | null
+): Promise<Prosody> {
+  const samples = await decodeSamples(audioPath);
+  const duration = samples.length / SAMPLE_RATE;
+  const frames = await analyzeFrames(samples);
+  const words = [...(transcript?.words || [])].sort((a, b) => a.start - b.start);
+
+  const pitches = frames.filter(frame => frame.pitchHz !== null).map(frame => frame.pitchHz!);
+  const medianHz = pitches.length > 0 ? median(pitches) : 0;
+  const pitchStats = pitches.length > 0 ? meanAndStdev(pitches) : null;
+  const sounding = frames.filter(frame => frame.sounding).map(frame => frame.loudnessDb);
+  const loudness = sounding.length > 0 ? meanAndStdev(sounding) : { mean: 0, stdev: 0 };
+
+  return {
+    duration: round(duration),
+    pitch: pitchStats && {
+      medianHz: round(medianHz, 1),
+      meanHz: round(pitchStats.mean, 1),
+      stdevHz: round(pitchStats.stdev, 1),
+      minHz: round(pitches.reduce((min, pitch) => Math.min(min, pitch), Infinity), 1),
+      maxHz: round(pitches.reduce((max, pitch) => Math.max(max, pitch), 0), 1),
+      voicedSeconds: round(pitches.length * HOP_SECONDS)
+    },
+    loudness: {
+      meanDb: round(loudness.mean, 1),
+      stdevDb: round(loudness.stdev, 1),
+      maxDb: sounding.length > 0 ? round(sounding.reduce((max, db) => Math.max(max, db), -Infinity), 1) : 0
+    },
+    pitchSpikes: pitches.length > 0 ? findPitchSpikes(frames, medianHz) : [],
+    speakingRate: measureSpeakingRate(words, duration),
+    pauses: measurePauses(words, frames),
+    speakers: measureSpeakers(words, transcript?.utterances || [], frames),
+    contour: buildContour(frames)
+  };
+}
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SceneContext } from '@shared/insights';
+import { annotateImage } from './googleVision';
+
+const GOOGLE_CLOUD_VISION_API_KEY = process.env.GOOGLE_CLOUD_VISION_API_KEY;
+
+// Labels and objects Vision is less sure of than this are left out
+const MIN_CONFIDENCE = 0.6;
+// Visible text is capped so a photo of a page doesn't swamp the prompt
+const MAX_TEXT_LINES = 10;
+const MAX_TEXT_LINE_LENGTH = 100;
+
+// Recorded Vision response replayed when FACE_FAKE_PROVIDERS=true
+const SCENE_FIXTURE = 'server/fixtures/scene/office.json';
+
+// Label and object names (lowercase) that say where a photo was taken
+const SETTING_TERMS = [
+  'office', 'room', 'conference room', 'classroom', 'kitchen', 'bedroom', 'living room', 'bathroom', 'restaurant',
+  'cafe', 'bar', 'studio', 'stage', 'home', 'house', 'building', 'interior design', 'street', 'city', 'road',
+  'park', 'garden', 'beach', 'mountain', 'forest', 'nature', 'sky', 'water', 'lake', 'sea', 'snow', 'field',
+  'gym', 'stadium', 'library', 'hospital', 'church', 'vehicle', 'car', 'airport', 'event', 'party', 'wedding'
+];
+
+// Things people wear or carry, as opposed to the surroundings
+const CLOTHING_AND_PROP_TERMS = [
+  'clothing', 'shirt', 't-shirt', 'dress shirt', 'suit', 'blazer', 'jacket', 'coat', 'outerwear', 'dress', 'skirt',
+  'jeans', 'trousers', 'shorts', 'sweater', 'hoodie', 'uniform', 'tie', 'scarf', 'hat', 'cap', 'helmet', 'headwear',
+  'glasses', 'sunglasses', 'eyewear', 'goggles', 'jewellery', 'jewelry', 'necklace', 'earring', 'bracelet', 'ring',
+  'watch', 'handbag', 'bag', 'backpack', 'umbrella', 'microphone', 'guitar', 'musical instrument', 'book',
+  'mobile phone', 'phone', 'camera', 'cup', 'mug', 'wine glass', 'bottle', 'cigarette', 'pen', 'badge', 'tattoo'
+];
+
+// Detected objects that are the people themselves, already covered by the face analysis
+const PERSON_TERMS = ['person', 'man', 'woman', 'boy', 'girl', 'human face', 'face'];
+
+const matchesAny = (name: string, terms: string[]) => terms.includes(name.toLowerCase());
+
+/**
+ * Turn a Google Vision annotate response for LABEL_DETECTION, OBJECT_LOCALIZATION
+ * and TEXT_DETECTION into a scene context block
+ */
+export function buildSceneContext(annotations: any, source: string = 'google_vision'): SceneContext {
+  const labels = (annotations.labelAnnotations || [])
+    .filter((label: any) => (label.score ?? 0) >= MIN_CONFIDENCE)
+    .map((label: any) => ({ name: String(label.description), confidence: Math.round(label.score * 100) / 100 }));
+
+  // Vision returns one entry per instance, so count repeats
+  const objectsByName = new Map<string, { name: string; count: number; confidence: number }>();
+  for (const object of annotations.localizedObjectAnnotations || []) {
+    if ((object.score ?? 0) < MIN_CONFIDENCE || matchesAny(String(object.name), PERSON_TERMS)) continue;
+    const existing = objectsByName.get(object.name);
+    objectsByName.set(object.name, {
+      name: String(object.name),
+      count: (existing?.count || 0) + 1,
+      confidence: Math.max(existing?.confidence || 0, Math.round(object.score * 100) / 100)
+    });
+  }
+  const detectedObjects = Array.from(objectsByName.values());
+
+  // The first text annotation holds all of the image's text; the rest are single words
+  const visibleText = Array.from(new Set<string>(String(annotations.textAnnotations?.[0]?.description || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)))
+    .slice(0, MAX_TEXT_LINES)
+    .map(line => line.slice(0, MAX_TEXT_LINE_LENGTH));
+
+  const setting = labels.map((label: { name: string }) => label.name).filter((name: string) => matchesAny(name, SETTING_TERMS));
+  const clothingAndProps = Array.from(new Set<string>([
+    ...detectedObjects.map(object => object.name),
+    ...labels.map((label: { name: string }) => label.name)
+  ].filter(name => matchesAny(name, CLOTHING_AND_PROP_TERMS))));
+  const objects = detectedObjects.filter(object => !matchesAny(object.name, CLOTHING_AND_PROP_TERMS));
+
+  const summaryParts = [
+    setting.length > 0 && `Setting: ${setting.join(', ')}`,
+    objects.length > 0 && `Objects: ${objects.map(object => object.count > 1 ? `${object.name} (${object.count})` : object.name).join(', ')}`,
+    clothingAndProps.length > 0 && `Clothing and props: ${clothingAndProps.join(', ')}`,
+    visibleText.length > 0 && `Visible text: ${visibleText.map(line => `"${line}"`).join(', ')}`
+  ].filter(Boolean);
+
+  return {
+    setting,
+    objects,
+    visibleText,
+    clothingAndProps,
+    labels,
+    summary: summaryParts.length > 0 ? summaryParts.join('. ') : 'Nothing recognizable around the people',
+    source
+  };
+}
+
+/**
+ * Describe what surrounds the people in a photo using Google Vision's labels, objects
+ * and text recognition, from the same request as its faces when Vision found them.
+ * Returns null when Vision isn't configured.
+ */
+export async function extractSceneContext(image: Buffer): Promise<SceneContext | null> {
+  if (process.env.FACE_FAKE_PROVIDERS === 'true') {
+    return buildSceneContext(JSON.parse(fs.readFileSync(path.resolve(SCENE_FIXTURE), 'utf-8')), 'fixture');
+  }
+  if (!GOOGLE_CLOUD_VISION_API_KEY) {
+    return null;
+  }
+
+  return buildSceneContext(await annotateImage(image, { describeScene: true }));
+}
@@ -0,0 +1,82 @@
+import type { Analysis } from '@shared/schema';
+import { getIndividualProfiles } from '@shared/insights';
+import type { TranscriptUtterance, TranscriptWord } from './transcriptionProviders';
+import type { TrackedPerson } from './tracking';
+
+/**
+ * What extractAudioTranscription stores in analyses.audio_transcription. Failed
+ * transcriptions have no transcriptionData and an error in speechAnalysis.
+ */
+export interface StoredTranscription {
+  transcription?: string;
+  transcriptionData?: {
+    full_text?: string;
+    utterances?: TranscriptUtterance[];
+    words?: TranscriptWord[];
+    speakers?: string[];
+  };
+  speechAnalysis?: {
+    provider?: string;
+    duration?: number;
+    language?: string | null;
+    wordCount?: number;
+    speakerCount?: number;
+    error?: string;
+  };
+}
+
+/**
+ * One emotion Azure Video Indexer saw, with the stretches of the video it lasted.
+ * Times are "h:mm:ss.fff" strings.
+ */
+export interface IndexerEmotion {
+  type?: string;
+  instances?: { start?: string; end?: string; confidence?: number }[];
+}
+
+/**
+ * The parts of analyses.video_analysis read back once an analysis is stored
+ */
+export interface StoredVideoAnalysis {
+  mode?: 'segment' | 'full'; // Missing on segment analyses made before full-length mode
+  segmentStart?: number;
+  segmentDuration?: number;
+  totalVideoDuration?: number;
+  trackedPeople?: TrackedPerson[];
+  azureInsights?: { emotions?: IndexerEmotion[] };
+  audioTranscription?: StoredTranscription; // Where early video analyses kept their transcript
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function getStoredTranscription(analysis: Analysis): StoredTranscription | null {
+  return isRecord(analysis.audioTranscription) ? analysis.audioTranscription as StoredTranscription : null;
+}
+
+export function getStoredVideoAnalysis(analysis: Analysis): StoredVideoAnalysis | null {
+  return isRecord(analysis.videoAnalysis) ? analysis.videoAnalysis as StoredVideoAnalysis : null;
+}
+
+/**
+ * Seconds to add to transcript and Video Indexer times so they line up with the
+ * uploaded video. Segment analyses transcribe and index only the segment, so their
+ * times start at zero; frame timestamps are already measured from the video's start.
+ */
+export function getTranscriptOffset(analysis: Analysis): number {
+  const videoAnalysis = getStoredVideoAnalysis(analysis);
+  return videoAnalysis && videoAnalysis.mode !== 'full' ? videoAnalysis.segmentStart || 0 : 0;
+}
+
+/**
+ * Names the user gave people, keyed by the label their utterances and tracks were linked with
+ */
+export function getPersonNames(analysis: Analysis): Map<string, string> {
+  const personNames = new Map<string, string>();
+  for (const profile of getIndividualProfiles(analysis.personalityInsights)) {
+    if (profile.personLabel && profile.personName) {
+      personNames.set(profile.personLabel, profile.personName);
+    }
+  }
+  return personNames;
+}
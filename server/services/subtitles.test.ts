@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import type { Analysis } from "@shared/schema";
+import { generateTranscriptExport } from "./subtitles";
+
+type Utterance = { text: string; start: number; end: number; speaker: string | null; personLabel?: string };
+type Word = { text: string; start: number; end: number };
+
+function analysisWith(utterances: Utterance[], words: Word[] = [], overrides: Partial<Analysis> = {}): Analysis {
+  return {
+    id: 7,
+    sessionId: "s1",
+    title: "Interview",
+    mediaUrl: "",
+    mediaType: "video",
+    createdAt: new Date("2026-01-02T03:04:05Z"),
+    audioTranscription: { transcriptionData: { utterances, words } },
+    videoAnalysis: null,
+    personalityInsights: {},
+    ...overrides
+  } as Analysis;
+}
+
+// A profile as stored when its analysis failed, which is all the exports need to name someone
+function profile(personLabel: string, personName?: string) {
+  return { personLabel, ...(personName && { personName }), summary: "", analysisFailed: true as const, detailed_analysis: {} };
+}
+
+// Words a quarter second apart, covering the utterance they're taken from
+function wordsOf(text: string, start: number, spacing = 0.25): Word[] {
+  return text.split(" ").map((word, i) => ({ text: word, start: start + i * spacing, end: start + (i + 1) * spacing }));
+}
+
+describe("generateTranscriptExport", () => {
+  it("writes numbered SRT cues with comma-separated milliseconds and the speaker", () => {
+    const analysis = analysisWith([
+      { text: "Thanks for coming in.", start: 0.4, end: 1.9, speaker: "A" },
+      { text: "Happy to be here.", start: 3725.25, end: 3727.0049, speaker: "B" }
+    ]);
+
+    expect(generateTranscriptExport(analysis, "srt")).toBe(
+      "1\n00:00:00,400 --> 00:00:01,900\nSpeaker A: Thanks for coming in.\n" +
+      "\n" +
+      "2\n01:02:05,250 --> 01:02:07,005\nSpeaker B: Happy to be here.\n"
+    );
+  });
+
+  it("writes WebVTT with dot-separated milliseconds, voice spans and escaped text", () => {
+    const analysis = analysisWith([
+      { text: "Profit < cost & falling", start: 1, end: 2.5, speaker: null, personLabel: "Person 1" },
+      { text: "No speaker here.", start: 3, end: 4, speaker: null }
+    ], [], {
+      personalityInsights: { peopleCount: 1, individualProfiles: [profile("Person 1", "Ann <CEO>")] }
+    });
+
+    expect(generateTranscriptExport(analysis, "vtt")).toBe(
+      "WEBVTT\n\n" +
+      "00:00:01.000 --> 00:00:02.500\n<v Ann &lt;CEO&gt;>Profit &lt; cost &amp; falling\n" +
+      "\n" +
+      "00:00:03.000 --> 00:00:04.000\nNo speaker here.\n"
+    );
+  });
+
+  it("names tracked people by the name given, or their label", () => {
+    const analysis = analysisWith([
+      { text: "Hello.", start: 0, end: 1, speaker: "A", personLabel: "Person 1" },
+      { text: "Hi.", start: 1, end: 2, speaker: "B", personLabel: "Person 2" }
+    ], [], {
+      personalityInsights: { peopleCount: 2, individualProfiles: [profile("Person 1", "Dana"), profile("Person 2")] }
+    });
+
+    expect(generateTranscriptExport(analysis, "srt")).toContain("Dana: Hello.");
+    expect(generateTranscriptExport(analysis, "srt")).toContain("Person 2: Hi.");
+  });
+
+  it("splits long utterances between words into readable cues", () => {
+    const text = "So the first thing we did was sit down with every team that touched billing and ask what they were afraid of losing";
+    const words = wordsOf(text, 10);
+    const analysis = analysisWith([{ text, start: 10, end: words[words.length - 1].end, speaker: "A" }], words);
+
+    const srt = generateTranscriptExport(analysis, "srt")!;
+    const cues = srt.trim().split("\n\n").map(cue => cue.split("\n"));
+
+    expect(cues.length).toBeGreaterThan(1);
+    expect(cues.map(cue => cue[2].replace("Speaker A: ", "")).join(" ")).toBe(text);
+    for (const [, times, line] of cues) {
+      expect(line.replace("Speaker A: ", "").length).toBeLessThanOrEqual(84);
+      const [start, end] = times.split(" --> ").map(time => {
+        const [h, m, s] = time.replace(",", ".").split(":").map(Number);
+        return h * 3600 + m * 60 + s;
+      });
+      expect(end - start).toBeLessThanOrEqual(7);
+    }
+    expect(cues[0][1].startsWith("00:00:10,000 --> ")).toBe(true);
+  });
+
+  it("moves a segment's times to where the segment starts in the video", () => {
+    const utterances = [{ text: "Later on.", start: 1, end: 2, speaker: "A" }];
+
+    const segment = analysisWith(utterances, [], { videoAnalysis: { mode: "segment", segmentStart: 90 } });
+    expect(generateTranscriptExport(segment, "srt")).toContain("00:01:31,000 --> 00:01:32,000");
+
+    const full = analysisWith(utterances, [], { videoAnalysis: { mode: "full", segmentStart: 90 } });
+    expect(generateTranscriptExport(full, "srt")).toContain("00:00:01,000 --> 00:00:02,000");
+  });
+
+  it("writes one transcript line per turn, joining a speaker's consecutive cues", () => {
+    const analysis = analysisWith([
+      { text: "Could you tell me", start: 5, end: 6, speaker: "A" },
+      { text: "about a project?", start: 6, end: 7, speaker: "A" },
+      { text: "Sure.", start: 3700, end: 3701, speaker: "B" }
+    ]);
+
+    const transcript = generateTranscriptExport(analysis, "transcript")!;
+
+    expect(transcript.startsWith("Transcript: Interview\nCreated: ")).toBe(true);
+    expect(transcript.endsWith("[00:05] Speaker A: Could you tell me about a project?\n\n[1:01:40] Speaker B: Sure.\n")).toBe(true);
+  });
+
+  it("has nothing to export without a timed transcript", () => {
+    expect(generateTranscriptExport(analysisWith([]), "srt")).toBeNull();
+    expect(generateTranscriptExport(analysisWith([{ text: "  ", start: 0, end: 1, speaker: "A" }]), "vtt")).toBeNull();
+    expect(generateTranscriptExport(analysisWith([], [], { audioTranscription: null }), "transcript")).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import type { Analysis } from '@shared/schema';
+import type { TranscriptUtterance, TranscriptWord } from './transcriptionProviders';
+import { getPersonNames, getStoredTranscription, getTranscriptOffset } from './storedAnalysis';
+
+// Subtitle cues are cut to stay readable: at most two lines of about 42 characters, shown for up to 7 seconds
+const MAX_CUE_CHARS = 84;
+const MAX_CUE_SECONDS = 7;
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'transcript';
+
+// One subtitle cue or transcript line, in seconds from the start of the uploaded media
+interface TranscriptCue {
+  start: number;
+  end: number;
+  speaker: string | null; // Display name: the person's name, their tracked label or "Speaker A"
+  text: string;
+}
+
+/**
+ * The name to show for who said an utterance. Utterances linked to a tracked person
+ * use the name the user gave that person, or their label; other diarized speakers
+ * keep the transcription service's speaker id.
+ */
+function speakerName(utterance: TranscriptUtterance, personNames: Map<string, string>): string | null {
+  if (utterance.personLabel) {
+    return personNames.get(utterance.personLabel) || utterance.personLabel;
+  }
+  return utterance.speaker !== null && utterance.speaker !== undefined ? `Speaker ${utterance.speaker}` : null;
+}
+
+/**
+ * Split one utterance into cues short enough to read, breaking between words.
+ * Without word timings the utterance stays a single cue.
+ */
+function splitUtterance(utterance: TranscriptUtterance, words: TranscriptWord[], speaker: string | null): TranscriptCue[] {
+  const ownWords = words.filter(word => word.start >= utterance.start - 0.05 && word.end <= utterance.end + 0.05);
+  if (ownWords.length === 0) {
+    return [{ start: utterance.start, end: utterance.end, speaker, text: utterance.text.trim() }];
+  }
+
+  const cues: TranscriptCue[] = [];
+  let current: TranscriptWord[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({ start: current[0].start, end: current[current.length - 1].end, speaker, text: current.map(word => word.text).join(' ') });
+    current = [];
+  };
+  for (const word of ownWords) {
+    const text = [...current, word].map(w => w.text).join(' ');
+    if (current.length > 0 && (text.length > MAX_CUE_CHARS || word.end - current[0].start > MAX_CUE_SECONDS)) {
+      flush();
+    }
+    current.push(word);
+  }
+  flush();
+  return cues;
+}
+
+/**
+ * Build the timed cues for an analysis from its normalized transcript. Times are moved
+ * so they line up with the uploaded video when only a segment of it was transcribed.
+ * Returns an empty list when the analysis has no timed transcript.
+ */
+function buildTranscriptCues(analysis: Analysis): TranscriptCue[] {
+  const transcriptionData = getStoredTranscription(analysis)?.transcriptionData;
+  const utterances: TranscriptUtterance[] = transcriptionData?.utterances || [];
+  const words: TranscriptWord[] = transcriptionData?.words || [];
+  const offset = getTranscriptOffset(analysis);
+  const personNames = getPersonNames(analysis);
+
+  return utterances
+    .filter(utterance => utterance.text?.trim())
+    .flatMap(utterance => splitUtterance(utterance, words, speakerName(utterance, personNames)))
+    .map(cue => ({ ...cue, start: cue.start + offset, end: Math.max(cue.end, cue.start) + offset }));
+}
+
+/**
+ * Format seconds as an SRT (00:00:00,000) or WebVTT (00:00:00.000) timestamp
+ */
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`;
+}
+
+/**
+ * Format seconds as [h:]mm:ss for the speaker-labeled transcript
+ */
+function formatTranscriptTime(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = String(Math.floor((whole % 3600) / 60)).padStart(2, '0');
+  const secs = String(whole % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${secs}` : `${minutes}:${secs}`;
+}
+
+function generateSrt(cues: TranscriptCue[]): string {
+  return cues.map((cue, i) =>
+    `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.speaker ? `${cue.speaker}: ` : ''}${cue.text}\n`
+  ).join('\n');
+}
+
+// WebVTT voice spans carry the speaker, so players can style or list them
+function generateVtt(cues: TranscriptCue[]): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return `WEBVTT\n\n${cues.map(cue =>
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.speaker ? `<v ${escape(cue.speaker)}>` : ''}${escape(cue.text)}\n`
+  ).join('\n')}`;
+}
+
+// One line per turn: consecutive cues from the same speaker are joined back together
+function generateSpeakerTranscript(cues: TranscriptCue[], analysis: Analysis): string {
+  const turns: TranscriptCue[] = [];
+  for (const cue of cues) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === cue.speaker) {
+      last.text += ` ${cue.text}`;
+      last.end = cue.end;
+    } else {
+      turns.push({ ...cue });
+    }
+  }
+
+  let content = `Transcript: ${analysis.title || `Analysis ${analysis.id}`}\n`;
+  content += `Created: ${new Date(analysis.createdAt || Date.now()).toLocaleString()}\n\n`;
+  content += turns.map(turn => `[${formatTranscriptTime(turn.start)}] ${turn.speaker ? `${turn.speaker}: ` : ''}${turn.text}`).join('\n\n');
+  return `${content}\n`;
+}
+
+/**
+ * Export an analysis's transcript as SRT or WebVTT subtitles, or as a plain text
+ * transcript with a timestamp and speaker per turn. Returns null when the analysis
+ * has no timed transcript to export.
+ */
+export function generateTranscriptExport(analysis: Analysis, format: TranscriptExportFormat): string | null {
+  const cues = buildTranscriptCues(analysis);
+  if (cues.length === 0) {
+    return null;
+  }
+
+  if (format === 'srt') {
+    return generateSrt(cues);
+  }
+  if (format === 'vtt') {
+    return generateVtt(cues);
+  }
+  return generateSpeakerTranscript(cues, analysis);
+}
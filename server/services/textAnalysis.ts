@@ -0,0 +1,371 @@
+import { textChunkInsightSchema, textSynthesisSchema, coreAssessmentSchema, TEXT_QUESTION_COUNT, type TextInsight, type TextChunkInsight } from '@shared/insights';
+import type { JobContext } from './jobs';
+import { splitTextIntoChunks, findQuoteOffset, type TextChunk } from './chunking';
+import { generateValidated, estimateTokens, getInputTokenBudget, APPROX_CHARS_PER_TOKEN } from './llm';
+
+const TEXT_ANALYSIS_QUESTIONS = [
+  // I. Information Processing Style (10)
+  "Does the text show an active mind organizing information, or a passive mind reciting it?",
+  "Is information digested and restructured, or merely repeated?",
+  "Does the writer analyze causes, or just describe effects?",
+  "Are distinctions drawn sharply or blurred lazily?",
+  "Is the reasoning linear, branching, or circular?",
+  "Does the writer generalize prematurely or hold data until patterns emerge?",
+  "Are claims proportioned to evidence?",
+  "Does the mind shown seem inductive (pattern-seeking) or deductive (rule-enforcing)?",
+  "Does the prose reveal curiosity, or intellectual fatigue?",
+  "When the text confronts complexity, does it simplify or engage it?",
+  
+  // II. Emotional Processing Style (10)
+  "Are emotions named, implied, or avoided altogether?",
+  "When emotion appears, is it integrated or intrusive?",
+  "Does the author intellectualize feelings or experience them?",
+  "Does the tone show restraint, volatility, or emotional flatness?",
+  "Are emotional reactions linked to meaning, or detached from it?",
+  "Does the text show empathy, contempt, or indifference toward others?",
+  "Does emotion drive understanding or distort it?",
+  "When faced with threat or contradiction, does the writer show defensiveness or reflection?",
+  "Does the writing reveal warmth anywhere, or only analysis?",
+  "Is there emotional growth within the text, or the same affect from start to finish?",
+  
+  // III. Agency & Activity Level (10)
+  "Does the prose suggest a person who acts on the world or merely comments on it?",
+  "Are verbs mostly active or passive?",
+  "Does the writer assume control of argument flow or let it meander?",
+  "Does the voice take responsibility for claims (\"I think,\" \"I argue\") or hide behind impersonal phrasing?",
+  "Does the argument attempt to change the reader's mind or simply display intellect?",
+  "Is there initiative — new frameworks, redefinitions — or only reaction?",
+  "When obstacles appear, does the author adapt or stall?",
+  "Does the text reveal willpower or resignation?",
+  "Is the overall energy rising, steady, or depleted?",
+  "Does the mind seem confident in shaping reality or resentful of being shaped by it?",
+  
+  // IV. Focus: Interpersonal vs. Ideational (10)
+  "Is attention directed toward people or toward abstractions?",
+  "When others are mentioned, are they treated as minds or as examples?",
+  "Does the prose imply social awareness or social detachment?",
+  "Is there sensitivity to audience, or indifference to communication?",
+  "Does persuasion matter, or only demonstration?",
+  "Does the text reveal an interest in relationships, systems, or self-display?",
+  "When using \"we,\" is it inclusive or manipulative?",
+  "Does the writer ever show vulnerability to others' judgment?",
+  "Are ideas personified (showing emotional engagement) or sterilized?",
+  "Does the author seek understanding or dominance over interlocutors?",
+  
+  // V. Motivation, Value System, and Reality Testing (10)
+  "What is the writer trying to achieve — truth, recognition, safety, superiority?",
+  "Is success defined internally (clarity) or externally (approval)?",
+  "Does the writer trust reason, intuition, authority, or instinct most?",
+  "When evidence contradicts belief, does belief bend or resist?",
+  "Is the worldview optimistic, tragic, cynical, or dispassionate?",
+  "Does the author see the self as agent or as spectator?",
+  "Does the text treat reality as negotiable (conceptualist) or binding (realist)?",
+  "Does the writer seek understanding or vindication?",
+  "Are problems treated as puzzles to solve or evils to condemn?",
+  "Is there any visible hunger for truth — or only hunger for being right?",
+  
+  // VI. Intelligence & Conceptual Control (10)
+  "Does the writing show genuine intelligence — deep structure, inference, precision — or rote mimicry?",
+  "Does the argument actually advance, or does it spin in circles?",
+  "Does the author handle abstraction cleanly, or get lost in vagueness?",
+  "Does reasoning depend on concrete evidence or empty jargon?",
+  "When the author defines something, is it sharp and economical or padded and evasive?",
+  "Are terms used consistently, or redefined to dodge difficulty?",
+  "Is the prose intellectually ambitious in a disciplined way, or pretentious for show?",
+  "Does the text reveal mastery of the material, or merely second-hand familiarity?",
+  "Does the writer tolerate internal tension, or hide contradictions with style?",
+  "Does the argument show genuine insight — a new relation between ideas — or rehearse clichés?",
+  
+  // VII. Honesty & Sincerity of Mind (10)
+  "Is the writer being straightforward, or manipulating phrasing to sound profound?",
+  "Does the text ever admit uncertainty or limitation?",
+  "When challenged (implicitly or explicitly), does the writer concede or double down?",
+  "Is there visible willingness to change one's mind if the reasoning fails?",
+  "Does the author ever say \"I don't know,\" or is omniscience performed throughout?",
+  "Are doubts faced or buried under abstraction?",
+  "Does confidence come from understanding or bluster?",
+  "Are counterarguments represented fairly, or caricatured for easy defeat?",
+  "Does the writer seem to care about truth, or about appearing intelligent?",
+  "Is there moral or intellectual humility anywhere in the text?",
+  
+  // VIII. Structure, Organization, and Focus (10)
+  "Is the argument linearly constructed or chaotic?",
+  "Does every paragraph push the reasoning forward?",
+  "Are transitions real or cosmetic?",
+  "Does the conclusion actually follow from the premises?",
+  "Are examples used to clarify or to disguise weakness?",
+  "Does the text maintain topic discipline or wander aimlessly?",
+  "Is there redundancy that signals insecurity?",
+  "How coherent is paragraph sequencing — cumulative or random?",
+  "Does the text have a visible beginning, middle, and end?",
+  "Does the closing section resolve something or merely stop?",
+  
+  // IX. Psychological Profile in Style (10)
+  "Does the tone suggest calm confidence or anxious control?",
+  "Is the style dry, combative, ingratiating, or sermonizing?",
+  "Does the writer hide behind abstraction to avoid personal exposure?",
+  "Is there contempt for opposing views or curiosity about them?",
+  "What emotion drives the prose — irritation, pride, fear, wonder?",
+  "Is the rhythm clenched (defensive) or open (exploratory)?",
+  "Does the diction reveal class anxiety, moral superiority, or insecurity?",
+  "Is humor used to clarify or to deflect?",
+  "Does the writer need to dominate the reader intellectually?",
+  "Does the language show obsession with control, symmetry, or perfection?",
+  
+  // X. Substance, Depth, and Cognitive Flexibility (10)
+  "Does the writer ever integrate a new idea mid-stream?",
+  "Is there evidence of learning in motion — development within the text?",
+  "Are insights layered, or all at the same conceptual level?",
+  "When describing others' ideas, does the writer paraphrase accurately?",
+  "Does the prose reveal real curiosity, or mere performance of curiosity?",
+  "Does the author show capacity for self-correction?",
+  "Is there flexibility of perspective, or rigid monologue?",
+  "Does the argument invite dialogue, or shut it down?",
+  "Is there intellectual empathy — ability to inhabit another view sincerely?",
+  "After reading, do we feel we've encountered a mind in motion or a mask of erudition?"
+];
+
+// However small the provider's context window, long texts aren't cut into chunks smaller than this
+const MIN_TEXT_CHUNK_CHARS = 4000;
+
+/**
+ * Answers to the text analysis questions for one stretch of a long text, with
+ * each quote's character offset into the full text where it could be found
+ */
+interface TextChunkResult {
+  firstPart: number; // Merged results cover a range of parts
+  lastPart: number;
+  start: number;
+  end: number;
+  summary: string;
+  answers: Record<string, { answer: string; quotes: { quote: string; offset?: number }[] }>;
+}
+
+export interface LongTextAnalysis {
+  insight: TextInsight;
+  provider: string;
+  chunkChars: number;
+  chunks: TextChunkResult[];
+}
+
+/**
+ * Prompt asking for all 100 text analysis questions to be answered from one chunk of a long text
+ */
+function textChunkPrompt(chunk: TextChunk, chunkCount: number): string {
+  return `
+You are an expert psychologist and personality analyst. You are reading a long text in parts. This is part ${chunk.index + 1} of ${chunkCount} (characters ${chunk.start}-${chunk.end} of the full text).
+
+Answer each of the ${TEXT_QUESTION_COUNT} questions below from THIS PART ONLY, in one or two sentences each. Support answers with short quotes copied exactly from this part. If this part gives no evidence for a question, say so briefly instead of guessing.
+
+IMPORTANT: Do not use ANY markdown formatting in your response.
+
+TEXT (PART ${chunk.index + 1} OF ${chunkCount}):
+${chunk.text}
+
+QUESTIONS:
+${TEXT_ANALYSIS_QUESTIONS.map((question, i) => `${i + 1}. ${question}`).join('\n')}
+
+Respond with clean JSON:
+{
+  "summary": "2-3 sentences on what this part reveals about the author",
+  "question_answers": {
+    "1": {"answer": "answer to question 1 based on this part", "quotes": ["exact quote from this part"]},
+    "2": {"answer": "answer to question 2 based on this part", "quotes": []}
+  }
+}
+The "question_answers" object must have an entry for every question number from "1" to "${TEXT_QUESTION_COUNT}".
+`;
+}
+
+/**
+ * Compact listing of chunk results for the merge and synthesis prompts
+ */
+function textChunkDigest(results: TextChunkResult[], chunkCount: number): string {
+  return results.map(result => {
+    const answers = Object.entries(result.answers)
+      .sort((a, b) => Number(a[0]) - Number(b[0]))
+      .map(([question, { answer, quotes }]) => {
+        const quoted = quotes.map(q => `"${q.quote}"${q.offset !== undefined ? ` (@${q.offset})` : ''}`).join('; ');
+        return `Q${question}: ${answer}${quoted ? ` Quotes: ${quoted}` : ''}`;
+      });
+    const parts = result.firstPart === result.lastPart ? `PART ${result.firstPart}` : `PARTS ${result.firstPart}-${result.lastPart}`;
+    return `[${parts} OF ${chunkCount}, characters ${result.start}-${result.end}]\nSummary: ${result.summary}\n${answers.join('\n')}`;
+  }).join('\n\n');
+}
+
+/**
+ * Prompt combining the answers of several consecutive parts into one set, used
+ * when there are too many parts to synthesize in a single prompt
+ */
+function textChunkMergePrompt(results: TextChunkResult[], chunkCount: number): string {
+  return `
+You are an expert psychologist and personality analyst. Below are answers to ${TEXT_QUESTION_COUNT} psychological questions, each given separately for consecutive parts of one long text by the same author.
+
+Combine them into ONE answer per question covering all of these parts. Where parts agree, consolidate; where they disagree, say so in the answer and note which part shows what. Keep the strongest supporting quotes exactly as given.
+
+IMPORTANT: Do not use ANY markdown formatting in your response.
+
+${textChunkDigest(results, chunkCount)}
+
+Respond with clean JSON:
+{
+  "summary": "2-3 sentences on what these parts together reveal about the author",
+  "question_answers": {
+    "1": {"answer": "combined answer to question 1", "quotes": ["exact quote"]}
+  }
+}
+The "question_answers" object must have an entry for every question number from "1" to "${TEXT_QUESTION_COUNT}".
+`;
+}
+
+/**
+ * Prompt turning the per-part answers into the final text analysis profile
+ */
+function textSynthesisPrompt(results: TextChunkResult[], chunkCount: number): string {
+  return `
+You are an expert psychologist and personality analyst. A long text was too large to read at once, so it was split into ${chunkCount} parts and ${TEXT_QUESTION_COUNT} psychological questions were answered for each part. Synthesize those answers into ONE consistent personality profile of the author.
+
+CRITICAL REQUIREMENTS:
+- NO MARKDOWN FORMATTING: Do not use # ### ** or any markdown in your response
+- Weigh evidence across ALL parts; do not let one part dominate
+- Where parts contradict each other (e.g. confident in one part, insecure in another), resolve it in the profile and record it in "conflict_notes", naming the parts involved and how you resolved it. Use an empty array if the parts are consistent
+- Key quotes must be copied exactly from the quotes given below
+- EVERY field must be a detailed, specific answer with evidence - no placeholders
+
+PER-PART ANSWERS:
+${textChunkDigest(results, chunkCount)}
+
+Respond with clean JSON:
+{
+  "summary": "comprehensive 2-3 paragraph overview of the author across the whole text",
+  "detailed_analysis": {
+    "content_themes": "topics, interests and concerns across the whole text and what they reveal",
+    "speech_analysis": {
+      "key_quotes": ["8-12 of the most revealing quotes, copied exactly"],
+      "vocabulary_analysis": "word choice, linguistic sophistication and communication style",
+      "personality_revealed": "character traits, values and psychological patterns revealed"
+    },
+    "core_psychological_assessment": {
+${Object.keys(coreAssessmentSchema.shape).map(field => `      "${field}": "assessment with evidence from the parts"`).join(',\n')}
+    },
+    "professional_insights": "career inclinations, work style and leadership qualities",
+    "growth_areas": {
+      "strengths": ["strength with evidence"],
+      "development_path": "recommendations for personal and professional growth"
+    },
+    "conflict_notes": ["where parts disagreed and how the profile resolves it"]
+  }
+}
+`;
+}
+
+/**
+ * Quotes with their offset into the full text, searching the given stretch of it
+ */
+function locateChunkQuotes(content: string, start: number, end: number, quotes: string[] = []) {
+  const stretch = content.slice(start, end);
+  return quotes.map(quote => {
+    const offset = findQuoteOffset(stretch, quote);
+    return offset === -1 ? { quote } : { quote, offset: start + offset };
+  });
+}
+
+function toChunkResult(insight: TextChunkInsight, content: string, firstPart: number, lastPart: number, start: number, end: number): TextChunkResult {
+  return {
+    firstPart,
+    lastPart,
+    start,
+    end,
+    summary: insight.summary,
+    answers: Object.fromEntries(Object.entries(insight.question_answers).map(([question, { answer, quotes }]) =>
+      [question, { answer, quotes: locateChunkQuotes(content, start, end, quotes) }]
+    ))
+  };
+}
+
+/**
+ * Analyze a text too long for one prompt: split it on paragraph and section
+ * boundaries into chunks sized to the context window of the provider that
+ * will take them, answer the 100 questions for each chunk, then merge the
+ * chunk answers into one profile. When the chunk answers themselves don't fit
+ * in one prompt, neighbouring chunks are merged in rounds first.
+ */
+export async function analyzeLongText(content: string, selectedModel: string, ctx: JobContext): Promise<LongTextAnalysis> {
+  const budget = getInputTokenBudget(selectedModel);
+  const promptTokens = estimateTokens(textChunkPrompt({ index: 0, start: 0, end: 0, text: "" }, 1));
+  const chunkChars = Math.max(MIN_TEXT_CHUNK_CHARS, (budget - promptTokens) * APPROX_CHARS_PER_TOKEN);
+  const chunks = splitTextIntoChunks(content, chunkChars);
+  console.log(`Analyzing ${content.length} characters in ${chunks.length} chunks of up to ${chunkChars} characters`);
+
+  // Map: the 100 questions for each chunk on its own
+  const chunkResults: TextChunkResult[] = [];
+  for (const chunk of chunks) {
+    ctx.throwIfCancelled();
+    ctx.report("llm", 15 + (55 * chunk.index) / chunks.length, `Analyzing part ${chunk.index + 1} of ${chunks.length}`);
+    const { data } = await generateValidated(textChunkInsightSchema, {
+      system: "You are an expert in personality analysis and psychological assessment.",
+      messages: [{ role: "user", content: textChunkPrompt(chunk, chunks.length) }],
+      maxTokens: 8000,
+      signal: ctx.signal
+    }, { preferred: selectedModel });
+    chunkResults.push(toChunkResult(data, content, chunk.index + 1, chunk.index + 1, chunk.start, chunk.end));
+  }
+
+  // Reduce: merge neighbouring results until they fit in the synthesis prompt
+  let results = chunkResults;
+  while (results.length > 1 && estimateTokens(textSynthesisPrompt(results, chunks.length)) > budget) {
+    const batches: TextChunkResult[][] = [];
+    for (const result of results) {
+      const batch = batches[batches.length - 1];
+      if (batch && estimateTokens(textChunkMergePrompt([...batch, result], chunks.length)) <= budget) {
+        batch.push(result);
+      } else {
+        batches.push([result]);
+      }
+    }
+    // Not even two parts fit one merge prompt, so only a fallback with a larger window can synthesize them
+    if (batches.length === results.length) break;
+    console.log(`Merging ${results.length} part results into ${batches.length} to fit the synthesis prompt`);
+
+    const merged: TextChunkResult[] = [];
+    for (const batch of batches) {
+      ctx.throwIfCancelled();
+      if (batch.length === 1) {
+        merged.push(batch[0]);
+        continue;
+      }
+
+      ctx.report("llm", 72, `Merging ${batch.length} parts`);
+      const { data } = await generateValidated(textChunkInsightSchema, {
+        system: "You are an expert in personality analysis and psychological assessment.",
+        messages: [{ role: "user", content: textChunkMergePrompt(batch, chunks.length) }],
+        maxTokens: 8000,
+        signal: ctx.signal
+      }, { preferred: selectedModel });
+      const last = batch[batch.length - 1];
+      merged.push(toChunkResult(data, content, batch[0].firstPart, last.lastPart, batch[0].start, last.end));
+    }
+    results = merged;
+  }
+
+  ctx.throwIfCancelled();
+  ctx.report("llm", 80, "Synthesizing the profile from all parts");
+  const { data: insight, provider } = await generateValidated(textSynthesisSchema, {
+    system: "You are an expert in personality analysis and psychological assessment.",
+    messages: [{ role: "user", content: textSynthesisPrompt(results, chunks.length) }],
+    maxTokens: 8000,
+    signal: ctx.signal
+  }, { preferred: selectedModel });
+
+  // Trace the chosen quotes back to where they are in the full text
+  insight.detailed_analysis.quoted_evidence = insight.detailed_analysis.speech_analysis.key_quotes.map(quote => {
+    const offset = findQuoteOffset(content, quote);
+    const chunk = chunks.find(c => offset >= c.start && offset < c.end);
+    if (offset === -1 || !chunk) {
+      return { quote, verified: false };
+    }
+    return { quote, offset, location: `part ${chunk.index + 1} of ${chunks.length}, character ${offset}`, verified: true };
+  });
+
+  return { insight, provider, chunkChars, chunks: chunkResults };
+}
@@ -0,0 +1,378 @@
+import fetch from 'node-fetch';
+import FormData from 'form-data';
+import { intersectionOverUnion } from './faceFusion';
+import type { FaceBox } from './faceProviders';
+
+const FACEPP_API_KEY = process.env.FACEPP_API_KEY;
+const FACEPP_API_SECRET = process.env.FACEPP_API_SECRET;
+
+// Past this gap a face could have moved anywhere in the frame, so position says nothing about identity
+const MAX_BOX_GAP_SECONDS = 8;
+const MIN_BOX_SCORE = 0.3;
+// Appearance signatures are coarse, so they only decide clear-cut cases
+const MIN_SIGNATURE_SIMILARITY = 0.9;
+// Upper bound on Face++ compare calls for one video
+const MAX_FACE_COMPARISONS = 40;
+
+/**
+ * Face analysis of one sampled video frame
+ */
+export interface TrackingFrame {
+  timestamp: number;
+  faceAnalysis: any[];
+}
+
+export interface EmotionSample {
+  timestamp: number;
+  primaryEmotion: string;
+  emotions?: Record<string, any>;
+}
+
+export interface LinkedUtterance {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string | number;
+  linkedBy: 'speaker' | 'sole_visible_face';
+}
+
+/**
+ * One person followed across a whole video under a single label
+ */
+export interface TrackedPerson {
+  trackId: number;
+  personLabel: string;
+  gender?: string;
+  age?: number;
+  firstSeen: number;
+  lastSeen: number;
+  appearances: number;
+  // Frame with this person's clearest (largest) face
+  representativeTimestamp: number;
+  emotionTimeline: EmotionSample[];
+  speakers: (string | number)[];
+  utterances: LinkedUtterance[];
+}
+
+export interface TrackingResult {
+  people: TrackedPerson[];
+  // One face analysis entry per tracked person, taken from their representative frame
+  representatives: any[];
+}
+
+interface Detection {
+  timestamp: number;
+  person: any;
+  box: FaceBox | null;
+  faceToken?: string;
+  signature: number[] | null;
+}
+
+interface Track {
+  trackId: number;
+  detections: Detection[];
+}
+
+/**
+ * How likely two boxes in nearby frames hold the same face. Faces move between
+ * samples a second or more apart, so besides overlap a nearby centre of a
+ * similar-sized box also counts.
+ */
+function boxContinuityScore(a: FaceBox, b: FaceBox): number {
+  const dx = (a.left + a.width / 2) - (b.left + b.width / 2);
+  const dy = (a.top + a.height / 2) - (b.top + b.height / 2);
+  const reach = 1.5 * Math.max(a.width, a.height, b.width, b.height);
+  const centreScore = Math.max(0, 1 - Math.hypot(dx, dy) / reach);
+  const sizeRatio = Math.min(a.width * a.height, b.width * b.height) / Math.max(a.width * a.height, b.width * b.height);
+
+  return Math.max(intersectionOverUnion(a, b), centreScore * sizeRatio * 0.8);
+}
+
+/**
+ * Local appearance embedding built from face attributes that don't change
+ * within a clip. Coarse, but available without any API call.
+ */
+function appearanceSignature(person: any): number[] | null {
+  const analysis = person.integratedAnalysis;
+  if (!analysis || typeof analysis.age !== 'number' || !analysis.gender || analysis.gender === 'unknown') {
+    return null;
+  }
+
+  const faceppAttributes = person.multiServiceData?.facepp?.attributes;
+  const ethnicity = String(faceppAttributes?.ethnicity?.value || '').toUpperCase();
+  const glasses = String(faceppAttributes?.glass?.value || analysis.facial_features?.glasses || 'none');
+
+  return [
+    /^male$/i.test(analysis.gender) ? 1 : 0,
+    analysis.age / 100,
+    (faceppAttributes?.beard?.value || 0) / 100,
+    /none/i.test(glasses) ? 0 : 1,
+    ...['ASIAN', 'WHITE', 'BLACK', 'INDIA'].map(group => (ethnicity === group ? 1 : 0))
+  ];
+}
+
+function signatureSimilarity(a: number[], b: number[]): number {
+  // Gender is the one attribute the services rarely flip between frames
+  if (a[0] !== b[0]) return 0;
+
+  const distance = Math.hypot(...a.map((value, i) => value - b[i]));
+  return Math.max(0, 1 - distance);
+}
+
+/**
+ * Ask Face++ whether two detections are the same person. Returns null when
+ * Face++ isn't configured or the call fails.
+ */
+async function compareFaceTokens(faceToken1: string, faceToken2: string): Promise<boolean | null> {
+  if (!FACEPP_API_KEY || !FACEPP_API_SECRET) return null;
+
+  try {
+    const formData = new FormData();
+    formData.append('api_key', FACEPP_API_KEY);
+    formData.append('api_secret', FACEPP_API_SECRET);
+    formData.append('face_token1', faceToken1);
+    formData.append('face_token2', faceToken2);
+
+    const response = await fetch('https://api-us.faceplusplus.com/facepp/v3/compare', {
+      method: 'POST',
+      body: formData
+    });
+
+    if (!response.ok) {
+      console.warn('Face++ compare returned an error:', await response.text());
+      return null;
+    }
+
+    const data = await response.json() as any;
+    if (typeof data.confidence !== 'number' || !data.thresholds) return null;
+    // Face++ recommends the 1e-4 false-accept threshold for verifying identity
+    return data.confidence >= data.thresholds['1e-4'];
+  } catch (error) {
+    console.warn('Face++ compare failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Pair detections with tracks, best score first, each at most once
+ */
+function assignGreedy(
+  pairs: { detection: number; track: number; score: number }[],
+  minScore: number,
+  assignedDetections: Map<number, Track>,
+  tracks: Track[]
+) {
+  const usedTracks = new Set(assignedDetections.values());
+  for (const pair of [...pairs].sort((a, b) => b.score - a.score)) {
+    const track = tracks[pair.track];
+    if (pair.score < minScore || assignedDetections.has(pair.detection) || usedTracks.has(track)) continue;
+    assignedDetections.set(pair.detection, track);
+    usedTracks.add(track);
+  }
+}
+
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function boxArea(detection: Detection): number {
+  return detection.box ? detection.box.width * detection.box.height : 0;
+}
+
+/**
+ * Follow people across the sampled frames of a video so each keeps one label
+ * for the whole clip. Faces are matched to tracks by bounding-box continuity
+ * between nearby frames first; faces that reappear after a gap or a cut are
+ * re-identified with Face++ face token comparison, falling back to a local
+ * appearance signature.
+ *
+ * Relabels the face analysis entries in every frame in place (personLabel,
+ * personIndex and trackId) so the frame timeline uses the tracked labels.
+ */
+export async function trackPeopleAcrossFrames(frames: TrackingFrame[]): Promise<TrackingResult> {
+  const tracks: Track[] = [];
+  let comparisons = 0;
+
+  for (const frame of [...frames].sort((a, b) => a.timestamp - b.timestamp)) {
+    const detections: Detection[] = frame.faceAnalysis.map(person => ({
+      timestamp: frame.timestamp,
+      person,
+      // Keyframes of one video share its native size, so pixel boxes compare directly across frames
+      box: person.boundingBox?.width > 0 && person.boundingBox.height > 0 ? person.boundingBox : null,
+      faceToken: person.multiServiceData?.facepp?.face_token,
+      signature: appearanceSignature(person)
+    }));
+    const assigned = new Map<number, Track>();
+
+    // 1. Position continuity with tracks seen recently
+    const boxPairs: { detection: number; track: number; score: number }[] = [];
+    detections.forEach((detection, d) => {
+      tracks.forEach((track, t) => {
+        const last = track.detections[track.detections.length - 1];
+        if (!detection.box || !last.box || frame.timestamp - last.timestamp > MAX_BOX_GAP_SECONDS) return;
+        boxPairs.push({ detection: d, track: t, score: boxContinuityScore(detection.box, last.box) });
+      });
+    });
+    assignGreedy(boxPairs, MIN_BOX_SCORE, assigned, tracks);
+
+    // 2. Face++ identity comparison for faces position couldn't place
+    const usedTracks = () => new Set(assigned.values());
+    for (let d = 0; d < detections.length; d++) {
+      const detection = detections[d];
+      if (assigned.has(d) || !detection.faceToken) continue;
+
+      for (const track of tracks) {
+        if (usedTracks().has(track) || comparisons >= MAX_FACE_COMPARISONS) continue;
+        const trackToken = [...track.detections].reverse().find(previous => previous.faceToken)?.faceToken;
+        if (!trackToken) continue;
+
+        comparisons++;
+        if (await compareFaceTokens(detection.faceToken, trackToken)) {
+          assigned.set(d, track);
+          break;
+        }
+      }
+    }
+
+    // 3. Appearance signature, only when exactly one free track resembles the face
+    const signaturePairs: { detection: number; track: number; score: number }[] = [];
+    detections.forEach((detection, d) => {
+      if (assigned.has(d) || !detection.signature) return;
+
+      const matches = tracks
+        .map((track, t) => {
+          const signatures = track.detections.map(previous => previous.signature).filter((s): s is number[] => !!s);
+          const best = Math.max(0, ...signatures.map(signature => signatureSimilarity(detection.signature!, signature)));
+          return { detection: d, track: t, score: best };
+        })
+        .filter(pair => pair.score >= MIN_SIGNATURE_SIMILARITY && !usedTracks().has(tracks[pair.track]));
+      if (matches.length === 1) signaturePairs.push(matches[0]);
+    });
+    assignGreedy(signaturePairs, MIN_SIGNATURE_SIMILARITY, assigned, tracks);
+
+    // Anyone still unmatched is someone new
+    detections.forEach((detection, d) => {
+      const track = assigned.get(d);
+      if (track) {
+        track.detections.push(detection);
+      } else {
+        tracks.push({ trackId: tracks.length + 1, detections: [detection] });
+      }
+    });
+  }
+
+  // Number people in order of first appearance
+  const people: TrackedPerson[] = [];
+  const representatives: any[] = [];
+
+  tracks.forEach((track, i) => {
+    const personIndex = i + 1;
+    const genders = track.detections
+      .map(detection => detection.person.integratedAnalysis?.gender)
+      .filter(gender => gender && gender !== 'unknown');
+    const gender = mostCommon(genders);
+    const personLabel = gender ? `Person ${personIndex} (${/^male$/i.test(gender) ? 'Male' : 'Female'})` : `Person ${personIndex}`;
+
+    for (const detection of track.detections) {
+      detection.person.personLabel = personLabel;
+      detection.person.personIndex = personIndex;
+      detection.person.trackId = track.trackId;
+    }
+
+    const ages = track.detections
+      .map(detection => detection.person.integratedAnalysis?.age)
+      .filter((age): age is number => typeof age === 'number');
+    const representative = track.detections.reduce((best, detection) => (boxArea(detection) > boxArea(best) ? detection : best));
+
+    people.push({
+      trackId: track.trackId,
+      personLabel,
+      gender,
+      age: ages.length > 0 ? Math.round(ages.reduce((sum, age) => sum + age, 0) / ages.length) : undefined,
+      firstSeen: track.detections[0].timestamp,
+      lastSeen: track.detections[track.detections.length - 1].timestamp,
+      appearances: track.detections.length,
+      representativeTimestamp: representative.timestamp,
+      emotionTimeline: track.detections.map(detection => ({
+        timestamp: detection.timestamp,
+        primaryEmotion: detection.person.integratedAnalysis?.emotions?.primary || 'unknown',
+        emotions: detection.person.integratedAnalysis?.emotions?.detailed
+      })),
+      speakers: [],
+      utterances: []
+    });
+    representatives.push(representative.person);
+  });
+
+  console.log(`Tracked ${people.length} people across ${frames.length} frames (${comparisons} face comparisons)`);
+  return { people, representatives };
+}
+
+/**
+ * Attach transcribed utterances to the tracked people who said them. Diarized
+ * speakers are matched to whoever is on screen most while that speaker talks;
+ * utterances without a speaker are only linked when exactly one person is
+ * visible. A person counts as visible within `tolerance` seconds of a frame
+ * they were seen in. Linked utterances also get the person's label.
+ *
+ * Returns the number of utterances that could be linked.
+ */
+export function linkUtterancesToPeople(people: TrackedPerson[], utterances: any[], tolerance: number): number {
+  const visibleDuring = (start: number, end: number) =>
+    people.filter(person =>
+      person.emotionTimeline.some(sample => sample.timestamp >= start - tolerance && sample.timestamp <= end + tolerance)
+    );
+
+  // Vote each speaker onto the people visible while they talk
+  const speakerVotes = new Map<string | number, Map<TrackedPerson, number>>();
+  const speakerUtterances = new Map<string | number, number>();
+  for (const utterance of utterances) {
+    if (utterance.speaker === undefined || utterance.speaker === null) continue;
+
+    const visible = visibleDuring(utterance.start, utterance.end);
+    const votes = speakerVotes.get(utterance.speaker) || new Map<TrackedPerson, number>();
+    visible.forEach(person => votes.set(person, (votes.get(person) || 0) + 1 / visible.length));
+    speakerVotes.set(utterance.speaker, votes);
+    speakerUtterances.set(utterance.speaker, (speakerUtterances.get(utterance.speaker) || 0) + 1);
+  }
+
+  // One person per speaker, and only with a clear majority of that speaker's utterances
+  const speakerPeople = new Map<string | number, TrackedPerson>();
+  const votePairs = Array.from(speakerVotes.entries()).flatMap(([speaker, votes]) =>
+    Array.from(votes.entries()).map(([person, vote]) => ({ speaker, person, share: vote / speakerUtterances.get(speaker)! }))
+  );
+  const claimedPeople = new Set<TrackedPerson>();
+  for (const { speaker, person, share } of votePairs.sort((a, b) => b.share - a.share)) {
+    if (share <= 0.5 || speakerPeople.has(speaker) || claimedPeople.has(person)) continue;
+    speakerPeople.set(speaker, person);
+    claimedPeople.add(person);
+    person.speakers.push(speaker);
+  }
+
+  let linked = 0;
+  for (const utterance of utterances) {
+    const hasSpeaker = utterance.speaker !== undefined && utterance.speaker !== null;
+    let person = hasSpeaker ? speakerPeople.get(utterance.speaker) : undefined;
+    let linkedBy: LinkedUtterance['linkedBy'] = 'speaker';
+    if (!person) {
+      const visible = visibleDuring(utterance.start, utterance.end);
+      if (visible.length !== 1) continue;
+      person = visible[0];
+      linkedBy = 'sole_visible_face';
+    }
+
+    person.utterances.push({
+      start: utterance.start,
+      end: utterance.end,
+      text: utterance.text,
+      ...(hasSpeaker && { speaker: utterance.speaker }),
+      linkedBy
+    });
+    utterance.personLabel = person.personLabel;
+    linked++;
+  }
+
+  return linked;
+}
@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { promisify } from 'util';
+import ffmpeg from 'fluent-ffmpeg';
+import { getVideoDuration } from './video';
+import { getTranscriptionProviders, type Transcript } from './transcriptionProviders';
+import { analyzeProsody } from './prosody';
+
+// For temporary file storage
+const tempDir = os.tmpdir();
+const unlinkAsync = promisify(fs.unlink);
+
+/**
+ * Helper function to extract audio from video and transcribe it, trying each configured
+ * transcription service in turn (see getTranscriptionProviders) until one succeeds
+ */
+export async function extractAudioTranscription(videoPath: string): Promise<any> {
+  try {
+    // Extract audio from video
+    const randomId = Math.random().toString(36).substring(2, 15);
+    const audioPath = path.join(tempDir, `${randomId}.mp3`);
+    
+    console.log('Extracting audio from video...');
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(videoPath)
+        .output(audioPath)
+        .audioCodec('libmp3lame')
+        .audioChannels(1)
+        .audioFrequency(16000)
+        .on('end', () => resolve())
+        .on('error', (err: Error) => {
+          console.error('Error extracting audio:', err);
+          reject(err);
+        })
+        .run();
+    });
+    
+    console.log('Audio extraction complete, starting transcription...');
+    
+    const audio = await fs.promises.readFile(audioPath);
+    const audioDuration = await getVideoDuration(audioPath);
+    
+    // Use the first service that returns a transcript
+    let transcript: Transcript | null = null;
+    const failures: { provider: string; error: string }[] = [];
+    for (const provider of getTranscriptionProviders()) {
+      try {
+        console.log(`Attempting transcription with ${provider.name}...`);
+        transcript = await provider.transcribe({ audio, audioPath, duration: audioDuration });
+        console.log(`${provider.name} transcription successful!`);
+        break;
+      } catch (error) {
+        console.error(`${provider.name} transcription error:`, error);
+        failures.push({ provider: provider.name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    
+    // Measure pitch, loudness, pace and pauses from the same audio; the transcript still counts if this fails
+    const prosody = await analyzeProsody(audioPath, transcript).catch(error => {
+      console.error('Prosody analysis error:', error);
+      return null;
+    });
+    
+    // Clean up temp file
+    await unlinkAsync(audioPath).catch(err => console.warn('Error deleting temp audio file:', err));
+    
+    // If no transcription service worked
+    if (!transcript) {
+      console.error('All transcription services failed');
+      return {
+        transcription: "Failed to transcribe audio. None of the transcription services were able to process this video.",
+        transcriptionData: {
+          full_text: "Failed to transcribe audio. None of the transcription services were able to process this video.",
+          utterances: [],
+          words: [],
+          speakers: []
+        },
+        speechAnalysis: {
+          provider: "none",
+          averageConfidence: 0,
+          speakingRate: 0,
+          error: "All transcription services failed",
+          failures
+        },
+        prosody
+      };
+    }
+    
+    // Calculate speaking rate based on word count and duration
+    const wordCount = transcript.words.length || transcript.text.split(/\s+/).filter(Boolean).length;
+    const speakingRate = audioDuration > 0 ? wordCount / audioDuration : 0;
+    
+    // Return standardized response format with detailed transcription data
+    return {
+      // Original transcription text (for backwards compatibility)
+      transcription: transcript.text,
+      // Normalized transcript for UI, quote extraction and speaker linking
+      transcriptionData: {
+        full_text: transcript.text,
+        utterances: transcript.utterances,
+        words: transcript.words,
+        speakers: transcript.speakers
+      },
+      speechAnalysis: {
+        provider: transcript.provider,
+        averageConfidence: transcript.confidence,
+        speakingRate,
+        wordCount,
+        duration: audioDuration,
+        language: transcript.language,
+        speakerCount: transcript.speakers.length,
+        entities: transcript.entities,
+        topics: transcript.topics,
+        ...(failures.length > 0 && { failures })
+      },
+      // Measured separately from the transcription; stored on the analysis on its own
+      prosody
+    };
+  } catch (error) {
+    console.error('Error in audio transcription:', error);
+    // Return a minimal object if transcription fails
+    return {
+      transcription: "Failed to transcribe audio. Please try again with clearer audio or a different video.",
+      speechAnalysis: {
+        provider: "error",
+        averageConfidence: 0,
+        speakingRate: 0,
+        error: error instanceof Error ? error.message : "Unknown transcription error"
+      }
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getTranscriptionProviders } from "./transcriptionProviders";
+
+const INPUT = { audio: Buffer.alloc(0), audioPath: "", duration: 12 };
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function providerNames() {
+  return getTranscriptionProviders().map(provider => provider.name);
+}
+
+describe("transcription providers", () => {
+  it("fall back in the default order, skipping services without a recording", () => {
+    vi.stubEnv("TRANSCRIPTION_FAKE_PROVIDERS", "true");
+
+    expect(providerNames()).toEqual(["assemblyai", "openai_whisper"]);
+  });
+
+  it("follow TRANSCRIPTION_FALLBACK_ORDER, dropping unknown and repeated names", () => {
+    vi.stubEnv("TRANSCRIPTION_FAKE_PROVIDERS", "true");
+
+    vi.stubEnv("TRANSCRIPTION_FALLBACK_ORDER", "openai_whisper, assemblyai");
+    expect(providerNames()).toEqual(["openai_whisper", "assemblyai"]);
+
+    vi.stubEnv("TRANSCRIPTION_FALLBACK_ORDER", "deepgram,openai_whisper,nobody,openai_whisper");
+    expect(providerNames()).toEqual(["openai_whisper"]);
+  });
+
+  it("return a diarized recording with its speakers and sentiment", async () => {
+    vi.stubEnv("TRANSCRIPTION_FAKE_PROVIDERS", "true");
+    const [assemblyai] = getTranscriptionProviders();
+
+    const transcript = await assemblyai.transcribe(INPUT);
+
+    expect(transcript).toMatchObject({ provider: "assemblyai", language: "en", confidence: 0.93, speakers: ["A", "B"] });
+    expect(transcript.utterances[0]).toEqual({
+      text: "Thanks for coming in today.",
+      start: 0.4,
+      end: 1.9,
+      speaker: "A",
+      sentiment: "positive",
+      sentimentConfidence: 0.88,
+      confidence: null
+    });
+    expect(transcript.words.every(word => word.speaker !== null)).toBe(true);
+  });
+
+  it("fill in what a service leaves out", async () => {
+    vi.stubEnv("TRANSCRIPTION_FAKE_PROVIDERS", "true");
+    vi.stubEnv("TRANSCRIPTION_FALLBACK_ORDER", "openai_whisper");
+    const [whisper] = getTranscriptionProviders();
+
+    const transcript = await whisper.transcribe(INPUT);
+
+    expect(transcript.speakers).toEqual([]);
+    expect(transcript.words).toEqual([]);
+    expect(transcript.utterances[0]).toMatchObject({ speaker: null, sentiment: "unknown", sentimentConfidence: null, confidence: null });
+  });
+
+  it("read TRANSCRIPTION_FAKE_FIXTURE, covering bare text with one utterance and word speakers from the turn they fall in", async () => {
+    const fixturePath = path.join(os.tmpdir(), `transcripts-${process.pid}.json`);
+    fs.writeFileSync(fixturePath, JSON.stringify({
+      gladia: { text: "Just one line." },
+      deepgram: {
+        text: "Hi there. Hello.",
+        utterances: [{ text: "Hi there.", start: 0, end: 1, speaker: "0" }, { text: "Hello.", start: 1.2, end: 2, speaker: "1" }],
+        words: [{ text: "Hi", start: 0, end: 0.4 }, { text: "there", start: 0.4, end: 1 }, { text: "Hello", start: 1.2, end: 2 }]
+      }
+    }));
+    vi.stubEnv("TRANSCRIPTION_FAKE_PROVIDERS", "true");
+    vi.stubEnv("TRANSCRIPTION_FAKE_FIXTURE", fixturePath);
+
+    try {
+      const [gladia, deepgram] = getTranscriptionProviders();
+      expect([gladia.name, deepgram.name]).toEqual(["gladia", "deepgram"]);
+
+      expect((await gladia.transcribe(INPUT)).utterances).toEqual([
+        { text: "Just one line.", start: 0, end: 12, speaker: null, sentiment: "unknown", sentimentConfidence: null, confidence: null }
+      ]);
+      const transcript = await deepgram.transcribe(INPUT);
+      expect(transcript.speakers).toEqual(["0", "1"]);
+      expect(transcript.words.map(word => word.speaker)).toEqual(["0", "0", "1"]);
+    } finally {
+      fs.unlinkSync(fixturePath);
+    }
+  });
+});
@@ -0,0 +1,434 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import FormData from 'form-data';
+import { openai } from './llm';
+
+// API Keys available for transcription services
+const GLADIA_API_KEY = process.env.GLADIA_API_KEY;
+const ASSEMBLYAI_API_KEY = process.env.ASSEMBLYAI_API_KEY;
+const DEEPGRAM_API_KEY = process.env.DEEPGRAM_API_KEY;
+
+// Log available APIs for transcription
+if (GLADIA_API_KEY) {
+  console.log("Gladia transcription API available");
+}
+
+if (ASSEMBLYAI_API_KEY) {
+  console.log("AssemblyAI transcription API available");
+}
+
+if (DEEPGRAM_API_KEY) {
+  console.log("Deepgram transcription API available");
+}
+
+export type TranscriptionProviderName = 'gladia' | 'assemblyai' | 'deepgram' | 'openai_whisper';
+
+export const TRANSCRIPTION_PROVIDER_NAMES: TranscriptionProviderName[] = ['gladia', 'assemblyai', 'deepgram', 'openai_whisper'];
+
+export type UtteranceSentiment = 'positive' | 'negative' | 'neutral' | 'unknown';
+
+/**
+ * One spoken word. Times are in seconds from the start of the audio.
+ */
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence: number | null; // 0-1, null when the service doesn't score words
+  speaker: string | null;
+}
+
+/**
+ * A stretch of speech by one speaker, usually a sentence or a turn
+ */
+export interface TranscriptUtterance {
+  text: string;
+  start: number;
+  end: number;
+  speaker: string | null;
+  sentiment: UtteranceSentiment;
+  sentimentConfidence: number | null; // 0-1
+  confidence: number | null; // Transcription confidence, 0-1
+  personLabel?: string; // Set once the speaker is matched to a tracked face
+}
+
+/**
+ * A transcript as returned by any service, in one shape. Speaker ids are the
+ * service's own diarization labels, as strings.
+ */
+export interface Transcript {
+  provider: TranscriptionProviderName;
+  text: string;
+  language: string | null;
+  confidence: number | null; // 0-1
+  words: TranscriptWord[];
+  utterances: TranscriptUtterance[];
+  speakers: string[];
+  entities?: any[]; // AssemblyAI entity detection
+  topics?: Record<string, number>; // AssemblyAI topic detection, relevance by topic
+  raw: any; // The service's own response
+}
+
+export interface TranscriptionInput {
+  audio: Buffer; // 16kHz mono MP3
+  audioPath: string; // The same audio on disk, for SDKs that want a file
+  duration: number; // Seconds
+}
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  isAvailable(): boolean;
+  transcribe(input: TranscriptionInput): Promise<Transcript>;
+}
+
+// How long to wait for AssemblyAI's asynchronous transcription, polling once a second
+const ASSEMBLYAI_MAX_POLLS = 30;
+
+// Fallback order when TRANSCRIPTION_FALLBACK_ORDER isn't set
+const DEFAULT_PROVIDER_ORDER: TranscriptionProviderName[] = ['gladia', 'assemblyai', 'deepgram', 'openai_whisper'];
+
+function normalizeSentiment(sentiment: unknown): UtteranceSentiment {
+  const value = String(sentiment || '').toLowerCase();
+  return value === 'positive' || value === 'negative' || value === 'neutral' ? value : 'unknown';
+}
+
+function normalizeSpeaker(speaker: unknown): string | null {
+  return speaker === undefined || speaker === null || speaker === '' ? null : String(speaker);
+}
+
+function optionalNumber(value: unknown): number | null {
+  return typeof value === 'number' && !isNaN(value) ? value : null;
+}
+
+/**
+ * Fill in what every transcript should have but services leave out: a fallback
+ * utterance covering the whole text, word speakers taken from the utterance each
+ * word falls in, and the list of speakers
+ */
+function completeTranscript(transcript: Omit<Transcript, 'speakers'>, duration: number): Transcript {
+  const utterances = transcript.utterances.length > 0 || !transcript.text
+    ? transcript.utterances
+    : [{ text: transcript.text, start: 0, end: duration || 0, speaker: null, sentiment: 'unknown' as const, sentimentConfidence: null, confidence: transcript.confidence }];
+
+  const words = transcript.words.map(word => {
+    if (word.speaker !== null) return word;
+    const middle = (word.start + word.end) / 2;
+    const utterance = utterances.find(u => u.speaker !== null && middle >= u.start && middle <= u.end);
+    return utterance ? { ...word, speaker: utterance.speaker } : word;
+  });
+
+  const speakers = Array.from(new Set(
+    [...utterances.map(u => u.speaker), ...words.map(word => word.speaker)].filter((speaker): speaker is string => speaker !== null)
+  ));
+
+  return { ...transcript, utterances, words, speakers };
+}
+
+const gladiaProvider: TranscriptionProvider = {
+  name: 'gladia',
+  isAvailable: () => !!GLADIA_API_KEY,
+  async transcribe({ audio, duration }) {
+    const formData = new FormData();
+    formData.append('audio', audio, 'audio.mp3');
+
+    const response = await fetch('https://api.gladia.io/v2/transcription', {
+      method: 'POST',
+      headers: {
+        'x-gladia-key': GLADIA_API_KEY!,
+      },
+      // @ts-ignore: FormData is compatible with fetch API's Body type
+      body: formData
+    });
+    if (!response.ok) {
+      throw new Error(`Gladia API returned ${response.status}`);
+    }
+
+    const result = await response.json() as any;
+    const prediction = result.prediction;
+    if (!prediction?.transcription) {
+      throw new Error('Gladia returned no transcription');
+    }
+
+    // Segments stand in for utterances when Gladia doesn't split by speaker
+    const turns: any[] = prediction.utterances?.length > 0 ? prediction.utterances : prediction.segments || [];
+    return completeTranscript({
+      provider: 'gladia',
+      text: prediction.transcription,
+      language: prediction.language || null,
+      confidence: optionalNumber(prediction.confidence),
+      words: (prediction.words || []).map((word: any) => ({
+        text: word.word || word.text,
+        start: word.start,
+        end: word.end,
+        confidence: optionalNumber(word.confidence),
+        speaker: normalizeSpeaker(word.speaker)
+      })),
+      utterances: turns.map(turn => ({
+        text: turn.text,
+        start: turn.start,
+        end: turn.end,
+        speaker: normalizeSpeaker(turn.speaker),
+        sentiment: 'unknown', // Gladia doesn't provide sentiment
+        sentimentConfidence: null,
+        confidence: optionalNumber(turn.confidence)
+      })),
+      raw: result
+    }, duration);
+  }
+};
+
+const assemblyaiProvider: TranscriptionProvider = {
+  name: 'assemblyai',
+  isAvailable: () => !!ASSEMBLYAI_API_KEY,
+  async transcribe({ audio, duration }) {
+    // First upload the audio file
+    const uploadResponse = await fetch('https://api.assemblyai.com/v2/upload', {
+      method: 'POST',
+      headers: {
+        'Authorization': ASSEMBLYAI_API_KEY!,
+        'Content-Type': 'application/json'
+      },
+      body: audio
+    });
+    if (!uploadResponse.ok) {
+      throw new Error(`AssemblyAI upload returned ${uploadResponse.status}`);
+    }
+    const { upload_url } = await uploadResponse.json() as any;
+
+    // Submit for transcription with sentiment analysis
+    const transcribeResponse = await fetch('https://api.assemblyai.com/v2/transcript', {
+      method: 'POST',
+      headers: {
+        'Authorization': ASSEMBLYAI_API_KEY!,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        audio_url: upload_url,
+        sentiment_analysis: true, // Enable sentiment analysis
+        speaker_labels: true,     // Diarization, so speakers can be matched to tracked faces
+        entity_detection: true,   // Identify entities
+        iab_categories: true      // Topic detection
+      })
+    });
+    if (!transcribeResponse.ok) {
+      throw new Error(`AssemblyAI transcript request returned ${transcribeResponse.status}`);
+    }
+    const { id } = await transcribeResponse.json() as any;
+
+    // Poll for completion (AssemblyAI is async)
+    let transcript: any;
+    for (let i = 0; i < ASSEMBLYAI_MAX_POLLS && transcript?.status !== 'completed'; i++) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      const pollingResponse = await fetch(`https://api.assemblyai.com/v2/transcript/${id}`, {
+        headers: { 'Authorization': ASSEMBLYAI_API_KEY! }
+      });
+      if (pollingResponse.ok) {
+        transcript = await pollingResponse.json();
+        if (transcript.status === 'error') {
+          throw new Error(`AssemblyAI transcription failed: ${transcript.error}`);
+        }
+      }
+    }
+    if (transcript?.status !== 'completed') {
+      throw new Error(`AssemblyAI transcription didn't finish within ${ASSEMBLYAI_MAX_POLLS} seconds`);
+    }
+
+    // AssemblyAI times are in milliseconds. Sentiment results are per sentence, with speakers.
+    return completeTranscript({
+      provider: 'assemblyai',
+      text: transcript.text || '',
+      language: transcript.language_code || null,
+      confidence: optionalNumber(transcript.confidence),
+      words: (transcript.words || []).map((word: any) => ({
+        text: word.text,
+        start: word.start / 1000,
+        end: word.end / 1000,
+        confidence: optionalNumber(word.confidence),
+        speaker: normalizeSpeaker(word.speaker)
+      })),
+      utterances: (transcript.sentiment_analysis_results || []).map((sentence: any) => ({
+        text: sentence.text,
+        start: sentence.start / 1000,
+        end: sentence.end / 1000,
+        speaker: normalizeSpeaker(sentence.speaker),
+        sentiment: normalizeSentiment(sentence.sentiment),
+        sentimentConfidence: optionalNumber(sentence.confidence),
+        confidence: null
+      })),
+      entities: transcript.entities || [],
+      topics: transcript.iab_categories_result?.summary || {},
+      raw: transcript
+    }, duration);
+  }
+};
+
+const deepgramProvider: TranscriptionProvider = {
+  name: 'deepgram',
+  isAvailable: () => !!DEEPGRAM_API_KEY,
+  async transcribe({ audio, duration }) {
+    // Called directly rather than through the SDK, which gave us trouble
+    const response = await fetch('https://api.deepgram.com/v1/listen?model=nova-2&detect_language=true&punctuate=true&diarize=true&utterances=true', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Token ${DEEPGRAM_API_KEY}`,
+        'Content-Type': 'audio/mp3'
+      },
+      body: audio
+    });
+    if (!response.ok) {
+      throw new Error(`Deepgram API returned ${response.status}`);
+    }
+
+    const result = await response.json() as any;
+    const channel = result.results?.channels?.[0];
+    const alternative = channel?.alternatives?.[0];
+    if (!alternative) {
+      throw new Error('Deepgram returned no transcription');
+    }
+
+    return completeTranscript({
+      provider: 'deepgram',
+      text: alternative.transcript || '',
+      language: channel.detected_language || null,
+      confidence: optionalNumber(alternative.confidence),
+      words: (alternative.words || []).map((word: any) => ({
+        text: word.punctuated_word || word.word,
+        start: word.start,
+        end: word.end,
+        confidence: optionalNumber(word.confidence),
+        speaker: normalizeSpeaker(word.speaker)
+      })),
+      utterances: (result.results.utterances || []).map((utterance: any) => ({
+        text: utterance.transcript,
+        start: utterance.start,
+        end: utterance.end,
+        speaker: normalizeSpeaker(utterance.speaker),
+        sentiment: 'unknown', // Deepgram doesn't provide sentiment
+        sentimentConfidence: null,
+        confidence: optionalNumber(utterance.confidence)
+      })),
+      raw: result
+    }, duration);
+  }
+};
+
+const whisperProvider: TranscriptionProvider = {
+  name: 'openai_whisper',
+  isAvailable: () => !!openai,
+  async transcribe({ audioPath, duration }) {
+    const response = await openai!.audio.transcriptions.create({
+      file: fs.createReadStream(audioPath),
+      model: 'whisper-1',
+      language: 'en',
+      response_format: 'verbose_json',
+      timestamp_granularities: ['word', 'segment']
+    });
+
+    // Whisper scores neither words nor segments, and doesn't tell speakers apart
+    return completeTranscript({
+      provider: 'openai_whisper',
+      text: response.text,
+      language: response.language || null,
+      confidence: null,
+      words: (response.words || []).map(word => ({
+        text: word.word,
+        start: word.start,
+        end: word.end,
+        confidence: null,
+        speaker: null
+      })),
+      utterances: (response.segments || []).map(segment => ({
+        text: segment.text.trim(),
+        start: segment.start,
+        end: segment.end,
+        speaker: null,
+        sentiment: 'unknown',
+        sentimentConfidence: null,
+        confidence: null
+      })),
+      raw: response
+    }, duration);
+  }
+};
+
+// Bundled fixture for TRANSCRIPTION_FAKE_PROVIDERS; TRANSCRIPTION_FAKE_FIXTURE points at a different one
+const DEFAULT_TRANSCRIPT_FIXTURE = 'server/fixtures/transcripts/interview.json';
+
+type RecordedTranscript = Partial<Omit<Transcript, 'words' | 'utterances'>> & {
+  words?: Partial<TranscriptWord>[];
+  utterances?: Partial<TranscriptUtterance>[];
+};
+
+type TranscriptFixture = Partial<Record<TranscriptionProviderName, RecordedTranscript>>;
+
+const fixtureCache = new Map<string, TranscriptFixture>();
+
+function loadTranscriptFixture(): TranscriptFixture {
+  const fixturePath = path.resolve(process.env.TRANSCRIPTION_FAKE_FIXTURE || DEFAULT_TRANSCRIPT_FIXTURE);
+  if (!fixtureCache.has(fixturePath)) {
+    fixtureCache.set(fixturePath, JSON.parse(fs.readFileSync(fixturePath, 'utf-8')));
+  }
+  return fixtureCache.get(fixturePath)!;
+}
+
+/**
+ * Stand-in for a real service that replays the transcript recorded for it in a
+ * fixture, whatever the audio. Lets the video pipeline run offline without keys.
+ */
+function createFixtureProvider(name: TranscriptionProviderName): TranscriptionProvider {
+  return {
+    name,
+    isAvailable: () => !!loadTranscriptFixture()[name],
+    async transcribe({ duration }) {
+      const recorded = loadTranscriptFixture()[name]!;
+      return completeTranscript({
+        text: '',
+        language: null,
+        confidence: null,
+        ...recorded,
+        words: (recorded.words || []).map(word => ({ confidence: null, speaker: null, ...word }) as TranscriptWord),
+        utterances: (recorded.utterances || []).map(utterance => ({
+          speaker: null,
+          sentiment: 'unknown',
+          sentimentConfidence: null,
+          confidence: null,
+          ...utterance
+        }) as TranscriptUtterance),
+        provider: name,
+        raw: recorded.raw ?? recorded
+      }, duration);
+    }
+  };
+}
+
+const providers = new Map<TranscriptionProviderName, TranscriptionProvider>();
+
+export function registerTranscriptionProvider(provider: TranscriptionProvider) {
+  providers.set(provider.name, provider);
+}
+
+registerTranscriptionProvider(gladiaProvider);
+registerTranscriptionProvider(assemblyaiProvider);
+registerTranscriptionProvider(deepgramProvider);
+registerTranscriptionProvider(whisperProvider);
+
+const fixtureProviders = new Map(TRANSCRIPTION_PROVIDER_NAMES.map(name => [name, createFixtureProvider(name)]));
+
+/**
+ * Transcription services to try, in order, skipping any that aren't configured.
+ * TRANSCRIPTION_FALLBACK_ORDER (comma-separated names) sets which services are
+ * used and in what order, and TRANSCRIPTION_FAKE_PROVIDERS=true swaps every
+ * service for its fixture-backed fake.
+ */
+export function getTranscriptionProviders(): TranscriptionProvider[] {
+  const order = process.env.TRANSCRIPTION_FALLBACK_ORDER
+    ? process.env.TRANSCRIPTION_FALLBACK_ORDER.split(',').map(name => name.trim()) as TranscriptionProviderName[]
+    : DEFAULT_PROVIDER_ORDER;
+  const pool = process.env.TRANSCRIPTION_FAKE_PROVIDERS === 'true' ? fixtureProviders : providers;
+
+  return Array.from(new Set(order))
+    .map(name => pool.get(name))
+    .filter((provider): provider is TranscriptionProvider => !!provider && provider.isAvailable());
+}
@@ -0,0 +1,409 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import type { Readable } from 'stream';
+
+// Where uploaded media is written, and how long it's kept for re-analysis
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'media-uploads');
+const UPLOAD_RETENTION_MS = Number(process.env.UPLOAD_RETENTION_HOURS || 12) * 60 * 60 * 1000;
+
+// Largest file either upload path takes; bigger videos than a JSON body could ever carry
+export const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+
+// Resumable uploads arrive in chunks of at most this size, each its own request
+export const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+
+// Each finished upload's record sits beside its file, so uploads outlive a restart
+const RECORD_EXTENSION = '.json';
+
+export type UploadMediaType = 'image' | 'video' | 'audio';
+
+/**
+ * A file uploaded for analysis, on disk until its retention window ends
+ */
+export interface StoredMedia {
+  id: string;
+  sessionId: string;
+  mediaType: UploadMediaType;
+  mimeType: string;
+  fileName: string;
+  size: number;
+  path: string;
+  createdAt: string;
+  kept?: boolean; // A saved analysis links to it, so it stays past the retention window
+}
+
+/**
+ * A resumable upload still receiving chunks. Chunks must arrive in order, so
+ * `received` is also the offset the next chunk starts at.
+ */
+export interface PendingUpload {
+  id: string;
+  sessionId: string;
+  mediaType: UploadMediaType;
+  mimeType: string;
+  fileName: string;
+  size: number;
+  received: number;
+  path: string;
+  createdAt: string;
+}
+
+/**
+ * The media an analyze request refers to: an upload, read in place, or bytes sent inline as a data URL
+ */
+export interface MediaSource {
+  mediaId: string | null;
+  mimeType: string;
+  size: number;
+  path: string | null; // Set for uploads
+  data: Buffer | null; // Set for inline media
+}
+
+/**
+ * Thrown when an upload is refused, with the HTTP status to answer with
+ */
+export class UploadError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+/**
+ * The media type a MIME type is analyzed as, or null if it can't be analyzed
+ */
+export function uploadMediaType(mimeType: string): UploadMediaType | null {
+  const type = mimeType.split('/')[0];
+  return type === 'image' || type === 'video' || type === 'audio' ? type : null;
+}
+
+/**
+ * Extension for a stored file, from the uploaded file's name or else its MIME type
+ */
+export function uploadExtension(fileName: string, mimeType: string): string {
+  const fromName = path.extname(fileName).toLowerCase();
+  if (/^\.[a-z0-9]{1,5}$/.test(fromName)) {
+    return fromName;
+  }
+  const subtype = mimeType.split('/')[1]?.replace(/^x-/, '').replace(/[^a-z0-9]/gi, '');
+  return subtype ? `.${subtype.slice(0, 5)}` : '';
+}
+
+/**
+ * Registry of uploaded media. Files live in UPLOAD_DIR, each finished one with a
+ * JSON record beside it, and are deleted after a retention window unless a saved
+ * analysis links to them. Resumable uploads in progress are only tracked in memory.
+ */
+export class MediaUploadStore {
+  private media = new Map<string, StoredMedia>();
+  private pending = new Map<string, PendingUpload>();
+  private writing = new Set<string>(); // Resumable uploads with a chunk in flight
+
+  readonly directory: string;
+
+  constructor(directory: string = UPLOAD_DIR, private retentionMs: number = UPLOAD_RETENTION_MS) {
+    this.directory = path.resolve(directory);
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.restore();
+  }
+
+  /**
+   * Register a file already written to the upload directory, such as one multer stored
+   */
+  add(sessionId: string, file: { path: string; mimeType: string; fileName: string; size: number }): StoredMedia {
+    const mediaType = uploadMediaType(file.mimeType);
+    if (!mediaType) {
+      fs.promises.unlink(file.path).catch(() => {});
+      throw new UploadError('Only image, video and audio files can be uploaded for analysis');
+    }
+
+    const media: StoredMedia = {
+      id: randomUUID(),
+      sessionId,
+      mediaType,
+      mimeType: file.mimeType,
+      fileName: file.fileName,
+      size: file.size,
+      path: file.path,
+      createdAt: new Date().toISOString()
+    };
+    this.media.set(media.id, media);
+    this.saveRecord(media);
+    this.expireMedia(media, this.retentionMs);
+    return media;
+  }
+
+  get(mediaId: string): StoredMedia | undefined {
+    return this.media.get(mediaId);
+  }
+
+  /**
+   * Keep an upload past its retention window, for a saved analysis that links to it.
+   * It then stays until removed along with the analysis.
+   */
+  keep(mediaId: string): void {
+    const media = this.media.get(mediaId);
+    if (!media || media.kept) return;
+    media.kept = true;
+    this.saveRecord(media);
+  }
+
+  remove(mediaId: string): void {
+    const media = this.media.get(mediaId);
+    if (!media) return;
+    this.media.delete(mediaId);
+    fs.promises.unlink(media.path).catch(() => {});
+    fs.promises.unlink(`${media.path}${RECORD_EXTENSION}`).catch(() => {});
+  }
+
+  /**
+   * Remove every upload a session made, kept or not
+   */
+  removeSession(sessionId: string): void {
+    for (const media of Array.from(this.media.values())) {
+      if (media.sessionId === sessionId) {
+        this.remove(media.id);
+      }
+    }
+  }
+
+  /**
+   * Start a resumable upload of a file the client will send in chunks
+   */
+  async startUpload(sessionId: string, file: { fileName: string; mimeType: string; size: number }): Promise<PendingUpload> {
+    const mediaType = uploadMediaType(file.mimeType);
+    if (!mediaType) {
+      throw new UploadError('Only image, video and audio files can be uploaded for analysis');
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      throw new UploadError(`Files can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`, 413);
+    }
+
+    const id = randomUUID();
+    const upload: PendingUpload = {
+      id,
+      sessionId,
+      mediaType,
+      mimeType: file.mimeType,
+      fileName: file.fileName,
+      size: file.size,
+      received: 0,
+      path: path.join(this.directory, `${id}${uploadExtension(file.fileName, file.mimeType)}.part`),
+      createdAt: new Date().toISOString()
+    };
+    await fs.promises.writeFile(upload.path, Buffer.alloc(0));
+    this.pending.set(id, upload);
+    this.expire(() => this.pending.get(id) === upload && this.pending.delete(id), upload.path);
+    return upload;
+  }
+
+  getUpload(uploadId: string): PendingUpload | undefined {
+    return this.pending.get(uploadId);
+  }
+
+  /**
+   * Append one chunk, streamed straight to disk. The chunk must start where the
+   * last one ended; a chunk cut off mid-way is discarded, so the client can resend
+   * it from the same offset. Returns the finished media once the last byte arrives.
+   */
+  async appendChunk(uploadId: string, offset: number, chunk: Readable): Promise<{ upload: PendingUpload; media: StoredMedia | null }> {
+    const upload = this.pending.get(uploadId);
+    if (!upload) {
+      throw new UploadError('Upload not found or expired', 404);
+    }
+    if (this.writing.has(uploadId) || offset !== upload.received) {
+      throw new UploadError(`Expected the chunk at offset ${upload.received}`, 409);
+    }
+
+    this.writing.add(uploadId);
+    try {
+      return await this.writeChunk(upload, offset, chunk);
+    } finally {
+      this.writing.delete(uploadId);
+    }
+  }
+
+  private async writeChunk(upload: PendingUpload, offset: number, chunk: Readable): Promise<{ upload: PendingUpload; media: StoredMedia | null }> {
+    const limit = Math.min(UPLOAD_CHUNK_BYTES, upload.size - upload.received);
+    let written = 0;
+    await new Promise<void>((resolve, reject) => {
+      const output = fs.createWriteStream(upload.path, { flags: 'r+', start: offset });
+      const fail = (error: Error) => {
+        chunk.unpipe(output);
+        output.destroy();
+        reject(error);
+      };
+      chunk.on('data', (data: Buffer) => {
+        written += data.length;
+        if (written > limit) {
+          fail(new UploadError(`Chunks can be at most ${limit} bytes here`, 413));
+        }
+      });
+      chunk.on('aborted', () => fail(new UploadError('Chunk upload was interrupted')));
+      chunk.on('error', fail);
+      output.on('error', fail);
+      output.on('finish', () => resolve());
+      chunk.pipe(output);
+    }).catch(async error => {
+      // Drop whatever part of the chunk made it to disk
+      await fs.promises.truncate(upload.path, upload.received).catch(() => {});
+      throw error;
+    });
+
+    upload.received += written;
+    if (upload.received < upload.size) {
+      return { upload, media: null };
+    }
+
+    this.pending.delete(upload.id);
+    const finalPath = upload.path.replace(/\.part$/, '');
+    await fs.promises.rename(upload.path, finalPath);
+    const media = this.add(upload.sessionId, { path: finalPath, mimeType: upload.mimeType, fileName: upload.fileName, size: upload.size });
+    return { upload, media };
+  }
+
+  private saveRecord(media: StoredMedia): void {
+    fs.promises.writeFile(`${media.path}${RECORD_EXTENSION}`, JSON.stringify(media))
+      .catch(error => console.warn(`Could not record upload ${media.id}:`, error));
+  }
+
+  /**
+   * Remove an upload once its retention window ends, unless it was kept by then
+   */
+  private expireMedia(media: StoredMedia, delayMs: number): void {
+    setTimeout(() => {
+      if (this.media.get(media.id) === media && !media.kept) {
+        this.remove(media.id);
+      }
+    }, delayMs).unref();
+  }
+
+  /**
+   * Delete the file and forget the record once the retention window ends
+   */
+  private expire(forget: () => unknown, filePath: string): void {
+    setTimeout(() => {
+      forget();
+      fs.promises.unlink(filePath).catch(() => {});
+    }, this.retentionMs).unref();
+  }
+
+  /**
+   * Pick up the uploads an earlier run recorded, for the rest of their retention
+   * window, and delete expired files. Files without a record, such as resumable
+   * uploads cut off by the restart, are deleted once as old as the window.
+   */
+  private restore(): void {
+    const now = Date.now();
+    const names = fs.readdirSync(this.directory);
+    const restored = new Set<string>();
+
+    for (const name of names.filter(name => name.endsWith(RECORD_EXTENSION))) {
+      const recordPath = path.join(this.directory, name);
+      const filePath = recordPath.slice(0, -RECORD_EXTENSION.length);
+      try {
+        const record = JSON.parse(fs.readFileSync(recordPath, 'utf8'));
+        if (typeof record?.id !== 'string' || typeof record.sessionId !== 'string') {
+          continue; // An uploaded file that happens to end in .json
+        }
+        const media: StoredMedia = { ...record, path: filePath };
+        const remainingMs = Date.parse(media.createdAt) + this.retentionMs - now;
+        if (!fs.existsSync(filePath) || (!media.kept && !(remainingMs > 0))) {
+          fs.rmSync(filePath, { force: true });
+          fs.unlinkSync(recordPath);
+          continue;
+        }
+
+        this.media.set(media.id, media);
+        restored.add(name).add(path.basename(filePath));
+        if (!media.kept) {
+          this.expireMedia(media, remainingMs);
+        }
+      } catch (error) {
+        console.warn(`Could not restore upload ${name}:`, error);
+      }
+    }
+
+    const cutoff = now - this.retentionMs;
+    for (const name of names.filter(name => !restored.has(name))) {
+      const filePath = path.join(this.directory, name);
+      try {
+        if (fs.existsSync(filePath) && fs.statSync(filePath).mtimeMs < cutoff) {
+          fs.unlinkSync(filePath);
+        }
+      } catch (error) {
+        console.warn(`Could not clean up old upload ${name}:`, error);
+      }
+    }
+  }
+}
+
+export const mediaUploads = new MediaUploadStore();
+
+/**
+ * The upload an analysis's media URL links to, or null for a data URL
+ */
+export function uploadIdFromMediaUrl(mediaUrl: string): string | null {
+  return mediaUrl.match(/^\/api\/uploads\/([\w-]+)\/content$/)?.[1] ?? null;
+}
+
+/**
+ * Find the media an analyze request refers to, by upload id or inline data URL.
+ * Uploads belong to the session that made them; returns null for an unknown or
+ * expired upload.
+ */
+export function resolveMediaSource(request: { mediaId?: string; mediaData?: string }, sessionId: string): MediaSource | null {
+  if (request.mediaId) {
+    const media = mediaUploads.get(request.mediaId);
+    if (!media || media.sessionId !== sessionId) {
+      return null;
+    }
+    return { mediaId: media.id, mimeType: media.mimeType, size: media.size, path: media.path, data: null };
+  }
+
+  const mediaData = request.mediaData || '';
+  const mimeType = mediaData.match(/^data:([\w.+-]+\/[\w.+-]+);base64,/)?.[1] || 'application/octet-stream';
+  const data = Buffer.from(mediaData.replace(/^data:[\w.+-]+\/[\w.+-]+;base64,/, ''), 'base64');
+  return { mediaId: null, mimeType, size: data.length, path: null, data };
+}
+
+/**
+ * The media's bytes. Only worth it for photos and services that need the whole file in memory.
+ */
+export async function readMedia(source: MediaSource): Promise<Buffer> {
+  return source.data ?? fs.promises.readFile(source.path!);
+}
+
+/**
+ * A file holding the media, for ffmpeg and the transcription services. Uploads are
+ * used in place; inline media is written to a temp file that `release` removes.
+ */
+export async function openMediaFile(source: MediaSource, extension: string): Promise<{ path: string; release: () => Promise<void> }> {
+  if (source.path) {
+    return { path: source.path, release: async () => {} };
+  }
+
+  const tempPath = path.join(os.tmpdir(), `${Math.random().toString(36).substring(2, 15)}.${extension}`);
+  await fs.promises.writeFile(tempPath, source.data!);
+  return {
+    path: tempPath,
+    release: () => fs.promises.unlink(tempPath).catch(e => console.warn('Error cleaning up temp files:', e))
+  };
+}
+
+/**
+ * What an analysis records as its media URL. Photos keep a data URL, which face
+ * crops are rendered from; uploaded videos and audio link to the upload instead
+ * of copying it into the database, and the upload is kept once the analysis is saved.
+ */
+export async function mediaUrlFor(source: MediaSource, mediaData?: string): Promise<string> {
+  if (mediaData) {
+    return mediaData;
+  }
+  if (uploadMediaType(source.mimeType) === 'image') {
+    return `data:${source.mimeType};base64,${(await readMedia(source)).toString('base64')}`;
+  }
+  return `/api/uploads/${source.mediaId}/content`;
+}
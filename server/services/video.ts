@@ -0,0 +1,413 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import ffmpeg from 'fluent-ffmpeg';
+import fetch from 'node-fetch';
+import FormData from 'form-data';
+import type { JobContext } from './jobs';
+import { comprehensiveMultiServiceFaceAnalysis } from './faces';
+import { selectKeyframes, type KeyframeSelection } from './keyframes';
+
+// API Keys for Azure Video Indexer
+const AZURE_VIDEO_INDEXER_KEY = process.env.AZURE_VIDEO_INDEXER_KEY;
+const AZURE_VIDEO_INDEXER_LOCATION = process.env.AZURE_VIDEO_INDEXER_LOCATION;
+const AZURE_VIDEO_INDEXER_ACCOUNT_ID = process.env.AZURE_VIDEO_INDEXER_ACCOUNT_ID;
+
+// Availability of video analysis
+if (AZURE_VIDEO_INDEXER_KEY && AZURE_VIDEO_INDEXER_LOCATION && AZURE_VIDEO_INDEXER_ACCOUNT_ID) {
+  console.log("Azure Video Indexer API available for deep video analysis");
+}
+
+export const isVideoIndexerConfigured = !!(AZURE_VIDEO_INDEXER_KEY && AZURE_VIDEO_INDEXER_LOCATION && AZURE_VIDEO_INDEXER_ACCOUNT_ID);
+
+// For temporary file storage
+const tempDir = os.tmpdir();
+
+/**
+ * Helper function to get the duration of a video using ffprobe
+ */
+export async function getVideoDuration(videoPath: string): Promise<number> {
+  return new Promise<number>((resolve, reject) => {
+    try {
+      ffmpeg.ffprobe(videoPath, (err: Error | null, metadata: any) => {
+        if (err) {
+          console.error('Error getting video duration:', err);
+          console.error('ffprobe error details:', err.message);
+          // Default to 5 seconds if we can't determine duration
+          return resolve(5);
+        }
+        
+        // Get duration in seconds
+        const durationSec = metadata.format.duration || 5;
+        console.log(`Video duration detected: ${durationSec}s`);
+        resolve(durationSec);
+      });
+    } catch (error) {
+      console.error('ffprobe not available or failed:', error);
+      // Fallback to default duration if ffmpeg is not available
+      resolve(5);
+    }
+  });
+}
+
+/**
+ * Helper function to split a video into chunks of specified duration
+ */
+async function splitVideoIntoChunks(videoPath: string, outputDir: string, chunkDurationSec: number): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .outputOptions([
+        `-f segment`,
+        `-segment_time ${chunkDurationSec}`,
+        `-reset_timestamps 1`,
+        `-c copy` // Copy codec (fast)
+      ])
+      .output(path.join(outputDir, 'chunk_%03d.mp4'))
+      .on('end', () => {
+        console.log('Video successfully split into chunks');
+        resolve();
+      })
+      .on('error', (err: Error) => {
+        console.error('Error splitting video:', err);
+        reject(err);
+      })
+      .run();
+  });
+}
+
+/**
+ * Helper function to extract a specific 3-second segment from a video
+ */
+export async function extractVideoSegment(videoPath: string, startTime: number, duration: number, outputPath: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .seekInput(startTime)
+      .duration(duration)
+      .outputOptions(['-c:v libx264', '-c:a aac'])
+      .output(outputPath)
+      .on('end', () => {
+        console.log(`Video segment extracted: ${startTime}s to ${startTime + duration}s`);
+        resolve();
+      })
+      .on('error', (err: Error) => {
+        console.error('Error extracting video segment:', err);
+        reject(err);
+      })
+      .run();
+  });
+}
+
+// Full-length video mode: frames sampled per chunk, capped so long clips don't run
+// hundreds of face analysis calls (chunks get longer instead)
+const FULL_VIDEO_CHUNK_SECONDS = 10;
+export const FULL_VIDEO_FRAMES_PER_CHUNK = 3;
+const FULL_VIDEO_MAX_FRAMES = 30;
+
+// Segment mode: keyframes face analysis runs on within the selected segment
+export const SEGMENT_KEYFRAMES = 3;
+
+/**
+ * Face analysis of one keyframe, at its timestamp in the full video
+ */
+export interface AnalyzedKeyframe {
+  timestamp: number;
+  faceAnalysis: any[];
+  width: number;
+  height: number;
+  faceScore: number;
+  sceneChange: number;
+  facesDetected: number;
+}
+
+/**
+ * Run face analysis on the keyframes chosen from a video or segment. `offset` is
+ * where that video starts in the uploaded one, so timestamps refer to the upload.
+ */
+export async function analyzeKeyframes(selection: KeyframeSelection, offset: number, maxPeople: number, onFrame?: (timestamp: number) => void): Promise<AnalyzedKeyframe[]> {
+  const analyzed: AnalyzedKeyframe[] = [];
+  for (const { image, ...keyframe } of selection.keyframes) {
+    const timestamp = Number((offset + keyframe.timestamp).toFixed(1));
+    onFrame?.(timestamp);
+
+    let faceAnalysis: any[] = [];
+    try {
+      faceAnalysis = await comprehensiveMultiServiceFaceAnalysis(image, maxPeople);
+    } catch (error) {
+      console.warn(`Face analysis failed for frame at ${timestamp}s:`, error);
+    }
+    analyzed.push({ ...keyframe, timestamp, faceAnalysis });
+  }
+  return analyzed;
+}
+
+/**
+ * Which frames were used and why, as recorded in videoAnalysis.keyframes
+ */
+export function summarizeKeyframes(frames: AnalyzedKeyframe[]): any[] {
+  return frames.map(frame => ({
+    timestamp: frame.timestamp,
+    width: frame.width,
+    height: frame.height,
+    faceScore: frame.faceScore,
+    sceneChange: frame.sceneChange,
+    facesDetected: frame.facesDetected
+  }));
+}
+
+/**
+ * Compact per-frame view of the face analysis, small enough to send a whole clip's worth to the AI model
+ */
+export function summarizeFrameFaces(faceAnalysis: any[]): any[] {
+  return faceAnalysis.map(person => ({
+    personLabel: person.personLabel,
+    primaryEmotion: person.integratedAnalysis?.emotions?.primary || 'unknown',
+    emotions: person.integratedAnalysis?.emotions?.detailed,
+    age: person.integratedAnalysis?.age,
+    gender: person.integratedAnalysis?.gender,
+    smiling: person.integratedAnalysis?.facial_features?.smiling,
+    boundingBox: person.boundingBox
+  }));
+}
+
+/**
+ * Analyze a whole video rather than one segment: split it into chunks, pick the
+ * clearest keyframes from each and run face analysis on every one. Frame
+ * timestamps are measured from the start of the full video.
+ */
+export async function analyzeFullVideo(videoPath: string, videoDuration: number, maxPeople: number, ctx: JobContext) {
+  const chunkDuration = Math.max(
+    FULL_VIDEO_CHUNK_SECONDS,
+    Math.ceil(videoDuration * FULL_VIDEO_FRAMES_PER_CHUNK / FULL_VIDEO_MAX_FRAMES)
+  );
+  const workDir = await fs.promises.mkdtemp(path.join(tempDir, 'full_video_'));
+
+  try {
+    ctx.report("frame_extraction", 6, "Splitting video into chunks");
+    await splitVideoIntoChunks(videoPath, workDir, chunkDuration);
+    const chunkFiles = (await fs.promises.readdir(workDir))
+      .filter(file => /^chunk_\d+\.mp4$/.test(file))
+      .sort();
+    console.log(`Split ${videoDuration}s video into ${chunkFiles.length} chunks of ~${chunkDuration}s`);
+
+    const chunks: { index: number; start: number; end: number }[] = [];
+    const frames: (AnalyzedKeyframe & { chunkIndex: number })[] = [];
+    const totalFrames = chunkFiles.length * FULL_VIDEO_FRAMES_PER_CHUNK;
+    let candidates = 0;
+    let scoredBy: KeyframeSelection['scoredBy'] = null;
+    let chunkStart = 0;
+
+    for (let i = 0; i < chunkFiles.length; i++) {
+      ctx.throwIfCancelled();
+      const chunkPath = path.join(workDir, chunkFiles[i]);
+
+      // Chunks are cut on keyframes, so measure each one rather than assuming chunkDuration
+      const duration = Math.min(await getVideoDuration(chunkPath), Math.max(0, videoDuration - chunkStart));
+      chunks.push({ index: i, start: chunkStart, end: chunkStart + duration });
+
+      // Pick the chunk's clearest, most varied frames rather than fixed offsets
+      const selection = await selectKeyframes(chunkPath, duration, FULL_VIDEO_FRAMES_PER_CHUNK, maxPeople);
+      candidates += selection.candidates;
+      scoredBy = scoredBy || selection.scoredBy;
+
+      let chunkFrames = 0;
+      const analyzed = await analyzeKeyframes(selection, chunkStart, maxPeople, timestamp => {
+        ctx.throwIfCancelled();
+        ctx.report("face_analysis", 10 + (25 * (frames.length + chunkFrames++)) / totalFrames, `Analyzing frame at ${timestamp}s`);
+      });
+      frames.push(...analyzed.map(frame => ({ ...frame, chunkIndex: i })));
+
+      chunkStart += duration;
+    }
+
+    return { chunkDuration, chunks, frames, keyframeSelection: { candidates, scoredBy } };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true }).catch(e => {
+      console.warn("Error cleaning up video chunks:", e);
+    });
+  }
+}
+
+/**
+ * Helper function to analyze video using Azure Video Indexer
+ * Extracts insights about scenes, emotions, and content
+ */
+export async function analyzeVideoWithAzureIndexer(videoBuffer: Buffer): Promise<any> {
+  // Check if Azure Video Indexer keys are available
+  if (!AZURE_VIDEO_INDEXER_KEY || !AZURE_VIDEO_INDEXER_LOCATION || !AZURE_VIDEO_INDEXER_ACCOUNT_ID) {
+    console.warn('Azure Video Indexer credentials not available');
+    return null;
+  }
+  
+  try {
+    console.log('Starting Azure Video Indexer analysis...');
+    
+    // Step 1: Get an access token for the Video Indexer API
+    const accessTokenResponse = await fetch(
+      `https://api.videoindexer.ai/auth/${AZURE_VIDEO_INDEXER_LOCATION}/Accounts/${AZURE_VIDEO_INDEXER_ACCOUNT_ID}/AccessToken?allowEdit=true`,
+      {
+        method: 'GET',
+        headers: {
+          'Ocp-Apim-Subscription-Key': AZURE_VIDEO_INDEXER_KEY
+        }
+      }
+    );
+    
+    if (!accessTokenResponse.ok) {
+      throw new Error(`Failed to get access token: ${await accessTokenResponse.text()}`);
+    }
+    
+    const accessToken = await accessTokenResponse.text();
+    console.log('Obtained Azure Video Indexer access token');
+    
+    // Step 2: Create a random ID for the video
+    const videoId = `video_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    
+    // Step 3: Upload the video
+    // Create form data with the video buffer
+    const formData = new FormData();
+    formData.append('file', videoBuffer, 'video.mp4');
+    
+    // @ts-ignore: FormData is compatible with fetch API's Body type
+    const uploadResponse = await fetch(
+      `https://api.videoindexer.ai/${AZURE_VIDEO_INDEXER_LOCATION}/Accounts/${AZURE_VIDEO_INDEXER_ACCOUNT_ID}/Videos?accessToken=${accessToken}&name=${videoId}&privacy=private&indexingPreset=Default`,
+      {
+        method: 'POST',
+        body: formData
+      }
+    );
+    
+    if (!uploadResponse.ok) {
+      throw new Error(`Failed to upload video: ${await uploadResponse.text()}`);
+    }
+    
+    const uploadResult = await uploadResponse.json();
+    const indexingVideoId = uploadResult.id;
+    console.log(`Video uploaded, ID: ${indexingVideoId}`);
+    
+    // Step 4: Wait for indexing to complete
+    let isIndexingComplete = false;
+    let indexingState = "";
+    let indexingRetries = 0;
+    const maxRetries = 20; // Maximum number of retries
+    
+    while (!isIndexingComplete && indexingRetries < maxRetries) {
+      await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds between checks
+      
+      const indexingStateResponse = await fetch(
+        `https://api.videoindexer.ai/${AZURE_VIDEO_INDEXER_LOCATION}/Accounts/${AZURE_VIDEO_INDEXER_ACCOUNT_ID}/Videos/${indexingVideoId}/Index?accessToken=${accessToken}`,
+        {
+          method: 'GET'
+        }
+      );
+      
+      if (indexingStateResponse.ok) {
+        const indexingData = await indexingStateResponse.json();
+        indexingState = indexingData.state;
+        
+        if (indexingState === "Processed") {
+          isIndexingComplete = true;
+          console.log('Video indexing completed successfully');
+          
+          // Step 5: Get the insights from the video
+          // The indexingData already contains all the insights
+          
+          // Step 6: Clean up - delete the video from Azure
+          try {
+            await fetch(
+              `https://api.videoindexer.ai/${AZURE_VIDEO_INDEXER_LOCATION}/Accounts/${AZURE_VIDEO_INDEXER_ACCOUNT_ID}/Videos/${indexingVideoId}?accessToken=${accessToken}`,
+              {
+                method: 'DELETE'
+              }
+            );
+            console.log('Video deleted from Azure Video Indexer');
+          } catch (deleteError) {
+            console.warn('Failed to delete video from Azure Video Indexer:', deleteError);
+          }
+          
+          // Process and return the insights
+          return processVideoIndexerResults(indexingData);
+        } else if (indexingState === "Failed") {
+          throw new Error("Video indexing failed on Azure Video Indexer");
+        } else {
+          console.log(`Indexing in progress, state: ${indexingState}`);
+        }
+      } else {
+        console.warn(`Failed to get indexing state: ${await indexingStateResponse.text()}`);
+      }
+      
+      indexingRetries++;
+    }
+    
+    if (!isIndexingComplete) {
+      throw new Error(`Video indexing timed out after ${maxRetries} retries, last state: ${indexingState}`);
+    }
+    
+  } catch (error) {
+    console.error('Azure Video Indexer analysis error:', error);
+    return null;
+  }
+}
+
+/**
+ * Helper function to process Azure Video Indexer results
+ */
+function processVideoIndexerResults(indexingData: any): any {
+  // Extract the most useful information from the indexing data
+  const videoInsights = {
+    provider: "azure_video_indexer",
+    duration: indexingData.summarizedInsights?.duration || 0,
+    
+    // Scene analysis
+    scenes: indexingData.summarizedInsights?.scenes?.map((scene: any) => ({
+      id: scene.id,
+      instances: scene.instances?.map((instance: any) => ({
+        start: instance.start,
+        end: instance.end
+      }))
+    })) || [],
+    
+    // Emotion analysis
+    emotions: indexingData.summarizedInsights?.emotions?.map((emotion: any) => ({
+      type: emotion.type,
+      instances: emotion.instances?.map((instance: any) => ({
+        start: instance.start,
+        end: instance.end,
+        confidence: instance.confidence
+      }))
+    })) || [],
+    
+    // Face detection and tracking
+    faces: indexingData.summarizedInsights?.faces?.map((face: any) => ({
+      id: face.id,
+      name: face.name || "Unknown person",
+      confidence: face.confidence,
+      instances: face.instances?.map((instance: any) => ({
+        start: instance.start,
+        end: instance.end,
+        thumbnailId: instance.thumbnailId
+      }))
+    })) || [],
+    
+    // Keywords/topics
+    topics: indexingData.summarizedInsights?.topics?.map((topic: any) => ({
+      name: topic.name,
+      confidence: topic.confidence,
+      instances: topic.instances?.map((instance: any) => ({
+        start: instance.start,
+        end: instance.end
+      }))
+    })) || [],
+    
+    // Labels (objects, actions)
+    labels: indexingData.summarizedInsights?.labels?.map((label: any) => ({
+      name: label.name,
+      confidence: label.confidence,
+      instances: label.instances?.map((instance: any) => ({
+        start: instance.start,
+        end: instance.end
+      }))
+    })) || []
+  };
+  
+  return videoInsights;
+}
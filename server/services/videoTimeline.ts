@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import ffmpeg from 'fluent-ffmpeg';
+
+// Thumbnails along the strip, small enough to send back inline
+const THUMBNAIL_COUNT = 12;
+const THUMBNAIL_HEIGHT = 72;
+
+// The waveform is coarse: one loudness value per bucket, from audio decoded at a low rate
+const WAVEFORM_BUCKETS = 200;
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+export interface TimelineThumbnail {
+  timestamp: number; // Seconds from the start of the video
+  image: Buffer; // JPEG
+}
+
+/**
+ * What the segment picker shows of a video: a strip of thumbnails and how loud the audio is over time
+ */
+export interface VideoTimeline {
+  duration: number;
+  thumbnails: TimelineThumbnail[];
+  waveform: number[] | null; // RMS energy per bucket, 0-1 relative to the loudest; null when the video has no audio
+  waveformBucketSeconds: number;
+}
+
+/**
+ * Helper function to extract small thumbnails spread evenly over the video
+ */
+async function extractThumbnails(videoPath: string, duration: number, outputDir: string): Promise<TimelineThumbnail[]> {
+  const offsets = Array.from({ length: THUMBNAIL_COUNT }, (_, k) => Number((duration * (k + 0.5) / THUMBNAIL_COUNT).toFixed(2)));
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .screenshots({
+        timestamps: offsets,
+        filename: 'thumbnail_%i.jpg',
+        folder: outputDir,
+        size: `?x${THUMBNAIL_HEIGHT}`
+      })
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err));
+  });
+
+  const thumbnails: TimelineThumbnail[] = [];
+  for (let i = 0; i < offsets.length; i++) {
+    const imagePath = path.join(outputDir, `thumbnail_${i + 1}.jpg`);
+    // Seeking past the last decodable frame yields no image
+    if (!fs.existsSync(imagePath)) continue;
+    thumbnails.push({ timestamp: offsets[i], image: await fs.promises.readFile(imagePath) });
+  }
+  return thumbnails;
+}
+
+/**
+ * Helper function to measure the audio's RMS energy in even buckets across the video
+ */
+async function measureWaveform(videoPath: string, outputDir: string): Promise<number[]> {
+  const outputPath = path.join(outputDir, 'audio.pcm');
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(WAVEFORM_SAMPLE_RATE)
+      .outputOptions(['-f s16le', '-acodec pcm_s16le'])
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .run();
+  });
+
+  const pcm = await fs.promises.readFile(outputPath);
+  const sampleCount = Math.floor(pcm.length / 2);
+  const bucketSize = Math.max(1, Math.ceil(sampleCount / WAVEFORM_BUCKETS));
+
+  const energy: number[] = [];
+  for (let start = 0; start < sampleCount; start += bucketSize) {
+    const end = Math.min(sampleCount, start + bucketSize);
+    let sumSquares = 0;
+    for (let i = start; i < end; i++) {
+      const sample = pcm.readInt16LE(i * 2) / 32768;
+      sumSquares += sample * sample;
+    }
+    energy.push(Math.sqrt(sumSquares / (end - start)));
+  }
+
+  const loudest = Math.max(0, ...energy);
+  return energy.map(value => loudest > 0 ? Number((value / loudest).toFixed(3)) : 0);
+}
+
+/**
+ * Build the timeline the client shows for choosing which parts of a video to analyze.
+ * A video without an audio track still gets its thumbnails, with no waveform.
+ */
+export async function generateVideoTimeline(videoPath: string, duration: number): Promise<VideoTimeline> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'timeline_'));
+
+  try {
+    const thumbnails = await extractThumbnails(videoPath, duration, workDir);
+
+    let waveform: number[] | null = null;
+    try {
+      waveform = await measureWaveform(videoPath, workDir);
+    } catch (error) {
+      console.warn('Could not measure the video\'s audio for the timeline:', error);
+    }
+
+    return {
+      duration,
+      thumbnails,
+      waveform,
+      waveformBucketSeconds: waveform && waveform.length > 0 ? Number((duration / waveform.length).toFixed(3)) : 0
+    };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true }).catch(e => {
+      console.warn("Error cleaning up timeline files:", e);
+    });
+  }
+}
@@ -0,0 +1,225 @@
+import * as path from "path";
+import { describe, it, expect, beforeEach } from "vitest";
+import { newDb } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+import type { InsertAnalysis } from "@shared/schema";
+import { MemStorage, DrizzleStorage, type IStorage } from "./storage";
+
+// A fresh Postgres in memory, built from the committed migrations
+async function createTestDatabase() {
+  const memoryDb = newDb();
+  const { Pool } = memoryDb.adapters.createPg();
+  // pg-mem refuses the per-query type parsers and array rows drizzle asks for
+  const pool = new Pool();
+  const query = pool.query.bind(pool);
+  pool.query = async (config: string | { rowMode?: string }, ...args: unknown[]) => {
+    if (typeof config !== "object" || !config) {
+      return query(config, ...args);
+    }
+    const result = await query({ ...config, types: undefined, rowMode: undefined }, ...args);
+    return config.rowMode === "array" ? { ...result, rows: result.rows.map((row: object) => Object.values(row)) } : result;
+  };
+  const db = drizzle({ client: pool, schema });
+  await migrate(db, { migrationsFolder: path.resolve(__dirname, "../migrations") });
+  return db;
+}
+
+const implementations: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DrizzleStorage", async () => new DrizzleStorage(await createTestDatabase())]
+];
+
+function analysisFor(sessionId: string, overrides: Partial<InsertAnalysis> = {}): InsertAnalysis {
+  return {
+    sessionId,
+    mediaUrl: "data:image/png;base64,AAAA",
+    mediaType: "image",
+    personalityInsights: {
+      peopleCount: 2,
+      individualProfiles: [
+        { personLabel: "Person 1", summary: "First", analysisFailed: true, detailed_analysis: {} },
+        { personLabel: "Person 2", summary: "Second", analysisFailed: true, detailed_analysis: {} }
+      ]
+    },
+    ...overrides
+  };
+}
+
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+  });
+
+  describe("analyses", () => {
+    it("creates an analysis with a default title and the people count from its insights", async () => {
+      const analysis = await storage.createAnalysis(analysisFor("s1"));
+
+      expect(analysis.id).toEqual(expect.any(Number));
+      expect(analysis.title).toBe("Image Analysis");
+      expect(analysis.peopleCount).toBe(2);
+      expect(analysis.hasDownloaded).toBe(false);
+      expect(analysis.faceAnalysis).toBeNull();
+      expect(analysis.createdAt).toBeInstanceOf(Date);
+      expect(Number.isNaN(analysis.createdAt!.getTime())).toBe(false);
+      expect(await storage.getAnalysisById(analysis.id)).toMatchObject({
+        sessionId: "s1",
+        personalityInsights: analysis.personalityInsights
+      });
+    });
+
+    it("counts one person for insights without profiles", async () => {
+      const analysis = await storage.createAnalysis(analysisFor("s1", {
+        mediaType: "text",
+        personalityInsights: { analysis: "A plain reply" }
+      }));
+
+      expect(analysis.title).toBe("Text Analysis");
+      expect(analysis.peopleCount).toBe(1);
+    });
+
+    it("titles each kind of media by default", async () => {
+      const titles = [];
+      for (const mediaType of ["video", "audio", "document"] as const) {
+        titles.push((await storage.createAnalysis(analysisFor("s1", { mediaType }))).title);
+      }
+
+      expect(titles).toEqual(["Video Analysis", "Audio Analysis", "Document Analysis"]);
+    });
+
+    it("returns nothing for an unknown analysis", async () => {
+      expect(await storage.getAnalysisById(999)).toBeUndefined();
+    });
+
+    it("lists a session's analyses newest first and finds its first one", async () => {
+      const first = await storage.createAnalysis(analysisFor("s1", { title: "First" }));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const second = await storage.createAnalysis(analysisFor("s1", { title: "Second" }));
+      await storage.createAnalysis(analysisFor("s2"));
+
+      const listed = await storage.getAllAnalysesBySessionId("s1");
+      expect(listed.map(analysis => analysis.id)).toEqual([second.id, first.id]);
+      expect((await storage.getAnalysisBySessionId("s1"))?.id).toBe(first.id);
+      expect(await storage.getAllAnalysesBySessionId("nobody")).toEqual([]);
+    });
+
+    it("lists a page of a session's analyses matching the filters, without their media", async () => {
+      const first = await storage.createAnalysis(analysisFor("s1", { title: "First" }));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const second = await storage.createAnalysis(analysisFor("s1", { title: "Second" }));
+      await storage.createAnalysis(analysisFor("s1", { mediaType: "text", modelUsed: "anthropic" }));
+      await storage.createAnalysis(analysisFor("s2"));
+      const query = { sessionId: "s1", page: 1, pageSize: 1, mediaType: "image" } as const;
+
+      const page = await storage.listAnalyses(query);
+      expect(page.total).toBe(2);
+      expect(page.analyses.map(analysis => analysis.id)).toEqual([second.id]);
+      expect(page.analyses[0]).not.toHaveProperty("mediaUrl");
+      expect((await storage.listAnalyses({ ...query, page: 2 })).analyses.map(analysis => analysis.id)).toEqual([first.id]);
+
+      expect((await storage.listAnalyses({ sessionId: "s1", page: 1, pageSize: 20, modelUsed: "anthropic" })).total).toBe(1);
+      const minuteFrom = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+      expect((await storage.listAnalyses({ ...query, from: first.createdAt!, to: minuteFrom(second.createdAt!, 1) })).total).toBe(2);
+      expect((await storage.listAnalyses({ ...query, from: minuteFrom(second.createdAt!, 1) })).total).toBe(0);
+      expect((await storage.listAnalyses({ ...query, to: minuteFrom(first.createdAt!, -1) })).total).toBe(0);
+      expect(await storage.listAnalyses({ ...query, sessionId: "nobody" })).toEqual({ analyses: [], total: 0 });
+    });
+
+    it("updates the people count, download status and title", async () => {
+      const { id } = await storage.createAnalysis(analysisFor("s1"));
+
+      await storage.updateAnalysisPeopleCount(id, 3);
+      await storage.updateAnalysisDownloadStatus(id, true);
+      await storage.updateAnalysisTitle(id, "Renamed");
+
+      expect(await storage.getAnalysisById(id)).toMatchObject({ peopleCount: 3, hasDownloaded: true, title: "Renamed" });
+    });
+
+    it("deletes an analysis along with its messages and shares", async () => {
+      const analysis = await storage.createAnalysis(analysisFor("s1"));
+      const kept = await storage.createAnalysis(analysisFor("s1"));
+      await storage.createMessage({ sessionId: "s1", analysisId: analysis.id, role: "assistant", content: "Report" });
+      await storage.createMessage({ sessionId: "s1", analysisId: kept.id, role: "assistant", content: "Other report" });
+      const share = await storage.createShare({ analysisId: analysis.id, senderEmail: "a@example.com", recipientEmail: "b@example.com" });
+
+      await storage.deleteAnalysis(analysis.id);
+
+      expect(await storage.getAnalysisById(analysis.id)).toBeUndefined();
+      expect(await storage.getMessagesByAnalysisId(analysis.id)).toEqual([]);
+      expect(await storage.getShareById(share.id)).toBeUndefined();
+      expect(await storage.getMessagesByAnalysisId(kept.id)).toHaveLength(1);
+    });
+  });
+
+  describe("messages", () => {
+    it("lists messages oldest first, by session and by analysis", async () => {
+      const analysis = await storage.createAnalysis(analysisFor("s1"));
+      const report = await storage.createMessage({ sessionId: "s1", analysisId: analysis.id, role: "assistant", content: "Report" });
+      const question = await storage.createMessage({ sessionId: "s1", analysisId: analysis.id, role: "user", content: "Why?" });
+      const loose = await storage.createMessage({ sessionId: "s1", role: "user", content: "Hello" });
+      await storage.createMessage({ sessionId: "s2", role: "user", content: "Elsewhere" });
+
+      expect(loose.analysisId).toBeNull();
+      expect((await storage.getMessagesBySessionId("s1")).map(message => message.id)).toEqual([report.id, question.id, loose.id]);
+      expect((await storage.getMessagesByAnalysisId(analysis.id)).map(message => message.content)).toEqual(["Report", "Why?"]);
+    });
+  });
+
+  describe("shares", () => {
+    it("creates a pending share and updates its status", async () => {
+      const analysis = await storage.createAnalysis(analysisFor("s1"));
+      const share = await storage.createShare({ analysisId: analysis.id, senderEmail: "a@example.com", recipientEmail: "b@example.com" });
+
+      expect(share.status).toBe("pending");
+      expect(await storage.getShareById(String(share.id))).toMatchObject({ id: share.id, analysisId: analysis.id });
+
+      await storage.updateShareStatus(share.id, "sent");
+      expect((await storage.getShareById(share.id))?.status).toBe("sent");
+    });
+
+    it("returns nothing for an unknown or malformed share id", async () => {
+      expect(await storage.getShareById(999)).toBeUndefined();
+      expect(await storage.getShareById("not-a-number")).toBeUndefined();
+    });
+  });
+
+  describe("sessions", () => {
+    it("creates and renames a session", async () => {
+      const session = await storage.createSession({ sessionId: "s1" });
+      expect(session).toMatchObject({ sessionId: "s1", name: "Session", isActive: true });
+
+      await storage.updateSessionName("s1", "Interviews");
+      expect((await storage.getSessionById("s1"))?.name).toBe("Interviews");
+      expect(await storage.getSessionById("nobody")).toBeUndefined();
+    });
+
+    it("creates a session on first activity and lists the most recently active first", async () => {
+      await storage.updateSessionLastActive("s1");
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storage.updateSessionLastActive("s2");
+
+      expect((await storage.getAllSessions()).map(session => session.sessionId)).toEqual(["s2", "s1"]);
+
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storage.updateSessionLastActive("s1");
+      expect((await storage.getAllSessions()).map(session => session.sessionId)).toEqual(["s1", "s2"]);
+    });
+
+    it("clears a session's analyses and messages but keeps the session", async () => {
+      await storage.createSession({ sessionId: "s1", name: "Interviews" });
+      const analysis = await storage.createAnalysis(analysisFor("s1"));
+      await storage.createMessage({ sessionId: "s1", analysisId: analysis.id, role: "assistant", content: "Report" });
+      const other = await storage.createAnalysis(analysisFor("s2"));
+
+      await storage.clearSession("s1");
+
+      expect(await storage.getAllAnalysesBySessionId("s1")).toEqual([]);
+      expect(await storage.getMessagesBySessionId("s1")).toEqual([]);
+      expect((await storage.getSessionById("s1"))?.name).toBe("Interviews");
+      expect(await storage.getAnalysisById(other.id)).toBeDefined();
+    });
+  });
+});
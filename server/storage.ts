@@ -1,4 +1,7 @@
-import { Analysis, InsertAnalysis, Message, InsertMessage, Share, InsertShare, Session, InsertSession } from "@shared/schema";
+import { Analysis, AnalysisListItem, ListAnalysesQuery, InsertAnalysis, Message, InsertMessage, Share, InsertShare, Session, InsertSession, analyses, messages, shares, sessions } from "@shared/schema";
+import { getPeopleCount } from "@shared/insights";
+import { and, asc, count, desc, eq, getTableColumns, gte, lte } from "drizzle-orm";
+import { createDb, type Database } from "./db";
 
 export interface IStorage {
   // Analysis operations
@@ -7,6 +10,7 @@ export interface IStorage {
   getAnalysisBySessionId(sessionId: string): Promise<Analysis | undefined>;
   getAnalysisById(id: number): Promise<Analysis | undefined>;
   getAllAnalysesBySessionId(sessionId: string): Promise<Analysis[]>;
+  listAnalyses(query: ListAnalysesQuery): Promise<{ analyses: AnalysisListItem[]; total: number }>;
   updateAnalysisDownloadStatus(analysisId: number, downloaded: boolean): Promise<void>;
   updateAnalysisTitle(analysisId: number, title: string): Promise<void>;
   deleteAnalysis(analysisId: number): Promise<void>;
@@ -52,21 +56,13 @@ export class MemStorage implements IStorage {
   async createAnalysis(insertAnalysis: InsertAnalysis): Promise<Analysis> {
     const id = this.currentAnalysisId++;
     
-    // Extract peopleCount from personalityInsights if available
-    let peopleCount = 1; // Default to 1 
-    try {
-      const insights = insertAnalysis.personalityInsights as any;
-      if (insights && typeof insights === 'object' && 'peopleCount' in insights) {
-        peopleCount = insights.peopleCount || 1;
-      }
-    } catch (err) {
-      console.error("Error extracting peopleCount:", err);
-    }
+    const peopleCount = getPeopleCount(insertAnalysis.personalityInsights);
     
     // Make sure title is set if not provided
     const title = insertAnalysis.title || 
       (insertAnalysis.mediaType === 'image' ? 'Image Analysis' : 
         insertAnalysis.mediaType === 'video' ? 'Video Analysis' : 
+        insertAnalysis.mediaType === 'audio' ? 'Audio Analysis' : 
         insertAnalysis.mediaType === 'document' ? 'Document Analysis' : 'Text Analysis');
     
     const analysis: Analysis = {
@@ -78,6 +74,8 @@ export class MemStorage implements IStorage {
       faceAnalysis: insertAnalysis.faceAnalysis || null,
       videoAnalysis: insertAnalysis.videoAnalysis || null,
       audioTranscription: insertAnalysis.audioTranscription || null,
+      sceneContext: insertAnalysis.sceneContext || null,
+      prosody: insertAnalysis.prosody || null,
       documentAnalysis: insertAnalysis.documentAnalysis || null,
       textContent: insertAnalysis.textContent || null,
       personalityInsights: insertAnalysis.personalityInsights,
@@ -180,6 +178,22 @@ export class MemStorage implements IStorage {
       });
   }
 
+  async listAnalyses({ sessionId, page, pageSize, mediaType, modelUsed, from, to }: ListAnalysesQuery): Promise<{ analyses: AnalysisListItem[]; total: number }> {
+    const filtered = (await this.getAllAnalysesBySessionId(sessionId)).filter(analysis => {
+      if (mediaType && analysis.mediaType !== mediaType) return false;
+      if (modelUsed && analysis.modelUsed !== modelUsed) return false;
+      if (from && (!analysis.createdAt || analysis.createdAt < from)) return false;
+      if (to && (!analysis.createdAt || analysis.createdAt > to)) return false;
+      return true;
+    });
+    
+    const start = (page - 1) * pageSize;
+    return {
+      analyses: filtered.slice(start, start + pageSize).map(({ mediaUrl, ...analysis }) => analysis),
+      total: filtered.length
+    };
+  }
+
   async updateAnalysisDownloadStatus(analysisId: number, downloaded: boolean): Promise<void> {
     const analysis = this.analyses.get(analysisId);
     if (analysis) {
@@ -210,6 +224,13 @@ export class MemStorage implements IStorage {
     for (const [id] of messagesToDelete) {
       this.messages.delete(id);
     }
+
+    // And its shares, as the database does
+    for (const [id, share] of Array.from(this.shares.entries())) {
+      if (share.analysisId === analysisId) {
+        this.shares.delete(id);
+      }
+    }
   }
 
   // Additional Message operations
@@ -308,4 +329,207 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async createAnalysis(insertAnalysis: InsertAnalysis): Promise<Analysis> {
+    const peopleCount = getPeopleCount(insertAnalysis.personalityInsights);
+    
+    // Make sure title is set if not provided
+    const title = insertAnalysis.title || 
+      (insertAnalysis.mediaType === 'image' ? 'Image Analysis' : 
+        insertAnalysis.mediaType === 'video' ? 'Video Analysis' : 
+        insertAnalysis.mediaType === 'audio' ? 'Audio Analysis' : 
+        insertAnalysis.mediaType === 'document' ? 'Document Analysis' : 'Text Analysis');
+    
+    const [analysis] = await this.db
+      .insert(analyses)
+      .values({
+        ...insertAnalysis,
+        title,
+        peopleCount,
+        modelUsed: insertAnalysis.modelUsed || 'openai'
+      })
+      .returning();
+    
+    // Automatically create or update session
+    this.updateSessionLastActive(insertAnalysis.sessionId).catch(err => {
+      console.error("Error updating session active time:", err);
+    });
+    
+    return analysis;
+  }
+
+  async getAnalysisBySessionId(sessionId: string): Promise<Analysis | undefined> {
+    const [analysis] = await this.db
+      .select()
+      .from(analyses)
+      .where(eq(analyses.sessionId, sessionId))
+      .orderBy(asc(analyses.id))
+      .limit(1);
+    return analysis;
+  }
+
+  async getAnalysisById(id: number): Promise<Analysis | undefined> {
+    const [analysis] = await this.db.select().from(analyses).where(eq(analyses.id, id));
+    return analysis;
+  }
+  
+  async updateAnalysisPeopleCount(analysisId: number, count: number): Promise<void> {
+    await this.db.update(analyses).set({ peopleCount: count }).where(eq(analyses.id, analysisId));
+  }
+
+  async getAllAnalysesBySessionId(sessionId: string): Promise<Analysis[]> {
+    // Newest first, matching MemStorage
+    return this.db
+      .select()
+      .from(analyses)
+      .where(eq(analyses.sessionId, sessionId))
+      .orderBy(desc(analyses.createdAt), desc(analyses.id));
+  }
+
+  async listAnalyses({ sessionId, page, pageSize, mediaType, modelUsed, from, to }: ListAnalysesQuery): Promise<{ analyses: AnalysisListItem[]; total: number }> {
+    const filters = and(
+      eq(analyses.sessionId, sessionId),
+      mediaType ? eq(analyses.mediaType, mediaType) : undefined,
+      modelUsed ? eq(analyses.modelUsed, modelUsed) : undefined,
+      from ? gte(analyses.createdAt, from) : undefined,
+      to ? lte(analyses.createdAt, to) : undefined
+    );
+    // The media can be a whole base64 file, which the list has no use for
+    const { mediaUrl, ...listColumns } = getTableColumns(analyses);
+    
+    const rows = await this.db
+      .select(listColumns)
+      .from(analyses)
+      .where(filters)
+      .orderBy(desc(analyses.createdAt), desc(analyses.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+    const [{ total }] = await this.db.select({ total: count() }).from(analyses).where(filters);
+    return { analyses: rows, total };
+  }
+
+  async updateAnalysisDownloadStatus(analysisId: number, downloaded: boolean): Promise<void> {
+    await this.db.update(analyses).set({ hasDownloaded: downloaded }).where(eq(analyses.id, analysisId));
+  }
+
+  async updateAnalysisTitle(analysisId: number, title: string): Promise<void> {
+    await this.db.update(analyses).set({ title }).where(eq(analyses.id, analysisId));
+  }
+
+  async deleteAnalysis(analysisId: number): Promise<void> {
+    // Messages and shares reference analyses, so they have to go first
+    await this.db.delete(messages).where(eq(messages.analysisId, analysisId));
+    await this.db.delete(shares).where(eq(shares.analysisId, analysisId));
+    await this.db.delete(analyses).where(eq(analyses.id, analysisId));
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await this.db
+      .insert(messages)
+      .values({
+        ...insertMessage,
+        analysisId: insertMessage.analysisId ?? null
+      })
+      .returning();
+    return message;
+  }
+
+  async getMessagesBySessionId(sessionId: string): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.sessionId, sessionId))
+      .orderBy(asc(messages.createdAt), asc(messages.id));
+  }
+
+  async getMessagesByAnalysisId(analysisId: number): Promise<Message[]> {
+    // Oldest first for conversation flow
+    return this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.analysisId, analysisId))
+      .orderBy(asc(messages.createdAt), asc(messages.id));
+  }
+
+  async createShare(insertShare: InsertShare): Promise<Share> {
+    const [share] = await this.db
+      .insert(shares)
+      .values({ ...insertShare, status: "pending" })
+      .returning();
+    return share;
+  }
+
+  async getShareById(id: string | number): Promise<Share | undefined> {
+    // Convert string id to number if needed
+    const numericId = typeof id === 'string' ? parseInt(id, 10) : id;
+    if (isNaN(numericId)) {
+      return undefined;
+    }
+    const [share] = await this.db.select().from(shares).where(eq(shares.id, numericId));
+    return share;
+  }
+
+  async updateShareStatus(shareId: number, status: "pending" | "sent" | "error"): Promise<void> {
+    await this.db.update(shares).set({ status }).where(eq(shares.id, shareId));
+  }
+
+  async createSession(session: InsertSession): Promise<Session> {
+    const [newSession] = await this.db
+      .insert(sessions)
+      .values({
+        sessionId: session.sessionId,
+        name: session.name || "Session",
+        isActive: true
+      })
+      .returning();
+    return newSession;
+  }
+
+  async getSessionById(sessionId: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.sessionId, sessionId));
+    return session;
+  }
+
+  async getAllSessions(): Promise<Session[]> {
+    // Sort by last active date, newest first
+    return this.db.select().from(sessions).orderBy(desc(sessions.lastActiveAt));
+  }
+
+  async updateSessionLastActive(sessionId: string): Promise<void> {
+    // Create the session if it doesn't exist yet
+    await this.db
+      .insert(sessions)
+      .values({ sessionId, name: "Session", isActive: true })
+      .onConflictDoUpdate({
+        target: sessions.sessionId,
+        set: { lastActiveAt: new Date() }
+      });
+  }
+
+  async updateSessionName(sessionId: string, name: string): Promise<void> {
+    await this.db.update(sessions).set({ name }).where(eq(sessions.sessionId, sessionId));
+  }
+
+  async clearSession(sessionId: string): Promise<void> {
+    // Get all analyses for this session
+    const sessionAnalyses = await this.getAllAnalysesBySessionId(sessionId);
+    
+    // Delete each analysis (which will also delete associated messages)
+    for (const analysis of sessionAnalyses) {
+      await this.deleteAnalysis(analysis.id);
+    }
+    
+    // Update session to mark it as fresh
+    await this.db
+      .update(sessions)
+      .set({ lastActiveAt: new Date() })
+      .where(eq(sessions.sessionId, sessionId));
+  }
+}
+
+// Persist to Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DrizzleStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
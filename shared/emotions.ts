@@ -0,0 +1,17 @@
+// How emotion timelines are charted, shared by the client's chart and the one in the PDF and Word exports
+
+// Only the most prominent emotions are drawn, so the chart stays readable
+export const MAX_CHARTED_EMOTIONS = 5;
+
+export const EMOTION_COLORS: Record<string, string> = {
+  happiness: "#f59e0b",
+  sadness: "#3b82f6",
+  anger: "#ef4444",
+  surprise: "#a855f7",
+  fear: "#14b8a6",
+  disgust: "#22c55e",
+  contempt: "#ec4899",
+  neutral: "#94a3b8",
+};
+export const OTHER_EMOTION_COLOR = "#64748b";
+export const SENTIMENT_COLOR = "#111827";
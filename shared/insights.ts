@@ -0,0 +1,381 @@
+import { z } from "zod";
+
+// Shapes of the personality insights the analysis prompts ask the AI models for.
+// Model output is validated against these before it is stored.
+
+// An answer has to say something; short strings are placeholders like "N/A" or "Not assessed"
+const answer = z.string().trim().min(20, "Must be a substantive answer with evidence, not a placeholder");
+const summary = z.string().trim().min(50, "Must be a substantive summary of at least a few sentences");
+const answerList = z.array(z.string().trim().min(1)).min(1, "Must list at least one item");
+
+// The 20 questions every analysis type answers
+export const coreAssessmentSchema = z.object({
+  core_motivation: answer,
+  confidence_level: answer,
+  self_acceptance: answer,
+  intelligence_level: answer,
+  creativity_assessment: answer,
+  stress_handling: answer,
+  trustworthiness: answer,
+  authenticity: answer,
+  ambition_level: answer,
+  insecurities: answer,
+  social_validation: answer,
+  independence: answer,
+  communication_style: answer,
+  criticism_response: answer,
+  outlook: answer,
+  humor_sense: answer,
+  treatment_of_others: answer,
+  consistency: answer,
+  hidden_strengths: answer,
+  hidden_weaknesses: answer,
+});
+
+export const speechAnalysisSchema = z.object({
+  key_quotes: answerList,
+  vocabulary_analysis: answer,
+  personality_revealed: answer,
+  content_themes: answer.optional(),
+  speech_patterns: answer.optional(),
+  emotional_tone: answer.optional(),
+});
+
+export const growthAreasSchema = z.object({
+  strengths: answerList,
+  challenges: z.array(z.string()).optional(),
+  development_path: answer,
+});
+
+// A passage quoted from the analyzed text and where it appears ("p. 3, ¶ 2" in PDFs, "¶ 12" in DOCX files)
+export const quotedEvidenceSchema = z.object({
+  quote: z.string().trim().min(1),
+  location: z.string().optional(),
+  page: z.number().int().optional(),
+  paragraph: z.number().int().optional(),
+  offset: z.number().int().min(0).optional(), // Character offset into the analyzed text
+  verified: z.boolean().optional(), // Set once the quote has been found in the extracted text
+});
+
+// Text analysis (/api/analyze/text)
+export const textInsightSchema = z.object({
+  summary,
+  detailed_analysis: z.object({
+    content_themes: answer,
+    speech_analysis: speechAnalysisSchema,
+    core_psychological_assessment: coreAssessmentSchema,
+    professional_insights: answer,
+    growth_areas: growthAreasSchema,
+    // Only present for long texts analyzed in chunks
+    quoted_evidence: z.array(quotedEvidenceSchema).optional(),
+    conflict_notes: z.array(z.string()).optional(),
+  }),
+});
+
+export const TEXT_QUESTION_COUNT = 100;
+
+// The 100 text analysis questions answered from one chunk of a long text, keyed by question number
+export const textChunkInsightSchema = z.object({
+  summary,
+  question_answers: z.record(z.string(), z.object({
+    answer: z.string().trim().min(1),
+    quotes: z.array(z.string().trim().min(1)).optional(),
+  })).superRefine((answers, ctx) => {
+    for (let question = 1; question <= TEXT_QUESTION_COUNT; question++) {
+      if (!answers[question]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [String(question)], message: "Must answer this question" });
+      }
+    }
+  }),
+});
+
+// Chunk results merged into one profile, noting where the chunks disagreed
+export const textSynthesisSchema = textInsightSchema.extend({
+  detailed_analysis: textInsightSchema.shape.detailed_analysis.extend({
+    conflict_notes: z.array(z.string()),
+  }),
+});
+
+// Document analysis (/api/analyze/document)
+export const documentInsightSchema = z.object({
+  summary,
+  detailed_analysis: z.object({
+    document_overview: answer,
+    core_psychological_assessment: coreAssessmentSchema,
+    writing_style: answer,
+    professional_insights: answer,
+    quoted_evidence: z.array(quotedEvidenceSchema).min(1, "Must quote at least one passage from the document"),
+  }),
+});
+
+// A moment in a full-length video the analysis points to, in seconds from the start
+export const timestampedObservationSchema = z.object({
+  timestamp: z.number().min(0),
+  question: z.number().int().min(1).optional(), // Number of the video analysis question it answers
+  observation: answer,
+});
+
+// Image or video analysis of one person, used per person in group analyses too
+export const visualInsightSchema = z.object({
+  summary,
+  detailed_analysis: z.object({
+    core_psychological_assessment: coreAssessmentSchema,
+    // Only present with quotes when there was speech to transcribe
+    speech_analysis: speechAnalysisSchema.extend({ key_quotes: z.array(z.string()) }).partial().optional(),
+    visual_evidence: z.record(z.string(), answer),
+    timestamped_observations: z.array(timestampedObservationSchema).optional(),
+    professional_insights: answer,
+    growth_areas: growthAreasSchema,
+    cognitive_profile: z.object({
+      intelligence_assessment: z.string(),
+      cognitive_strengths: z.array(z.string()),
+      cognitive_weaknesses: z.array(z.string()),
+      processing_style: z.string(),
+      mental_agility: z.string(),
+    }).partial().optional(),
+    personality_core: z.string().optional(),
+    thought_patterns: z.string().optional(),
+    emotional_intelligence: z.string().optional(),
+    behavioral_indicators: z.string().optional(),
+    relationships: z.object({
+      current_status: z.string(),
+      parental_status: z.string(),
+      ideal_partner: z.string(),
+    }).partial().optional(),
+  }),
+});
+
+// Audio-only analysis of the main speaker, from what they say and how they sound
+export const audioInsightSchema = z.object({
+  summary,
+  detailed_analysis: z.object({
+    core_psychological_assessment: coreAssessmentSchema,
+    speech_analysis: speechAnalysisSchema,
+    voice_evidence: z.record(z.string(), answer),
+    timestamped_observations: z.array(timestampedObservationSchema).optional(),
+    professional_insights: answer,
+    growth_areas: growthAreasSchema,
+  }),
+});
+
+/**
+ * Full-length video analysis has to tie its answers to real moments in the clip
+ */
+export function timeIndexedVideoInsightSchema(durationSec: number) {
+  const clipEnd = Math.ceil(durationSec);
+  return visualInsightSchema.extend({
+    detailed_analysis: visualInsightSchema.shape.detailed_analysis.extend({
+      timestamped_observations: z.array(timestampedObservationSchema.extend({
+        timestamp: z.number().min(0).max(clipEnd, `Must be a real moment within the ${clipEnd}s clip`),
+      })).min(5, "Must cite at least five timestamped moments from the clip"),
+    }),
+  });
+}
+
+// Named psychological instruments, grouped the way the photo prompt asks for them
+const assessmentGroup = z.record(z.string(), answer).refine(group => Object.keys(group).length > 0, "Must include at least one assessment");
+
+// Single-person photo analysis, answered as psychological test results
+export const photoInsightSchema = z.object({
+  summary,
+  assessments: z.object({
+    trait_type_assessments: assessmentGroup,
+    clinical_mental_health: assessmentGroup,
+    cognitive_intelligence: assessmentGroup,
+    projective_tests: assessmentGroup,
+    emotional_social: assessmentGroup,
+    behavioral_attention: assessmentGroup,
+    vocational_motivation: assessmentGroup,
+    personality_pathology: assessmentGroup,
+  }),
+});
+
+// An attribute the face analysis services read differently for the same person
+export const faceDisagreementSchema = z.object({
+  attribute: z.enum(["age", "gender", "emotion"]),
+  readings: z.array(z.object({ provider: z.string(), value: z.string() })),
+  resolved: z.string().nullable(), // The combined reading used in the analysis
+  summary: z.string(),
+});
+
+// Whether a detected face is clear enough to analyze, and what is wrong with it if not
+export const faceQualityIssueSchema = z.object({
+  code: z.enum(["too_small", "blurry", "under_exposed", "over_exposed", "noisy", "low_quality", "turned_away", "occluded", "eyes_closed"]),
+  severity: z.enum(["degraded", "unusable"]),
+  message: z.string(), // What is wrong, e.g. "face is blurry (sharpness 20%)"
+  suggestion: z.string(), // What the user can do about it
+});
+
+export const faceQualityAssessmentSchema = z.object({
+  verdict: z.enum(["good", "degraded", "unusable"]),
+  issues: z.array(faceQualityIssueSchema),
+});
+
+// What image recognition saw around the people in a photo, given to the analysis as labeled evidence
+export const sceneContextSchema = z.object({
+  setting: z.array(z.string()), // Where the photo was taken, e.g. "Office", "Beach"
+  objects: z.array(z.object({ name: z.string(), count: z.number().int(), confidence: z.number() })),
+  visibleText: z.array(z.string()), // Lines of text readable in the image
+  clothingAndProps: z.array(z.string()),
+  labels: z.array(z.object({ name: z.string(), confidence: z.number() })), // Every label the setting was picked from
+  summary: z.string(),
+  source: z.string(), // The service the context came from
+});
+
+// Vocal prosody measured from a video's audio track or an uploaded recording. Times are in seconds from the start
+// of the audio; pitch is the speaker's fundamental frequency and loudness is in dBFS.
+export const prosodySchema = z.object({
+  duration: z.number(),
+  pitch: z.object({
+    medianHz: z.number(),
+    meanHz: z.number(),
+    stdevHz: z.number(),
+    minHz: z.number(),
+    maxHz: z.number(),
+    voicedSeconds: z.number(),
+  }).nullable(), // Null when no voiced speech was found
+  loudness: z.object({ meanDb: z.number(), stdevDb: z.number(), maxDb: z.number() }),
+  pitchSpikes: z.array(z.object({ timestamp: z.number(), pitchHz: z.number(), semitonesAboveMedian: z.number() })),
+  speakingRate: z.object({
+    wordsPerMinute: z.number(),
+    windows: z.array(z.object({ start: z.number(), end: z.number(), wordsPerMinute: z.number() })),
+    changes: z.array(z.object({ start: z.number(), end: z.number(), wordsPerMinute: z.number(), changePercent: z.number() })),
+  }).nullable(), // Null without word timestamps
+  pauses: z.object({
+    count: z.number().int(),
+    totalSeconds: z.number(),
+    meanSeconds: z.number(),
+    distribution: z.object({ short: z.number().int(), medium: z.number().int(), long: z.number().int() }), // Under 0.7s, 0.7-1.5s, over 1.5s
+    long: z.array(z.object({ start: z.number(), end: z.number(), duration: z.number() })),
+    source: z.enum(["words", "silence"]), // Gaps between timed words, or silent stretches of audio
+  }),
+  speakers: z.array(z.object({
+    speaker: z.string(),
+    talkSeconds: z.number(),
+    wordsPerMinute: z.number().nullable(),
+    pitchMedianHz: z.number().nullable(),
+  })), // Per diarized speaker, when the transcript has speakers
+  contour: z.array(z.object({ timestamp: z.number(), pitchHz: z.number().nullable(), loudnessDb: z.number() })), // Twice a second
+});
+
+// Who a profile belongs to in a group analysis
+const personFields = {
+  personLabel: z.string(),
+  personIndex: z.number().optional(),
+  personName: z.string().optional(), // A name or role the user gave this person, like "Interviewer"
+  boundingBox: z.any().optional(),
+  faceServiceDisagreements: z.array(faceDisagreementSchema).optional(),
+  faceQuality: faceQualityAssessmentSchema.optional(), // Only for faces analyzed despite quality problems
+};
+
+export const personInsightSchema = visualInsightSchema.extend(personFields);
+
+// Stand-in profile for a person whose analysis could not be completed
+export const unavailableProfileSchema = z.object({
+  ...personFields,
+  summary: z.string(),
+  analysisFailed: z.literal(true),
+  detailed_analysis: z.record(z.string(), z.any()),
+});
+
+export const insightProfileSchema = z.union([
+  textInsightSchema,
+  documentInsightSchema,
+  photoInsightSchema,
+  personInsightSchema,
+  visualInsightSchema,
+  audioInsightSchema,
+  unavailableProfileSchema,
+]);
+
+// What is stored in analyses.personality_insights for every analysis type
+export const personalityInsightsSchema = z.object({
+  peopleCount: z.number().int().min(0),
+  overviewSummary: z.string().optional(),
+  individualProfiles: z.array(insightProfileSchema),
+  groupDynamics: z.string().optional(),
+  skippedFaces: z.array(z.object({ personLabel: z.string(), faceQuality: faceQualityAssessmentSchema })).optional(), // Faces too poor to analyze
+  detailed_analysis: z.record(z.string(), z.any()).optional(), // For backward compatibility with message format
+});
+
+// Older text analyses stored the model's plain-text reply as-is
+export const legacyInsightsSchema = z.object({
+  analysis: z.string(),
+});
+
+export const storedInsightsSchema = z.union([personalityInsightsSchema, legacyInsightsSchema]);
+
+export type CoreAssessment = z.infer<typeof coreAssessmentSchema>;
+export type TextInsight = z.infer<typeof textInsightSchema>;
+export type TextChunkInsight = z.infer<typeof textChunkInsightSchema>;
+export type QuotedEvidence = z.infer<typeof quotedEvidenceSchema>;
+export type FaceDisagreement = z.infer<typeof faceDisagreementSchema>;
+export type FaceQualityIssue = z.infer<typeof faceQualityIssueSchema>;
+export type FaceQualityAssessment = z.infer<typeof faceQualityAssessmentSchema>;
+export type SceneContext = z.infer<typeof sceneContextSchema>;
+export type Prosody = z.infer<typeof prosodySchema>;
+export type DocumentInsight = z.infer<typeof documentInsightSchema>;
+export type TimestampedObservation = z.infer<typeof timestampedObservationSchema>;
+export type VisualInsight = z.infer<typeof visualInsightSchema>;
+export type PhotoInsight = z.infer<typeof photoInsightSchema>;
+export type AudioInsight = z.infer<typeof audioInsightSchema>;
+export type PersonInsight = z.infer<typeof personInsightSchema>;
+export type UnavailableProfile = z.infer<typeof unavailableProfileSchema>;
+export type InsightProfile = z.infer<typeof insightProfileSchema>;
+export type PersonalityInsights = z.infer<typeof personalityInsightsSchema>;
+export type StoredInsights = z.infer<typeof storedInsightsSchema>;
+
+// Every field any profile type has, all optional, so a profile can be read without knowing
+// which analysis type wrote it. Sections differ between types; readers check for the ones they show.
+export type DetailedAnalysis = Partial<
+  Omit<TextInsight["detailed_analysis"], "speech_analysis"> &
+  DocumentInsight["detailed_analysis"] &
+  Omit<AudioInsight["detailed_analysis"], "speech_analysis"> &
+  VisualInsight["detailed_analysis"] // Whose speech analysis, without quotes required, fits every type's
+>;
+
+export interface ProfileView {
+  summary?: string;
+  detailed_analysis?: DetailedAnalysis;
+  assessments?: PhotoInsight["assessments"];
+  personLabel?: string;
+  personIndex?: number;
+  personName?: string;
+  boundingBox?: unknown;
+  faceServiceDisagreements?: FaceDisagreement[];
+  faceQuality?: FaceQualityAssessment;
+  analysisFailed?: boolean;
+}
+
+/**
+ * Whether stored insights have the structured shape, rather than an older plain-text reply
+ */
+export function isPersonalityInsights(insights: StoredInsights | null | undefined): insights is PersonalityInsights {
+  return !!insights && "individualProfiles" in insights && Array.isArray(insights.individualProfiles);
+}
+
+/**
+ * The per-person profiles of an analysis; none for older plain-text analyses
+ */
+export function getIndividualProfiles(insights: StoredInsights | null | undefined): ProfileView[] {
+  return isPersonalityInsights(insights) ? insights.individualProfiles : [];
+}
+
+export function getPeopleCount(insights: StoredInsights | null | undefined): number {
+  return isPersonalityInsights(insights) ? insights.peopleCount || 1 : 1;
+}
+
+/**
+ * The profile a single-person analysis is shown with. Analyses without profiles fall
+ * back to their overall detailed analysis, and older plain-text ones to their reply.
+ */
+export function getPrimaryProfile(insights: StoredInsights | null | undefined): ProfileView {
+  const [profile] = getIndividualProfiles(insights);
+  if (profile) {
+    return profile;
+  }
+  if (isPersonalityInsights(insights)) {
+    return { detailed_analysis: insights.detailed_analysis };
+  }
+  return insights ? { summary: insights.analysis } : {};
+}
@@ -1,28 +1,33 @@
 import { pgTable, text, serial, integer, boolean, json, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { storedInsightsSchema, sceneContextSchema, prosodySchema, type StoredInsights, type SceneContext, type Prosody } from "./insights";
 
 export const analyses = pgTable("analyses", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull(),
   // Title for display in history panel
   title: text("title").notNull().default("Untitled Analysis"),
-  // Store the URL of the media (image, video, document, text)
+  // Store the URL of the media (image, video, audio, document, text)
   mediaUrl: text("media_url").notNull(),
   // Indicate the type of content being analyzed
-  mediaType: text("media_type", { enum: ["image", "video", "document", "text"] }).notNull(),
+  mediaType: text("media_type", { enum: ["image", "video", "audio", "document", "text"] }).notNull(),
   // Store the face analysis data from AWS Rekognition and other services
   faceAnalysis: json("face_analysis"),
   // For videos, store additional analysis data
   videoAnalysis: json("video_analysis"),
-  // For videos, store audio transcription
+  // For videos and audio, store audio transcription
   audioTranscription: json("audio_transcription"),
+  // For videos and audio, pitch, loudness, speaking rate and pauses measured from the audio
+  prosody: json("prosody").$type<Prosody>(),
+  // For images, the setting, objects, visible text and clothing/props around the people
+  sceneContext: json("scene_context").$type<SceneContext>(),
   // For documents or text, store content analysis
   documentAnalysis: json("document_analysis"),
   // For text uploads, store the original text
   textContent: text("text_content"),
   // Store the comprehensive insights - for all analysis types
-  personalityInsights: json("personality_insights").notNull(),
+  personalityInsights: json("personality_insights").$type<StoredInsights>().notNull(),
   // For image/video: number of people detected, for documents: relevant entities
   peopleCount: integer("people_count").default(1),
   // LLM model used for analysis
@@ -63,7 +68,11 @@ export const sessions = pgTable("sessions", {
   lastActiveAt: timestamp("last_active_at").defaultNow(),
 });
 
-export const insertAnalysisSchema = createInsertSchema(analyses).omit({
+export const insertAnalysisSchema = createInsertSchema(analyses, {
+  personalityInsights: storedInsightsSchema,
+  sceneContext: sceneContextSchema.nullish(),
+  prosody: prosodySchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
   hasDownloaded: true,
@@ -96,10 +105,19 @@ export type InsertShare = z.infer<typeof insertShareSchema>;
 export type Session = typeof sessions.$inferSelect;
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 
+// Photos, videos and audio are uploaded first (/api/uploads) and referenced by mediaId,
+// or sent inline as a base64 data URL in mediaData; exactly one of the two is required
+const mediaReferenceFields = {
+  mediaData: z.string().optional(),
+  mediaId: z.string().optional(),
+};
+const hasOneMediaReference = (data: { mediaData?: string; mediaId?: string }) => !!data.mediaData !== !!data.mediaId;
+const mediaReferenceError = { message: "Send either mediaId or mediaData", path: ["mediaId"] };
+
 // Schema for validating media uploads
 export const uploadMediaSchema = z.object({
-  mediaData: z.string(),
-  mediaType: z.enum(["image", "video", "document", "text"]),
+  ...mediaReferenceFields,
+  mediaType: z.enum(["image", "video", "audio", "document", "text"]),
   sessionId: z.string(),
   maxPeople: z.number().min(1).max(5).optional().default(5), // Optional parameter to limit people count for image/video
   selectedModel: z.enum(["deepseek", "openai", "anthropic", "perplexity"]).optional().default("anthropic"), // Model selection
@@ -107,6 +125,38 @@ export const uploadMediaSchema = z.object({
   title: z.string().optional(), // For naming the analysis in history
   videoSegmentStart: z.number().min(0).optional().default(0), // For video segment selection (start time in seconds)
   videoSegmentDuration: z.number().min(1).max(3).optional().default(3), // For video segment selection (duration in seconds)
+  videoMode: z.enum(["segment", "full"]).optional().default("segment"), // "full" samples frames across the whole clip instead of one segment
+  detectionId: z.string().optional(), // Photos: reuse the faces found by /api/analyze/detect instead of detecting again
+  people: z.array(z.object({
+    personIndex: z.number().int().min(1),
+    name: z.string().trim().max(60).optional(), // A name or role, like "Interviewer"
+  })).optional(), // Photos: which detected people to analyze, required with detectionId
+}).refine(hasOneMediaReference, mediaReferenceError);
+
+// Schema for the first step of a photo analysis: find the faces for the user to choose from
+export const detectFacesSchema = z.object({
+  ...mediaReferenceFields,
+  sessionId: z.string(),
+  maxPeople: z.number().min(1).max(5).optional().default(5),
+}).refine(hasOneMediaReference, mediaReferenceError);
+
+// Schema for building the thumbnail and waveform timeline of an uploaded video
+export const videoTimelineSchema = z.object({
+  ...mediaReferenceFields,
+  sessionId: z.string(),
+}).refine(hasOneMediaReference, mediaReferenceError);
+
+// Schema for the form fields sent with a multipart media upload
+export const uploadFileSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+// Schema for starting a resumable upload, whose chunks follow as separate requests
+export const startUploadSchema = z.object({
+  sessionId: z.string().min(1),
+  fileName: z.string().max(255),
+  mimeType: z.string().regex(/^[\w.+-]+\/[\w.+-]+$/),
+  size: z.number().int().positive(),
 });
 
 // Schema for getting shared analysis
@@ -141,6 +191,35 @@ export const sessionSchema = z.object({
 // Schema for downloading analysis
 export const downloadAnalysisSchema = z.object({
   analysisId: z.number(),
-  format: z.enum(["json", "pdf", "txt", "docx"]).default("pdf"),
+  format: z.enum(["json", "pdf", "txt", "docx", "srt", "vtt", "transcript"]).default("pdf"),
   includeCharts: z.boolean().default(true),
+});
+
+// A bare date as the upper bound covers the whole of that day, not just its first instant
+function endOfDay(value: unknown) {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(Date.parse(value) + 24 * 60 * 60 * 1000 - 1)
+    : value;
+}
+
+// Schema for listing a session's analyses (query string values arrive as strings)
+export const listAnalysesSchema = z.object({
+  sessionId: z.string().min(1),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).optional().default(20),
+  mediaType: z.enum(["image", "video", "audio", "document", "text"]).optional(),
+  modelUsed: z.enum(["deepseek", "openai", "anthropic", "perplexity"]).optional(),
+  from: z.coerce.date().optional(), // Only analyses created on or after this date
+  to: z.preprocess(endOfDay, z.coerce.date()).optional(), // Only analyses created on or before this date
+});
+
+export type ListAnalysesQuery = z.infer<typeof listAnalysesSchema>;
+
+// An analysis as the history list shows it, without its media
+export type AnalysisListItem = Omit<Analysis, "mediaUrl">;
+
+// Schema for renaming an analysis
+export const updateAnalysisTitleSchema = z.object({
+  sessionId: z.string().min(1), // Only the session that owns the analysis can rename it
+  title: z.string().trim().min(1).max(200),
 });
\ No newline at end of file
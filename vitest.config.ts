@@ -0,0 +1,24 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+import os from "os";
+
+// Server and shared code tests; the client isn't tested
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Route tests run offline against in-memory storage and the fixture-backed fake providers
+    env: {
+      DATABASE_URL: "",
+      LLM_FAKE_PROVIDER: "true",
+      FACE_FAKE_PROVIDERS: "true",
+      TRANSCRIPTION_FAKE_PROVIDERS: "true",
+      UPLOAD_DIR: path.join(os.tmpdir(), "media-uploads-test"),
+    },
+  },
+});